@@ -0,0 +1,53 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+// ============================================================================
+// MUTATIONS - Archive raw market inputs
+// ============================================================================
+
+/**
+ * Save the raw market input archive for a snapshot
+ * Replaces any existing archive for the same snapshot
+ */
+export const saveMarketInputArchive = mutation({
+  args: {
+    snapshotId: v.id("weeklySnapshots"),
+    date: v.string(),      // "YYYY-MM-DD"
+    timestamp: v.string(),
+    encoding: v.string(),
+    formatVersion: v.number(),
+    sizeBytes: v.number(),
+    data: v.bytes(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("marketInputArchives")
+      .withIndex("by_snapshot", (q) => q.eq("snapshotId", args.snapshotId))
+      .collect();
+
+    for (const archive of existing) {
+      await ctx.db.delete(archive._id);
+    }
+
+    return await ctx.db.insert("marketInputArchives", args);
+  },
+});
+
+// ============================================================================
+// QUERIES - Read archives
+// ============================================================================
+
+/**
+ * Get the archive for a snapshot (null if it predates archiving)
+ */
+export const getMarketInputArchive = query({
+  args: {
+    snapshotId: v.id("weeklySnapshots"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("marketInputArchives")
+      .withIndex("by_snapshot", (q) => q.eq("snapshotId", args.snapshotId))
+      .first();
+  },
+});
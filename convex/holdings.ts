@@ -0,0 +1,80 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+// ============================================================================
+// MUTATIONS - Record executed trades
+// ============================================================================
+
+/**
+ * Record a single executed transaction
+ * Returns the transaction ID
+ */
+export const addTransaction = mutation({
+  args: {
+    symbol: v.string(),
+    date: v.string(),      // "YYYY-MM-DD"
+    side: v.string(),      // "BUY" | "SELL"
+    units: v.number(),
+    price: v.number(),
+    fees: v.number(),
+    snapshotId: v.optional(v.id("weeklySnapshots")),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const transactionId = await ctx.db.insert("transactions", {
+      ...args,
+      createdAt: new Date().toISOString(),
+    });
+    return transactionId;
+  },
+});
+
+// ============================================================================
+// QUERIES - Read the ledger
+// ============================================================================
+
+/**
+ * Get transactions, newest trade date first
+ * Optionally filtered to a single symbol
+ */
+export const getTransactions = query({
+  args: {
+    symbol: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 100;
+
+    if (args.symbol) {
+      const symbol = args.symbol;
+      const transactions = await ctx.db
+        .query("transactions")
+        .withIndex("by_symbol", (q) => q.eq("symbol", symbol))
+        .collect();
+      return transactions
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, limit);
+    }
+
+    return await ctx.db
+      .query("transactions")
+      .withIndex("by_date")
+      .order("desc")
+      .take(limit);
+  },
+});
+
+/**
+ * Get the full ledger in trade date order (oldest first)
+ * Used to derive positions
+ */
+export const getAllTransactions = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db
+      .query("transactions")
+      .withIndex("by_date")
+      .order("asc")
+      .collect();
+  },
+});
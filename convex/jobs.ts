@@ -0,0 +1,96 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+const jobStage = v.object({
+  stage: v.string(),                         // "fetch" | "scoring" | "save" | "email"
+  status: v.string(),                        // "ok" | "failed" | "skipped"
+  startedAt: v.union(v.string(), v.null()),
+  durationMs: v.union(v.number(), v.null()),
+  detail: v.union(v.string(), v.null()),
+  error: v.union(v.string(), v.null()),
+});
+
+const jobDataSources = v.object({
+  marketData: v.string(),
+  vix: v.string(),
+  fearGreedAvailable: v.boolean(),
+  indicators: v.string(),
+  stocks: v.array(v.object({
+    symbol: v.string(),
+    quote: v.string(),
+    history: v.string(),
+  })),
+});
+
+// ============================================================================
+// MUTATIONS - Record job runs
+// ============================================================================
+
+/**
+ * Save a job run
+ * Saved once when the run starts and again when it finishes; the second
+ * save replaces the first (same runId)
+ */
+export const saveJobRun = mutation({
+  args: {
+    runId: v.string(),
+    trigger: v.string(),   // "cron" | "manual" | "api"
+    status: v.string(),    // "running" | "success" | "partial" | "failed"
+    startedAt: v.string(),
+    finishedAt: v.union(v.string(), v.null()),
+    durationMs: v.union(v.number(), v.null()),
+    stages: v.array(jobStage),
+    errors: v.array(v.string()),
+    dataSources: v.union(jobDataSources, v.null()),
+    snapshotId: v.union(v.id("weeklySnapshots"), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("jobRuns")
+      .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+      .first();
+
+    if (existing) {
+      await ctx.db.replace(existing._id, args);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("jobRuns", args);
+  },
+});
+
+// ============================================================================
+// QUERIES - Read job runs
+// ============================================================================
+
+/**
+ * Get recent job runs, newest first
+ */
+export const getJobRuns = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 20;
+    return await ctx.db
+      .query("jobRuns")
+      .withIndex("by_startedAt")
+      .order("desc")
+      .take(limit);
+  },
+});
+
+/**
+ * Get a job run by its runId
+ */
+export const getJobRun = query({
+  args: {
+    runId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("jobRuns")
+      .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+      .first();
+  },
+});
@@ -0,0 +1,63 @@
+import { mutation } from "./_generated/server";
+
+// ============================================================================
+// MIGRATIONS - Run once after deploying a schema change
+// `pnpm exec convex run migrations:<name>`
+// ============================================================================
+
+/**
+ * Fill the full CSS breakdown fields on stock analyses saved before they
+ * were stored. The breakdown cannot be recovered, so the new fields are
+ * set to null, and so are previousClose/changePercent, which older rows
+ * filled with placeholders (price, 0). Safe to run more than once.
+ */
+export const backfillStockAnalysisBreakdown = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const analyses = await ctx.db.query("stockAnalyses").collect();
+
+    let migrated = 0;
+    for (const analysis of analyses) {
+      if (analysis.ma50SlopeBonus !== undefined) continue;
+
+      await ctx.db.patch(analysis._id, {
+        previousClose: null,
+        changePercent: null,
+        ma50Slope: null,
+        cssMultiplier: null,
+        ma50SlopeBonus: null,
+        ma50ScoreAdjusted: null,
+        weightsAdjusted: null,
+        strength: null,
+        quoteSource: null,
+        historySource: null,
+        indicatorSource: null,
+      });
+      migrated++;
+    }
+
+    return { migrated };
+  },
+});
+
+/**
+ * Mark snapshots saved before revisions existed as revision 1 and
+ * official; each was the only snapshot kept for its date. Safe to run
+ * more than once.
+ */
+export const backfillSnapshotRevisions = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const snapshots = await ctx.db.query("weeklySnapshots").collect();
+
+    let migrated = 0;
+    for (const snapshot of snapshots) {
+      if (snapshot.revision !== undefined) continue;
+
+      await ctx.db.patch(snapshot._id, { revision: 1, isOfficial: true });
+      migrated++;
+    }
+
+    return { migrated };
+  },
+});
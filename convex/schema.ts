@@ -4,9 +4,13 @@ import { v } from "convex/values";
 /**
  * Convex Database Schema for SIP-Reminder
  * 
- * Two main tables:
- * - weeklySnapshots: Main analysis record per week
+ * Tables:
+ * - weeklySnapshots: Main analysis record per run (revisions per date)
  * - stockAnalyses: Per-stock details linked to snapshots
+ * - transactions: Holdings ledger of what was actually bought/sold
+ * - shadowEvaluations: Shadow strategy results scored alongside live runs
+ * - marketInputArchives: Gzipped raw market inputs per snapshot (for recompute)
+ * - jobRuns: Analysis job runs with per-stage outcomes and errors
  */
 export default defineSchema({
   /**
@@ -15,9 +19,15 @@ export default defineSchema({
    */
   weeklySnapshots: defineTable({
     // Date & Timestamp
-    date: v.string(),      // "YYYY-MM-DD" - one record per day
+    date: v.string(),      // "YYYY-MM-DD" - one or more revisions per day
     timestamp: v.string(), // Full ISO string
 
+    // Revision (absent on older rows, which were the only one for their date)
+    runId: v.optional(v.string()),
+    trigger: v.optional(v.string()),      // "cron" | "manual" | "api"
+    revision: v.optional(v.number()),     // 1, 2, ... per date in save order
+    isOfficial: v.optional(v.boolean()),  // The revision acted on for its date
+
     // Market Conditions
     vix: v.number(),
     fearGreedIndex: v.optional(v.number()),
@@ -32,13 +42,36 @@ export default defineSchema({
     baseBudget: v.number(),       // Base weekly budget ($250)
     minBudget: v.number(),        // Minimum allowed ($125)
     maxBudget: v.number(),        // Maximum allowed ($300)
+    riskTolerance: v.optional(v.string()), // "conservative" | "moderate" | "aggressive" (absent on older rows)
+    strategyId: v.optional(v.string()),      // Strategy definition id, e.g. "CSS"
+    strategyVersion: v.optional(v.string()), // Strategy definition version, e.g. "4.3"
     
     // Market Assessment
     marketCondition: v.string(),  // "BULLISH" | "BEARISH" | "NEUTRAL"
     
     // Data Source Status
-    marketDataSource: v.string(), // "yahoo-finance2" | "axios-fallback"
+    marketDataSource: v.string(), // "yahoo-finance2" | "axios-fallback" | "csv" | "stooq" | "simulated"
     indicatorSource: v.string(),  // "technicalindicators" | "custom-fallback"
+
+    // Data Quality Gate (absent on older rows)
+    dataQualityStatus: v.optional(v.string()),        // "ok" | "neutralized" | "blocked"
+    simulatedSymbols: v.optional(v.array(v.string())), // Held at 1.0x (simulated quote or history)
+    staleSymbols: v.optional(v.array(v.string())),     // Held at 1.0x (cached history too old)
+    simulatedFraction: v.optional(v.number()),         // Share of symbols simulated (0-1)
+
+    // NYSE calendar (absent on older rows)
+    lastSessionDate: v.optional(v.string()),          // Session whose close the prices are from
+    missedSessions: v.optional(v.array(v.string())),  // Holiday dates since then (older prices than usual)
+
+    // Provider request stats for the run (absent on older rows)
+    requestStats: v.optional(v.array(v.object({
+      provider: v.string(),       // ProviderDataSource
+      requests: v.number(),
+      retries: v.number(),
+      failures: v.number(),
+      avgLatencyMs: v.number(),   // Includes retry backoff
+      maxLatencyMs: v.number(),
+    }))),
     
     // Recommendations (stored as JSON string)
     recommendations: v.array(v.string()),
@@ -57,8 +90,9 @@ export default defineSchema({
     
     // Price Data
     price: v.number(),
-    previousClose: v.number(),
-    changePercent: v.number(),
+    priceAsOf: v.optional(v.string()), // Exchange time of the price, ISO (absent on older rows)
+    previousClose: v.union(v.number(), v.null()), // Quote's previous close (null on migrated older rows)
+    changePercent: v.union(v.number(), v.null()), // Quote's change % (null on migrated older rows)
     
     // Technical Indicators
     rsi: v.number(),
@@ -67,17 +101,23 @@ export default defineSchema({
     bbWidth: v.number(),
     atr: v.number(),
     ma50Deviation: v.number(),    // Price vs MA50 deviation %
+    ma50Slope: v.optional(v.union(v.number(), v.null())),
     
     // CSS Scoring
     cssScore: v.number(),
-    multiplier: v.number(),
+    cssMultiplier: v.optional(v.union(v.number(), v.null())), // CSS-mapped multiplier before confidence blending
+    multiplier: v.number(),       // Applied multiplier
+    confidence: v.optional(v.number()), // Data confidence (0-1) the multiplier was blended by (absent on older rows)
     
     // CSS Breakdown (individual scores)
     vixScore: v.number(),
     rsiScore: v.number(),
     bbWidthScore: v.number(),
-    ma50Score: v.number(),
+    ma50Score: v.number(),        // Before slope bonus
+    ma50SlopeBonus: v.optional(v.union(v.number(), v.null())),
+    ma50ScoreAdjusted: v.optional(v.union(v.number(), v.null())), // After slope bonus
     fearGreedScore: v.optional(v.number()),
+    weightsAdjusted: v.optional(v.union(v.boolean(), v.null())),  // F&G weight redistributed
     
     // Allocation
     baseAllocationPercent: v.number(),
@@ -86,9 +126,128 @@ export default defineSchema({
     
     // Signal
     signal: v.string(),           // "BUY" | "HOLD"
+    strength: v.optional(v.union(v.number(), v.null())), // Signal strength (0-100)
     reasoning: v.string(),
+
+    // Data sources (null on migrated older rows)
+    quoteSource: v.optional(v.union(v.string(), v.null())),
+    historySource: v.optional(v.union(v.string(), v.null())),
+    indicatorSource: v.optional(v.union(v.string(), v.null())),
   })
     .index("by_snapshot", ["snapshotId"])
     .index("by_symbol", ["symbol"])
     .index("by_symbol_timestamp", ["symbol", "snapshotId"]),
+
+  /**
+   * Holdings ledger
+   * One row per executed trade; positions are derived from these
+   */
+  transactions: defineTable({
+    symbol: v.string(),
+    date: v.string(),             // "YYYY-MM-DD" trade date
+    side: v.string(),             // "BUY" | "SELL"
+    units: v.number(),            // Always positive; side gives direction
+    price: v.number(),            // Price per unit
+    fees: v.number(),             // Brokerage/FX fees for this trade
+    
+    // Optional link to the recommendation this trade executed
+    snapshotId: v.optional(v.id("weeklySnapshots")),
+    note: v.optional(v.string()),
+    createdAt: v.string(),        // Full ISO string
+  })
+    .index("by_symbol", ["symbol"])
+    .index("by_date", ["date"])
+    .index("by_snapshot", ["snapshotId"]),
+
+  /**
+   * Shadow strategy evaluations
+   * One row per run date and shadow strategy version, scored on the same
+   * inputs as the live snapshot; never acted on
+   */
+  shadowEvaluations: defineTable({
+    date: v.string(),             // "YYYY-MM-DD" of the live run
+    timestamp: v.string(),        // Full ISO string of the live run
+    strategyId: v.string(),
+    strategyVersion: v.string(),
+    riskTolerance: v.string(),
+    liveStrategyId: v.string(),
+    liveStrategyVersion: v.string(),
+    totalAmount: v.number(),      // Shadow total
+    liveTotalAmount: v.number(),  // Live total from the same run
+    marketCSS: v.number(),
+
+    // Per-symbol shadow vs live
+    allocations: v.array(
+      v.object({
+        symbol: v.string(),
+        cssScore: v.number(),
+        multiplier: v.number(),
+        amount: v.number(),
+        liveCssScore: v.union(v.number(), v.null()),
+        liveAmount: v.union(v.number(), v.null()),
+      })
+    ),
+  })
+    .index("by_date", ["date"])
+    .index("by_timestamp", ["timestamp"])
+    .index("by_strategy_date", ["strategyId", "strategyVersion", "date"]),
+
+  /**
+   * Raw market inputs behind a snapshot
+   * Gzipped JSON of quotes, price series, VIX and F&G plus the strategy
+   * definition used, so the snapshot can be recomputed exactly
+   */
+  marketInputArchives: defineTable({
+    snapshotId: v.id("weeklySnapshots"),
+    date: v.string(),             // "YYYY-MM-DD"
+    timestamp: v.string(),        // Full ISO string of the run
+    encoding: v.string(),         // "gzip+json"
+    formatVersion: v.number(),
+    sizeBytes: v.number(),        // Compressed size
+    data: v.bytes(),
+  })
+    .index("by_snapshot", ["snapshotId"])
+    .index("by_date", ["date"]),
+
+  /**
+   * Analysis job runs
+   * One row per run (cron or POST /api/analyze), saved when it starts
+   * and replaced when it finishes
+   */
+  jobRuns: defineTable({
+    runId: v.string(),            // Also the runId of the snapshot it saved
+    trigger: v.string(),          // "cron" | "manual" | "api"
+    status: v.string(),           // "running" | "success" | "partial" | "failed"
+    startedAt: v.string(),        // Full ISO string
+    finishedAt: v.union(v.string(), v.null()),
+    durationMs: v.union(v.number(), v.null()),
+
+    // Per-stage outcomes, in run order
+    stages: v.array(v.object({
+      stage: v.string(),          // "fetch" | "scoring" | "save" | "email"
+      status: v.string(),         // "ok" | "failed" | "skipped"
+      startedAt: v.union(v.string(), v.null()),
+      durationMs: v.union(v.number(), v.null()),
+      detail: v.union(v.string(), v.null()),
+      error: v.union(v.string(), v.null()),
+    })),
+    errors: v.array(v.string()),  // "<stage>: <message>"
+
+    // Data sources used (null if the fetch failed)
+    dataSources: v.union(v.object({
+      marketData: v.string(),     // Least trustworthy quote source
+      vix: v.string(),
+      fearGreedAvailable: v.boolean(),
+      indicators: v.string(),
+      stocks: v.array(v.object({
+        symbol: v.string(),
+        quote: v.string(),
+        history: v.string(),
+      })),
+    }), v.null()),
+
+    snapshotId: v.union(v.id("weeklySnapshots"), v.null()),
+  })
+    .index("by_runId", ["runId"])
+    .index("by_startedAt", ["startedAt"]),
 });
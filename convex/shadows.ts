@@ -0,0 +1,83 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+const shadowAllocation = v.object({
+  symbol: v.string(),
+  cssScore: v.number(),
+  multiplier: v.number(),
+  amount: v.number(),
+  liveCssScore: v.union(v.number(), v.null()),
+  liveAmount: v.union(v.number(), v.null()),
+});
+
+// ============================================================================
+// MUTATIONS - Save shadow strategy results
+// ============================================================================
+
+/**
+ * Save one shadow evaluation
+ * Replaces an existing evaluation for the same date and strategy version
+ */
+export const saveShadowEvaluation = mutation({
+  args: {
+    date: v.string(),      // "YYYY-MM-DD"
+    timestamp: v.string(),
+    strategyId: v.string(),
+    strategyVersion: v.string(),
+    riskTolerance: v.string(),
+    liveStrategyId: v.string(),
+    liveStrategyVersion: v.string(),
+    totalAmount: v.number(),
+    liveTotalAmount: v.number(),
+    marketCSS: v.number(),
+    allocations: v.array(shadowAllocation),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("shadowEvaluations")
+      .withIndex("by_strategy_date", (q) =>
+        q.eq("strategyId", args.strategyId)
+          .eq("strategyVersion", args.strategyVersion)
+          .eq("date", args.date)
+      )
+      .collect();
+
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    return await ctx.db.insert("shadowEvaluations", args);
+  },
+});
+
+// ============================================================================
+// QUERIES - Read shadow strategy results
+// ============================================================================
+
+/**
+ * Get shadow evaluations within a date range, oldest first
+ * Optionally filtered to a single strategy id
+ */
+export const getShadowEvaluationsByDateRange = query({
+  args: {
+    startDate: v.string(), // ISO string
+    endDate: v.string(),   // ISO string
+    strategyId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const evaluations = await ctx.db
+      .query("shadowEvaluations")
+      .withIndex("by_timestamp")
+      .filter((q) =>
+        q.and(
+          q.gte(q.field("timestamp"), args.startDate),
+          q.lte(q.field("timestamp"), args.endDate)
+        )
+      )
+      .collect();
+
+    return args.strategyId
+      ? evaluations.filter((e) => e.strategyId === args.strategyId)
+      : evaluations;
+  },
+});
@@ -5,100 +5,144 @@ import { v } from "convex/values";
 // MUTATIONS - Save data to database
 // ============================================================================
 
-/**
- * Save a weekly analysis snapshot
- * Returns the snapshot ID for linking stock analyses
- */
-export const saveWeeklySnapshot = mutation({
-  args: {
-    date: v.string(),      // "YYYY-MM-DD" - for deduplication
-    timestamp: v.string(),
-    vix: v.number(),
-    fearGreedIndex: v.optional(v.number()),
-    fearGreedLabel: v.optional(v.string()),
-    fearGreedFailed: v.boolean(),
-    marketCSS: v.number(),
-    totalAmount: v.number(),
-    baseBudget: v.number(),
-    minBudget: v.number(),
-    maxBudget: v.number(),
-    marketCondition: v.string(),
-    marketDataSource: v.string(),
-    indicatorSource: v.string(),
-    recommendations: v.array(v.string()),
-  },
-  handler: async (ctx, args) => {
-    const snapshotId = await ctx.db.insert("weeklySnapshots", args);
-    return snapshotId;
-  },
-});
+// Snapshot fields as sent by the server (revision and isOfficial are assigned here)
+const snapshotFields = {
+  date: v.string(),      // "YYYY-MM-DD"
+  timestamp: v.string(),
+  runId: v.optional(v.string()),
+  trigger: v.optional(v.string()),
+  vix: v.number(),
+  fearGreedIndex: v.optional(v.number()),
+  fearGreedLabel: v.optional(v.string()),
+  fearGreedFailed: v.boolean(),
+  marketCSS: v.number(),
+  totalAmount: v.number(),
+  baseBudget: v.number(),
+  minBudget: v.number(),
+  maxBudget: v.number(),
+  riskTolerance: v.optional(v.string()),
+  strategyId: v.optional(v.string()),
+  strategyVersion: v.optional(v.string()),
+  marketCondition: v.string(),
+  marketDataSource: v.string(),
+  indicatorSource: v.string(),
+  dataQualityStatus: v.optional(v.string()),
+  simulatedSymbols: v.optional(v.array(v.string())),
+  staleSymbols: v.optional(v.array(v.string())),
+  simulatedFraction: v.optional(v.number()),
+  lastSessionDate: v.optional(v.string()),
+  missedSessions: v.optional(v.array(v.string())),
+  requestStats: v.optional(v.array(v.object({
+    provider: v.string(),
+    requests: v.number(),
+    retries: v.number(),
+    failures: v.number(),
+    avgLatencyMs: v.number(),
+    maxLatencyMs: v.number(),
+  }))),
+  recommendations: v.array(v.string()),
+};
+
+// Per-stock analysis fields (snapshotId is set when the snapshot is inserted)
+const stockAnalysisFields = {
+  symbol: v.string(),
+  price: v.number(),
+  priceAsOf: v.optional(v.string()),
+  previousClose: v.union(v.number(), v.null()),
+  changePercent: v.union(v.number(), v.null()),
+  rsi: v.number(),
+  ma20: v.number(),
+  ma50: v.number(),
+  bbWidth: v.number(),
+  atr: v.number(),
+  ma50Deviation: v.number(),
+  ma50Slope: v.union(v.number(), v.null()),
+  cssScore: v.number(),
+  cssMultiplier: v.union(v.number(), v.null()),
+  multiplier: v.number(),
+  confidence: v.optional(v.number()),
+  vixScore: v.number(),
+  rsiScore: v.number(),
+  bbWidthScore: v.number(),
+  ma50Score: v.number(),
+  ma50SlopeBonus: v.union(v.number(), v.null()),
+  ma50ScoreAdjusted: v.union(v.number(), v.null()),
+  fearGreedScore: v.optional(v.number()),
+  weightsAdjusted: v.union(v.boolean(), v.null()),
+  baseAllocationPercent: v.number(),
+  baseAmount: v.number(),
+  finalAmount: v.number(),
+  signal: v.string(),
+  strength: v.union(v.number(), v.null()),
+  quoteSource: v.union(v.string(), v.null()),
+  historySource: v.union(v.string(), v.null()),
+  indicatorSource: v.union(v.string(), v.null()),
+  reasoning: v.string(),
+};
 
 /**
- * Delete a snapshot and all its associated stock analyses
- * Used when replacing an existing snapshot for the same date
+ * Save a weekly analysis snapshot as the next revision of its date,
+ * with its stock analyses
+ * One mutation (one transaction): the revision is the date's latest + 1,
+ * and the new revision is official (unmarking the others) if takeOfficial
+ * is set or the date has no official revision yet
  */
-export const deleteSnapshot = mutation({
+export const saveSnapshotRevision = mutation({
   args: {
-    snapshotId: v.id("weeklySnapshots"),
+    snapshot: v.object(snapshotFields),
+    analyses: v.array(v.object(stockAnalysisFields)),
+    takeOfficial: v.boolean(),
   },
   handler: async (ctx, args) => {
-    // First, delete all associated stock analyses
-    const stockAnalyses = await ctx.db
-      .query("stockAnalyses")
-      .withIndex("by_snapshot", (q) => q.eq("snapshotId", args.snapshotId))
+    const revisions = await ctx.db
+      .query("weeklySnapshots")
+      .withIndex("by_date", (q) => q.eq("date", args.snapshot.date))
       .collect();
 
-    for (const analysis of stockAnalyses) {
-      await ctx.db.delete(analysis._id);
+    const revision = revisions.reduce((max, s) => Math.max(max, s.revision ?? 1), 0) + 1;
+    // Older rows without isOfficial were the only revision of their date
+    const official = revisions.filter((s) => s.isOfficial !== false);
+    const isOfficial = args.takeOfficial || official.length === 0;
+
+    if (isOfficial) {
+      for (const previous of official) {
+        await ctx.db.patch(previous._id, { isOfficial: false });
+      }
     }
 
-    // Then delete the snapshot itself
-    await ctx.db.delete(args.snapshotId);
+    const snapshotId = await ctx.db.insert("weeklySnapshots", { ...args.snapshot, revision, isOfficial });
+    for (const analysis of args.analyses) {
+      await ctx.db.insert("stockAnalyses", { snapshotId, ...analysis });
+    }
 
-    return { deletedStockAnalyses: stockAnalyses.length };
+    return { snapshotId, revision, isOfficial };
   },
 });
 
 /**
- * Save stock analyses for a snapshot (batch insert)
+ * Make a revision the official one for its date
+ * Every other revision of the same date is unmarked
  */
-export const saveStockAnalyses = mutation({
+export const setOfficialRevision = mutation({
   args: {
-    analyses: v.array(
-      v.object({
-        snapshotId: v.id("weeklySnapshots"),
-        symbol: v.string(),
-        price: v.number(),
-        previousClose: v.number(),
-        changePercent: v.number(),
-        rsi: v.number(),
-        ma20: v.number(),
-        ma50: v.number(),
-        bbWidth: v.number(),
-        atr: v.number(),
-        ma50Deviation: v.number(),
-        cssScore: v.number(),
-        multiplier: v.number(),
-        vixScore: v.number(),
-        rsiScore: v.number(),
-        bbWidthScore: v.number(),
-        ma50Score: v.number(),
-        fearGreedScore: v.optional(v.number()),
-        baseAllocationPercent: v.number(),
-        baseAmount: v.number(),
-        finalAmount: v.number(),
-        signal: v.string(),
-        reasoning: v.string(),
-      })
-    ),
+    snapshotId: v.id("weeklySnapshots"),
   },
   handler: async (ctx, args) => {
-    const insertedIds: string[] = [];
-    for (const analysis of args.analyses) {
-      const id = await ctx.db.insert("stockAnalyses", analysis);
-      insertedIds.push(id);
+    const snapshot = await ctx.db.get(args.snapshotId);
+    if (!snapshot) {
+      return null;
+    }
+
+    const revisions = await ctx.db
+      .query("weeklySnapshots")
+      .withIndex("by_date", (q) => q.eq("date", snapshot.date))
+      .collect();
+
+    for (const revision of revisions) {
+      await ctx.db.patch(revision._id, { isOfficial: revision._id === args.snapshotId });
     }
-    return insertedIds;
+
+    return await ctx.db.get(args.snapshotId);
   },
 });
 
@@ -107,7 +151,8 @@ export const saveStockAnalyses = mutation({
 // ============================================================================
 
 /**
- * Get recent snapshots with pagination
+ * Get recent official snapshots with pagination
+ * Older rows without isOfficial were the only revision of their date
  */
 export const getRecentSnapshots = query({
   args: {
@@ -118,6 +163,7 @@ export const getRecentSnapshots = query({
     const snapshots = await ctx.db
       .query("weeklySnapshots")
       .order("desc")
+      .filter((q) => q.neq(q.field("isOfficial"), false))
       .take(limit);
     return snapshots;
   },
@@ -146,7 +192,7 @@ export const getSnapshotWithStocks = query({
 });
 
 /**
- * Get all analyses for a specific stock symbol
+ * Get analyses for a specific stock symbol from official snapshots
  */
 export const getStockHistory = query({
   args: {
@@ -155,32 +201,33 @@ export const getStockHistory = query({
   },
   handler: async (ctx, args) => {
     const limit = args.limit ?? 52; // Default to ~1 year of weekly data
-    
-    const analyses = await ctx.db
+
+    const analyses = ctx.db
       .query("stockAnalyses")
       .withIndex("by_symbol", (q) => q.eq("symbol", args.symbol))
-      .order("desc")
-      .take(limit);
+      .order("desc");
 
-    // Fetch corresponding snapshots for context
-    const enrichedAnalyses = await Promise.all(
-      analyses.map(async (analysis) => {
-        const snapshot = await ctx.db.get(analysis.snapshotId);
-        return {
-          ...analysis,
-          snapshotTimestamp: snapshot?.timestamp,
-          snapshotVix: snapshot?.vix,
-          snapshotMarketCondition: snapshot?.marketCondition,
-        };
-      })
-    );
+    // Attach the snapshot for context, skipping unofficial revisions
+    const enrichedAnalyses = [];
+    for await (const analysis of analyses) {
+      const snapshot = await ctx.db.get(analysis.snapshotId);
+      if (!snapshot || snapshot.isOfficial === false) continue;
+
+      enrichedAnalyses.push({
+        ...analysis,
+        snapshotTimestamp: snapshot.timestamp,
+        snapshotVix: snapshot.vix,
+        snapshotMarketCondition: snapshot.marketCondition,
+      });
+      if (enrichedAnalyses.length >= limit) break;
+    }
 
     return enrichedAnalyses;
   },
 });
 
 /**
- * Get snapshots by date range
+ * Get official snapshots by date range
  */
 export const getSnapshotsByDateRange = query({
   args: {
@@ -194,7 +241,8 @@ export const getSnapshotsByDateRange = query({
       .filter((q) =>
         q.and(
           q.gte(q.field("timestamp"), args.startDate),
-          q.lte(q.field("timestamp"), args.endDate)
+          q.lte(q.field("timestamp"), args.endDate),
+          q.neq(q.field("isOfficial"), false)
         )
       )
       .collect();
@@ -204,12 +252,58 @@ export const getSnapshotsByDateRange = query({
 });
 
 /**
- * Get summary statistics
+ * Get stock analyses of official snapshots joined with their date and budget
+ * Used by the flat-DCA benchmark over real history
+ */
+export const getStockAnalysesByDateRange = query({
+  args: {
+    startDate: v.string(), // ISO string
+    endDate: v.string(),   // ISO string
+  },
+  handler: async (ctx, args) => {
+    const snapshots = await ctx.db
+      .query("weeklySnapshots")
+      .withIndex("by_timestamp")
+      .filter((q) =>
+        q.and(
+          q.gte(q.field("timestamp"), args.startDate),
+          q.lte(q.field("timestamp"), args.endDate),
+          q.neq(q.field("isOfficial"), false)
+        )
+      )
+      .collect();
+
+    const rows = await Promise.all(
+      snapshots.map(async (snapshot) => {
+        const stocks = await ctx.db
+          .query("stockAnalyses")
+          .withIndex("by_snapshot", (q) => q.eq("snapshotId", snapshot._id))
+          .collect();
+
+        return stocks.map((stock) => ({
+          symbol: stock.symbol,
+          price: stock.price,
+          finalAmount: stock.finalAmount,
+          snapshotDate: snapshot.date,
+          baseBudget: snapshot.baseBudget,
+        }));
+      })
+    );
+
+    return rows.flat();
+  },
+});
+
+/**
+ * Get summary statistics over official snapshots
  */
 export const getStatistics = query({
   args: {},
   handler: async (ctx) => {
-    const allSnapshots = await ctx.db.query("weeklySnapshots").collect();
+    const allSnapshots = await ctx.db
+      .query("weeklySnapshots")
+      .filter((q) => q.neq(q.field("isOfficial"), false))
+      .collect();
     
     if (allSnapshots.length === 0) {
       return {
@@ -242,24 +336,23 @@ export const getStatistics = query({
 });
 
 /**
- * Get snapshot by date (for deduplication check)
- * Returns the snapshot if one exists for the given date, null otherwise
+ * Get every revision for a date, oldest first
  */
-export const getSnapshotByDate = query({
+export const getSnapshotRevisions = query({
   args: {
     date: v.string(), // "YYYY-MM-DD"
   },
   handler: async (ctx, args) => {
-    const snapshot = await ctx.db
+    const revisions = await ctx.db
       .query("weeklySnapshots")
       .withIndex("by_date", (q) => q.eq("date", args.date))
-      .first();
-    return snapshot;
+      .collect();
+    return revisions;
   },
 });
 
 /**
- * Get the most recent snapshot
+ * Get the most recent official snapshot
  */
 export const getLatestSnapshot = query({
   args: {},
@@ -267,6 +360,7 @@ export const getLatestSnapshot = query({
     const snapshot = await ctx.db
       .query("weeklySnapshots")
       .order("desc")
+      .filter((q) => q.neq(q.field("isOfficial"), false))
       .first();
 
     if (!snapshot) {
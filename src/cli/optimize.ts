@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { BacktestDataService } from '../services/backtestData';
+import { MarketDataService } from '../services/marketData';
+import { CSS_WEIGHT_KEYS, OptimizerService } from '../services/optimizer';
+import { OptimizationSpace } from '../types';
+import { getConfig } from '../utils/config';
+import { formatStrategyLabel, serializeStrategy } from '../utils/strategy';
+import { formatZodError } from '../utils/validation';
+
+/**
+ * Strategy optimiser CLI
+ *
+ * Grid search over CSS weights and CSS → multiplier breakpoints using the
+ * backtest engine, optionally with walk-forward validation. Writes the
+ * ranked candidates to <out>.csv and the full result (including the best
+ * candidate as a loadable strategy definition) to <out>.json.
+ *
+ * Usage:
+ *   npm run optimize -- --start 2021-01-06 --end 2024-12-31 \
+ *     --weights vix=0.1:0.3:0.05,rsi=0.2:0.4:0.05,ma50=0.1:0.3:0.05 \
+ *     --breakpoints 15:25:5,30:40:5,50,60,70:80:5 --objective excess-units --folds 3
+ *
+ * Options:
+ *   --start        First decision week (YYYY-MM-DD, required)
+ *   --end          Valuation date (YYYY-MM-DD, default today)
+ *   --stocks       Comma-separated symbols (default DEFAULT_STOCKS)
+ *   --amount       Weekly base budget (default WEEKLY_INVESTMENT_AMOUNT)
+ *   --objective    excess-units | irr (default excess-units)
+ *   --weights      key=range pairs; keys vix, rsi, bbWidth, ma50, fearGreed
+ *   --breakpoints  One range per multiplier row except the last (maxCSS)
+ *   --folds        Walk-forward folds (default 0 = in-sample only)
+ *   --out          Output path without extension (default optimize-results)
+ *   --top          Candidates to print (default 10)
+ *   --verbose      Keep per-week engine logging
+ *
+ * Ranges are a single value or min:max:step (inclusive).
+ */
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+const argsSchema = z.object({
+  start: isoDate,
+  end: isoDate.optional().default(new Date().toISOString().split('T')[0]),
+  stocks: z.string().optional(),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a number').transform(Number).optional(),
+  objective: z.enum(['excess-units', 'irr']).optional().default('excess-units'),
+  weights: z.string().optional(),
+  breakpoints: z.string().optional(),
+  folds: z.string().regex(/^\d+$/, 'Folds must be a whole number').transform(Number).optional().default(0),
+  out: z.string().optional().default('optimize-results'),
+  top: z.string().regex(/^\d+$/, 'Top must be a whole number').transform(Number).optional().default(10),
+  verbose: z.boolean().optional().default(false),
+}).refine(args => args.start < args.end, { message: 'Start date must be before end date', path: ['start'] });
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      start: { type: 'string' },
+      end: { type: 'string' },
+      stocks: { type: 'string' },
+      amount: { type: 'string' },
+      objective: { type: 'string' },
+      weights: { type: 'string' },
+      breakpoints: { type: 'string' },
+      folds: { type: 'string' },
+      out: { type: 'string' },
+      top: { type: 'string' },
+      verbose: { type: 'boolean' },
+    },
+  });
+
+  const parsed = argsSchema.safeParse(values);
+  if (!parsed.success) {
+    const errors = Object.entries(formatZodError(parsed.error))
+      .map(([field, messages]) => `  - ${field}: ${messages.join('; ')}`)
+      .join('\n');
+    throw new Error(`Invalid arguments:\n${errors}`);
+  }
+
+  const args = parsed.data;
+  const config = getConfig();
+  const optimizer = new OptimizerService();
+
+  const symbols = args.stocks
+    ? args.stocks.split(',').map(s => s.trim().toUpperCase()).filter(s => s.length > 0)
+    : config.defaultStocks;
+
+  const space: OptimizationSpace = {
+    weights: parseWeightRanges(args.weights, optimizer),
+    breakpoints: args.breakpoints ? args.breakpoints.split(',').map(spec => optimizer.parseRange(spec)) : null,
+  };
+
+  console.log(`🔬 Optimising ${formatStrategyLabel(config.strategy)} (${config.riskTolerance}) by ${args.objective}`);
+  console.log(`   ${args.start} → ${args.end} | ${symbols.join(', ')} | folds: ${args.folds}`);
+
+  const data = await new BacktestDataService(MarketDataService.fromConfig(config)).fetch(symbols, args.start, args.end);
+  const missing = symbols.filter(symbol => !data.prices[symbol]?.length);
+  if (data.vix.length === 0 || missing.length === symbols.length) {
+    throw new Error('Historical data unavailable for the requested range');
+  }
+  if (missing.length > 0) {
+    console.warn(`⚠️  No history for ${missing.join(', ')} - excluded`);
+  }
+
+  const options = {
+    startDate: args.start,
+    endDate: args.end,
+    symbols: symbols.filter(symbol => !missing.includes(symbol)),
+    weeklyInvestmentAmount: args.amount ?? config.weeklyInvestmentAmount,
+    verbose: args.verbose,
+  };
+
+  const result = optimizer.optimize(data, options, config, space, args.objective, args.folds);
+
+  const best = result.ranked[0];
+  const bestStrategy = serializeStrategy(optimizer.applyCandidate(config, best));
+
+  const outPath = path.resolve(args.out);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(`${outPath}.csv`, optimizer.toCSV(result));
+  fs.writeFileSync(`${outPath}.json`, JSON.stringify({ ...result, bestStrategy }, null, 2));
+
+  console.log(`\n✅ ${result.candidatesTested} candidates tested`);
+  console.log(`   Baseline score: ${result.baseline.score ?? 'n/a'}`);
+  for (const candidate of result.ranked.slice(0, args.top)) {
+    const weights = CSS_WEIGHT_KEYS.map(k => `${k}=${candidate.weights[k]}`).join(' ');
+    console.log(`   #${candidate.rank} score ${candidate.score ?? 'n/a'} | ${weights} | breakpoints ${candidate.breakpoints.join('/')}`);
+  }
+
+  if (result.walkForward) {
+    console.log('\n📆 Walk-forward (out-of-sample):');
+    for (const fold of result.walkForward.folds) {
+      console.log(`   test ${fold.testStart} → ${fold.testEnd}: best #${fold.bestCandidateId} ` +
+        `${fold.testScore ?? 'n/a'} vs baseline ${fold.baselineTestScore ?? 'n/a'}`);
+    }
+    console.log(`   Mean: ${result.walkForward.meanTestScore ?? 'n/a'} vs baseline ${result.walkForward.meanBaselineTestScore ?? 'n/a'}`);
+  }
+
+  console.log(`\n📄 Results: ${outPath}.csv, ${outPath}.json`);
+}
+
+/**
+ * Parse "vix=0.1:0.3:0.05,rsi=0.3" into weight ranges
+ */
+function parseWeightRanges(spec: string | undefined, optimizer: OptimizerService): OptimizationSpace['weights'] {
+  if (!spec) return {};
+
+  const ranges: OptimizationSpace['weights'] = {};
+  for (const pair of spec.split(',')) {
+    const [key, range] = pair.split('=');
+    const weightKey = CSS_WEIGHT_KEYS.find(k => k === key?.trim());
+    if (!weightKey || !range) {
+      throw new Error(`Invalid weight range "${pair}": expected <${CSS_WEIGHT_KEYS.join('|')}>=<range>`);
+    }
+    ranges[weightKey] = optimizer.parseRange(range);
+  }
+  return ranges;
+}
+
+main().catch(error => {
+  console.error('❌ Optimisation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
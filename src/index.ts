@@ -5,11 +5,27 @@ import { logger as honoLogger } from 'hono/logger';
 import * as cron from 'node-cron';
 import { analyzeRouter } from './routes/analyze';
 import { historyRouter } from './routes/history';
+import { backtestRouter } from './routes/backtest';
+import { holdingsRouter } from './routes/holdings';
+import { rebalanceRouter } from './routes/rebalance';
+import { symbolsRouter } from './routes/symbols';
+import { jobsRouter } from './routes/jobs';
 import { getConfig } from './utils/config';
 import { PortfolioAllocationEngine } from './services/portfolioAllocation';
+import { MarketDataService } from './services/marketData';
 import { EmailService } from './services/email';
-import { DatabaseService } from './services/database';
+import { getDbService } from './services/db.singleton';
+import { RebalancingService } from './services/rebalancing';
+import { EmergencyExitService } from './services/emergencyExit';
+import { ShadowStrategyService } from './services/shadow';
+import { MarketArchiveService } from './services/marketArchive';
+import { JobRunTracker } from './services/jobRuns';
+import { AlertService, DeadManSwitch } from './services/alerts';
 import { logger } from './utils/logger';
+import { formatStrategyLabel } from './utils/strategy';
+import { getMarketCalendarStatus, nextFreshRunTime } from './utils/tradingCalendar';
+import { nextCronTime, previousCronTime } from './utils/cronSchedule';
+import { JobRunRecord } from './types';
 
 // Load and validate config at startup (fail-fast)
 // This will throw if required env vars are missing
@@ -21,18 +37,33 @@ const app = new Hono();
 app.use('*', honoLogger());
 app.use('*', cors());
 
-// Health check endpoint
-app.get('/health', (c) => {
+// Health check endpoint (with the last analysis job run when a database is configured)
+app.get('/health', async (c) => {
+  const [lastRun] = config.databaseUrl ? await getDbService(config.databaseUrl).getJobRuns(1) : [];
   return c.json({
     status: 'healthy',
     service: 'SIP Portfolio Advisor',
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    lastRun: lastRun ? {
+      runId: lastRun.runId,
+      trigger: lastRun.trigger,
+      status: lastRun.status,
+      startedAt: lastRun.startedAt,
+      finishedAt: lastRun.finishedAt,
+      durationMs: lastRun.durationMs,
+      errors: lastRun.errors,
+    } : null
   });
 });
 
 // API routes
 app.route('/api/analyze', analyzeRouter);
 app.route('/api/history', historyRouter);
+app.route('/api/backtest', backtestRouter);
+app.route('/api/holdings', holdingsRouter);
+app.route('/api/rebalance', rebalanceRouter);
+app.route('/api/symbols', symbolsRouter);
+app.route('/api/jobs', jobsRouter);
 
 // Root endpoint with API info
 app.get('/', (c) => {
@@ -40,7 +71,7 @@ app.get('/', (c) => {
     name: 'SIP Portfolio Advisor API',
     version: '4.3.0',
     description: 'CSS (Composite Signal Score) Weekly Investment System',
-    strategy: 'CSS v4.3 - 5 weighted indicators with MA50 slope filter, never pause investing',
+    strategy: `${formatStrategyLabel(config.strategy)}${config.strategy.description ? ` - ${config.strategy.description}` : ''}`,
     endpoints: {
       'GET /health': 'Health check for monitoring',
       'GET /api/analyze': 'Get latest analysis without sending email',
@@ -50,28 +81,46 @@ app.get('/', (c) => {
       'GET /api/history/stats': 'Get summary statistics',
       'GET /api/history/stock/:symbol': 'Get history for specific stock',
       'GET /api/history/snapshot/:id': 'Get specific snapshot by ID',
-      'GET /api/history/range?start=&end=': 'Get snapshots by date range'
+      'POST /api/history/snapshot/:id/official': 'Mark the revision executed for its date',
+      'GET /api/history/revisions/:date': 'List every revision saved for a date',
+      'POST /api/history/snapshot/:id/recompute': 'Re-run CSS scoring from archived inputs',
+      'GET /api/history/range?start=&end=': 'Get snapshots by date range',
+      'GET /api/history/benchmark?start=&end=': 'Compare stored history against flat DCA',
+      'GET /api/history/shadow?start=&end=': 'Compare live vs shadow strategy amounts',
+      'POST /api/backtest': 'Replay the strategy over historical data',
+      'POST /api/holdings/transactions': 'Record an executed trade',
+      'GET /api/holdings/transactions': 'List recorded trades',
+      'GET /api/holdings/positions': 'Get derived positions (?value=true for live weights)',
+      'GET /api/rebalance': 'Check holdings against targets and propose rebalancing trades',
+      'GET /api/symbols/:symbol': 'Look up symbol name, exchange, currency and quote type',
+      'GET /api/jobs': 'List recent analysis job runs',
+      'GET /api/jobs/:id': 'Get a job run with per-stage outcomes'
     },
     postBodyExample: {
       investmentAmount: 300,
       stocks: ['QQQ', 'GOOG', 'AIQ', 'TSLA', 'XLV', 'VXUS', 'TLT'],
       sendEmail: true,
-      saveToDatabase: true
+      saveToDatabase: true,
+      trigger: 'manual'
     },
     configuration: {
       cronSchedule: config.cronSchedule,
+      emergencyCronSchedule: config.emergencyCronSchedule,
       baseBudget: config.weeklyInvestmentAmount,
       budgetRange: `$${config.minBudget} - $${config.maxBudget}`,
+      riskTolerance: config.riskTolerance,
+      shadowStrategies: config.shadowStrategies.map(formatStrategyLabel),
       stocks: config.defaultStocks,
       emailRecipients: config.emailTo.length,
-      databaseEnabled: !!config.convexUrl
+      databaseEnabled: !!config.databaseUrl
     }
   });
 });
 
 /**
  * Run the scheduled analysis job
- * Fetches market data, calculates allocations, sends email report, and saves to database
+ * Fetches market data, calculates allocations, saves to database and sends email report.
+ * Each stage's outcome is recorded as a job run (see GET /api/jobs).
  */
 async function runScheduledAnalysis(): Promise<void> {
   console.log('\n' + '='.repeat(60));
@@ -79,53 +128,118 @@ async function runScheduledAnalysis(): Promise<void> {
   console.log('='.repeat(60));
   console.log(`Time: ${new Date().toISOString()}`);
 
+  const job = new JobRunTracker('cron');
+  const dbService = config.databaseUrl ? getDbService(config.databaseUrl) : null;
+  await dbService?.saveJobRun(job.toRecord());
+
   try {
     // Config is already validated at startup, just use it
+    console.log(`🧾 Run: ${job.runId}`);
     console.log(`📧 Recipients: ${config.emailTo.join(', ')}`);
     console.log(`💰 Weekly Amount: $${config.weeklyInvestmentAmount}`);
     console.log(`📈 Stocks: ${config.defaultStocks.join(', ')}`);
-    console.log(`📦 Database: ${config.convexUrl ? 'Enabled' : 'Disabled'}`);
+    console.log(`📦 Database: ${config.databaseUrl ? 'Enabled' : 'Disabled'}`);
 
-    const engine = new PortfolioAllocationEngine();
-    const report = await engine.generateAllocation(config);
+    const marketDataService = MarketDataService.fromConfig(config);
+    const engine = new PortfolioAllocationEngine(marketDataService);
+    const inputs = await job.stage('fetch', () => engine.fetchMarketInputs(config),
+      (fetched) => `${fetched.stocks.length}/${config.defaultStocks.length} stocks`);
+    const report = await job.stage('scoring', () => engine.buildReport(inputs, config),
+      (built) => `$${built.totalAmount.toFixed(0)} across ${built.allocations.length} assets`);
+    job.setDataSources(inputs, report);
 
-    console.log('\n📊 Analysis complete (CSS v4.3)!');
+    console.log(`\n📊 Analysis complete (${formatStrategyLabel(config.strategy)})!`);
     console.log(`   VIX: ${report.vix.toFixed(2)} | F&G: ${report.fearGreedIndex ?? 'FAILED'}`);
     console.log(`   Market CSS: ${report.marketCSS.toFixed(1)} | Condition: ${report.marketCondition}`);
+    console.log(`   Prices: ${report.marketCalendar.lastSessionDate} NYSE close` +
+      `${report.marketCalendar.missedSessions.length > 0 ? ` (${report.marketCalendar.missedSessions.map(h => h.name).join(', ')} closed)` : ''}`);
     console.log(`   Total: $${report.totalAmount.toFixed(0)} (${report.allocations.length} assets)`);
 
+    // Annual rebalancing check (first run in January)
+    const rebalancingService = new RebalancingService(marketDataService);
+    if (dbService && rebalancingService.isRebalanceWindow(new Date(), config.timezone)) {
+      try {
+        const transactions = await dbService.getAllTransactions();
+        if (transactions.length > 0) {
+          report.rebalancing = await rebalancingService.generatePlan(transactions);
+          console.log(`⚖️  Annual rebalance check: ${report.rebalancing.needsRebalance
+            ? `breaches in ${report.rebalancing.breaches.join(', ')}`
+            : 'all positions within thresholds'}`);
+        } else {
+          console.log('⚖️  Annual rebalance check skipped (no holdings recorded)');
+        }
+      } catch (rebalanceError) {
+        console.error('❌ Rebalance check error:', rebalanceError);
+      }
+    }
+
+    // Provider calls made for this run (quotes, history, VIX, rebalance prices)
+    report.requestStats = marketDataService.getRequestStats();
+    for (const stats of report.requestStats) {
+      console.log(`📡 ${stats.provider}: ${stats.requests} requests, ${stats.retries} retries, ` +
+        `${stats.failures} failed (avg ${stats.avgLatencyMs}ms, max ${stats.maxLatencyMs}ms)`);
+    }
+
+    // Score shadow strategies on the same inputs (recorded only, never emailed)
+    const shadows = new ShadowStrategyService(engine).evaluate(inputs, report, config);
+    for (const shadow of shadows) {
+      console.log(`👥 Shadow ${formatStrategyLabel({ id: shadow.strategyId, version: shadow.strategyVersion })}: ` +
+        `$${shadow.totalAmount.toFixed(0)} (live $${shadow.liveTotalAmount.toFixed(0)})`);
+    }
+
     // Save to database
-    if (config.convexUrl) {
+    if (dbService) {
       try {
-        const dbService = new DatabaseService(config.convexUrl);
-        const dbResult = await dbService.saveAnalysisReport(report);
-        
-        if (dbResult.success) {
-          if (dbResult.replaced) {
-            console.log(`🔄 Replaced existing snapshot (old: ${dbResult.replacedSnapshotId}, new: ${dbResult.snapshotId})`);
-          } else {
-            console.log(`✅ Saved to database (ID: ${dbResult.snapshotId})`);
+        const dbResult = await job.stage('save', async () => {
+          const result = await dbService.saveAnalysisReport(
+            report,
+            new MarketArchiveService().build(inputs, config),
+            { trigger: 'cron', runId: job.runId }
+          );
+          if (!result.success) {
+            throw new Error(result.error ?? 'Database save failed');
           }
-        } else {
-          console.warn(`⚠️ Database save failed: ${dbResult.error}`);
+          return result;
+        }, (saved) => `revision ${saved.revision}${saved.isOfficial ? ' (official)' : ''}`);
+
+        job.setSnapshotId(dbResult.snapshotId!);
+        // A cron run takes over as the date's official revision
+        const takeover = (dbResult.revision ?? 1) > 1 ? ', now official' : '';
+        console.log(`✅ Saved to database (ID: ${dbResult.snapshotId}, revision ${dbResult.revision}${takeover})`);
+
+        if (!dbResult.archived) {
+          console.warn('⚠️ Market inputs not archived - this snapshot cannot be recomputed');
         }
       } catch (dbError) {
-        console.error('❌ Database error:', dbError);
+        console.warn(`⚠️ Database save failed: ${dbError instanceof Error ? dbError.message : dbError}`);
+      }
+
+      if (shadows.length > 0) {
+        const shadowResult = await dbService.saveShadowEvaluations(shadows);
+        if (!shadowResult.success) {
+          console.warn(`⚠️ Shadow save failed: ${shadowResult.error}`);
+        }
       }
+    } else {
+      job.skip('save', 'Database disabled (no DATABASE_URL)');
     }
 
     // Send email
     if (config.emailTo.length > 0) {
-      const emailService = new EmailService(config);
-      const connectionOk = await emailService.testConnection();
-
-      if (connectionOk) {
-        await emailService.sendReport(report, config.emailTo);
+      try {
+        await job.stage('email', async () => {
+          const emailService = new EmailService(config);
+          if (!await emailService.testConnection()) {
+            throw new Error('SMTP connection failed');
+          }
+          await emailService.sendReport(report, config.emailTo);
+        }, () => `sent to ${config.emailTo.length} recipient(s)`);
         console.log('✅ Scheduled email sent successfully!');
-      } else {
-        console.error('❌ Email connection failed');
+      } catch (emailError) {
+        console.error(`❌ Email failed: ${emailError instanceof Error ? emailError.message : emailError}`);
       }
     } else {
+      job.skip('email', 'No recipients configured');
       console.log('⚠️ No email recipients configured');
     }
 
@@ -133,9 +247,161 @@ async function runScheduledAnalysis(): Promise<void> {
     console.error('❌ Scheduled job error:', error);
   }
 
+  const run = job.finish();
+  await dbService?.saveJobRun(run);
+  lastCronRun = run;
+  console.log(`🧾 Job run ${run.status} in ${run.durationMs}ms${run.errors.length > 0 ? ` (${run.errors.join('; ')})` : ''}`);
+
+  const alert = alertService.jobFailureAlert(run);
+  if (alert && alertService.isEnabled()) {
+    await alertService.send(alert);
+  }
+  armForNextScheduledRun();
+
   console.log('='.repeat(60) + '\n');
 }
 
+/**
+ * Cron entry point for the weekly analysis
+ * With HOLIDAY_RUN_POLICY=shift, a run whose latest NYSE session was lost to
+ * a holiday waits (in whole days) until a fresh session has closed.
+ * Otherwise it runs now and the report annotates the older prices.
+ */
+async function runScheduledAnalysisOnCalendar(): Promise<void> {
+  const now = new Date();
+  const { missedSessions, lastSessionDate } = getMarketCalendarStatus(now);
+
+  if (missedSessions.length === 0 || config.holidayRunPolicy === 'annotate') {
+    armDeadManSwitch(now);
+    await runScheduledAnalysis();
+    return;
+  }
+
+  const runAt = nextFreshRunTime(now);
+  armDeadManSwitch(runAt);
+  const closed = missedSessions.map(h => `${h.date} (${h.name})`).join(', ');
+  console.log(`🗓️  NYSE closed ${closed} - latest close is ${lastSessionDate}`);
+  console.log(`   Scheduled analysis shifted to ${runAt.toISOString()}`);
+  setTimeout(() => {
+    void runScheduledAnalysis();
+  }, runAt.getTime() - now.getTime());
+}
+
+/**
+ * Admin alerts for failed and missed scheduled runs
+ * The switch is always armed for the next scheduled time: at startup,
+ * when the schedule fires, and again after each run or deadline check.
+ * The last cron run is also kept in memory so the dead-man's switch
+ * works without a database.
+ */
+const alertService = new AlertService(config);
+const deadManSwitch = new DeadManSwitch(config.alerts.deadManGraceHours, checkForMissedRun);
+let lastCronRun: JobRunRecord | null = null;
+
+/**
+ * Start the dead-man's countdown for a scheduled run due at `expectedAt`
+ */
+function armDeadManSwitch(expectedAt: Date): void {
+  if (!alertService.isEnabled()) return;
+  const deadline = deadManSwitch.arm(expectedAt);
+  if (deadline) {
+    console.log(`💀 Dead-man's switch armed until ${deadline.toISOString()}`);
+  }
+}
+
+/**
+ * Start the dead-man's countdown for the next CRON_SCHEDULE time after `after`
+ */
+function armForNextScheduledRun(after: Date = new Date()): void {
+  const next = nextCronTime(config.cronSchedule, config.timezone, after);
+  if (next) {
+    armDeadManSwitch(next);
+  }
+}
+
+/**
+ * Arm the dead-man's switch when the server starts
+ * The scheduled time just before startup is checked first: if its grace
+ * period is still running the countdown continues from it, otherwise the
+ * job runs are checked now (the server may have been down at that time).
+ * Without a database, or before any run was recorded in it, there is no
+ * run history to check, so only the next scheduled time is armed.
+ */
+async function startDeadManSwitch(): Promise<void> {
+  if (!alertService.isEnabled() || config.alerts.deadManGraceHours <= 0) return;
+
+  const now = new Date();
+  const [latestRun] = config.databaseUrl ? await getDbService(config.databaseUrl).getJobRuns(1) : [];
+  const previous = latestRun ? previousCronTime(config.cronSchedule, config.timezone, now) : null;
+  if (!previous) {
+    armForNextScheduledRun(now);
+    return;
+  }
+
+  if (now.getTime() - previous.getTime() < config.alerts.deadManGraceHours * 3600000) {
+    armDeadManSwitch(previous);
+    return;
+  }
+
+  await checkForMissedRun(previous);
+}
+
+/**
+ * Alert if no run was handled since the scheduled time, then arm the
+ * switch for the next one
+ */
+async function checkForMissedRun(expectedAt: Date): Promise<void> {
+  try {
+    const runs: JobRunRecord[] = config.databaseUrl ? await getDbService(config.databaseUrl).getJobRuns(20) : [];
+    if (lastCronRun && !runs.some(r => r.runId === lastCronRun?.runId)) {
+      runs.push(lastCronRun);
+    }
+
+    const alert = alertService.missedRunAlert(expectedAt, runs);
+    if (alert) {
+      console.warn(`💀 ${alert.error}`);
+      await alertService.send(alert);
+    }
+  } finally {
+    armForNextScheduledRun();
+  }
+}
+
+/**
+ * Run the daily emergency exit check
+ * Sends a separate alert email only when a trigger fires
+ */
+async function runEmergencyCheck(): Promise<void> {
+  console.log(`\n🚨 Emergency exit check: ${new Date().toISOString()}`);
+
+  try {
+    const transactions = config.databaseUrl
+      ? await getDbService(config.databaseUrl).getAllTransactions()
+      : null;
+
+    const result = await new EmergencyExitService(MarketDataService.fromConfig(config)).check(transactions);
+
+    if (!result.holdingsChecked) {
+      console.log('   ℹ️  Concentration rule skipped (no holdings recorded)');
+    }
+
+    if (result.triggers.length === 0) {
+      console.log('   ✅ No emergency exit triggers');
+      return;
+    }
+
+    for (const trigger of result.triggers) {
+      console.log(`   🚨 ${trigger.rule}: ${trigger.reason}`);
+    }
+
+    if (config.emailTo.length > 0) {
+      await new EmailService(config).sendEmergencyAlert(result, config.emailTo);
+    }
+  } catch (error) {
+    console.error('❌ Emergency check error:', error);
+  }
+}
+
 // Start server and cron scheduler
 const port = config.port;
 
@@ -156,6 +422,9 @@ serve({
   console.log(`  GET  http://localhost:${info.port}/api/history`);
   console.log(`  GET  http://localhost:${info.port}/api/history/latest`);
   console.log(`  GET  http://localhost:${info.port}/api/history/stats`);
+  console.log(`  POST http://localhost:${info.port}/api/backtest`);
+  console.log(`  GET  http://localhost:${info.port}/api/rebalance`);
+  console.log(`  GET  http://localhost:${info.port}/api/jobs`);
   console.log('');
   
   // Setup cron scheduler
@@ -167,7 +436,7 @@ serve({
     
     cron.schedule(cronSchedule, async () => {
       try {
-        await runScheduledAnalysis();
+        await runScheduledAnalysisOnCalendar();
       } catch (error) {
         console.error('❌ Cron job failed:', error instanceof Error ? error.message : error);
       }
@@ -176,17 +445,48 @@ serve({
     });
 
     console.log(`   Timezone: ${config.timezone}`);
+    console.log(`   After NYSE holidays: ${config.holidayRunPolicy}`);
+    if (alertService.isEnabled()) {
+      const channels = [
+        ...config.alerts.adminEmail,
+        ...(config.alerts.webhookUrl ? ['webhook'] : []),
+      ].join(', ');
+      console.log(`   Failure alerts: ${channels}`);
+      console.log(`   Dead-man's switch: ${config.alerts.deadManGraceHours > 0 ? `${config.alerts.deadManGraceHours}h after schedule` : 'off'}`);
+      startDeadManSwitch().catch(error => {
+        console.error('❌ Dead-man check failed:', error instanceof Error ? error.message : error);
+      });
+    }
   } else {
     console.log(`⚠️ Invalid cron schedule: ${cronSchedule}`);
     console.log('   Cron scheduler disabled');
   }
+
+  // Setup daily emergency exit monitor
+  if (cron.validate(config.emergencyCronSchedule)) {
+    console.log(`🚨 Emergency exit monitor: ${config.emergencyCronSchedule}`);
+    console.log(`   (${describeCronSchedule(config.emergencyCronSchedule)})`);
+
+    cron.schedule(config.emergencyCronSchedule, async () => {
+      await runEmergencyCheck();
+    }, {
+      timezone: config.timezone
+    });
+  } else {
+    console.log(`⚠️ Invalid emergency cron schedule: ${config.emergencyCronSchedule}`);
+    console.log('   Emergency exit monitor disabled');
+  }
   
   console.log('');
-  console.log('Configuration (CSS v4.3):');
-  console.log(`  💰 Base Budget: $${config.weeklyInvestmentAmount} (Range: $${config.minBudget} - $${config.maxBudget})`);
+  console.log(`Configuration (${formatStrategyLabel(config.strategy)}):`);
+  console.log(`  💰 Base Budget: $${config.weeklyInvestmentAmount} (Range: $${config.minBudget} - $${config.maxBudget}, ${config.riskTolerance} profile)`);
+  if (config.shadowStrategies.length > 0) {
+    console.log(`  👥 Shadow Strategies: ${config.shadowStrategies.map(formatStrategyLabel).join(', ')}`);
+  }
   console.log(`  📈 Stocks: ${config.defaultStocks.join(', ')}`);
   console.log(`  📧 Email Recipients: ${config.emailTo.length}`);
-  console.log(`  📦 Database: ${config.convexUrl ? 'Enabled (Convex)' : 'Disabled'}`);
+  const databaseBackend = config.databaseUrl ? getDbService(config.databaseUrl).getBackendName() : null;
+  console.log(`  📦 Database: ${databaseBackend ? `Enabled (${databaseBackend === 'sqlite' ? 'SQLite' : 'Convex'})` : 'Disabled'}`);
   console.log('='.repeat(60));
 });
 
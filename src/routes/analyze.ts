@@ -1,11 +1,15 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { PortfolioAllocationEngine } from '../services/portfolioAllocation';
+import { MarketDataService } from '../services/marketData';
 import { EmailService } from '../services/email';
+import { MarketArchiveService } from '../services/marketArchive';
 import { getDbService } from '../services/db.singleton';
+import { JobRunTracker } from '../services/jobRuns';
 import { getConfig } from '../utils/config';
+import { getBudgetRange } from '../utils/multiplierThresholds';
 import { analyzeBodySchema, formatZodError } from '../utils/validation';
-import { AllocationReport, Config, DatabaseSaveResult } from '../types';
+import { AllocationReport, Config, DatabaseSaveResult, MarketInputs } from '../types';
 
 const analyzeRouter = new Hono();
 
@@ -16,7 +20,7 @@ const analyzeRouter = new Hono();
 analyzeRouter.get('/', async (c) => {
   try {
     const config = getConfig();
-    const engine = new PortfolioAllocationEngine();
+    const engine = new PortfolioAllocationEngine(MarketDataService.fromConfig(config));
     const report = await engine.generateAllocation(config);
 
     return c.json({
@@ -38,6 +42,7 @@ analyzeRouter.get('/', async (c) => {
  * POST /api/analyze
  * Manual trigger for one-off investment analysis
  * Accepts optional parameters to override config
+ * Returns 400 if any requested stock is unknown to every provider
  */
 analyzeRouter.post(
   '/',
@@ -56,42 +61,72 @@ analyzeRouter.post(
     const baseConfig = getConfig();
 
     // Create config with overrides from request body
+    const weeklyInvestmentAmount = body.investmentAmount ?? baseConfig.weeklyInvestmentAmount;
+    const riskTolerance = body.riskTolerance ?? baseConfig.riskTolerance;
     const config: Config = {
       ...baseConfig,
-      weeklyInvestmentAmount: body.investmentAmount ?? baseConfig.weeklyInvestmentAmount,
-      defaultStocks: body.stocks ?? baseConfig.defaultStocks
+      weeklyInvestmentAmount,
+      defaultStocks: body.stocks ?? baseConfig.defaultStocks,
+      riskTolerance,
+      ...getBudgetRange(weeklyInvestmentAmount, baseConfig.strategy.riskProfiles[riskTolerance])
     };
 
     const shouldSendEmail = body.sendEmail ?? true;
     const shouldSaveToDatabase = body.saveToDatabase ?? true;
 
-    const engine = new PortfolioAllocationEngine();
-    const report = await engine.generateAllocation(config);
-
-    let emailSent = false;
-    let dbResult: DatabaseSaveResult = { success: false };
+    const marketDataService = MarketDataService.fromConfig(config);
 
-    // Send email if requested
-    if (shouldSendEmail && config.emailTo.length > 0) {
-      try {
-        const emailService = new EmailService(config);
-        const connectionOk = await emailService.testConnection();
-        
-        if (connectionOk) {
-          await emailService.sendReport(report, config.emailTo);
-          emailSent = true;
-        }
-      } catch (emailError) {
-        console.error('Email sending failed:', emailError);
-        // Continue without failing the whole request
+    // Reject symbols no provider knows instead of scoring simulated prices
+    if (body.stocks) {
+      const lookups = await marketDataService.lookupSymbols(body.stocks);
+      const unknown = lookups.filter(l => l.status === 'unrecognized').map(l => l.symbol);
+      if (unknown.length > 0) {
+        return c.json({
+          success: false,
+          error: 'Unknown symbols',
+          details: { stocks: unknown.map(symbol => `${symbol} is not recognised by any market data provider`) },
+        }, 400);
       }
     }
 
+    // Record the run's stages (saved only when the database is configured)
+    const trigger = body.trigger ?? 'api';
+    const job = new JobRunTracker(trigger);
+    const db = config.databaseUrl ? getDbService(config.databaseUrl) : null;
+    await db?.saveJobRun(job.toRecord());
+
+    let inputs: MarketInputs;
+    let report: AllocationReport;
+    try {
+      const engine = new PortfolioAllocationEngine(marketDataService);
+      inputs = await job.stage('fetch', () => engine.fetchMarketInputs(config),
+        (fetched) => `${fetched.stocks.length}/${config.defaultStocks.length} stocks`);
+      report = await job.stage('scoring', () => engine.buildReport(inputs, config),
+        (built) => `$${built.totalAmount.toFixed(0)} across ${built.allocations.length} assets`);
+      job.setDataSources(inputs, report);
+      report.requestStats = marketDataService.getRequestStats();
+    } catch (error) {
+      await db?.saveJobRun(job.finish());
+      throw error;
+    }
+
+    let emailSent = false;
+    let dbResult: DatabaseSaveResult = { success: false };
+
     // Save to database if requested and configured
-    if (shouldSaveToDatabase && config.convexUrl) {
+    if (shouldSaveToDatabase && db) {
       try {
-        const db = getDbService(config.convexUrl);
-        dbResult = await db.saveAnalysisReport(report);
+        dbResult = await job.stage('save', async () => {
+          const result = await db.saveAnalysisReport(report, new MarketArchiveService().build(inputs, config), {
+            trigger,
+            runId: job.runId,
+          });
+          if (!result.success) {
+            throw new Error(result.error ?? 'Database save failed');
+          }
+          return result;
+        }, (saved) => `revision ${saved.revision}${saved.isOfficial ? ' (official)' : ''}`);
+        job.setSnapshotId(dbResult.snapshotId!);
       } catch (dbError) {
         console.error('Database save failed:', dbError);
         dbResult = { 
@@ -100,15 +135,43 @@ analyzeRouter.post(
         };
         // Continue without failing the whole request
       }
+    } else {
+      job.skip('save', shouldSaveToDatabase ? 'Database disabled (no DATABASE_URL)' : 'Not requested');
+    }
+
+    // Send email if requested
+    if (shouldSendEmail && config.emailTo.length > 0) {
+      try {
+        await job.stage('email', async () => {
+          const emailService = new EmailService(config);
+          if (!await emailService.testConnection()) {
+            throw new Error('SMTP connection failed');
+          }
+          await emailService.sendReport(report, config.emailTo);
+        }, () => `sent to ${config.emailTo.length} recipient(s)`);
+        emailSent = true;
+      } catch (emailError) {
+        console.error('Email sending failed:', emailError);
+        // Continue without failing the whole request
+      }
+    } else {
+      job.skip('email', shouldSendEmail ? 'No recipients configured' : 'Not requested');
     }
 
+    const run = job.finish();
+    await db?.saveJobRun(run);
+
     return c.json({
       success: true,
       report: formatReportForResponse(report),
+      runId: run.runId,
+      jobStatus: run.status,
       emailSent,
       savedToDatabase: dbResult.success,
-      replacedExisting: dbResult.replaced ?? false,
+      inputsArchived: dbResult.archived ?? false,
       snapshotId: dbResult.snapshotId,
+      revision: dbResult.revision,
+      isOfficial: dbResult.isOfficial,
       databaseError: dbResult.success ? undefined : dbResult.error
     });
   } catch (error) {
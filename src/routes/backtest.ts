@@ -0,0 +1,72 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { BacktestService } from '../services/backtest';
+import { BacktestDataService } from '../services/backtestData';
+import { MarketDataService } from '../services/marketData';
+import { getConfig } from '../utils/config';
+import { backtestBodySchema, formatZodError } from '../utils/validation';
+
+const backtestRouter = new Hono();
+
+/**
+ * POST /api/backtest
+ * Replay the CSS strategy week by week over historical data
+ * Uses inline `data` if provided, otherwise fetches history from Yahoo/CNN
+ */
+backtestRouter.post(
+  '/',
+  zValidator('json', backtestBodySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    try {
+      const body = c.req.valid('json');
+      const config = getConfig();
+      const symbols = body.stocks ?? config.defaultStocks;
+
+      const dataService = new BacktestDataService(MarketDataService.fromConfig(config));
+      const data = body.data
+        ? dataService.normalize(body.data)
+        : await dataService.fetch(symbols, body.startDate, body.endDate);
+
+      const missingSymbols = symbols.filter(symbol => !data.prices[symbol]?.length);
+
+      if (data.vix.length === 0 || missingSymbols.length === symbols.length) {
+        return c.json({
+          success: false,
+          error: 'Historical data unavailable for the requested range',
+          missingSymbols,
+        }, 422);
+      }
+
+      const backtestService = new BacktestService();
+      const result = backtestService.run(data, {
+        startDate: body.startDate,
+        endDate: body.endDate,
+        symbols,
+        weeklyInvestmentAmount: body.investmentAmount ?? config.weeklyInvestmentAmount,
+        blendConfidence: body.blendConfidence,
+      }, config);
+
+      return c.json({
+        success: true,
+        missingSymbols,
+        result,
+      });
+    } catch (error) {
+      console.error('Backtest error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      }, 500);
+    }
+  }
+);
+
+export { backtestRouter };
@@ -1,13 +1,23 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { getDbService } from '../services/db.singleton';
+import { BenchmarkService } from '../services/benchmark';
+import { ShadowStrategyService } from '../services/shadow';
+import { PortfolioAllocationEngine } from '../services/portfolioAllocation';
+import { MarketDataService } from '../services/marketData';
 import { getConfig } from '../utils/config';
+import { getBudgetRange } from '../utils/multiplierThresholds';
+import { formatStrategyLabel } from '../utils/strategy';
+import { Config, PortfolioAllocation, StoredStockAnalysis } from '../types';
 import {
   historyQuerySchema,
   stockParamSchema,
   stockHistoryQuerySchema,
   snapshotParamSchema,
+  revisionsParamSchema,
+  recomputeBodySchema,
   dateRangeQuerySchema,
+  shadowHistoryQuerySchema,
   formatZodError,
 } from '../utils/validation';
 
@@ -16,7 +26,7 @@ const historyRouter = new Hono();
 // Helper to get database service with config
 function getDb() {
   const config = getConfig();
-  return getDbService(config.convexUrl);
+  return getDbService(config.databaseUrl);
 }
 
 /**
@@ -40,7 +50,7 @@ historyRouter.get(
     if (!db.isEnabled()) {
       return c.json({
         success: false,
-        error: 'Database not configured. Set CONVEX_URL in environment.',
+        error: 'Database not configured. Set DATABASE_URL in environment.',
       }, 503);
     }
 
@@ -73,7 +83,7 @@ historyRouter.get('/latest', async (c) => {
   if (!db.isEnabled()) {
     return c.json({
       success: false,
-      error: 'Database not configured. Set CONVEX_URL in environment.',
+      error: 'Database not configured. Set DATABASE_URL in environment.',
     }, 503);
   }
 
@@ -110,7 +120,7 @@ historyRouter.get('/stats', async (c) => {
   if (!db.isEnabled()) {
     return c.json({
       success: false,
-      error: 'Database not configured. Set CONVEX_URL in environment.',
+      error: 'Database not configured. Set DATABASE_URL in environment.',
     }, 503);
   }
 
@@ -167,7 +177,7 @@ historyRouter.get(
     if (!db.isEnabled()) {
       return c.json({
         success: false,
-        error: 'Database not configured. Set CONVEX_URL in environment.',
+        error: 'Database not configured. Set DATABASE_URL in environment.',
       }, 503);
     }
 
@@ -214,7 +224,7 @@ historyRouter.get(
     if (!db.isEnabled()) {
       return c.json({
         success: false,
-        error: 'Database not configured. Set CONVEX_URL in environment.',
+        error: 'Database not configured. Set DATABASE_URL in environment.',
       }, 503);
     }
 
@@ -243,6 +253,214 @@ historyRouter.get(
   }
 );
 
+/**
+ * POST /api/history/snapshot/:id/official
+ * Mark this revision as the one executed for its date
+ * Every other revision of the date becomes unofficial
+ */
+historyRouter.post(
+  '/snapshot/:id/official',
+  zValidator('param', snapshotParamSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { id } = c.req.valid('param');
+      const snapshot = await db.setOfficialRevision(id);
+
+      if (!snapshot) {
+        return c.json({
+          success: false,
+          error: 'Snapshot not found',
+        }, 404);
+      }
+
+      return c.json({
+        success: true,
+        snapshot,
+      });
+    } catch (error) {
+      console.error('Official revision error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/history/revisions/:date
+ * List every revision saved for a run date (YYYY-MM-DD), oldest first
+ */
+historyRouter.get(
+  '/revisions/:date',
+  zValidator('param', revisionsParamSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { date } = c.req.valid('param');
+      const revisions = await db.getSnapshotRevisions(date);
+
+      return c.json({
+        success: true,
+        date,
+        count: revisions.length,
+        officialSnapshotId: revisions.find(r => r.isOfficial)?._id ?? null,
+        revisions,
+      });
+    } catch (error) {
+      console.error('Revisions fetch error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * POST /api/history/snapshot/:id/recompute
+ * Re-run CSS scoring from the snapshot's archived market inputs
+ * Defaults to the archived strategy/profile/budget (exact reproduction);
+ * the body may override any of them. Nothing is saved.
+ */
+historyRouter.post(
+  '/snapshot/:id/recompute',
+  zValidator('param', snapshotParamSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  zValidator('json', recomputeBodySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { id } = c.req.valid('param');
+      const body = c.req.valid('json');
+
+      const stored = await db.getSnapshotWithStocks(id);
+      if (!stored) {
+        return c.json({
+          success: false,
+          error: 'Snapshot not found',
+        }, 404);
+      }
+
+      const archive = await db.getMarketInputArchive(id);
+      if (!archive) {
+        return c.json({
+          success: false,
+          error: 'No market input archive for this snapshot (it may predate archiving)',
+        }, 404);
+      }
+
+      const strategy = body.strategy ?? archive.strategy;
+      const riskTolerance = body.riskTolerance ?? archive.riskTolerance;
+      const weeklyInvestmentAmount = body.investmentAmount ?? archive.baseBudget;
+      const liveConfig = getConfig();
+      // Gate limits and blending as archived; format 1 archives fall back to the live config
+      const dataQuality = archive.dataQuality ?? liveConfig.dataQuality;
+      const blendConfidence = archive.blendConfidence ?? true;
+      const config: Config = {
+        ...liveConfig,
+        strategy,
+        riskTolerance,
+        weeklyInvestmentAmount,
+        dataQuality,
+        defaultStocks: archive.inputs.stocks.map(s => s.symbol),
+        ...getBudgetRange(weeklyInvestmentAmount, strategy.riskProfiles[riskTolerance]),
+      };
+
+      const report = new PortfolioAllocationEngine().buildReport(archive.inputs, config, { blendConfidence });
+      const recomputed = new Map<string, PortfolioAllocation>(report.allocations.map(a => [a.symbol, a]));
+
+      return c.json({
+        success: true,
+        snapshotId: id,
+        strategy: formatStrategyLabel(strategy),
+        overridden: {
+          strategy: !!body.strategy,
+          riskTolerance: !!body.riskTolerance,
+          investmentAmount: body.investmentAmount !== undefined,
+        },
+        settings: {
+          dataQuality,
+          blendConfidence,
+          archived: archive.dataQuality !== undefined,
+        },
+        storedTotal: stored.snapshot.totalAmount,
+        recomputedTotal: report.totalAmount,
+        symbols: stored.stocks.map((stock: StoredStockAnalysis) => ({
+          symbol: stock.symbol,
+          storedCSS: stock.cssScore,
+          recomputedCSS: recomputed.get(stock.symbol)?.cssScore ?? null,
+          storedAmount: stock.finalAmount,
+          recomputedAmount: recomputed.get(stock.symbol)?.amount ?? null,
+        })),
+        report: { ...report, date: report.date.toISOString() },
+      });
+    } catch (error) {
+      console.error('Recompute error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
 /**
  * GET /api/history/range
  * Get snapshots within a date range
@@ -264,7 +482,7 @@ historyRouter.get(
     if (!db.isEnabled()) {
       return c.json({
         success: false,
-        error: 'Database not configured. Set CONVEX_URL in environment.',
+        error: 'Database not configured. Set DATABASE_URL in environment.',
       }, 503);
     }
 
@@ -289,4 +507,132 @@ historyRouter.get(
   }
 );
 
+/**
+ * GET /api/history/benchmark
+ * Compare real CSS history against flat 1.0x DCA over a date range
+ * Positions are valued at live quotes, or the last stored price if unavailable
+ */
+historyRouter.get(
+  '/benchmark',
+  zValidator('query', dateRangeQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { start, end } = c.req.valid('query');
+      const rows = await db.getStockAnalysesByDateRange(start, end);
+
+      if (rows.length === 0) {
+        return c.json({
+          success: false,
+          error: 'No stored analyses in date range',
+        }, 404);
+      }
+
+      // Value at live quotes; skip simulated prices (benchmark falls back to last stored price)
+      const marketDataService = MarketDataService.fromConfig(getConfig());
+      const symbols = [...new Set(rows.map(r => r.symbol))];
+      const quotes = await Promise.all(symbols.map(symbol => marketDataService.fetchStockData(symbol)));
+
+      const endingPrices: Record<string, number> = {};
+      const valuation: Record<string, 'live' | 'last-snapshot'> = {};
+      for (const quote of quotes) {
+        if (quote.dataSource === 'simulated') {
+          valuation[quote.symbol] = 'last-snapshot';
+        } else {
+          endingPrices[quote.symbol] = quote.price;
+          valuation[quote.symbol] = 'live';
+        }
+      }
+
+      const benchmark = new BenchmarkService().fromHistory(rows, endingPrices);
+
+      return c.json({
+        success: true,
+        startDate: start,
+        endDate: end,
+        valuation,
+        benchmark,
+      });
+    } catch (error) {
+      console.error('Benchmark error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/history/shadow
+ * Compare live vs shadow strategy amounts over a date range
+ * Optional ?strategy= limits the comparison to one shadow strategy id
+ */
+historyRouter.get(
+  '/shadow',
+  zValidator('query', shadowHistoryQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { start, end, strategy } = c.req.valid('query');
+      const evaluations = await db.getShadowEvaluationsByDateRange(start, end, strategy);
+
+      if (evaluations.length === 0) {
+        return c.json({
+          success: false,
+          error: 'No shadow evaluations in date range',
+        }, 404);
+      }
+
+      const comparisons = new ShadowStrategyService().compare(evaluations);
+
+      return c.json({
+        success: true,
+        startDate: start,
+        endDate: end,
+        count: comparisons.length,
+        comparisons,
+      });
+    } catch (error) {
+      console.error('Shadow comparison error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
 export { historyRouter };
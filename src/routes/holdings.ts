@@ -0,0 +1,193 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { getDbService } from '../services/db.singleton';
+import { HoldingsService } from '../services/holdings';
+import { MarketDataService } from '../services/marketData';
+import { getConfig } from '../utils/config';
+import {
+  transactionBodySchema,
+  transactionsQuerySchema,
+  positionsQuerySchema,
+  formatZodError,
+} from '../utils/validation';
+
+const holdingsRouter = new Hono();
+
+// Helper to get database service with config
+function getDb() {
+  const config = getConfig();
+  return getDbService(config.databaseUrl);
+}
+
+/**
+ * POST /api/holdings/transactions
+ * Record a trade that was actually executed
+ */
+holdingsRouter.post(
+  '/transactions',
+  zValidator('json', transactionBodySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const transaction = c.req.valid('json');
+
+      // Reject sells larger than the current position
+      if (transaction.side === 'SELL') {
+        const ledger = await db.getAllTransactions();
+        const heldUnits = new HoldingsService().getHeldUnits(ledger, transaction.symbol);
+
+        if (transaction.units > heldUnits) {
+          return c.json({
+            success: false,
+            error: `Cannot sell ${transaction.units} ${transaction.symbol}: only ${heldUnits} held`,
+          }, 400);
+        }
+      }
+
+      const result = await db.saveTransaction(transaction);
+
+      if (!result.success) {
+        return c.json({
+          success: false,
+          error: result.error,
+        }, 500);
+      }
+
+      return c.json({
+        success: true,
+        transactionId: result.transactionId,
+      }, 201);
+    } catch (error) {
+      console.error('Transaction save error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/holdings/transactions
+ * List recorded transactions, newest first
+ */
+holdingsRouter.get(
+  '/transactions',
+  zValidator('query', transactionsQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { symbol, limit } = c.req.valid('query');
+      const transactions = await db.getTransactions(symbol, limit);
+
+      return c.json({
+        success: true,
+        count: transactions.length,
+        transactions,
+      });
+    } catch (error) {
+      console.error('Transactions fetch error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/holdings/positions
+ * Derived positions per symbol (units, cost basis, average cost)
+ * With ?value=true, also values open positions at live quotes
+ */
+holdingsRouter.get(
+  '/positions',
+  zValidator('query', positionsQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { value } = c.req.valid('query');
+      const holdingsService = new HoldingsService();
+      const ledger = await db.getAllTransactions();
+      const positions = holdingsService.calculatePositions(ledger);
+
+      if (!value) {
+        return c.json({
+          success: true,
+          count: positions.length,
+          positions,
+        });
+      }
+
+      const marketDataService = MarketDataService.fromConfig(getConfig());
+      const open = positions.filter(p => p.units > 0);
+      const quotes = await Promise.all(open.map(p => marketDataService.fetchStockData(p.symbol)));
+      const prices = Object.fromEntries(quotes.map(q => [q.symbol, q.price]));
+      const valued = holdingsService.valuePositions(positions, prices);
+
+      return c.json({
+        success: true,
+        count: valued.length,
+        totalMarketValue: Math.round(valued.reduce((sum, p) => sum + p.marketValue, 0) * 100) / 100,
+        simulatedPrices: quotes.filter(q => q.dataSource === 'simulated').map(q => q.symbol),
+        positions: valued,
+      });
+    } catch (error) {
+      console.error('Positions fetch error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+export { holdingsRouter };
@@ -0,0 +1,109 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { getDbService } from '../services/db.singleton';
+import { getConfig } from '../utils/config';
+import { jobsQuerySchema, jobParamSchema, formatZodError } from '../utils/validation';
+
+const jobsRouter = new Hono();
+
+// Helper to get database service with config
+function getDb() {
+  const config = getConfig();
+  return getDbService(config.databaseUrl);
+}
+
+/**
+ * GET /api/jobs
+ * Recent analysis job runs (cron and POST /api/analyze), newest first
+ */
+jobsRouter.get(
+  '/',
+  zValidator('query', jobsQuerySchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { limit } = c.req.valid('query');
+      const runs = await db.getJobRuns(limit);
+
+      return c.json({
+        success: true,
+        count: runs.length,
+        runs,
+      });
+    } catch (error) {
+      console.error('Job runs fetch error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+/**
+ * GET /api/jobs/:id
+ * One job run by runId, with per-stage outcomes, errors and data sources
+ */
+jobsRouter.get(
+  '/:id',
+  zValidator('param', jobParamSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const db = getDb();
+
+    if (!db.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'Database not configured. Set DATABASE_URL in environment.',
+      }, 503);
+    }
+
+    try {
+      const { id } = c.req.valid('param');
+      const run = await db.getJobRun(id);
+
+      if (!run) {
+        return c.json({
+          success: false,
+          error: 'Job run not found',
+        }, 404);
+      }
+
+      return c.json({
+        success: true,
+        run,
+      });
+    } catch (error) {
+      console.error('Job run fetch error:', error);
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 500);
+    }
+  }
+);
+
+export { jobsRouter };
@@ -0,0 +1,55 @@
+import { Hono } from 'hono';
+import { getDbService } from '../services/db.singleton';
+import { MarketDataService } from '../services/marketData';
+import { RebalancingService } from '../services/rebalancing';
+import { getConfig } from '../utils/config';
+
+const rebalanceRouter = new Hono();
+
+// Helper to get database service with config
+function getDb() {
+  const config = getConfig();
+  return getDbService(config.databaseUrl);
+}
+
+/**
+ * GET /api/rebalance
+ * Check current holdings against base allocation targets and propose trades
+ * Available any time; the scheduled report only includes it in January
+ */
+rebalanceRouter.get('/', async (c) => {
+  const db = getDb();
+
+  if (!db.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'Database not configured. Set DATABASE_URL in environment.',
+    }, 503);
+  }
+
+  try {
+    const transactions = await db.getAllTransactions();
+
+    if (transactions.length === 0) {
+      return c.json({
+        success: false,
+        error: 'No holdings recorded. Add trades via POST /api/holdings/transactions.',
+      }, 404);
+    }
+
+    const plan = await new RebalancingService(MarketDataService.fromConfig(getConfig())).generatePlan(transactions);
+
+    return c.json({
+      success: true,
+      plan,
+    });
+  } catch (error) {
+    console.error('Rebalance error:', error);
+    return c.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
+
+export { rebalanceRouter };
@@ -0,0 +1,43 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { MarketDataService } from '../services/marketData';
+import { getConfig } from '../utils/config';
+import { stockParamSchema, formatZodError } from '../utils/validation';
+
+const symbolsRouter = new Hono();
+
+/**
+ * GET /api/symbols/:symbol
+ * Look a symbol up across the provider chain (name, exchange, currency, quote type)
+ * 404 if every provider answered and none knew it
+ */
+symbolsRouter.get(
+  '/:symbol',
+  zValidator('param', stockParamSchema, (result, c) => {
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(result.error),
+      }, 400);
+    }
+  }),
+  async (c) => {
+    const { symbol } = c.req.valid('param');
+    const [lookup] = await MarketDataService.fromConfig(getConfig()).lookupSymbols([symbol]);
+
+    if (lookup.status === 'unrecognized') {
+      return c.json({
+        success: false,
+        error: `${symbol} is not recognised by any market data provider`,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      ...lookup,
+    });
+  }
+);
+
+export { symbolsRouter };
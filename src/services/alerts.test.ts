@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AlertService, DeadManSwitch } from './alerts';
+import { AlertConfig, Config, JobRunRecord } from '../types';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+// Helper to create a mock config with both alert channels configured
+const createConfig = (alerts: Partial<AlertConfig> = {}): Config => createMockConfig({
+  alerts: { adminEmail: ['admin@test.com'], webhookUrl: 'https://hooks.test/alert', deadManGraceHours: 3, ...alerts },
+});
+
+const createRun = (overrides: Partial<JobRunRecord> = {}): JobRunRecord => ({
+  runId: 'run-1',
+  trigger: 'cron',
+  status: 'success',
+  startedAt: '2025-03-05T07:00:00.000Z',
+  finishedAt: '2025-03-05T07:00:05.000Z',
+  durationMs: 5000,
+  stages: [],
+  errors: [],
+  dataSources: null,
+  snapshotId: null,
+  ...overrides,
+});
+
+const SCHEDULED = new Date('2025-03-05T07:00:00Z');
+
+describe('AlertService', () => {
+  describe('jobFailureAlert', () => {
+    it('should not alert on a successful run', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+
+      expect(alerts.jobFailureAlert(createRun())).toBeNull();
+    });
+
+    it('should report the first failed stage with its retry hints', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const run = createRun({
+        status: 'partial',
+        stages: [
+          { stage: 'fetch', status: 'ok', startedAt: '2025-03-05T07:00:00.000Z', durationMs: 3000, detail: '2/2 stocks', error: null },
+          { stage: 'scoring', status: 'ok', startedAt: '2025-03-05T07:00:03.000Z', durationMs: 10, detail: null, error: null },
+          { stage: 'save', status: 'ok', startedAt: '2025-03-05T07:00:03.010Z', durationMs: 50, detail: null, error: null },
+          { stage: 'email', status: 'failed', startedAt: '2025-03-05T07:00:03.060Z', durationMs: 1900, detail: null, error: 'SMTP connection failed' },
+        ],
+        errors: ['email: SMTP connection failed'],
+      });
+
+      const alert = alerts.jobFailureAlert(run);
+
+      expect(alert).toMatchObject({
+        kind: 'job-failed',
+        subject: 'SIP job partial at email (cron, 2025-03-05)',
+        stage: 'email',
+        error: 'email: SMTP connection failed',
+        runId: 'run-1',
+        occurredAt: '2025-03-05T07:00:05.000Z',
+      });
+      expect(alert?.hints[0]).toContain('SMTP_PASS');
+    });
+  });
+
+  describe('missedRunAlert', () => {
+    it('should not alert when a run succeeded after the scheduled time', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const runs = [
+        createRun({ runId: 'run-0', status: 'failed', startedAt: '2025-03-05T07:00:00.000Z' }),
+        createRun({ runId: 'run-1', trigger: 'manual', startedAt: '2025-03-05T08:30:00.000Z' }),
+      ];
+
+      expect(alerts.missedRunAlert(SCHEDULED, runs, new Date('2025-03-05T10:00:00Z'))).toBeNull();
+    });
+
+    it('should alert when no run was recorded since the scheduled time', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const lastWeek = createRun({ startedAt: '2025-02-26T07:00:00.000Z' });
+
+      const alert = alerts.missedRunAlert(SCHEDULED, [lastWeek], new Date('2025-03-05T10:00:00Z'));
+
+      expect(alert).toMatchObject({
+        kind: 'missed-run',
+        subject: 'SIP job missed its 2025-03-05 run',
+        stage: null,
+        error: 'No run recorded 3.0h after the scheduled time 2025-03-05T07:00:00.000Z',
+        runId: null,
+        occurredAt: '2025-03-05T10:00:00.000Z',
+      });
+    });
+
+    it('should not alert again for a scheduled run that already alerted', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const failed = createRun({ status: 'failed', errors: ['fetch: all providers failed'] });
+      const partial = createRun({ status: 'partial', trigger: 'manual', startedAt: '2025-03-05T08:00:00.000Z' });
+
+      expect(alerts.jobFailureAlert(failed)).not.toBeNull();
+      expect(alerts.missedRunAlert(SCHEDULED, [failed], new Date('2025-03-05T10:00:00Z'))).toBeNull();
+      expect(alerts.missedRunAlert(SCHEDULED, [partial], new Date('2025-03-05T10:00:00Z'))).toBeNull();
+    });
+
+    it('should still alert when only a manual run failed', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const manual = createRun({ runId: 'run-3', trigger: 'manual', status: 'failed', startedAt: '2025-03-05T08:00:00.000Z' });
+
+      expect(alerts.missedRunAlert(SCHEDULED, [manual], new Date('2025-03-05T10:00:00Z'))?.runId).toBe('run-3');
+    });
+
+    it('should name the latest unsuccessful run', () => {
+      const alerts = new AlertService(createConfig(), { sendAdminAlert: vi.fn() });
+      const stuck = createRun({ runId: 'run-2', status: 'running', startedAt: '2025-03-05T07:00:01.000Z', finishedAt: null });
+
+      const alert = alerts.missedRunAlert(SCHEDULED, [stuck], new Date('2025-03-05T10:00:00Z'));
+
+      expect(alert?.runId).toBe('run-2');
+      expect(alert?.error).toContain('last run running at 2025-03-05T07:00:01.000Z');
+    });
+  });
+
+  describe('send', () => {
+    it('should send to the admin email and the webhook', async () => {
+      const sendAdminAlert = vi.fn().mockResolvedValue(undefined);
+      const post = vi.fn().mockResolvedValue({});
+      const alerts = new AlertService(createConfig(), { sendAdminAlert }, post);
+      const alert = alerts.missedRunAlert(SCHEDULED, [], new Date('2025-03-05T10:00:00Z'))!;
+
+      const result = await alerts.send(alert);
+
+      expect(result).toEqual({ email: true, webhook: true });
+      expect(sendAdminAlert).toHaveBeenCalledWith(alert, ['admin@test.com']);
+      expect(post).toHaveBeenCalledWith('https://hooks.test/alert', expect.objectContaining({
+        kind: 'missed-run',
+        text: expect.stringContaining('SIP job missed its 2025-03-05 run'),
+      }));
+    });
+
+    it('should still post the webhook when the email fails', async () => {
+      const sendAdminAlert = vi.fn().mockRejectedValue(new Error('SMTP down'));
+      const post = vi.fn().mockResolvedValue({});
+      const alerts = new AlertService(createConfig(), { sendAdminAlert }, post);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await alerts.send(alerts.missedRunAlert(SCHEDULED, [])!);
+
+      expect(result).toEqual({ email: false, webhook: true });
+      vi.restoreAllMocks();
+    });
+
+    it('should skip channels that are not configured', async () => {
+      const sendAdminAlert = vi.fn();
+      const post = vi.fn();
+      const alerts = new AlertService(createConfig({ adminEmail: [], webhookUrl: '' }), { sendAdminAlert }, post);
+
+      expect(alerts.isEnabled()).toBe(false);
+      expect(await alerts.send(alerts.missedRunAlert(SCHEDULED, [])!)).toEqual({ email: false, webhook: false });
+      expect(sendAdminAlert).not.toHaveBeenCalled();
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('DeadManSwitch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(SCHEDULED);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should check once the grace period has passed', async () => {
+    const onDeadline = vi.fn().mockResolvedValue(undefined);
+    const deadMan = new DeadManSwitch(3, onDeadline);
+
+    expect(deadMan.arm(SCHEDULED)?.toISOString()).toBe('2025-03-05T10:00:00.000Z');
+
+    await vi.advanceTimersByTimeAsync(3 * 3600000 - 1);
+    expect(onDeadline).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onDeadline).toHaveBeenCalledWith(SCHEDULED);
+  });
+
+  it('should replace the pending deadline when armed again', async () => {
+    const onDeadline = vi.fn().mockResolvedValue(undefined);
+    const deadMan = new DeadManSwitch(3, onDeadline);
+    const shifted = new Date('2025-03-06T07:00:00Z');
+
+    deadMan.arm(SCHEDULED);
+    deadMan.arm(shifted);
+
+    await vi.advanceTimersByTimeAsync(27 * 3600000);
+    expect(onDeadline).toHaveBeenCalledTimes(1);
+    expect(onDeadline).toHaveBeenCalledWith(shifted);
+  });
+
+  it('should send one alert when a failed run is followed by the deadline', async () => {
+    const sendAdminAlert = vi.fn().mockResolvedValue(undefined);
+    const alerts = new AlertService(createConfig({ webhookUrl: '' }), { sendAdminAlert });
+    const runs: JobRunRecord[] = [];
+    const deadMan = new DeadManSwitch(3, async (expectedAt) => {
+      const alert = alerts.missedRunAlert(expectedAt, runs);
+      if (alert) await alerts.send(alert);
+    });
+
+    deadMan.arm(SCHEDULED);
+    const failed = createRun({ status: 'failed', stages: [], errors: ['fetch: all providers failed'] });
+    runs.push(failed);
+    await alerts.send(alerts.jobFailureAlert(failed)!);
+    await vi.advanceTimersByTimeAsync(3 * 3600000);
+
+    expect(sendAdminAlert).toHaveBeenCalledTimes(1);
+    expect(sendAdminAlert.mock.calls[0][0]).toMatchObject({ kind: 'job-failed' });
+  });
+
+  it('should wait for a deadline further off than one timer allows', async () => {
+    const onDeadline = vi.fn().mockResolvedValue(undefined);
+    const deadMan = new DeadManSwitch(3, onDeadline);
+    const nextMonth = new Date('2025-04-05T07:00:00Z');
+
+    deadMan.arm(nextMonth);
+
+    await vi.advanceTimersByTimeAsync(nextMonth.getTime() - SCHEDULED.getTime());
+    expect(onDeadline).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(3 * 3600000);
+    expect(onDeadline).toHaveBeenCalledWith(nextMonth);
+  });
+
+  it('should stay off with a grace period of 0', async () => {
+    const onDeadline = vi.fn();
+    const deadMan = new DeadManSwitch(0, onDeadline);
+
+    expect(deadMan.arm(SCHEDULED)).toBeNull();
+    await vi.advanceTimersByTimeAsync(24 * 3600000);
+    expect(onDeadline).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { EmailService } from './email';
+import {
+  AdminAlert,
+  AdminAlertResult,
+  Config,
+  JobRunRecord,
+  JobStage
+} from '../types';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Longest setTimeout delay; longer ones fire at once
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const RERUN_HINT = 'Re-run now: POST /api/analyze with {"trigger":"manual"}';
+
+/**
+ * What to check for each failed stage, most likely cause first
+ */
+const STAGE_HINTS: Record<JobStage, string[]> = {
+  fetch: [
+    'Check the market data providers are reachable (MARKET_DATA_PROVIDERS, Yahoo/Stooq status)',
+    'Transient provider outages usually clear within the hour',
+    RERUN_HINT,
+  ],
+  scoring: [
+    'Check STRATEGY_FILE (if set) and the server log for the stack trace',
+    'GET /api/jobs/:id shows which data sources the run used',
+    RERUN_HINT,
+  ],
+  save: [
+    'Check DATABASE_URL and that the database is reachable (or the SQLite file writable)',
+    'The report email may already have gone out; re-run with {"trigger":"manual","sendEmail":false} to record the snapshot',
+  ],
+  email: [
+    'Check SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS (Gmail needs an app password)',
+    'The snapshot was saved if the save stage succeeded; re-send with POST /api/analyze {"trigger":"manual","saveToDatabase":false}',
+  ],
+};
+
+const MISSED_RUN_HINTS = [
+  'Check the server process is up and CRON_SCHEDULE / TIMEZONE are what you expect',
+  'GET /api/jobs lists the recent runs and their errors',
+  RERUN_HINT,
+];
+
+/**
+ * Posts an alert payload to a webhook URL
+ */
+export type WebhookPoster = (url: string, payload: Record<string, unknown>) => Promise<unknown>;
+
+const postWebhook: WebhookPoster = (url, payload) =>
+  axios.post(url, payload, { timeout: WEBHOOK_TIMEOUT_MS });
+
+/**
+ * Alert Service
+ *
+ * Tells the admin when the weekly job goes wrong: a scheduled run that
+ * finished with a failed stage, or no run at all within the grace period
+ * after the scheduled time (see DeadManSwitch). Alerts go
+ * to ADMIN_EMAIL and/or ADMIN_WEBHOOK_URL; the webhook still gets through
+ * when SMTP itself is what broke.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * A channel that fails is logged and reported as false in the result,
+ * so alerting can never take the job down with it.
+ */
+export class AlertService {
+  private emailService: Pick<EmailService, 'sendAdminAlert'>;
+
+  constructor(
+    private config: Config,
+    emailService?: Pick<EmailService, 'sendAdminAlert'>,
+    private post: WebhookPoster = postWebhook
+  ) {
+    this.emailService = emailService ?? new EmailService(config);
+  }
+
+  /**
+   * Whether any alert channel is configured
+   */
+  isEnabled(): boolean {
+    return this.config.alerts.adminEmail.length > 0 || this.config.alerts.webhookUrl !== '';
+  }
+
+  /**
+   * Build the alert for a finished run, or null if it succeeded
+   * Reports the first failed stage; later failures are listed in the error.
+   */
+  jobFailureAlert(run: JobRunRecord): AdminAlert | null {
+    if (run.status !== 'failed' && run.status !== 'partial') {
+      return null;
+    }
+
+    const failed = run.stages.find(s => s.status === 'failed');
+    const stage = failed?.stage ?? null;
+    const error = run.errors.length > 0 ? run.errors.join('; ') : 'Unknown error';
+
+    return {
+      kind: 'job-failed',
+      subject: `SIP job ${run.status}${stage ? ` at ${stage}` : ''} (${run.trigger}, ${run.startedAt.split('T')[0]})`,
+      stage,
+      error,
+      hints: stage ? STAGE_HINTS[stage] : [RERUN_HINT],
+      runId: run.runId,
+      occurredAt: run.finishedAt ?? run.startedAt,
+    };
+  }
+
+  /**
+   * Build the dead-man's switch alert, or null if a run since the
+   * scheduled time was handled
+   *
+   * A run is handled when it succeeded, finished partial (its snapshot or
+   * email still went out), or is a scheduled run that failed - that one
+   * already sent its own jobFailureAlert. Runs still in progress and failed
+   * manual or API runs do not count.
+   *
+   * @param expectedAt - When the scheduled run was due
+   * @param runs - Recent job runs, any order
+   * @param now - Check time (defaults to now)
+   */
+  missedRunAlert(expectedAt: Date, runs: JobRunRecord[], now: Date = new Date()): AdminAlert | null {
+    const since = runs.filter(r => new Date(r.startedAt).getTime() >= expectedAt.getTime());
+    if (since.some(r => r.status === 'success' || r.status === 'partial' || (r.status === 'failed' && r.trigger === 'cron'))) {
+      return null;
+    }
+
+    const last = [...since].sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+    const hours = ((now.getTime() - expectedAt.getTime()) / 3600000).toFixed(1);
+    const error = last
+      ? `No successful run ${hours}h after the scheduled time ${expectedAt.toISOString()}; last run ${last.status} at ${last.startedAt}${last.errors.length > 0 ? ` (${last.errors.join('; ')})` : ''}`
+      : `No run recorded ${hours}h after the scheduled time ${expectedAt.toISOString()}`;
+
+    return {
+      kind: 'missed-run',
+      subject: `SIP job missed its ${expectedAt.toISOString().split('T')[0]} run`,
+      stage: null,
+      error,
+      hints: MISSED_RUN_HINTS,
+      runId: last?.runId ?? null,
+      occurredAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Send an alert to every configured channel
+   */
+  async send(alert: AdminAlert): Promise<AdminAlertResult> {
+    const result: AdminAlertResult = { email: false, webhook: false };
+    const { adminEmail, webhookUrl } = this.config.alerts;
+
+    if (adminEmail.length > 0) {
+      try {
+        await this.emailService.sendAdminAlert(alert, adminEmail);
+        result.email = true;
+      } catch (error) {
+        console.error('❌ Admin alert email failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (webhookUrl) {
+      try {
+        await this.post(webhookUrl, {
+          text: `⚠️ ${alert.subject}\n${alert.error}\n${alert.hints.map(h => `• ${h}`).join('\n')}`,
+          ...alert,
+        });
+        result.webhook = true;
+        console.log(`✅ Admin alert posted to webhook (${alert.kind})`);
+      } catch (error) {
+        console.error('❌ Admin alert webhook failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Dead-man's switch for the scheduled job
+ *
+ * Armed with the time each scheduled run is due; once the grace period
+ * has passed it calls `onDeadline`, which checks for a handled run and
+ * alerts if there is none. Arming again replaces the pending deadline.
+ * A grace period of 0 disables it.
+ */
+export class DeadManSwitch {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private graceHours: number,
+    private onDeadline: (expectedAt: Date) => Promise<void>
+  ) {}
+
+  /**
+   * Start the countdown for a run due at `expectedAt`
+   *
+   * @returns The deadline, or null when disabled
+   */
+  arm(expectedAt: Date): Date | null {
+    this.disarm();
+    if (this.graceHours <= 0) {
+      return null;
+    }
+
+    const deadline = new Date(expectedAt.getTime() + this.graceHours * 3600000);
+    this.wait(deadline, expectedAt);
+
+    return deadline;
+  }
+
+  /**
+   * Cancel the pending deadline, if any
+   */
+  disarm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Call `onDeadline` at the deadline, in steps no longer than setTimeout
+   * allows (a monthly schedule's deadline is further off than that)
+   */
+  private wait(deadline: Date, expectedAt: Date): void {
+    const remaining = Math.max(0, deadline.getTime() - Date.now());
+
+    this.timer = setTimeout(() => {
+      if (remaining > MAX_TIMER_MS) {
+        this.wait(deadline, expectedAt);
+        return;
+      }
+
+      this.timer = null;
+      this.onDeadline(expectedAt).catch(error => {
+        console.error('❌ Dead-man check failed:', error instanceof Error ? error.message : error);
+      });
+    }, Math.min(remaining, MAX_TIMER_MS));
+  }
+}
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BacktestService } from './backtest';
+import { BacktestMarketData, PricePoint } from '../types';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+// Generate daily (weekday) closes from start date using a price function
+const generateSeries = (start: string, days: number, priceAt: (i: number) => number): PricePoint[] => {
+  const series: PricePoint[] = [];
+  const date = new Date(`${start}T00:00:00Z`);
+  let i = 0;
+  while (series.length < days) {
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      series.push({ date: date.toISOString().split('T')[0], close: priceAt(i) });
+      i++;
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return series;
+};
+
+describe('BacktestService', () => {
+  let service: BacktestService;
+
+  beforeEach(() => {
+    service = new BacktestService();
+  });
+
+  // ===========================================================================
+  // IRR Tests
+  // ===========================================================================
+  describe('calculateIRR', () => {
+    it('should return 10% for a single year with 10% gain', () => {
+      const irr = service.calculateIRR([
+        { date: '2021-01-01', amount: -100 },
+        { date: '2022-01-01', amount: 110 },
+      ]);
+      expect(irr).toBeCloseTo(10, 1);
+    });
+
+    it('should return negative IRR for a loss', () => {
+      const irr = service.calculateIRR([
+        { date: '2021-01-01', amount: -100 },
+        { date: '2022-01-01', amount: 80 },
+      ]);
+      expect(irr).toBeCloseTo(-20, 1);
+    });
+
+    it('should return null when all cash flows have the same sign', () => {
+      expect(service.calculateIRR([
+        { date: '2021-01-01', amount: -100 },
+        { date: '2022-01-01', amount: -50 },
+      ])).toBeNull();
+    });
+
+    it('should return null for fewer than two cash flows', () => {
+      expect(service.calculateIRR([{ date: '2021-01-01', amount: -100 }])).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // Max Drawdown Tests
+  // ===========================================================================
+  describe('calculateMaxDrawdown', () => {
+    it('should return 0 for steadily rising values', () => {
+      expect(service.calculateMaxDrawdown([
+        { value: 100, contribution: 100 },
+        { value: 110, contribution: 0 },
+        { value: 120, contribution: 0 },
+      ])).toBe(0);
+    });
+
+    it('should measure peak-to-trough decline', () => {
+      expect(service.calculateMaxDrawdown([
+        { value: 100, contribution: 100 },
+        { value: 120, contribution: 0 },
+        { value: 90, contribution: 0 },
+        { value: 130, contribution: 0 },
+      ])).toBe(25);
+    });
+
+    it('should not let new contributions hide losses', () => {
+      // Value rises 100 -> 180 only because 100 was added; underlying lost 20%
+      expect(service.calculateMaxDrawdown([
+        { value: 100, contribution: 100 },
+        { value: 180, contribution: 100 },
+      ])).toBe(20);
+    });
+  });
+
+  // ===========================================================================
+  // run() Tests
+  // ===========================================================================
+  describe('run', () => {
+    const vix = generateSeries('2023-01-02', 400, () => 18);
+
+    it('should invest every week and accumulate units', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-09-27',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.weeks).toBe(13);
+      expect(result.weekly[0].date).toBe('2023-07-05');
+      expect(result.totalInvested).toBe(result.weekly.reduce((sum, w) => sum + w.totalAmount, 0));
+      expect(result.positions).toHaveLength(1);
+      expect(result.positions[0].units).toBeCloseTo(result.totalInvested / 100, 4);
+      expect(result.positions[0].averageCost).toBe(100);
+    });
+
+    it('should report zero return and drawdown for flat prices', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-12-27',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.endingValue).toBeCloseTo(result.totalInvested, 1);
+      expect(result.totalReturnPercent).toBeCloseTo(0, 1);
+      expect(result.irr).toBeCloseTo(0, 1);
+      expect(result.maxDrawdownPercent).toBe(0);
+    });
+
+    it('should report positive IRR for rising prices', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, i => 100 * Math.pow(1.001, i)) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2024-06-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.endingValue).toBeGreaterThan(result.totalInvested);
+      expect(result.irr).toBeGreaterThan(0);
+    });
+
+    it('should only use prices up to each decision date', () => {
+      // Price jumps after the first decision week; first purchase must use the old price
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, i => (i <= 132 ? 100 : 200)) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.weekly[0].purchases[0].price).toBe(100);
+      expect(result.weekly[result.weekly.length - 1].purchases[0].price).toBe(200);
+    });
+
+    it('should use Fear & Greed only when a recent reading exists', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+        fearGreed: [{ date: '2023-07-03', close: 20 }],
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.weekly[0].fearGreedIndex).toBe(20);
+      expect(result.weekly[result.weekly.length - 1].fearGreedIndex).toBeNull();
+    });
+
+    it('should apply raw CSS multipliers unless confidence blending is requested', () => {
+      // No F&G history: every week would take the F&G fallback confidence penalty
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, i => 200 - i * 0.3) },
+        vix,
+      };
+      const options = {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      };
+
+      const raw = service.run(data, options, createMockConfig());
+      const blended = service.run(data, { ...options, blendConfidence: true }, createMockConfig());
+      const rawMultiplier = raw.weekly[0].purchases[0].multiplier;
+      const blendedMultiplier = blended.weekly[0].purchases[0].multiplier;
+
+      expect(raw).toMatchObject({ confidenceBlended: false, averageConfidence: 0.9 });
+      expect(blended).toMatchObject({ confidenceBlended: true, averageConfidence: 0.9 });
+      expect(rawMultiplier).not.toBe(1);
+      expect(blendedMultiplier).toBe(Math.round((1 + (rawMultiplier - 1) * 0.9) * 100) / 100);
+    });
+
+    it('should keep the engine quiet unless verbose is requested', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+      };
+      const options = {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      };
+
+      service.run(data, options, createMockConfig());
+      expect(log).not.toHaveBeenCalled();
+
+      const result = service.run(data, { ...options, verbose: true }, createMockConfig());
+      expect(log).toHaveBeenCalledTimes(result.weeks * 2);
+      log.mockRestore();
+    });
+
+    it('should include a flat-DCA benchmark over the same weeks', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.benchmark.weeks).toBe(result.weeks);
+      expect(result.benchmark.strategyInvested).toBe(result.totalInvested);
+      expect(result.benchmark.flatInvested).toBe(62.5 * result.weeks);
+    });
+
+    it('should skip symbols without history', () => {
+      const data: BacktestMarketData = {
+        prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) },
+        vix,
+      };
+
+      const result = service.run(data, {
+        startDate: '2023-07-05',
+        endDate: '2023-07-26',
+        symbols: ['QQQ', 'TLT'],
+        weeklyInvestmentAmount: 250,
+      }, createMockConfig());
+
+      expect(result.positions.map(p => p.symbol)).toEqual(['QQQ']);
+    });
+
+    it('should throw without VIX history', () => {
+      expect(() => service.run(
+        { prices: { QQQ: generateSeries('2023-01-02', 400, () => 100) }, vix: [] },
+        { startDate: '2023-07-05', endDate: '2023-07-26', symbols: ['QQQ'], weeklyInvestmentAmount: 250 },
+        createMockConfig()
+      )).toThrow('VIX history is required');
+    });
+  });
+});
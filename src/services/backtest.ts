@@ -0,0 +1,368 @@
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import { BenchmarkService } from './benchmark';
+import {
+  BacktestMarketData,
+  BacktestOptions,
+  BacktestPosition,
+  BacktestPurchase,
+  BacktestResult,
+  BacktestWeek,
+  Config,
+  MarketInputs,
+  PricePoint,
+  StockMarketInput
+} from '../types';
+import { getBudgetRange, HISTORY_TRADING_DAYS } from '../utils/multiplierThresholds';
+import { subtractTradingDays } from '../utils/tradingCalendar';
+
+/**
+ * Maximum age of a Fear & Greed reading before it is treated as missing
+ */
+const FEAR_GREED_MAX_AGE_DAYS = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Backtest Service
+ *
+ * Replays the CSS strategy week by week over stored daily history.
+ * Each week the engine only sees a point-in-time window of the series
+ * (the same HISTORY_TRADING_DAYS sessions a live run fetches), so the
+ * scores match what `generateAllocation` would have produced that day.
+ *
+ * Confidence blending is off unless `blendConfidence` is set: replayed
+ * history has no F&G readings for most of its range, so every week would
+ * take the F&G fallback penalty and shrink toward 1.0x. The average
+ * confidence is reported either way.
+ *
+ * The engine's progress logging is off unless `verbose` is set, so a
+ * multi-year replay does not print every week.
+ *
+ * ## Error Handling Strategy: THROWS ON INVALID INPUT
+ *
+ * Unlike the live data services, a backtest has no sensible fallback:
+ * missing VIX history or an empty date range throws immediately.
+ * Individual symbols without data for a given week are skipped that week.
+ */
+export class BacktestService {
+  private engine: PortfolioAllocationEngine;
+  private benchmarkService: BenchmarkService;
+
+  constructor(engine?: PortfolioAllocationEngine, benchmarkService?: BenchmarkService) {
+    this.engine = engine ?? new PortfolioAllocationEngine();
+    this.benchmarkService = benchmarkService ?? new BenchmarkService();
+  }
+
+  /**
+   * Run a backtest over the given history
+   *
+   * @param data - Daily closes per symbol plus VIX (and optional F&G) series
+   * @param options - Date range, symbols and base weekly budget
+   * @param config - Base config (budget limits are rescaled to the weekly amount under its risk profile)
+   * @throws Error if VIX history is missing or the range contains no weeks
+   */
+  run(data: BacktestMarketData, options: BacktestOptions, config: Config): BacktestResult {
+    if (data.vix.length === 0) {
+      throw new Error('VIX history is required for backtesting');
+    }
+
+    const decisionDates = this.getDecisionDates(options.startDate, options.endDate);
+    if (decisionDates.length === 0) {
+      throw new Error(`No backtest weeks between ${options.startDate} and ${options.endDate}`);
+    }
+
+    const backtestConfig: Config = {
+      ...config,
+      weeklyInvestmentAmount: options.weeklyInvestmentAmount,
+      defaultStocks: options.symbols,
+      ...getBudgetRange(options.weeklyInvestmentAmount, config.strategy.riskProfiles[config.riskTolerance])
+    };
+
+    const units = new Map<string, number>();
+    const invested = new Map<string, number>();
+    const weekly: BacktestWeek[] = [];
+    const confidences: number[] = [];
+    let totalInvested = 0;
+
+    for (const date of decisionDates) {
+      const inputs = this.buildMarketInputs(data, options.symbols, date);
+      if (inputs.stocks.length === 0) {
+        continue;
+      }
+
+      const report = this.engine.buildReport(inputs, backtestConfig, {
+        blendConfidence: options.blendConfidence ?? false,
+        quiet: !options.verbose
+      });
+      const priceBySymbol = new Map(inputs.stocks.map(s => [s.symbol, s.marketData.price]));
+
+      const purchases: BacktestPurchase[] = report.allocations.map(allocation => {
+        const price = priceBySymbol.get(allocation.symbol) ?? 0;
+        const boughtUnits = price > 0 ? allocation.amount / price : 0;
+
+        units.set(allocation.symbol, (units.get(allocation.symbol) ?? 0) + boughtUnits);
+        invested.set(allocation.symbol, (invested.get(allocation.symbol) ?? 0) + allocation.amount);
+        confidences.push(allocation.confidence);
+
+        return {
+          symbol: allocation.symbol,
+          price,
+          amount: allocation.amount,
+          baseAmount: allocation.baseAmount,
+          units: this.roundUnits(boughtUnits),
+          cssScore: allocation.cssScore,
+          multiplier: allocation.multiplier
+        };
+      });
+
+      totalInvested += report.totalAmount;
+
+      weekly.push({
+        date,
+        vix: report.vix,
+        fearGreedIndex: report.fearGreedIndex,
+        marketCSS: this.round(report.marketCSS),
+        totalAmount: report.totalAmount,
+        purchases,
+        totalInvested,
+        portfolioValue: this.round(this.valuePortfolio(data, units, date))
+      });
+    }
+
+    if (weekly.length === 0) {
+      throw new Error('No price history available for any symbol in the backtest range');
+    }
+
+    const positions = this.buildPositions(data, units, invested, options.endDate);
+    const endingValue = positions.reduce((sum, p) => sum + p.endingValue, 0);
+
+    // Money-weighted return: weekly contributions out, ending value back in
+    const cashflows = weekly.map(w => ({ date: w.date, amount: -w.totalAmount }));
+    cashflows.push({ date: options.endDate, amount: endingValue });
+
+    // Time-weighted drawdown: append final valuation if it falls after the last week
+    const valuations = weekly.map(w => ({ value: w.portfolioValue, contribution: w.totalAmount }));
+    if (options.endDate > weekly[weekly.length - 1].date) {
+      valuations.push({ value: endingValue, contribution: 0 });
+    }
+
+    return {
+      startDate: options.startDate,
+      endDate: options.endDate,
+      weeks: weekly.length,
+      totalInvested: this.round(totalInvested),
+      endingValue: this.round(endingValue),
+      totalReturnPercent: totalInvested > 0
+        ? this.round(((endingValue - totalInvested) / totalInvested) * 100)
+        : 0,
+      irr: this.calculateIRR(cashflows),
+      maxDrawdownPercent: this.calculateMaxDrawdown(valuations),
+      confidenceBlended: options.blendConfidence ?? false,
+      averageConfidence: confidences.length > 0
+        ? this.round(confidences.reduce((sum, c) => sum + c, 0) / confidences.length)
+        : 1,
+      positions,
+      weekly,
+      benchmark: this.benchmarkService.fromBacktest(
+        weekly,
+        options.weeklyInvestmentAmount,
+        Object.fromEntries(positions.map(p => [p.symbol, p.endingPrice])),
+        options.endDate
+      )
+    };
+  }
+
+  /**
+   * Calculate annualized internal rate of return (XIRR) in percent
+   * Solved by bisection; returns null when no sign change exists
+   */
+  calculateIRR(cashflows: Array<{ date: string; amount: number }>): number | null {
+    if (cashflows.length < 2) return null;
+
+    const origin = Date.parse(cashflows[0].date);
+    const flows = cashflows.map(cf => ({
+      years: (Date.parse(cf.date) - origin) / MS_PER_DAY / 365,
+      amount: cf.amount
+    }));
+
+    const npv = (rate: number) =>
+      flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+
+    let low = -0.9999;
+    let high = 10;
+    let npvLow = npv(low);
+    const npvHigh = npv(high);
+
+    if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) {
+      return null;
+    }
+
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      const npvMid = npv(mid);
+      if (Math.abs(npvMid) < 1e-7) {
+        low = high = mid;
+        break;
+      }
+      if (npvLow * npvMid < 0) {
+        high = mid;
+      } else {
+        low = mid;
+        npvLow = npvMid;
+      }
+    }
+
+    return this.round(((low + high) / 2) * 100);
+  }
+
+  /**
+   * Calculate maximum drawdown (%) of a time-weighted return index
+   *
+   * Contributions are stripped out of each period's growth so that
+   * new money does not mask losses:
+   *   growth_t = (value_t - contribution_t) / value_{t-1}
+   */
+  calculateMaxDrawdown(valuations: Array<{ value: number; contribution: number }>): number {
+    let index = 1;
+    let peak = 1;
+    let maxDrawdown = 0;
+
+    for (let i = 1; i < valuations.length; i++) {
+      const previous = valuations[i - 1].value;
+      if (previous <= 0) continue;
+
+      index *= (valuations[i].value - valuations[i].contribution) / previous;
+      peak = Math.max(peak, index);
+      maxDrawdown = Math.max(maxDrawdown, (peak - index) / peak);
+    }
+
+    return this.round(maxDrawdown * 100);
+  }
+
+  /**
+   * Weekly decision dates from start to end (inclusive), 7 days apart
+   */
+  private getDecisionDates(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    const end = Date.parse(endDate);
+
+    for (let t = Date.parse(startDate); t <= end; t += 7 * MS_PER_DAY) {
+      dates.push(this.toDateString(t));
+    }
+
+    return dates;
+  }
+
+  /**
+   * Build point-in-time market inputs as a live run would have seen them on `date`
+   */
+  private buildMarketInputs(data: BacktestMarketData, symbols: string[], date: string): MarketInputs {
+    const windowStart = subtractTradingDays(date, HISTORY_TRADING_DAYS);
+
+    const stocks: StockMarketInput[] = [];
+    for (const symbol of symbols) {
+      const window = (data.prices[symbol] ?? [])
+        .filter(p => p.date >= windowStart && p.date <= date);
+      if (window.length < 2) continue;
+
+      const price = window[window.length - 1].close;
+      const previousClose = window[window.length - 2].close;
+
+      stocks.push({
+        symbol,
+        marketData: {
+          symbol,
+          price,
+          previousClose,
+          change: price - previousClose,
+          changePercent: ((price - previousClose) / previousClose) * 100,
+          volume: 0,
+          timestamp: new Date(date),
+          // Replayed history is treated as primary-source data
+          dataSource: 'yahoo-finance2'
+        },
+        prices: window.map(p => p.close),
+        historySource: 'yahoo-finance2'
+      });
+    }
+
+    const vixPoint = this.getLatestOnOrBefore(data.vix, date);
+    const fearGreedPoint = this.getLatestOnOrBefore(data.fearGreed ?? [], date);
+    const fearGreedFresh = !!fearGreedPoint &&
+      Date.parse(date) - Date.parse(fearGreedPoint.date) <= FEAR_GREED_MAX_AGE_DAYS * MS_PER_DAY;
+
+    return {
+      date: new Date(date),
+      // Before the first VIX print, fall back to the earliest known value
+      vix: vixPoint?.close ?? data.vix[0].close,
+      vixSource: 'yahoo-finance2',
+      fearGreed: {
+        value: fearGreedFresh ? Math.round(fearGreedPoint.close) : 50,
+        rating: fearGreedFresh ? 'Historical' : 'Unknown',
+        timestamp: new Date(date),
+        success: fearGreedFresh
+      },
+      stocks
+    };
+  }
+
+  /**
+   * Mark all held units to market as of `date`
+   */
+  private valuePortfolio(data: BacktestMarketData, units: Map<string, number>, date: string): number {
+    let value = 0;
+    for (const [symbol, held] of units) {
+      const point = this.getLatestOnOrBefore(data.prices[symbol] ?? [], date);
+      value += held * (point?.close ?? 0);
+    }
+    return value;
+  }
+
+  /**
+   * Build final positions valued at the end date
+   */
+  private buildPositions(
+    data: BacktestMarketData,
+    units: Map<string, number>,
+    invested: Map<string, number>,
+    endDate: string
+  ): BacktestPosition[] {
+    return [...units.entries()].map(([symbol, held]) => {
+      const endingPrice = this.getLatestOnOrBefore(data.prices[symbol] ?? [], endDate)?.close ?? 0;
+      const cost = invested.get(symbol) ?? 0;
+
+      return {
+        symbol,
+        units: this.roundUnits(held),
+        invested: this.round(cost),
+        averageCost: held > 0 ? this.round(cost / held) : 0,
+        endingPrice,
+        endingValue: this.round(held * endingPrice)
+      };
+    });
+  }
+
+  /**
+   * Latest point dated on or before `date` (series ordered oldest to newest)
+   */
+  private getLatestOnOrBefore(series: PricePoint[], date: string): PricePoint | undefined {
+    for (let i = series.length - 1; i >= 0; i--) {
+      if (series[i].date <= date) {
+        return series[i];
+      }
+    }
+    return undefined;
+  }
+
+  private toDateString(time: number): string {
+    return new Date(time).toISOString().split('T')[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundUnits(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
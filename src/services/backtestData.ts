@@ -0,0 +1,65 @@
+import { MarketDataService } from './marketData';
+import { FearGreedService } from './fearGreedIndex';
+import { BacktestMarketData, PricePoint } from '../types';
+import { HISTORY_TRADING_DAYS } from '../utils/multiplierThresholds';
+import { subtractTradingDays } from '../utils/tradingCalendar';
+
+/**
+ * Backtest Data Service
+ *
+ * Fetches the price, VIX and Fear & Greed history a backtest replays.
+ * Shared by POST /api/backtest and the optimiser CLI.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * Series that cannot be fetched come back empty; callers decide whether
+ * the remaining data is enough to run (BacktestService throws if not).
+ */
+export class BacktestDataService {
+  private marketDataService: MarketDataService;
+  private fearGreedService: FearGreedService;
+
+  constructor(marketDataService?: MarketDataService, fearGreedService?: FearGreedService) {
+    this.marketDataService = marketDataService ?? new MarketDataService();
+    this.fearGreedService = fearGreedService ?? new FearGreedService();
+  }
+
+  /**
+   * Fetch price, VIX and Fear & Greed history for a backtest
+   * Starts HISTORY_TRADING_DAYS sessions before the first week so indicators have a full window
+   */
+  async fetch(symbols: string[], startDate: string, endDate: string): Promise<BacktestMarketData> {
+    const fetchStart = subtractTradingDays(startDate, HISTORY_TRADING_DAYS);
+
+    const [vix, fearGreed, ...series] = await Promise.all([
+      this.marketDataService.fetchPriceSeries('^VIX', fetchStart, endDate),
+      this.fearGreedService.fetchFearGreedHistory(fetchStart),
+      ...symbols.map(symbol => this.marketDataService.fetchPriceSeries(symbol, fetchStart, endDate)),
+    ]);
+
+    const prices: Record<string, PricePoint[]> = {};
+    symbols.forEach((symbol, i) => {
+      prices[symbol] = series[i];
+    });
+
+    return { prices, vix, fearGreed };
+  }
+
+  /**
+   * Uppercase symbol keys and sort every series oldest to newest
+   */
+  normalize(data: BacktestMarketData): BacktestMarketData {
+    const byDate = (a: PricePoint, b: PricePoint) => a.date.localeCompare(b.date);
+
+    const prices: Record<string, PricePoint[]> = {};
+    for (const [symbol, series] of Object.entries(data.prices)) {
+      prices[symbol.toUpperCase()] = [...series].sort(byDate);
+    }
+
+    return {
+      prices,
+      vix: [...data.vix].sort(byDate),
+      fearGreed: data.fearGreed ? [...data.fearGreed].sort(byDate) : undefined,
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BarCacheService } from './barCache';
+import { CachedBarSeries, PriceBar } from '../types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createBar = (date: string, close: number): PriceBar => ({
+  date, open: close - 1, high: close + 1, low: close - 2, close, volume: 1000,
+});
+
+const NOW = new Date('2025-03-05T08:00:00Z');
+
+const createSeries = (overrides: Partial<CachedBarSeries> = {}): CachedBarSeries => ({
+  symbol: 'QQQ',
+  source: 'yahoo-finance2',
+  from: '2025-01-01',
+  updatedAt: '2025-03-04T08:00:00.000Z',
+  bars: [createBar('2025-03-03', 500), createBar('2025-03-04', 505)],
+  ...overrides,
+});
+
+describe('BarCacheService', () => {
+  let dir: string;
+  let cache: BarCacheService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bar-cache-'));
+    cache = new BarCacheService(path.join(dir, 'cache'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // ===========================================================================
+  // read() / write() Tests
+  // ===========================================================================
+  describe('read and write', () => {
+    it('should round-trip a series, creating the directory', async () => {
+      const series = createSeries();
+
+      expect(await cache.write(series)).toBe(true);
+      expect(await cache.read('qqq')).toEqual(series);
+    });
+
+    it('should store index symbols under an encoded name', async () => {
+      await cache.write(createSeries({ symbol: '^VIX' }));
+
+      expect(fs.existsSync(path.join(dir, 'cache', '%5EVIX.json'))).toBe(true);
+      expect((await cache.read('^VIX'))?.symbol).toBe('^VIX');
+    });
+
+    it('should treat missing and corrupt files as a miss', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(await cache.read('QQQ')).toBeNull();
+
+      fs.mkdirSync(path.join(dir, 'cache'));
+      fs.writeFileSync(path.join(dir, 'cache', 'QQQ.json'), '{"bars": 1');
+      expect(await cache.read('QQQ')).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should let concurrent writes of one symbol all succeed', async () => {
+      const series = [500, 510, 520].map(close => createSeries({ bars: [createBar('2025-03-04', close)] }));
+
+      expect(await Promise.all(series.map(s => cache.write(s)))).toEqual([true, true, true]);
+      expect(series).toContainEqual(await cache.read('QQQ'));
+      expect(fs.readdirSync(path.join(dir, 'cache'))).toEqual(['QQQ.json']);
+    });
+
+    it('should report a failed write without throwing', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      fs.writeFileSync(path.join(dir, 'blocked'), '');
+
+      expect(await new BarCacheService(path.join(dir, 'blocked')).write(createSeries())).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // merge() Tests
+  // ===========================================================================
+  describe('merge', () => {
+    it('should append the tail and replace the last cached bar', () => {
+      const merged = cache.merge(
+        createSeries(),
+        'QQQ',
+        [createBar('2025-03-04', 507), createBar('2025-03-05', 510)],
+        'csv',
+        '2025-03-04',
+        NOW
+      );
+
+      expect(merged.bars.map(b => [b.date, b.close])).toEqual([
+        ['2025-03-03', 500], ['2025-03-04', 507], ['2025-03-05', 510],
+      ]);
+      expect(merged.source).toBe('csv');
+      expect(merged.from).toBe('2025-01-01');
+      expect(merged.updatedAt).toBe(NOW.toISOString());
+    });
+
+    it('should rescale cached bars when a split came between fetches', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const cached = createSeries({ bars: [{ ...createBar('2025-03-03', 500), adjClose: 496 }, createBar('2025-03-04', 505)] });
+
+      // Provider now reports 2025-03-04 on the post-4:1 basis
+      const merged = cache.merge(cached, 'QQQ', [createBar('2025-03-04', 126.25), createBar('2025-03-05', 127)], 'yahoo-finance2', '2025-03-04', NOW);
+
+      expect(merged.bars.map(b => [b.date, b.close])).toEqual([
+        ['2025-03-03', 125], ['2025-03-04', 126.25], ['2025-03-05', 127],
+      ]);
+      expect(merged.bars[0]).toMatchObject({ open: 124.75, high: 125.25, low: 124.5, adjClose: 124, volume: 4000 });
+      vi.restoreAllMocks();
+    });
+
+    it('should restate cached adjusted closes after a dividend', () => {
+      const cached = createSeries({
+        bars: ['2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07']
+          .map(date => ({ ...createBar(date, 100), adjClose: 100 })),
+      });
+
+      // A $1 dividend went ex on 03-10: the provider now reports 99/100 of every earlier adjClose
+      const fetched = [
+        { ...createBar('2025-03-07', 100), adjClose: 99 },
+        { ...createBar('2025-03-10', 99), adjClose: 99 },
+        { ...createBar('2025-03-11', 99), adjClose: 99 },
+      ];
+      const merged = cache.merge(cached, 'TLT', fetched, 'yahoo-finance2', '2025-03-07', NOW);
+
+      expect(merged.bars.map(b => b.adjClose)).toEqual([99, 99, 99, 99, 99, 99, 99]);
+      expect(merged.bars.map(b => b.close)).toEqual([100, 100, 100, 100, 100, 99, 99]);
+    });
+
+    it('should keep a large real move on the shared date as it is', () => {
+      const merged = cache.merge(createSeries(), 'QQQ', [createBar('2025-03-04', 380)], 'yahoo-finance2', '2025-03-04', NOW);
+
+      expect(merged.bars.map(b => b.close)).toEqual([500, 380]);
+    });
+
+    it('should start a new series from the fetched range', () => {
+      const merged = cache.merge(null, 'QQQ', [createBar('2025-03-05', 510)], 'stooq', '2024-10-06', NOW);
+
+      expect(merged).toMatchObject({ symbol: 'QQQ', source: 'stooq', from: '2024-10-06' });
+      expect(merged.bars).toHaveLength(1);
+    });
+
+    it('should extend coverage back when a wider window is fetched', () => {
+      const merged = cache.merge(createSeries(), 'QQQ', [createBar('2024-11-01', 480)], 'yahoo-finance2', '2024-10-06', NOW);
+
+      expect(merged.from).toBe('2024-10-06');
+      expect(merged.bars[0].date).toBe('2024-11-01');
+    });
+  });
+
+  // ===========================================================================
+  // isFresh() / getAgeHours() Tests
+  // ===========================================================================
+  describe('age', () => {
+    it('should be fresh only within the refresh interval', () => {
+      expect(cache.isFresh(createSeries({ updatedAt: '2025-03-05T07:50:00.000Z' }), NOW)).toBe(true);
+      expect(cache.isFresh(createSeries({ updatedAt: '2025-03-05T07:30:00.000Z' }), NOW)).toBe(false);
+    });
+
+    it('should report age in hours to one decimal', () => {
+      expect(cache.getAgeHours(createSeries(), NOW)).toBe(24);
+      expect(cache.getAgeHours(createSeries({ updatedAt: '2025-03-05T06:15:00.000Z' }), NOW)).toBe(1.8);
+    });
+  });
+});
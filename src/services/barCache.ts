@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { CachedBarSeries, PriceBar, ProviderDataSource } from '../types';
+import { matchSplitRatio } from '../utils/priceAdjustment';
+
+/**
+ * A cache refreshed this recently is served without asking the providers
+ */
+export const BAR_CACHE_REFRESH_MINUTES = 15;
+
+/**
+ * Bar Cache Service
+ *
+ * Persists daily OHLCV bars per symbol as JSON files in a data directory,
+ * so history is downloaded once and then only the missing tail is fetched.
+ * When every provider fails the cached bars are used instead of simulated
+ * data, with their age reported.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * A missing or unreadable cache file is a cache miss; a failed write is
+ * logged and the freshly fetched bars are still returned to the caller.
+ */
+export class BarCacheService {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Cached bars for a symbol, or null if none
+   */
+  async read(symbol: string): Promise<CachedBarSeries | null> {
+    try {
+      const series = JSON.parse(await readFile(this.filePath(symbol), 'utf-8')) as CachedBarSeries;
+      if (!Array.isArray(series?.bars) || typeof series.from !== 'string') {
+        throw new Error('Unexpected cache file shape');
+      }
+      return series;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Ignoring unreadable bar cache for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Save bars for a symbol (write to a temp file, then rename)
+   * The temp name is unique, so concurrent writers (e.g. the cron job and
+   * an API request) never rename each other's half-written file
+   *
+   * @returns True if the cache file was written
+   */
+  async write(series: CachedBarSeries): Promise<boolean> {
+    const file = this.filePath(series.symbol);
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(tmp, JSON.stringify(series));
+      await rename(tmp, file);
+      return true;
+    } catch (error) {
+      await rm(tmp, { force: true }).catch(() => {});
+      console.warn(`⚠️ Failed to write bar cache for ${series.symbol}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Merge freshly fetched bars into a cached series
+   * Fetched bars replace cached ones on the same date (the last cached bar
+   * may have been an intraday value). If the provider's close for that
+   * shared date differs from the cached one by a split ratio, a split came
+   * between the two fetches: cached bars are rescaled to the new basis.
+   * Adjusted closes are always put on the fetched basis: after a dividend
+   * the provider restates adjClose for every earlier bar, so cached ones
+   * are scaled by fetched/cached adjClose on the shared date.
+   *
+   * @param cached - Existing series, or null to start a new one
+   * @param from - First date the fetch covered (extends `from` if earlier)
+   */
+  merge(
+    cached: CachedBarSeries | null,
+    symbol: string,
+    bars: PriceBar[],
+    source: ProviderDataSource,
+    from: string,
+    now: Date = new Date()
+  ): CachedBarSeries {
+    const { factor, adjFactor } = cached ? this.getRebaseFactors(cached.bars, bars) : { factor: 1, adjFactor: 1 };
+    if (factor !== 1) {
+      console.warn(`⚠️ ${symbol}: Split since the last fetch - rescaling cached bars by ${factor}`);
+    }
+
+    const byDate = new Map<string, PriceBar>();
+    for (const bar of (cached?.bars ?? []).map(bar => this.rescale(bar, factor, adjFactor))) {
+      byDate.set(bar.date, bar);
+    }
+    for (const bar of bars) {
+      byDate.set(bar.date, bar);
+    }
+
+    return {
+      symbol,
+      source,
+      from: cached && cached.from < from ? cached.from : from,
+      updatedAt: now.toISOString(),
+      bars: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    };
+  }
+
+  /**
+   * Whether the series was refreshed within BAR_CACHE_REFRESH_MINUTES
+   */
+  isFresh(series: CachedBarSeries, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(series.updatedAt).getTime() < BAR_CACHE_REFRESH_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Hours since the series was last refreshed (1 decimal)
+   */
+  getAgeHours(series: CachedBarSeries, now: Date = new Date()): number {
+    const hours = (now.getTime() - new Date(series.updatedAt).getTime()) / (60 * 60 * 1000);
+    return Math.round(hours * 10) / 10;
+  }
+
+  /**
+   * Factors putting cached bars on the fetched basis (1 = same basis)
+   * Compares the first date both have: `factor` for prices and volume (a
+   * split ratio, else 1), `adjFactor` for adjusted closes (the change in
+   * adjClose when both have one, else the same as `factor`)
+   */
+  private getRebaseFactors(cachedBars: PriceBar[], fetchedBars: PriceBar[]): { factor: number; adjFactor: number } {
+    const fetchedByDate = new Map(fetchedBars.map(bar => [bar.date, bar]));
+    const shared = cachedBars.find(bar => fetchedByDate.has(bar.date));
+    if (!shared) return { factor: 1, adjFactor: 1 };
+
+    const fetched = fetchedByDate.get(shared.date) as PriceBar;
+    const ratio = matchSplitRatio(shared.close / fetched.close);
+    const factor = ratio === null ? 1 : 1 / ratio;
+    const adjFactor = shared.adjClose !== undefined && shared.adjClose > 0 && fetched.adjClose !== undefined
+      ? fetched.adjClose / shared.adjClose
+      : factor;
+
+    return { factor, adjFactor };
+  }
+
+  /**
+   * Scale a cached bar's prices by a factor and its adjusted close by `adjFactor`
+   */
+  private rescale(bar: PriceBar, factor: number, adjFactor: number): PriceBar {
+    if (factor === 1 && adjFactor === 1) return bar;
+
+    const scaled: PriceBar = factor === 1 ? { ...bar } : {
+      ...bar,
+      open: bar.open === null ? null : bar.open * factor,
+      high: bar.high === null ? null : bar.high * factor,
+      low: bar.low === null ? null : bar.low * factor,
+      close: bar.close * factor,
+      volume: Math.round(bar.volume / factor),
+    };
+    if (bar.adjClose !== undefined) scaled.adjClose = bar.adjClose * adjFactor;
+    return scaled;
+  }
+
+  /**
+   * Cache file for a symbol (^VIX → %5EVIX.json)
+   */
+  private filePath(symbol: string): string {
+    return path.join(this.dir, `${encodeURIComponent(symbol.toUpperCase())}.json`);
+  }
+}
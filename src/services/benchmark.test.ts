@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BenchmarkService } from './benchmark';
+import { BacktestWeek, BenchmarkPurchase } from '../types';
+
+describe('BenchmarkService', () => {
+  let service: BenchmarkService;
+
+  beforeEach(() => {
+    service = new BenchmarkService();
+  });
+
+  // ===========================================================================
+  // compare() Tests
+  // ===========================================================================
+  describe('compare', () => {
+    // CSS buys more when price is low, less when price is high
+    const purchases: BenchmarkPurchase[] = [
+      { date: '2024-01-03', symbol: 'QQQ', price: 100, strategyAmount: 50, flatAmount: 50 },
+      { date: '2024-01-10', symbol: 'QQQ', price: 50, strategyAmount: 60, flatAmount: 50 },
+      { date: '2024-01-17', symbol: 'QQQ', price: 200, strategyAmount: 25, flatAmount: 50 },
+    ];
+
+    it('should accumulate units for both approaches', () => {
+      const result = service.compare(purchases, { QQQ: 100 });
+      const qqq = result.symbols[0];
+
+      // CSS: 0.5 + 1.2 + 0.125 = 1.825 | Flat: 0.5 + 1 + 0.25 = 1.75
+      expect(qqq.strategy.units).toBeCloseTo(1.825, 6);
+      expect(qqq.flatDCA.units).toBeCloseTo(1.75, 6);
+      expect(qqq.unitsDifference).toBeCloseTo(0.075, 6);
+    });
+
+    it('should compute average cost per share', () => {
+      const qqq = service.compare(purchases, { QQQ: 100 }).symbols[0];
+
+      expect(qqq.strategy.averageCost).toBeCloseTo(135 / 1.825, 2);
+      expect(qqq.flatDCA.averageCost).toBeCloseTo(150 / 1.75, 2);
+      expect(qqq.averageCostDifference).toBeLessThan(0);
+    });
+
+    it('should value both approaches at the ending price', () => {
+      const result = service.compare(purchases, { QQQ: 100 });
+
+      expect(result.strategyEndingValue).toBeCloseTo(182.5, 2);
+      expect(result.flatEndingValue).toBeCloseTo(175, 2);
+      expect(result.endingValueDifference).toBeCloseTo(7.5, 2);
+      expect(result.strategyInvested).toBe(135);
+      expect(result.flatInvested).toBe(150);
+    });
+
+    it('should report date range and week count', () => {
+      const result = service.compare(purchases, { QQQ: 100 }, '2024-02-01');
+
+      expect(result.startDate).toBe('2024-01-03');
+      expect(result.endDate).toBe('2024-02-01');
+      expect(result.weeks).toBe(3);
+    });
+
+    it('should fall back to last purchase price when no ending price given', () => {
+      const qqq = service.compare(purchases, {}).symbols[0];
+      expect(qqq.endingPrice).toBe(200);
+    });
+
+    it('should ignore purchases without a valid price', () => {
+      const result = service.compare(
+        [...purchases, { date: '2024-01-24', symbol: 'QQQ', price: 0, strategyAmount: 50, flatAmount: 50 }],
+        { QQQ: 100 }
+      );
+      expect(result.flatInvested).toBe(150);
+    });
+
+    it('should handle empty input', () => {
+      const result = service.compare([], {});
+      expect(result.symbols).toEqual([]);
+      expect(result.weeks).toBe(0);
+      expect(result.endingValueDifference).toBe(0);
+    });
+  });
+
+  // ===========================================================================
+  // Source adapters
+  // ===========================================================================
+  describe('getFlatAmount', () => {
+    it('should split the weekly budget by base allocation', () => {
+      expect(service.getFlatAmount('QQQ', 250)).toBe(62.5);
+      expect(service.getFlatAmount('TSLA', 250)).toBe(18.75);
+    });
+  });
+
+  describe('fromBacktest', () => {
+    it('should use base allocation of the weekly budget as flat amount', () => {
+      const weekly: BacktestWeek[] = [{
+        date: '2024-01-03',
+        vix: 18,
+        fearGreedIndex: null,
+        marketCSS: 40,
+        totalAmount: 75,
+        purchases: [{ symbol: 'QQQ', price: 100, amount: 75, baseAmount: 63, units: 0.75, cssScore: 70, multiplier: 1.2 }],
+        totalInvested: 75,
+        portfolioValue: 75,
+      }];
+
+      const result = service.fromBacktest(weekly, 250, { QQQ: 100 }, '2024-01-10');
+      expect(result.symbols[0].flatDCA.invested).toBe(62.5);
+      expect(result.symbols[0].strategy.invested).toBe(75);
+    });
+  });
+
+  describe('fromHistory', () => {
+    it('should use each snapshot base budget and sort by date', () => {
+      const result = service.fromHistory([
+        { symbol: 'QQQ', price: 110, finalAmount: 60, snapshotDate: '2024-01-10', baseBudget: 300 },
+        { symbol: 'QQQ', price: 100, finalAmount: 50, snapshotDate: '2024-01-03', baseBudget: 250 },
+      ], { QQQ: 120 });
+
+      expect(result.startDate).toBe('2024-01-03');
+      expect(result.symbols[0].flatDCA.invested).toBe(62.5 + 75);
+      expect(result.symbols[0].strategy.invested).toBe(110);
+    });
+  });
+});
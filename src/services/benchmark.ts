@@ -0,0 +1,162 @@
+import {
+  BacktestWeek,
+  BenchmarkComparison,
+  BenchmarkHistoryRow,
+  BenchmarkLeg,
+  BenchmarkPurchase,
+  SymbolBenchmark
+} from '../types';
+import { getBaseAllocationPercentage } from '../utils/multiplierThresholds';
+
+/**
+ * Flat-DCA Benchmark Service
+ *
+ * Answers "did CSS beat plain $250/week?" by replaying the same weeks,
+ * symbols and prices with a constant 1.0x multiplier.
+ *
+ * Works on any sequence of weekly purchases, so it is used both for
+ * backtests (`fromBacktest`) and for real stored history (`fromHistory`).
+ * All methods are pure calculations and never throw.
+ */
+export class BenchmarkService {
+  /**
+   * Compare CSS purchases against flat DCA on the same weeks
+   *
+   * @param purchases - Weekly purchases with both strategy and flat amounts
+   * @param endingPrices - Valuation price per symbol
+   * @param endDate - Valuation date (defaults to last purchase date)
+   */
+  compare(
+    purchases: BenchmarkPurchase[],
+    endingPrices: Record<string, number>,
+    endDate?: string
+  ): BenchmarkComparison {
+    const bySymbol = new Map<string, BenchmarkPurchase[]>();
+    for (const purchase of purchases) {
+      if (purchase.price <= 0) continue;
+      const list = bySymbol.get(purchase.symbol) ?? [];
+      list.push(purchase);
+      bySymbol.set(purchase.symbol, list);
+    }
+
+    const symbols: SymbolBenchmark[] = [...bySymbol.entries()].map(([symbol, list]) => {
+      const endingPrice = endingPrices[symbol] ?? list[list.length - 1].price;
+      const strategy = this.buildLeg(list, p => p.strategyAmount, endingPrice);
+      const flatDCA = this.buildLeg(list, p => p.flatAmount, endingPrice);
+
+      return {
+        symbol,
+        endingPrice,
+        strategy,
+        flatDCA,
+        unitsDifference: this.roundUnits(strategy.units - flatDCA.units),
+        averageCostDifference: this.round(strategy.averageCost - flatDCA.averageCost),
+        endingValueDifference: this.round(strategy.endingValue - flatDCA.endingValue)
+      };
+    });
+
+    const dates = [...new Set(purchases.map(p => p.date))].sort();
+    const sum = (pick: (s: SymbolBenchmark) => number) =>
+      this.round(symbols.reduce((total, s) => total + pick(s), 0));
+
+    const strategyEndingValue = sum(s => s.strategy.endingValue);
+    const flatEndingValue = sum(s => s.flatDCA.endingValue);
+
+    return {
+      startDate: dates[0] ?? '',
+      endDate: endDate ?? dates[dates.length - 1] ?? '',
+      weeks: dates.length,
+      strategyInvested: sum(s => s.strategy.invested),
+      strategyEndingValue,
+      flatInvested: sum(s => s.flatDCA.invested),
+      flatEndingValue,
+      endingValueDifference: this.round(strategyEndingValue - flatEndingValue),
+      symbols
+    };
+  }
+
+  /**
+   * Benchmark a backtest run
+   * Flat amount per symbol = weekly budget × base allocation %
+   */
+  fromBacktest(
+    weekly: BacktestWeek[],
+    weeklyInvestmentAmount: number,
+    endingPrices: Record<string, number>,
+    endDate: string
+  ): BenchmarkComparison {
+    const purchases = weekly.flatMap(week =>
+      week.purchases.map(purchase => ({
+        date: week.date,
+        symbol: purchase.symbol,
+        price: purchase.price,
+        strategyAmount: purchase.amount,
+        flatAmount: this.getFlatAmount(purchase.symbol, weeklyInvestmentAmount)
+      }))
+    );
+
+    return this.compare(purchases, endingPrices, endDate);
+  }
+
+  /**
+   * Benchmark real stored history (weeklySnapshots/stockAnalyses)
+   * Each week uses the base budget that was in force for that snapshot
+   */
+  fromHistory(
+    rows: BenchmarkHistoryRow[],
+    endingPrices: Record<string, number>,
+    endDate?: string
+  ): BenchmarkComparison {
+    const purchases = [...rows]
+      .sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate))
+      .map(row => ({
+        date: row.snapshotDate,
+        symbol: row.symbol,
+        price: row.price,
+        strategyAmount: row.finalAmount,
+        flatAmount: this.getFlatAmount(row.symbol, row.baseBudget)
+      }));
+
+    return this.compare(purchases, endingPrices, endDate);
+  }
+
+  /**
+   * Flat 1.0x weekly amount for a symbol
+   */
+  getFlatAmount(symbol: string, weeklyInvestmentAmount: number): number {
+    return (weeklyInvestmentAmount * getBaseAllocationPercentage(symbol)) / 100;
+  }
+
+  /**
+   * Accumulate units and cost for one approach
+   */
+  private buildLeg(
+    purchases: BenchmarkPurchase[],
+    amountOf: (p: BenchmarkPurchase) => number,
+    endingPrice: number
+  ): BenchmarkLeg {
+    let units = 0;
+    let invested = 0;
+
+    for (const purchase of purchases) {
+      const amount = amountOf(purchase);
+      units += amount / purchase.price;
+      invested += amount;
+    }
+
+    return {
+      units: this.roundUnits(units),
+      invested: this.round(invested),
+      averageCost: units > 0 ? this.round(invested / units) : 0,
+      endingValue: this.round(units * endingPrice)
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundUnits(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
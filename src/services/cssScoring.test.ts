@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { CSSService } from './cssScoring';
 import { BUDGET_CONSTRAINTS } from '../utils/multiplierThresholds';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
 
 describe('CSSService', () => {
   let service: CSSService;
@@ -474,4 +475,45 @@ describe('CSSService', () => {
       expect(result).toBe(100); // Treated as extremely oversold
     });
   });
+
+  // ===========================================================================
+  // Risk Profile Tests
+  // ===========================================================================
+  describe('Risk Profiles', () => {
+    it('should default to the moderate profile', () => {
+      expect(service.getProfile().name).toBe('moderate');
+    });
+
+    it('should cap conservative multipliers at 1.1x', () => {
+      const conservative = new CSSService(DEFAULT_STRATEGY, 'conservative');
+      expect(conservative.cssToMultiplier(90)).toBe(1.1);
+      expect(conservative.cssToMultiplier(10)).toBe(0.6);
+      expect(conservative.calculateInvestmentAmount(100, 1.5)).toBe(110);
+    });
+
+    it('should penalize downtrends harder when conservative', () => {
+      const conservative = new CSSService(DEFAULT_STRATEGY, 'conservative');
+      expect(conservative.calculateMA50SlopeBonus(-0.02)).toBe(-20);
+      expect(conservative.calculateMA50SlopeBonus(-0.015)).toBeLessThan(service.calculateMA50SlopeBonus(-0.015));
+    });
+
+    it('should allow larger multipliers when aggressive', () => {
+      const aggressive = new CSSService(DEFAULT_STRATEGY, 'aggressive');
+      expect(aggressive.cssToMultiplier(90)).toBe(1.5);
+      expect(aggressive.calculateInvestmentAmount(100, 0.1)).toBe(40);
+      expect(aggressive.calculateMA50SlopeBonus(-0.02)).toBe(-10);
+    });
+
+    it('should flow profile into the CSS breakdown multiplier', () => {
+      const indicators = {
+        rsi: 25, ma20: 100, ma50: 100, atr: 2, bbWidth: 20, ma50Slope: 0,
+        bollingerBands: { upper: 110, middle: 100, lower: 90 },
+      };
+      const moderate = service.calculateCSSBreakdown(40, 10, indicators, 85);
+      const conservative = new CSSService(DEFAULT_STRATEGY, 'conservative').calculateCSSBreakdown(40, 10, indicators, 85);
+
+      expect(moderate.multiplier).toBe(1.2);
+      expect(conservative.multiplier).toBe(1.1);
+    });
+  });
 });
@@ -1,21 +1,18 @@
+import { DEFAULT_STRATEGY } from '../utils/strategy';
 import {
-  CSS_WEIGHTS,
-  CSS_WEIGHTS_FG_FALLBACK,
-  CSS_TO_MULTIPLIER,
-  VIX_SCORE_THRESHOLDS,
-  RSI_SCORE_THRESHOLDS,
-  BB_WIDTH_SCORE_THRESHOLDS,
-  MA50_SCORE_THRESHOLDS,
-  FEAR_GREED_SCORE_THRESHOLDS,
-  MA50_SLOPE_CONFIG,
-  BUDGET_CONSTRAINTS
-} from '../utils/multiplierThresholds';
-import { CSSBreakdown, TechnicalIndicators } from '../types';
+  CSSBreakdown,
+  CSSWeightSet,
+  RiskProfile,
+  RiskTolerance,
+  ScoreThreshold,
+  StrategyDefinition,
+  TechnicalIndicators
+} from '../types';
 
 /**
  * CSS (Composite Signal Score) Scoring Service
  *
- * Implements the CSS formula from Strategy v4.3:
+ * Implements the CSS formula from Strategy v4.3 (built-in default):
  * CSS = (VIX × 0.20) + (RSI × 0.30) + (BB × 0.15) + (MA50 × 0.20) + (F&G × 0.15)
  *
  * v4.3 Changes:
@@ -25,19 +22,52 @@ import { CSSBreakdown, TechnicalIndicators } from '../types';
  * - F&G fallback redistributes to both VIX and RSI (not just VIX)
  *
  * Higher CSS = More fear/opportunity = Invest more
+ *
+ * Weights, score tables and slope thresholds come from the strategy
+ * definition. The risk profile (default: moderate) selects the CSS →
+ * multiplier curve, the min/max multipliers and the MA50 slope bonuses.
  */
 export class CSSService {
+  private strategy: StrategyDefinition;
+  private profile: RiskProfile;
+
+  constructor(strategy: StrategyDefinition = DEFAULT_STRATEGY, riskTolerance: RiskTolerance = 'moderate') {
+    this.strategy = strategy;
+    this.profile = strategy.riskProfiles[riskTolerance];
+  }
+
   /**
-   * Calculate VIX score (0-100)
-   * Higher VIX = Higher score (more fear = opportunity)
+   * Strategy definition used by this service
    */
-  calculateVIXScore(vix: number): number {
-    for (const threshold of VIX_SCORE_THRESHOLDS) {
-      if (vix <= threshold.maxVIX) {
+  getStrategy(): StrategyDefinition {
+    return this.strategy;
+  }
+
+  /**
+   * Risk profile used by this service
+   */
+  getProfile(): RiskProfile {
+    return this.profile;
+  }
+
+  /**
+   * Look up a score: first row whose max is >= value
+   */
+  private lookupScore(table: ScoreThreshold[], value: number, fallback: number): number {
+    for (const threshold of table) {
+      if (value <= threshold.max) {
         return threshold.score;
       }
     }
-    return 100; // Default to max if above all thresholds
+    return fallback;
+  }
+
+  /**
+   * Calculate VIX score (0-100)
+   * Higher VIX = Higher score (more fear = opportunity)
+   */
+  calculateVIXScore(vix: number): number {
+    return this.lookupScore(this.strategy.scoreTables.vix, vix, 100); // Default to max if above all thresholds
   }
 
   /**
@@ -45,12 +75,7 @@ export class CSSService {
    * Lower RSI = Higher score (oversold = opportunity)
    */
   calculateRSIScore(rsi: number): number {
-    for (const threshold of RSI_SCORE_THRESHOLDS) {
-      if (rsi <= threshold.maxRSI) {
-        return threshold.score;
-      }
-    }
-    return 0; // Default to min if above all thresholds (overbought)
+    return this.lookupScore(this.strategy.scoreTables.rsi, rsi, 0); // Default to min if above all thresholds (overbought)
   }
 
   /**
@@ -58,12 +83,7 @@ export class CSSService {
    * Higher width = Higher score (more volatility = opportunity)
    */
   calculateBBWidthScore(bbWidth: number): number {
-    for (const threshold of BB_WIDTH_SCORE_THRESHOLDS) {
-      if (bbWidth <= threshold.maxWidth) {
-        return threshold.score;
-      }
-    }
-    return 90; // Default to high if above all thresholds
+    return this.lookupScore(this.strategy.scoreTables.bbWidth, bbWidth, 90); // Default to high if above all thresholds
   }
 
   /**
@@ -72,32 +92,30 @@ export class CSSService {
    * Below MA50 (negative deviation) = Higher score (discount)
    */
   calculateMA50Score(priceVsMA50Percent: number): number {
-    for (const threshold of MA50_SCORE_THRESHOLDS) {
-      if (priceVsMA50Percent <= threshold.maxDeviation) {
-        return threshold.score;
-      }
-    }
-    return 10; // Default to low if price way above MA50
+    return this.lookupScore(this.strategy.scoreTables.ma50, priceVsMA50Percent, 10); // Default to low if price way above MA50
   }
 
   /**
    * Calculate MA50 slope bonus (v4.3)
-   * Returns bonus points (-15 to +15) based on trend direction
+   * Returns bonus points based on trend direction (moderate: -15 to +15)
    *
    * @param ma50Slope - MA50 slope as decimal (e.g., 0.015 = 1.5%)
    * @returns Bonus points to add to MA50 score
    */
   calculateMA50SlopeBonus(ma50Slope: number): number {
-    if (ma50Slope > MA50_SLOPE_CONFIG.STRONG_UPTREND) {
-      return MA50_SLOPE_CONFIG.BONUS_STRONG_UP;      // +15
-    } else if (ma50Slope > MA50_SLOPE_CONFIG.MODERATE_UPTREND) {
-      return MA50_SLOPE_CONFIG.BONUS_MODERATE_UP;    // +8
-    } else if (ma50Slope > MA50_SLOPE_CONFIG.FLAT_THRESHOLD) {
-      return MA50_SLOPE_CONFIG.BONUS_FLAT;           // 0
-    } else if (ma50Slope > MA50_SLOPE_CONFIG.MODERATE_DOWNTREND) {
-      return MA50_SLOPE_CONFIG.BONUS_MODERATE_DOWN;  // -8
+    const bonus = this.profile.ma50SlopeBonus;
+    const slope = this.strategy.ma50Slope;
+
+    if (ma50Slope > slope.strongUptrend) {
+      return bonus.strongUp;
+    } else if (ma50Slope > slope.moderateUptrend) {
+      return bonus.moderateUp;
+    } else if (ma50Slope > slope.flatThreshold) {
+      return bonus.flat;
+    } else if (ma50Slope > slope.moderateDowntrend) {
+      return bonus.moderateDown;
     } else {
-      return MA50_SLOPE_CONFIG.BONUS_STRONG_DOWN;    // -15
+      return bonus.strongDown;
     }
   }
 
@@ -118,14 +136,15 @@ export class CSSService {
     let slopeBonus = 0;
 
     // Only apply slope bonus when price is in deep discount zone
-    if (priceVsMA50Percent < MA50_SLOPE_CONFIG.APPLY_WHEN_DISCOUNT_BELOW) {
+    const slope = this.strategy.ma50Slope;
+    if (priceVsMA50Percent < slope.applyWhenDiscountBelow) {
       slopeBonus = this.calculateMA50SlopeBonus(ma50Slope);
       adjustedScore = baseScore + slopeBonus;
 
       // Clamp to valid range
       adjustedScore = Math.max(
-        MA50_SLOPE_CONFIG.MIN_SCORE,
-        Math.min(MA50_SLOPE_CONFIG.MAX_SCORE, adjustedScore)
+        slope.minScore,
+        Math.min(slope.maxScore, adjustedScore)
       );
     }
 
@@ -138,12 +157,7 @@ export class CSSService {
    * We invert: More fear = Higher score
    */
   calculateFearGreedScore(fearGreedIndex: number): number {
-    for (const threshold of FEAR_GREED_SCORE_THRESHOLDS) {
-      if (fearGreedIndex <= threshold.maxFG) {
-        return threshold.score;
-      }
-    }
-    return 0; // Default if extreme greed
+    return this.lookupScore(this.strategy.scoreTables.fearGreed, fearGreedIndex, 0); // Default if extreme greed
   }
 
   /**
@@ -155,15 +169,15 @@ export class CSSService {
   }
 
   /**
-   * Map CSS score to multiplier (0.5 - 1.2)
+   * Map CSS score to multiplier (moderate: 0.5 - 1.2)
    */
   cssToMultiplier(css: number): number {
-    for (const mapping of CSS_TO_MULTIPLIER) {
+    for (const mapping of this.profile.cssToMultiplier) {
       if (css <= mapping.maxCSS) {
         return mapping.multiplier;
       }
     }
-    return BUDGET_CONSTRAINTS.MAX_MULTIPLIER; // Default to max
+    return this.profile.maxMultiplier; // Default to max
   }
 
   /**
@@ -200,25 +214,24 @@ export class CSSService {
     const fearGreedScore = fearGreedFailed ? null : this.calculateFearGreedScore(fearGreedIndex);
 
     // Select weights based on F&G availability
-    let weights: typeof CSS_WEIGHTS | typeof CSS_WEIGHTS_FG_FALLBACK;
+    let weights: CSSWeightSet;
     let weightsAdjusted = false;
 
     if (fearGreedFailed) {
       // v4.3 Fallback: redistribute F&G's 15% to VIX (+7.5%) and RSI (+7.5%)
-      weights = CSS_WEIGHTS_FG_FALLBACK;
+      weights = this.strategy.fallbackWeights;
       weightsAdjusted = true;
-      console.log('⚠️ F&G unavailable - using fallback weights (VIX: 27.5%, RSI: 37.5%)');
     } else {
-      weights = CSS_WEIGHTS;
+      weights = this.strategy.weights;
     }
 
     // Calculate weighted CSS using adjusted MA50 score
     let totalCSS =
-      (vixScore * weights.VIX) +
-      (rsiScore * weights.RSI) +
-      (bbWidthScore * weights.BB_WIDTH) +
-      (ma50SlopeResult.adjustedScore * weights.MA50) +
-      ((fearGreedScore ?? 0) * weights.FEAR_GREED);
+      (vixScore * weights.vix) +
+      (rsiScore * weights.rsi) +
+      (bbWidthScore * weights.bbWidth) +
+      (ma50SlopeResult.adjustedScore * weights.ma50) +
+      ((fearGreedScore ?? 0) * weights.fearGreed);
 
     // Clamp CSS to 0-100
     totalCSS = Math.max(0, Math.min(100, totalCSS));
@@ -266,9 +279,10 @@ export class CSSService {
     }
 
     const fearGreedScore = this.calculateFearGreedScore(fearGreedIndex);
-    const marketWeight = CSS_WEIGHTS.VIX + CSS_WEIGHTS.FEAR_GREED; // 0.20 + 0.15 = 0.35
+    const { vix: vixWeight, fearGreed: fearGreedWeight } = this.strategy.weights;
+    const marketWeight = vixWeight + fearGreedWeight; // v4.3: 0.20 + 0.15 = 0.35
 
-    return ((vixScore * CSS_WEIGHTS.VIX) + (fearGreedScore * CSS_WEIGHTS.FEAR_GREED)) / marketWeight * 100;
+    return ((vixScore * vixWeight) + (fearGreedScore * fearGreedWeight)) / marketWeight * 100;
   }
 
   /**
@@ -294,16 +308,13 @@ export class CSSService {
 
   /**
    * Calculate investment amount based on CSS multiplier
-   * Clamps to min/max budget constraints
+   * Clamps to the profile's min/max multipliers
    */
   calculateInvestmentAmount(baseAmount: number, multiplier: number): number {
     const rawAmount = baseAmount * multiplier;
     return Math.round(Math.max(
-      BUDGET_CONSTRAINTS.MIN_BUDGET * (baseAmount / BUDGET_CONSTRAINTS.BASE_BUDGET),
-      Math.min(
-        BUDGET_CONSTRAINTS.MAX_BUDGET * (baseAmount / BUDGET_CONSTRAINTS.BASE_BUDGET),
-        rawAmount
-      )
+      baseAmount * this.profile.minMultiplier,
+      Math.min(baseAmount * this.profile.maxMultiplier, rawAmount)
     ));
   }
 }
@@ -0,0 +1,417 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseService, createStorageBackend } from './database';
+import { JobRunTracker } from './jobRuns';
+import { MarketArchiveService } from './marketArchive';
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import { ConvexStorage } from './storage/convex';
+import { SqliteStorage } from './storage/sqlite';
+import { MarketInputs, ShadowEvaluation } from '../types';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createStockInput = (symbol: string, price: number) => ({
+  symbol,
+  marketData: {
+    symbol, price, previousClose: price + 1, change: -1, changePercent: -1,
+    volume: 1000, timestamp: new Date('2025-03-05T06:59:00Z'), dataSource: 'yahoo-finance2' as const,
+  },
+  prices: Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 6) * 4 + i * 0.05),
+  historySource: 'yahoo-finance2' as const,
+});
+
+const createInputs = (date: string, vix = 27.4): MarketInputs => ({
+  date: new Date(date),
+  vix,
+  vixSource: 'yahoo-finance2',
+  fearGreed: { value: 31, rating: 'Fear', timestamp: new Date(date), success: true },
+  stocks: [createStockInput('QQQ', 95.5), createStockInput('TLT', 104.2)],
+});
+
+const createShadow = (date: string, totalAmount: number): ShadowEvaluation => ({
+  date,
+  timestamp: `${date}T07:00:00.000Z`,
+  strategyId: 'CSS',
+  strategyVersion: '5.0',
+  riskTolerance: 'moderate',
+  liveStrategyId: 'CSS',
+  liveStrategyVersion: '4.3',
+  totalAmount,
+  liveTotalAmount: 250,
+  marketCSS: 55,
+  allocations: [{ symbol: 'QQQ', cssScore: 60, multiplier: 1.1, amount: totalAmount, liveCssScore: 58, liveAmount: 250 }],
+});
+
+describe('DatabaseService', () => {
+  const config = createMockConfig({ databaseUrl: 'sqlite::memory:' });
+  const engine = new PortfolioAllocationEngine();
+  const archives = new MarketArchiveService();
+  let db: DatabaseService;
+
+  // Run the engine on fixed inputs and save the report with its archive
+  const saveRun = (date: string, vix?: number) => {
+    const inputs = createInputs(date, vix);
+    return db.saveAnalysisReport(engine.buildReport(inputs, config), archives.build(inputs, config));
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db = new DatabaseService('sqlite::memory:');
+  });
+
+  // ===========================================================================
+  // Backend selection Tests
+  // ===========================================================================
+  describe('createStorageBackend', () => {
+    it('should pick the backend from the URL scheme', () => {
+      expect(createStorageBackend('')).toBeNull();
+      expect(createStorageBackend('sqlite::memory:')).toBeInstanceOf(SqliteStorage);
+      expect(createStorageBackend('https://happy-otter-123.convex.cloud')).toBeInstanceOf(ConvexStorage);
+    });
+
+    it('should create the SQLite file and its directory', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sip-db-'));
+      const file = path.join(dir, 'data', 'sip.db');
+      try {
+        const storage = new SqliteStorage(file);
+        await storage.addTransaction({ symbol: 'QQQ', date: '2025-03-05', side: 'BUY', units: 1, price: 500, fees: 0 });
+        storage.close();
+
+        // Reopening keeps the data and does not re-run migrations
+        const reopened = new SqliteStorage(file);
+        expect(await reopened.getAllTransactions()).toHaveLength(1);
+        reopened.close();
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should be disabled without a URL', async () => {
+      const disabled = new DatabaseService('');
+
+      expect(disabled.isEnabled()).toBe(false);
+      expect(disabled.getBackendName()).toBeNull();
+      expect(await disabled.saveAnalysisReport(engine.buildReport(createInputs('2025-03-05T07:00:00Z'), config)))
+        .toEqual({ success: false, error: 'Database not enabled' });
+    });
+  });
+
+  // ===========================================================================
+  // Snapshot Tests (SQLite)
+  // ===========================================================================
+  describe('snapshots', () => {
+    it('should save a report with stock analyses and its archive', async () => {
+      const result = await saveRun('2025-03-05T07:00:00Z');
+
+      expect(result).toMatchObject({ success: true, stockAnalysesCount: 2, revision: 1, isOfficial: true, archived: true });
+      const stored = await db.getSnapshotWithStocks(result.snapshotId!);
+      expect(stored?.snapshot).toMatchObject({
+        _id: result.snapshotId, date: '2025-03-05', vix: 27.4, fearGreedLabel: 'Fear',
+        runId: result.runId, trigger: 'api', revision: 1, isOfficial: true,
+      });
+      expect(typeof stored?.snapshot._creationTime).toBe('number');
+      expect(stored?.stocks.map(s => s.symbol)).toEqual(['QQQ', 'TLT']);
+      expect(stored?.stocks[0].snapshotId).toBe(result.snapshotId);
+
+      const archive = await db.getMarketInputArchive(result.snapshotId!);
+      expect(archive?.inputs.stocks.map(s => s.symbol)).toEqual(['QQQ', 'TLT']);
+    });
+
+    it('should store the breakdown, signal and quote fields that drove the report', async () => {
+      const inputs = createInputs('2025-03-05T07:00:00Z');
+      const report = engine.buildReport(inputs, config);
+      const result = await db.saveAnalysisReport(report);
+
+      const stored = await db.getSnapshotWithStocks(result.snapshotId!);
+      const analysis = report.stockAnalyses[0];
+      expect(stored?.stocks[0]).toMatchObject({
+        symbol: 'QQQ',
+        previousClose: 96.5,
+        changePercent: -1,
+        ma50Slope: analysis.cssBreakdown.ma50Slope,
+        cssMultiplier: analysis.cssBreakdown.multiplier,
+        vixScore: analysis.cssBreakdown.vixScore,
+        ma50Score: analysis.cssBreakdown.ma50Score,
+        ma50SlopeBonus: analysis.cssBreakdown.ma50SlopeBonus,
+        ma50ScoreAdjusted: analysis.cssBreakdown.ma50ScoreAdjusted,
+        fearGreedScore: analysis.cssBreakdown.fearGreedScore,
+        weightsAdjusted: false,
+        signal: analysis.signal,
+        strength: analysis.strength,
+        quoteSource: 'yahoo-finance2',
+        historySource: 'yahoo-finance2',
+        indicatorSource: analysis.technicalIndicators.dataSource,
+      });
+    });
+
+    it('should migrate rows saved before the breakdown and revisions were stored', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sip-db-'));
+      const file = path.join(dir, 'sip.db');
+      try {
+        const { snapshotId } = await new DatabaseService(`sqlite:${file}`)
+          .saveAnalysisReport(engine.buildReport(createInputs('2025-03-05T07:00:00Z'), config));
+
+        // Rewind to the first schema version with old-style rows
+        const raw = new Database(file);
+        raw.exec(`
+          UPDATE stock_analyses SET doc = json_remove(doc,
+            '$.ma50Slope', '$.cssMultiplier', '$.ma50SlopeBonus', '$.ma50ScoreAdjusted', '$.weightsAdjusted',
+            '$.strength', '$.quoteSource', '$.historySource', '$.indicatorSource');
+          UPDATE weekly_snapshots SET doc = json_remove(doc, '$.runId', '$.trigger', '$.revision', '$.isOfficial');
+          DROP INDEX weekly_snapshots_by_date_official;
+          DROP INDEX weekly_snapshots_by_date_revision;
+          ALTER TABLE weekly_snapshots DROP COLUMN revision;
+          ALTER TABLE weekly_snapshots DROP COLUMN is_official;
+          DROP TABLE job_runs;
+        `);
+        raw.pragma('user_version = 1');
+        raw.close();
+
+        const reopened = new SqliteStorage(file);
+        const stored = await reopened.getSnapshotWithStocks(snapshotId!);
+        reopened.close();
+
+        expect(stored?.stocks[0]).toMatchObject({
+          symbol: 'QQQ', previousClose: null, changePercent: null, ma50SlopeBonus: null,
+          ma50ScoreAdjusted: null, weightsAdjusted: null, strength: null, quoteSource: null,
+        });
+        expect(stored?.stocks[0].cssScore).toEqual(expect.any(Number));
+        expect(stored?.snapshot).toMatchObject({ revision: 1, isOfficial: true });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should keep every run of a date as a revision', async () => {
+      const first = await saveRun('2025-03-05T07:00:00Z', 20);
+      const second = await saveRun('2025-03-05T09:00:00Z', 30);
+
+      expect(first).toMatchObject({ revision: 1, isOfficial: true });
+      expect(second).toMatchObject({ success: true, revision: 2, isOfficial: false });
+      expect(second.runId).not.toBe(first.runId);
+      expect(await db.getSnapshotWithStocks(first.snapshotId!)).not.toBeNull();
+      expect(await db.getMarketInputArchive(first.snapshotId!)).not.toBeNull();
+
+      const revisions = await db.getSnapshotRevisions('2025-03-05');
+      expect(revisions.map(r => [r.revision, r.vix, r.isOfficial])).toEqual([[1, 20, true], [2, 30, false]]);
+
+      // History only counts the official revision
+      expect(await db.getRecentSnapshots()).toHaveLength(1);
+      expect(await db.getStockHistory('QQQ')).toHaveLength(1);
+      expect(await db.getStatistics()).toMatchObject({ totalSnapshots: 1, averageVix: 20 });
+    });
+
+    it('should give runs of a date saved at once distinct revisions', async () => {
+      const results = await Promise.all([
+        saveRun('2025-03-05T07:00:00Z', 20),
+        saveRun('2025-03-05T07:00:00Z', 30),
+        saveRun('2025-03-05T07:00:00Z', 40),
+      ]);
+
+      expect(results.map(r => r.revision).sort()).toEqual([1, 2, 3]);
+      const revisions = await db.getSnapshotRevisions('2025-03-05');
+      expect(revisions.map(r => r.revision)).toEqual([1, 2, 3]);
+      expect(revisions.filter(r => r.isOfficial)).toHaveLength(1);
+    });
+
+    it('should not keep a revision whose stock analyses failed to save', async () => {
+      await saveRun('2025-03-05T07:00:00Z', 20);
+      const report = engine.buildReport(createInputs('2025-03-05T09:00:00Z', 30), config);
+      // A stock row the table rejects (symbol is NOT NULL)
+      report.allocations[0].symbol = report.stockAnalyses[0].symbol = null as unknown as string;
+
+      const result = await db.saveAnalysisReport(report, undefined, { trigger: 'cron' });
+
+      // The cron revision neither exists nor took over
+      expect(result.success).toBe(false);
+      const revisions = await db.getSnapshotRevisions('2025-03-05');
+      expect(revisions.map(r => [r.revision, r.vix, r.isOfficial])).toEqual([[1, 20, true]]);
+      expect(await db.getStockHistory('TLT')).toHaveLength(1);
+    });
+
+    it('should renumber duplicate revisions when migrating to unique revisions', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sip-db-'));
+      const file = path.join(dir, 'sip.db');
+      try {
+        const service = new DatabaseService(`sqlite:${file}`);
+        for (const time of ['07:00', '08:00', '09:00']) {
+          await service.saveAnalysisReport(engine.buildReport(createInputs(`2025-03-05T${time}:00Z`), config));
+        }
+
+        // Rewind to before the unique index, with two runs that read the same latest revision
+        const raw = new Database(file);
+        raw.exec(`
+          DROP INDEX weekly_snapshots_by_date_revision;
+          ALTER TABLE weekly_snapshots DROP COLUMN revision;
+          UPDATE weekly_snapshots SET doc = json_set(doc, '$.revision', 2) WHERE json_extract(doc, '$.revision') = 3;
+        `);
+        raw.pragma('user_version = 4');
+        raw.close();
+
+        const reopened = new SqliteStorage(file);
+        const revisions = await reopened.getSnapshotRevisions('2025-03-05');
+        reopened.close();
+        expect(revisions.map(r => r.revision)).toEqual([1, 2, 3]);
+
+        const check = new Database(file);
+        expect(() => check.prepare(
+          "INSERT INTO weekly_snapshots (creation_time, date, timestamp, revision, is_official, doc) VALUES (0, '2025-03-05', '', 3, 0, '{}')"
+        ).run()).toThrow(/UNIQUE/);
+        check.close();
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should make a cron run official over earlier manual runs', async () => {
+      const inputs = createInputs('2025-03-05T07:00:00Z');
+      const manual = await db.saveAnalysisReport(engine.buildReport(inputs, config), undefined, { trigger: 'manual' });
+      const cron = await db.saveAnalysisReport(engine.buildReport(inputs, config), undefined, { trigger: 'cron', runId: 'run-1' });
+      const api = await db.saveAnalysisReport(engine.buildReport(inputs, config));
+
+      expect([manual.isOfficial, cron.isOfficial, api.isOfficial]).toEqual([true, true, false]);
+      expect(cron.runId).toBe('run-1');
+      const revisions = await db.getSnapshotRevisions('2025-03-05');
+      expect(revisions.map(r => [r.trigger, r.isOfficial])).toEqual([['manual', false], ['cron', true], ['api', false]]);
+      expect((await db.getLatestSnapshot())?.snapshot._id).toBe(cron.snapshotId);
+    });
+
+    it('should mark the executed revision official', async () => {
+      const first = await saveRun('2025-03-05T07:00:00Z', 20);
+      const second = await saveRun('2025-03-05T09:00:00Z', 30);
+
+      const marked = await db.setOfficialRevision(second.snapshotId!);
+
+      expect(marked).toMatchObject({ _id: second.snapshotId, isOfficial: true });
+      expect((await db.getSnapshotWithStocks(first.snapshotId!))?.snapshot.isOfficial).toBe(false);
+      expect((await db.getRecentSnapshots()).map(s => s._id)).toEqual([second.snapshotId]);
+      expect(await db.getStatistics()).toMatchObject({ totalSnapshots: 1, averageVix: 30 });
+      expect(await db.setOfficialRevision('999')).toBeNull();
+      expect(await db.setOfficialRevision('jd7abc123')).toBeNull();
+    });
+
+    it('should list recent snapshots and the latest one newest first', async () => {
+      await saveRun('2025-03-05T07:00:00Z');
+      await saveRun('2025-03-12T07:00:00Z');
+      await saveRun('2025-03-19T07:00:00Z');
+
+      expect((await db.getRecentSnapshots(2)).map(s => s.date)).toEqual(['2025-03-19', '2025-03-12']);
+      expect((await db.getLatestSnapshot())?.snapshot.date).toBe('2025-03-19');
+      expect((await db.getLatestSnapshot())?.stocks).toHaveLength(2);
+    });
+
+    it('should filter by timestamp range, oldest first', async () => {
+      await saveRun('2025-03-19T07:00:00Z');
+      await saveRun('2025-03-05T07:00:00Z');
+      await saveRun('2025-03-12T07:00:00Z');
+
+      const snapshots = await db.getSnapshotsByDateRange('2025-03-05T00:00:00.000Z', '2025-03-12T23:59:59.999Z');
+      expect(snapshots.map(s => s.date)).toEqual(['2025-03-05', '2025-03-12']);
+
+      const rows = await db.getStockAnalysesByDateRange('2025-03-12T00:00:00.000Z', '2025-03-31T00:00:00.000Z');
+      expect(rows.map(r => [r.snapshotDate, r.symbol])).toEqual([
+        ['2025-03-12', 'QQQ'], ['2025-03-12', 'TLT'], ['2025-03-19', 'QQQ'], ['2025-03-19', 'TLT'],
+      ]);
+      expect(rows[0].baseBudget).toBe(250);
+    });
+
+    it('should return stock history with snapshot context', async () => {
+      await saveRun('2025-03-05T07:00:00Z', 20);
+      await saveRun('2025-03-12T07:00:00Z', 25);
+
+      const history = await db.getStockHistory('qqq', 1);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ symbol: 'QQQ', snapshotVix: 25, snapshotTimestamp: '2025-03-12T07:00:00.000Z' });
+    });
+
+    it('should summarise all snapshots', async () => {
+      expect(await db.getStatistics()).toEqual({
+        totalSnapshots: 0, totalInvested: 0, averageVix: 0, averageCSS: 0, marketConditionDistribution: {},
+      });
+
+      await saveRun('2025-03-05T07:00:00Z', 20);
+      await saveRun('2025-03-12T07:00:00Z', 25);
+      const stats = await db.getStatistics();
+
+      expect(stats).toMatchObject({ totalSnapshots: 2, averageVix: 22.5 });
+      expect(Object.values(stats!.marketConditionDistribution).reduce((a, b) => a + b, 0)).toBe(2);
+    });
+
+    it('should treat unknown snapshot IDs as missing', async () => {
+      expect(await db.getSnapshotWithStocks('jd7abc123')).toBeNull();
+      expect(await db.getSnapshotWithStocks('999')).toBeNull();
+      expect(await db.getMarketInputArchive('jd7abc123')).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // Job run Tests (SQLite)
+  // ===========================================================================
+  describe('job runs', () => {
+    it('should replace a running job run with its finished record', async () => {
+      const job = new JobRunTracker('cron', 'run-1');
+      expect(await db.saveJobRun(job.toRecord())).toBe(true);
+      expect((await db.getJobRun('run-1'))?.status).toBe('running');
+
+      await job.stage('fetch', () => 1);
+      job.setSnapshotId('7');
+      await db.saveJobRun(job.finish());
+
+      const runs = await db.getJobRuns();
+      expect(runs).toHaveLength(1);
+      expect(runs[0]).toMatchObject({ runId: 'run-1', status: 'success', snapshotId: '7' });
+      expect(runs[0].stages.map(s => s.stage)).toEqual(['fetch']);
+      expect(typeof runs[0]._id).toBe('string');
+    });
+
+    it('should list job runs newest first', async () => {
+      const older = new JobRunTracker('cron', 'run-1').toRecord();
+      const newer = new JobRunTracker('manual', 'run-2').toRecord();
+      await db.saveJobRun({ ...newer, startedAt: '2025-03-12T07:00:00.000Z' });
+      await db.saveJobRun({ ...older, startedAt: '2025-03-05T07:00:00.000Z' });
+
+      expect((await db.getJobRuns()).map(r => r.runId)).toEqual(['run-2', 'run-1']);
+      expect((await db.getJobRuns(1)).map(r => r.runId)).toEqual(['run-2']);
+      expect(await db.getJobRun('missing')).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // Holdings and shadow Tests (SQLite)
+  // ===========================================================================
+  describe('holdings and shadows', () => {
+    it('should store the ledger and list it by trade date', async () => {
+      await db.saveTransaction({ symbol: 'qqq', date: '2025-03-05', side: 'BUY', units: 1, price: 500, fees: 1 });
+      await db.saveTransaction({ symbol: 'TLT', date: '2025-01-10', side: 'BUY', units: 2, price: 90, fees: 0, note: 'first' });
+      await db.saveTransaction({ symbol: 'QQQ', date: '2025-02-01', side: 'SELL', units: 0.5, price: 480, fees: 0 });
+
+      expect((await db.getTransactions()).map(t => t.date)).toEqual(['2025-03-05', '2025-02-01', '2025-01-10']);
+      expect((await db.getTransactions('qqq', 1)).map(t => t.side)).toEqual(['BUY']);
+
+      const ledger = await db.getAllTransactions();
+      expect(ledger.map(t => t.symbol)).toEqual(['TLT', 'QQQ', 'QQQ']);
+      expect(ledger[0]).toMatchObject({ note: 'first', units: 2 });
+      expect(typeof ledger[0]._id).toBe('string');
+      expect(typeof ledger[0].createdAt).toBe('string');
+    });
+
+    it('should replace shadow evaluations per date and strategy version', async () => {
+      await db.saveShadowEvaluations([createShadow('2025-03-05', 200), createShadow('2025-03-12', 260)]);
+      await db.saveShadowEvaluations([createShadow('2025-03-05', 210)]);
+
+      const rows = await db.getShadowEvaluationsByDateRange('2025-03-01T00:00:00.000Z', '2025-03-31T00:00:00.000Z');
+      expect(rows.map(r => [r.date, r.totalAmount])).toEqual([['2025-03-05', 210], ['2025-03-12', 260]]);
+      expect(rows[0].allocations[0]).toMatchObject({ symbol: 'QQQ', liveCssScore: 58 });
+      expect(await db.getShadowEvaluationsByDateRange('2025-03-01T00:00:00.000Z', '2025-03-31T00:00:00.000Z', 'OTHER')).toEqual([]);
+    });
+  });
+});
@@ -1,12 +1,57 @@
-import { ConvexHttpClient } from "convex/browser";
-import { AllocationReport, DatabaseSaveResult, PortfolioAllocation, TechnicalDataRow } from "../types";
-import { CSSService } from "./cssScoring";
+import { randomUUID } from "crypto";
+import {
+  AllocationReport,
+  BenchmarkHistoryRow,
+  DatabaseSaveResult,
+  HistoryStatistics,
+  HoldingTransaction,
+  JobRunRecord,
+  MarketInputArchive,
+  NewHoldingTransaction,
+  NewStockAnalysis,
+  ShadowEvaluation,
+  ShadowSaveResult,
+  SnapshotRunInfo,
+  StockAnalysis,
+  SnapshotWithStocks,
+  StockHistoryRow,
+  StorageBackend,
+  StorageBackendName,
+  StoredJobRun,
+  StoredSnapshot,
+  TechnicalDataRow,
+  TransactionSaveResult
+} from "../types";
+import { MarketArchiveService } from "./marketArchive";
+import { ConvexStorage } from "./storage/convex";
+import { SqliteStorage } from "./storage/sqlite";
 import { logger } from "../utils/logger";
 
+const SQLITE_PREFIX = 'sqlite:';
+
 /**
- * Database Service for Convex integration
+ * Build the storage backend selected by DATABASE_URL
+ * "sqlite:<path>" (or "sqlite::memory:") opens a local file, any other
+ * URL is a Convex deployment
  *
- * Handles saving and retrieving analysis data from Convex database.
+ * @returns The backend, or null if no URL is set
+ */
+export function createStorageBackend(databaseUrl: string): StorageBackend | null {
+  if (!databaseUrl) return null;
+  if (databaseUrl.startsWith(SQLITE_PREFIX)) {
+    return new SqliteStorage(databaseUrl.slice(SQLITE_PREFIX.length));
+  }
+  return new ConvexStorage(databaseUrl);
+}
+
+/**
+ * Database Service
+ *
+ * Handles saving and retrieving analysis data through a StorageBackend:
+ * a hosted Convex deployment or a local SQLite file, selected by
+ * DATABASE_URL (CONVEX_URL is still accepted). Both return the same
+ * document shapes, so the history, holdings and rebalance routes behave
+ * identically on either.
  *
  * ## Error Handling Strategy: SUCCESS FLAG / EMPTY RETURNS
  *
@@ -18,31 +63,25 @@ import { logger } from "../utils/logger";
  * **Rationale:** Database is optional storage. Analysis should complete
  * even if persistence fails. Use `isEnabled()` to check availability.
  *
- * IMPORTANT: Before using this service, you must:
- * 1. Run `pnpm exec convex dev` to initialize Convex and generate API types
- * 2. Set CONVEX_URL in your .env file
+ * IMPORTANT: The Convex backend needs `pnpm exec convex dev` run once to
+ * deploy the schema and generate its API; until then every call fails
+ * with that instruction. The SQLite backend creates its file on first use.
  */
 export class DatabaseService {
-  private client: ConvexHttpClient | null = null;
-  private enabled: boolean = false;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private api: any = null;
-  private apiLoaded: boolean = false;
-  private apiLoadError: string | null = null;
-  private cssService: CSSService = new CSSService();
-
-  constructor(convexUrl: string) {
-    if (convexUrl && convexUrl.length > 0) {
+  private storage: StorageBackend | null = null;
+  private archiveService: MarketArchiveService = new MarketArchiveService();
+
+  constructor(databaseUrl: string) {
+    if (databaseUrl && databaseUrl.length > 0) {
       try {
-        this.client = new ConvexHttpClient(convexUrl);
-        this.enabled = true;
-        logger.info('📦 Database service initialized (Convex)');
+        this.storage = createStorageBackend(databaseUrl);
+        logger.info(`📦 Database service initialized (${this.storage?.name === 'sqlite' ? 'SQLite' : 'Convex'})`);
       } catch (error) {
-        logger.warn('Failed to initialize Convex client', { error: error instanceof Error ? error.message : 'Unknown' });
-        this.enabled = false;
+        logger.warn('Failed to initialize database', { error: error instanceof Error ? error.message : 'Unknown' });
+        this.storage = null;
       }
     } else {
-      logger.info('📦 Database service disabled (no CONVEX_URL)');
+      logger.info('📦 Database service disabled (no DATABASE_URL)');
     }
   }
 
@@ -50,75 +89,50 @@ export class DatabaseService {
    * Check if database is enabled
    */
   isEnabled(): boolean {
-    return this.enabled && this.client !== null;
+    return this.storage !== null;
   }
 
   /**
-   * Load Convex API dynamically
-   * The generated api file is created by `npx convex dev`
+   * Backend in use, or null if disabled
    */
-  private async loadApi(): Promise<boolean> {
-    if (this.apiLoaded) {
-      return this.api !== null;
-    }
-
-    try {
-      // Dynamic import of the generated Convex API
-      // Use string concatenation to prevent TypeScript from validating the path
-      // Path is relative to the compiled output in dist/services/
-      const apiPath = '../../convex/_generated/api' + '.js';
-      const convexModule = await import(/* webpackIgnore: true */ apiPath);
-      this.api = convexModule.api;
-      this.apiLoaded = true;
-      return true;
-    } catch {
-      this.apiLoaded = true;
-      this.apiLoadError = 'Convex API not generated. Run: pnpm exec convex dev';
-      logger.warn(this.apiLoadError);
-      return false;
-    }
+  getBackendName(): StorageBackendName | null {
+    return this.storage?.name ?? null;
   }
 
   /**
-   * Save an analysis report to the database
-   * Returns success status and snapshot ID
+   * Save an analysis report to the database as a new revision for its date
+   * Returns success status, snapshot ID and revision
+   *
+   * Earlier revisions are never changed, except for the official flag: a
+   * cron run becomes the official revision for its date (it is the one
+   * emailed on schedule); manual and API runs are official only if the
+   * date has no official revision yet. The revision number, the official
+   * flag and the stock analyses are written in one storage transaction,
+   * so concurrent runs of a date get distinct revisions.
+   *
+   * @param archive - Raw market inputs behind the report (stored gzipped for recompute)
+   * @param run - What started the run, and its ID if the caller has one
    */
-  async saveAnalysisReport(report: AllocationReport): Promise<DatabaseSaveResult> {
-    if (!this.isEnabled() || !this.client) {
+  async saveAnalysisReport(
+    report: AllocationReport,
+    archive?: MarketInputArchive,
+    run: SnapshotRunInfo = { trigger: 'api' }
+  ): Promise<DatabaseSaveResult> {
+    if (!this.storage) {
       return { success: false, error: 'Database not enabled' };
     }
 
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) {
-      return { success: false, error: this.apiLoadError || 'Convex API not available' };
-    }
-
-    // Extract date in YYYY-MM-DD format for deduplication
     const date = report.date.toISOString().split('T')[0];
-    let replacedSnapshotId: string | undefined;
+    const runId = run.runId ?? randomUUID();
 
     try {
-      // Check if snapshot already exists for this date
-      const existingSnapshot = await this.client.query(
-        this.api.snapshots.getSnapshotByDate,
-        { date }
-      );
-
-      if (existingSnapshot) {
-        // Delete existing snapshot and its stock analyses to replace with fresh data
-        logger.info(`Replacing existing snapshot for ${date}`, {
-          existingSnapshotId: existingSnapshot._id
-        });
-        await this.client.mutation(this.api.snapshots.deleteSnapshot, {
-          snapshotId: existingSnapshot._id,
-        });
-        replacedSnapshotId = existingSnapshot._id;
-      }
-
-      // 1. Save the main snapshot
-      const snapshotId = await this.client.mutation(this.api.snapshots.saveWeeklySnapshot, {
+      // 1. Save the snapshot and its stock analyses as the next revision
+      const stockAnalyses = this.buildStockAnalyses(report);
+      const { snapshotId, revision, isOfficial } = await this.storage.saveSnapshotRevision({
         date,
         timestamp: report.date.toISOString(),
+        runId,
+        trigger: run.trigger,
         vix: report.vix,
         fearGreedIndex: report.fearGreedIndex ?? undefined,
         fearGreedLabel: this.getFearGreedLabel(report.fearGreedIndex),
@@ -128,36 +142,35 @@ export class DatabaseService {
         baseBudget: report.baseBudget,
         minBudget: report.minBudget,
         maxBudget: report.maxBudget,
+        riskTolerance: report.riskTolerance,
+        strategyId: report.strategyId,
+        strategyVersion: report.strategyVersion,
         marketCondition: report.marketCondition,
         marketDataSource: report.dataSourceStatus?.marketDataSource ?? 'axios-fallback',
         indicatorSource: report.dataSourceStatus?.indicatorSource ?? 'custom-fallback',
+        dataQualityStatus: report.dataQualityGate.status,
+        simulatedSymbols: report.dataQualityGate.simulatedSymbols,
+        staleSymbols: report.dataQualityGate.staleSymbols,
+        simulatedFraction: report.dataQualityGate.simulatedFraction,
+        requestStats: report.requestStats,
+        lastSessionDate: report.marketCalendar.lastSessionDate,
+        missedSessions: report.marketCalendar.missedSessions.map(h => h.date),
         recommendations: report.recommendations,
-      });
+      }, stockAnalyses, run.trigger === 'cron');
 
-      logger.success(`Saved snapshot`, { snapshotId: snapshotId as string });
+      logger.success(`Saved snapshot`, { snapshotId, date, revision, trigger: run.trigger, isOfficial, stocks: stockAnalyses.length });
 
-      // 2. Save stock analyses
-      const stockAnalyses = this.buildStockAnalyses(
-        snapshotId,
-        report.allocations,
-        report.technicalData || [],
-        report.vix,
-        report.fearGreedIndex
-      );
-
-      if (stockAnalyses.length > 0) {
-        await this.client.mutation(this.api.snapshots.saveStockAnalyses, {
-          analyses: stockAnalyses,
-        });
-        logger.success(`Saved stock analyses`, { count: stockAnalyses.length });
-      }
+      // 2. Archive raw market inputs (a failure here keeps the snapshot)
+      const archived = archive ? await this.saveMarketInputArchive(snapshotId, archive) : false;
 
       return {
         success: true,
-        snapshotId: snapshotId as string,
+        snapshotId,
         stockAnalysesCount: stockAnalyses.length,
-        replaced: !!replacedSnapshotId,
-        replacedSnapshotId,
+        runId,
+        revision,
+        isOfficial,
+        archived,
       };
     } catch (error) {
       logger.error('Failed to save to database', { error: error instanceof Error ? error.message : 'Unknown' });
@@ -169,16 +182,89 @@ export class DatabaseService {
   }
 
   /**
-   * Get recent snapshots
+   * Store the gzipped market input archive for a snapshot
+   * Returns false (logged) on failure
+   */
+  private async saveMarketInputArchive(snapshotId: string, archive: MarketInputArchive): Promise<boolean> {
+    if (!this.storage) return false;
+
+    try {
+      const data = this.archiveService.encode(archive);
+      await this.storage.saveMarketInputArchive({
+        snapshotId,
+        date: archive.inputs.date.toISOString().split('T')[0],
+        timestamp: archive.inputs.date.toISOString(),
+        encoding: 'gzip+json',
+        formatVersion: archive.formatVersion,
+        sizeBytes: data.byteLength,
+        data,
+      });
+      logger.success('Archived market inputs', { snapshotId, bytes: data.byteLength });
+      return true;
+    } catch (error) {
+      logger.error('Failed to archive market inputs', { error: error instanceof Error ? error.message : 'Unknown' });
+      return false;
+    }
+  }
+
+  /**
+   * Get the decoded market input archive for a snapshot
+   * Returns null if none was stored or it cannot be decoded
    */
-  async getRecentSnapshots(limit: number = 20) {
-    if (!this.isEnabled() || !this.client) return [];
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return [];
+  async getMarketInputArchive(snapshotId: string): Promise<MarketInputArchive | null> {
+    if (!this.storage) return null;
 
     try {
-      return await this.client.query(this.api.snapshots.getRecentSnapshots, { limit });
+      const row = await this.storage.getMarketInputArchive(snapshotId);
+      if (!row) return null;
+      return this.archiveService.decode(Buffer.from(row.data));
+    } catch (error) {
+      logger.error('Failed to load market input archive', { error: error instanceof Error ? error.message : 'Unknown' });
+      return null;
+    }
+  }
+
+  /**
+   * Get every revision saved for a "YYYY-MM-DD" date, oldest first
+   */
+  async getSnapshotRevisions(date: string): Promise<StoredSnapshot[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getSnapshotRevisions(date);
+    } catch (error) {
+      logger.error('Failed to fetch snapshot revisions', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
+
+  /**
+   * Mark a revision as the one executed for its date
+   * Returns the updated snapshot, or null if unknown or the update failed
+   */
+  async setOfficialRevision(snapshotId: string): Promise<StoredSnapshot | null> {
+    if (!this.storage) return null;
+
+    try {
+      const snapshot = await this.storage.setOfficialRevision(snapshotId);
+      if (snapshot) {
+        logger.info(`Marked revision ${snapshot.revision} official for ${snapshot.date}`, { snapshotId });
+      }
+      return snapshot;
+    } catch (error) {
+      logger.error('Failed to mark official revision', { error: error instanceof Error ? error.message : 'Unknown' });
+      return null;
+    }
+  }
+
+  /**
+   * Get recent official snapshots
+   */
+  async getRecentSnapshots(limit: number = 20): Promise<StoredSnapshot[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getRecentSnapshots(limit);
     } catch (error) {
       logger.error('Failed to fetch recent snapshots', { error: error instanceof Error ? error.message : 'Unknown' });
       return [];
@@ -188,16 +274,11 @@ export class DatabaseService {
   /**
    * Get snapshot with stocks by ID
    */
-  async getSnapshotWithStocks(snapshotId: string) {
-    if (!this.isEnabled() || !this.client) return null;
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return null;
+  async getSnapshotWithStocks(snapshotId: string): Promise<SnapshotWithStocks | null> {
+    if (!this.storage) return null;
 
     try {
-      return await this.client.query(this.api.snapshots.getSnapshotWithStocks, {
-        snapshotId,
-      });
+      return await this.storage.getSnapshotWithStocks(snapshotId);
     } catch (error) {
       logger.error('Failed to fetch snapshot', { error: error instanceof Error ? error.message : 'Unknown' });
       return null;
@@ -207,17 +288,11 @@ export class DatabaseService {
   /**
    * Get stock history by symbol
    */
-  async getStockHistory(symbol: string, limit: number = 52) {
-    if (!this.isEnabled() || !this.client) return [];
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return [];
+  async getStockHistory(symbol: string, limit: number = 52): Promise<StockHistoryRow[]> {
+    if (!this.storage) return [];
 
     try {
-      return await this.client.query(this.api.snapshots.getStockHistory, {
-        symbol: symbol.toUpperCase(),
-        limit,
-      });
+      return await this.storage.getStockHistory(symbol.toUpperCase(), limit);
     } catch (error) {
       logger.error('Failed to fetch stock history', { error: error instanceof Error ? error.message : 'Unknown' });
       return [];
@@ -227,34 +302,39 @@ export class DatabaseService {
   /**
    * Get snapshots by date range
    */
-  async getSnapshotsByDateRange(startDate: string, endDate: string) {
-    if (!this.isEnabled() || !this.client) return [];
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return [];
+  async getSnapshotsByDateRange(startDate: string, endDate: string): Promise<StoredSnapshot[]> {
+    if (!this.storage) return [];
 
     try {
-      return await this.client.query(this.api.snapshots.getSnapshotsByDateRange, {
-        startDate,
-        endDate,
-      });
+      return await this.storage.getSnapshotsByDateRange(startDate, endDate);
     } catch (error) {
       logger.error('Failed to fetch snapshots by date range', { error: error instanceof Error ? error.message : 'Unknown' });
       return [];
     }
   }
 
+  /**
+   * Get stock analyses with snapshot date and budget (for benchmarking)
+   */
+  async getStockAnalysesByDateRange(startDate: string, endDate: string): Promise<BenchmarkHistoryRow[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getStockAnalysesByDateRange(startDate, endDate);
+    } catch (error) {
+      logger.error('Failed to fetch stock analyses by date range', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
+
   /**
    * Get statistics
    */
-  async getStatistics() {
-    if (!this.isEnabled() || !this.client) return null;
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return null;
+  async getStatistics(): Promise<HistoryStatistics | null> {
+    if (!this.storage) return null;
 
     try {
-      return await this.client.query(this.api.snapshots.getStatistics, {});
+      return await this.storage.getStatistics();
     } catch (error) {
       logger.error('Failed to fetch statistics', { error: error instanceof Error ? error.message : 'Unknown' });
       return null;
@@ -264,14 +344,11 @@ export class DatabaseService {
   /**
    * Get the latest snapshot
    */
-  async getLatestSnapshot() {
-    if (!this.isEnabled() || !this.client) return null;
-    
-    const apiReady = await this.loadApi();
-    if (!apiReady || !this.api) return null;
+  async getLatestSnapshot(): Promise<SnapshotWithStocks | null> {
+    if (!this.storage) return null;
 
     try {
-      return await this.client.query(this.api.snapshots.getLatestSnapshot, {});
+      return await this.storage.getLatestSnapshot();
     } catch (error) {
       logger.error('Failed to fetch latest snapshot', { error: error instanceof Error ? error.message : 'Unknown' });
       return null;
@@ -279,56 +356,193 @@ export class DatabaseService {
   }
 
   /**
-   * Build stock analyses array for batch insert
+   * Record an executed transaction in the holdings ledger
    */
-  private buildStockAnalyses(
-    snapshotId: string,
-    allocations: PortfolioAllocation[],
-    technicalData: TechnicalDataRow[],
-    vix: number,
-    fearGreedIndex: number | null
-  ) {
-    // Create a map of technical data by symbol for quick lookup
-    const techDataMap = new Map<string, TechnicalDataRow>();
-    for (const data of technicalData) {
-      techDataMap.set(data.symbol, data);
+  async saveTransaction(transaction: NewHoldingTransaction): Promise<TransactionSaveResult> {
+    if (!this.storage) {
+      return { success: false, error: 'Database not enabled' };
     }
 
-    return allocations.map((allocation) => {
-      const techData = techDataMap.get(allocation.symbol);
+    try {
+      const transactionId = await this.storage.addTransaction({
+        ...transaction,
+        symbol: transaction.symbol.toUpperCase(),
+      });
+      logger.success('Saved transaction', { transactionId, symbol: transaction.symbol });
+      return { success: true, transactionId };
+    } catch (error) {
+      logger.error('Failed to save transaction', { error: error instanceof Error ? error.message : 'Unknown' });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Get ledger transactions (newest first), optionally for one symbol
+   */
+  async getTransactions(symbol?: string, limit: number = 100): Promise<HoldingTransaction[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getTransactions(symbol?.toUpperCase(), limit);
+    } catch (error) {
+      logger.error('Failed to fetch transactions', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
+
+  /**
+   * Get the full ledger (oldest first) for deriving positions
+   */
+  async getAllTransactions(): Promise<HoldingTransaction[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getAllTransactions();
+    } catch (error) {
+      logger.error('Failed to fetch all transactions', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
 
-      // Calculate CSS scores using shared CSSService logic
-      const vixScore = this.cssService.calculateVIXScore(vix);
-      const rsiScore = techData ? this.cssService.calculateRSIScore(techData.rsi) : 50;
-      const bbWidthScore = techData ? this.cssService.calculateBBWidthScore(techData.bbWidth) : 50;
-      const ma50Score = techData ? this.cssService.calculateMA50Score(techData.ma50Deviation) : 50;
-      const fearGreedScore = fearGreedIndex !== null ? this.cssService.calculateFearGreedScore(fearGreedIndex) : undefined;
+  /**
+   * Save shadow strategy evaluations from one run
+   * Each replaces any earlier evaluation for the same date and strategy version
+   */
+  async saveShadowEvaluations(evaluations: ShadowEvaluation[]): Promise<ShadowSaveResult> {
+    if (!this.storage) {
+      return { success: false, saved: 0, error: 'Database not enabled' };
+    }
 
+    let saved = 0;
+    try {
+      for (const evaluation of evaluations) {
+        await this.storage.saveShadowEvaluation(evaluation);
+        saved++;
+      }
+      logger.success('Saved shadow evaluations', { count: saved });
+      return { success: true, saved };
+    } catch (error) {
+      logger.error('Failed to save shadow evaluations', { error: error instanceof Error ? error.message : 'Unknown' });
       return {
-        snapshotId,
+        success: false,
+        saved,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Get shadow evaluations by date range, optionally for one strategy id
+   */
+  async getShadowEvaluationsByDateRange(startDate: string, endDate: string, strategyId?: string): Promise<ShadowEvaluation[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getShadowEvaluationsByDateRange(startDate, endDate, strategyId);
+    } catch (error) {
+      logger.error('Failed to fetch shadow evaluations', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
+
+  /**
+   * Save a job run (replaces the earlier save of the same runId)
+   * Returns false (logged) on failure
+   */
+  async saveJobRun(run: JobRunRecord): Promise<boolean> {
+    if (!this.storage) return false;
+
+    try {
+      await this.storage.saveJobRun(run);
+      return true;
+    } catch (error) {
+      logger.error('Failed to save job run', { error: error instanceof Error ? error.message : 'Unknown' });
+      return false;
+    }
+  }
+
+  /**
+   * Get recent job runs, newest first
+   */
+  async getJobRuns(limit: number = 20): Promise<StoredJobRun[]> {
+    if (!this.storage) return [];
+
+    try {
+      return await this.storage.getJobRuns(limit);
+    } catch (error) {
+      logger.error('Failed to fetch job runs', { error: error instanceof Error ? error.message : 'Unknown' });
+      return [];
+    }
+  }
+
+  /**
+   * Get a job run by runId
+   */
+  async getJobRun(runId: string): Promise<StoredJobRun | null> {
+    if (!this.storage) return null;
+
+    try {
+      return await this.storage.getJobRun(runId);
+    } catch (error) {
+      logger.error('Failed to fetch job run', { error: error instanceof Error ? error.message : 'Unknown' });
+      return null;
+    }
+  }
+
+  /**
+   * Build stock analyses array for batch insert with the snapshot
+   * Scores, signal and sources come from the report's StockAnalysis, so the
+   * stored rows are exactly what the email showed
+   */
+  private buildStockAnalyses(report: AllocationReport): NewStockAnalysis[] {
+    const analyses = new Map<string, StockAnalysis>(report.stockAnalyses.map(a => [a.symbol, a]));
+    const techDataMap = new Map<string, TechnicalDataRow>((report.technicalData ?? []).map(t => [t.symbol, t]));
+
+    return report.allocations.flatMap((allocation) => {
+      const analysis = analyses.get(allocation.symbol);
+      if (!analysis) return [];
+
+      const { marketData, technicalIndicators, cssBreakdown } = analysis;
+      const techData = techDataMap.get(allocation.symbol);
+
+      return [{
         symbol: allocation.symbol,
-        price: techData?.price ?? 0,
-        previousClose: techData?.price ?? 0,
-        changePercent: 0,
-        rsi: techData?.rsi ?? 0,
-        ma20: techData?.ma20 ?? 0,
-        ma50: techData?.ma50 ?? 0,
-        bbWidth: techData?.bbWidth ?? 0,
-        atr: techData?.atr ?? 0,
-        ma50Deviation: techData?.ma50Deviation ?? 0,
+        price: techData?.price ?? marketData.price,
+        priceAsOf: techData?.priceAsOf ?? undefined,
+        previousClose: marketData.previousClose,
+        changePercent: marketData.changePercent,
+        rsi: techData?.rsi ?? technicalIndicators.rsi,
+        ma20: techData?.ma20 ?? technicalIndicators.ma20,
+        ma50: techData?.ma50 ?? technicalIndicators.ma50,
+        bbWidth: techData?.bbWidth ?? technicalIndicators.bbWidth,
+        atr: techData?.atr ?? technicalIndicators.atr,
+        ma50Deviation: cssBreakdown.ma50DeviationPercent,
+        ma50Slope: cssBreakdown.ma50Slope,
         cssScore: allocation.cssScore,
+        cssMultiplier: cssBreakdown.multiplier,
         multiplier: allocation.multiplier,
-        vixScore,
-        rsiScore,
-        bbWidthScore,
-        ma50Score,
-        fearGreedScore,
+        confidence: allocation.confidence,
+        vixScore: cssBreakdown.vixScore,
+        rsiScore: cssBreakdown.rsiScore,
+        bbWidthScore: cssBreakdown.bbWidthScore,
+        ma50Score: cssBreakdown.ma50Score,
+        ma50SlopeBonus: cssBreakdown.ma50SlopeBonus,
+        ma50ScoreAdjusted: cssBreakdown.ma50ScoreAdjusted,
+        fearGreedScore: cssBreakdown.fearGreedScore ?? undefined,
+        weightsAdjusted: cssBreakdown.weightsAdjusted,
         baseAllocationPercent: allocation.percentage,
         baseAmount: allocation.baseAmount,
         finalAmount: allocation.amount,
-        signal: allocation.cssScore >= 50 ? 'BUY' : 'HOLD',
+        signal: analysis.signal,
+        strength: analysis.strength,
+        quoteSource: marketData.dataSource,
+        historySource: analysis.historySource,
+        indicatorSource: technicalIndicators.dataSource,
         reasoning: allocation.reasoning,
-      };
+      }];
     });
   }
 
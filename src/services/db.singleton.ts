@@ -3,17 +3,18 @@ import { DatabaseService } from './database';
 /**
  * Shared DatabaseService singleton
  *
- * Prevents multiple instances from being created across routes,
- * avoiding duplicate Convex API dynamic imports and race conditions.
+ * Prevents multiple instances from being created across routes and jobs,
+ * avoiding duplicate Convex API dynamic imports, several connections to
+ * one SQLite file, and race conditions.
  */
 let dbService: DatabaseService | null = null;
 
 /**
  * Get or create the shared DatabaseService instance
  */
-export function getDbService(convexUrl: string): DatabaseService {
+export function getDbService(databaseUrl: string): DatabaseService {
   if (!dbService) {
-    dbService = new DatabaseService(convexUrl);
+    dbService = new DatabaseService(databaseUrl);
   }
   return dbService;
 }
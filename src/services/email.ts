@@ -1,5 +1,15 @@
 import * as nodemailer from 'nodemailer';
-import { AllocationReport, Config, PortfolioAllocation, TechnicalDataRow } from '../types';
+import { formatMarketTime } from '../utils/marketTime';
+import { formatStrategyLabel } from '../utils/strategy';
+import {
+  AdminAlert,
+  AllocationReport,
+  Config,
+  EmergencyExitResult,
+  PortfolioAllocation,
+  RebalancePlan,
+  TechnicalDataRow
+} from '../types';
 
 /**
  * Email Service
@@ -35,6 +45,8 @@ export class EmailService {
 
   /**
    * Send portfolio allocation report via email.
+   * When the data quality gate blocked the run, a "data unavailable, invest
+   * base amounts" notice goes out instead of the full report.
    *
    * @param report - The allocation report to send
    * @param emailTo - Single email or array of recipients
@@ -44,8 +56,11 @@ export class EmailService {
    * This method THROWS on failure - wrap in try/catch if graceful handling needed.
    */
   async sendReport(report: AllocationReport, emailTo: string | string[]): Promise<void> {
-    const html = this.generateHTML(report);
-    const subject = `📊 Weekly Portfolio Allocation (CSS v4.3) - ${this.formatDate(report.date)}`;
+    const blocked = report.dataQualityGate.status === 'blocked';
+    const html = blocked ? this.generateDataUnavailableHTML(report) : this.generateHTML(report);
+    const subject = blocked
+      ? `⚠️ Market Data Unavailable - Invest Base Amounts - ${this.formatDate(report.date)}`
+      : `📊 Weekly Portfolio Allocation (${this.getStrategyLabel(report)}) - ${this.formatDate(report.date)}`;
     
     // Convert array to comma-separated string for nodemailer
     const recipients = Array.isArray(emailTo) ? emailTo.join(', ') : emailTo;
@@ -65,6 +80,192 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send emergency exit alert via email.
+   * Separate from the weekly report: only sent when a trigger fires.
+   *
+   * @param result - Emergency check result with at least one trigger
+   * @param emailTo - Single email or array of recipients
+   * @throws Error if sending fails (SMTP error, auth failure, etc.)
+   */
+  async sendEmergencyAlert(result: EmergencyExitResult, emailTo: string | string[]): Promise<void> {
+    const html = this.generateEmergencyHTML(result);
+    const symbols = [...new Set(result.triggers.map(t => t.symbol))].join(', ');
+    const subject = `🚨 Emergency Exit Trigger: ${symbols} - ${result.date}`;
+
+    const recipients = Array.isArray(emailTo) ? emailTo.join(', ') : emailTo;
+
+    try {
+      await this.transporter.sendMail({
+        from: this.fromAddress,
+        to: recipients,
+        subject,
+        html
+      });
+      console.log(`✅ Emergency alert sent (${result.triggers.length} trigger(s))`);
+    } catch (error) {
+      console.error('❌ Failed to send emergency alert:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate emergency alert HTML
+   */
+  private generateEmergencyHTML(result: EmergencyExitResult): string {
+    const ruleLabels: Record<string, string> = {
+      MONTHLY_DROP: 'Drop > 40% in a single month (no market crash)',
+      CONCENTRATION: 'Single position > 25% of portfolio'
+    };
+
+    const triggersHtml = result.triggers.map(trigger => `
+              <div style="padding: 16px; margin-bottom: 12px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 4px;">
+                <p style="margin: 0; color: #991b1b; font-size: 16px; font-weight: 700;">${trigger.symbol} - ${ruleLabels[trigger.rule] ?? trigger.rule}</p>
+                <p style="margin: 8px 0 0; color: #1f2937; font-size: 14px;">${trigger.reason}</p>
+                <p style="margin: 8px 0 0; color: #6b7280; font-size: 13px;">
+                  <strong>Strategy action:</strong> sell 50% of ${trigger.symbol}${trigger.suggestedUnits !== null ? ` (${trigger.suggestedUnits} units)` : ''}
+                </p>
+              </div>
+    `).join('');
+
+    const checkRows = result.checks.map(check => `
+                  <tr>
+                    <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; font-weight: 600;">${check.symbol}</td>
+                    <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${check.monthlyDropPercent !== null ? `${check.monthlyDropPercent.toFixed(1)}%` : 'N/A'}</td>
+                    <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${check.weightPercent !== null ? `${check.weightPercent.toFixed(1)}%` : 'N/A'}</td>
+                  </tr>
+    `).join('');
+
+    const marketLine = result.marketDropPercent !== null
+      ? `Market benchmark down ${result.marketDropPercent.toFixed(1)}% from its monthly high${result.marketCrash ? ' (market crash - drop rule suspended)' : ''}.`
+      : 'Market benchmark history unavailable.';
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Emergency Exit Trigger</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 700px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #dc2626 0%, #991b1b 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">🚨 Emergency Exit Trigger</h1>
+              <p style="margin: 10px 0 0; color: #fee2e2; font-size: 16px;">${result.date}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              ${triggersHtml}
+              <p style="margin: 16px 0; color: #6b7280; font-size: 13px;">${marketLine}</p>
+              <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+                <thead>
+                  <tr style="background-color: #f3f4f6;">
+                    <th style="padding: 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Asset</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Drop from 1M High</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Portfolio Weight</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${checkRows}
+                </tbody>
+              </table>
+            </td>
+          </tr>
+          ${this.generateFooter()}
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Send an admin alert about the weekly job (failed or missed run)
+   */
+  async sendAdminAlert(alert: AdminAlert, emailTo: string | string[]): Promise<void> {
+    const html = this.generateAdminAlertHTML(alert);
+    const recipients = Array.isArray(emailTo) ? emailTo.join(', ') : emailTo;
+
+    try {
+      await this.transporter.sendMail({
+        from: this.fromAddress,
+        to: recipients,
+        subject: `⚠️ ${alert.subject}`,
+        html
+      });
+      console.log(`✅ Admin alert sent (${alert.kind})`);
+    } catch (error) {
+      console.error('❌ Failed to send admin alert:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate admin alert HTML
+   */
+  private generateAdminAlertHTML(alert: AdminAlert): string {
+    const hintsHtml = alert.hints.map(hint => `
+                <li style="margin-bottom: 6px;">${hint}</li>
+    `).join('');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${alert.subject}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 700px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="padding: 30px 40px 20px; background: linear-gradient(135deg, #d97706 0%, #92400e 100%); border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 22px; font-weight: 700;">⚠️ ${alert.subject}</h1>
+              <p style="margin: 8px 0 0; color: #fef3c7; font-size: 14px;">${alert.occurredAt}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <tr>
+                  <td style="padding: 6px 0; color: #6b7280; width: 100px;">Stage</td>
+                  <td style="padding: 6px 0; font-weight: 600;">${alert.stage ?? 'N/A'}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 6px 0; color: #6b7280;">Run</td>
+                  <td style="padding: 6px 0; font-family: monospace;">${alert.runId ?? 'N/A'}</td>
+                </tr>
+              </table>
+              <div style="padding: 16px; margin: 16px 0; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 4px;">
+                <p style="margin: 0; color: #991b1b; font-size: 14px; font-family: monospace;">${alert.error}</p>
+              </div>
+              <h3 style="margin: 0 0 8px; color: #1f2937; font-size: 16px;">What to try</h3>
+              <ul style="margin: 0; padding-left: 20px; color: #374151; font-size: 14px;">
+                ${hintsHtml}
+              </ul>
+            </td>
+          </tr>
+          ${this.generateFooter()}
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+  }
+
   /**
    * Generate professional HTML email report
    */
@@ -75,7 +276,7 @@ export class EmailService {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Weekly Portfolio Allocation (CSS v4.3)</title>
+  <title>Weekly Portfolio Allocation (${this.getStrategyLabel(report)})</title>
 </head>
 <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
   <table role="presentation" style="width: 100%; border-collapse: collapse;">
@@ -88,9 +289,79 @@ export class EmailService {
           ${report.fearGreedFailed ? this.generateFearGreedWarning() : ''}
           ${this.generateMarketOverview(report)}
           ${this.generateAllocationsSection(report)}
+          ${report.rebalancing ? this.generateRebalancingSection(report.rebalancing) : ''}
           ${this.generateTechnicalDataSection(report)}
           ${this.generateRecommendationsSection(report)}
-          ${this.generateFooter()}
+          ${this.generateFooter(this.getStrategyLabel(report))}
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Generate the "data unavailable" notice sent instead of a blocked report
+   * Lists each asset's base amount - no CSS scores, they were built on simulated prices
+   */
+  private generateDataUnavailableHTML(report: AllocationReport): string {
+    const gate = report.dataQualityGate;
+    const rows = report.allocations.map(allocation => `
+                <tr>
+                  <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; font-weight: 600;">${allocation.symbol}</td>
+                  <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; text-align: right; font-weight: 700;">$${allocation.amount}</td>
+                </tr>`).join('');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Market Data Unavailable</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 700px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+
+          ${this.generateHeader(report)}
+          <tr>
+            <td style="padding: 0;">
+              <div style="background-color: #fee2e2; border-left: 4px solid #dc2626; padding: 16px 40px; margin: 0;">
+                <p style="margin: 0; color: #991b1b; font-size: 16px; font-weight: 700;">
+                  🛑 Market data unavailable - invest base amounts
+                </p>
+                <p style="margin: 8px 0 0; color: #b91c1c; font-size: 13px;">
+                  ${gate.simulatedSymbols.length} of ${report.allocations.length} symbols (${gate.simulatedSymbols.join(', ')}) could only be priced with simulated data,
+                  above the ${Math.round(gate.maxSimulatedFraction * 100)}% limit. No CSS adjustments were made this week.
+                </p>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <thead>
+                  <tr style="background-color: #f3f4f6;">
+                    <th style="padding: 10px 12px; text-align: left; border-bottom: 2px solid #e5e7eb;">Asset</th>
+                    <th style="padding: 10px 12px; text-align: right; border-bottom: 2px solid #e5e7eb;">Base Amount (1.0×)</th>
+                  </tr>
+                </thead>
+                <tbody>${rows}
+                  <tr style="background-color: #f3f4f6; font-weight: 700;">
+                    <td style="padding: 10px 12px;">TOTAL</td>
+                    <td style="padding: 10px 12px; text-align: right;">$${report.totalAmount.toFixed(0)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </td>
+          </tr>
+          ${this.generateFooter(this.getStrategyLabel(report))}
 
         </table>
       </td>
@@ -111,6 +382,15 @@ export class EmailService {
       if (report.dataSourceStatus.marketDataSource === 'axios-fallback') {
         warnings.push('Market data fetched via axios fallback (yahoo-finance2 library failed)');
       }
+      if (report.dataSourceStatus.historyCacheAgeHours !== null) {
+        warnings.push(`Price history served from the local bar cache (up to ${report.dataSourceStatus.historyCacheAgeHours}h old) - all providers failed`);
+      }
+      if (report.dataSourceStatus.intradaySymbols.length > 0) {
+        warnings.push(`Intraday prices while the market was open: ${report.dataSourceStatus.intradaySymbols.join(', ')} (MARKET_DATA_QUOTE_POLICY=latest)`);
+      }
+      if (report.dataSourceStatus.atrSource === 'close-only') {
+        warnings.push('ATR estimated from close-to-close moves (no high/low bars for some stocks)');
+      }
       if (report.dataSourceStatus.indicatorSource === 'custom-fallback') {
         warnings.push('Technical indicators calculated via custom fallback (technicalindicators library failed)');
       }
@@ -143,7 +423,7 @@ export class EmailService {
             <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
               <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700;">📊 Weekly Portfolio Allocation</h1>
               <p style="margin: 10px 0 0; color: #e0e7ff; font-size: 16px;">${this.formatDate(report.date)}</p>
-              <p style="margin: 5px 0 0; color: #c4b5fd; font-size: 12px;">CSS Strategy v4.3</p>
+              <p style="margin: 5px 0 0; color: #c4b5fd; font-size: 12px;">Strategy ${this.getStrategyLabel(report)}</p>
             </td>
           </tr>
     `;
@@ -216,7 +496,7 @@ export class EmailService {
                 <table style="width: 100%;">
                   <tr>
                     <td style="font-size: 13px; color: #1e40af;">
-                      <strong>Budget Range:</strong> $${report.minBudget} - $${report.maxBudget}
+                      <strong>Budget Range:</strong> $${report.minBudget} - $${report.maxBudget} (${report.riskTolerance} profile)
                     </td>
                     <td style="text-align: right; font-size: 13px; color: #1e40af;">
                       <strong>This Week:</strong> $${report.totalAmount.toFixed(0)} (${(report.totalAmount / report.baseBudget * 100).toFixed(0)}% of base)
@@ -236,7 +516,7 @@ export class EmailService {
     return `
           <tr>
             <td style="padding: 0 40px 30px;">
-              <h2 style="margin: 0 0 20px; color: #1f2937; font-size: 20px; font-weight: 600;">Investment Allocation (CSS v4.3)</h2>
+              <h2 style="margin: 0 0 20px; color: #1f2937; font-size: 20px; font-weight: 600;">Investment Allocation (${this.getStrategyLabel(report)})</h2>
               
               ${this.generateAllocationsTable(report.allocations, report.baseBudget)}
             </td>
@@ -260,6 +540,7 @@ export class EmailService {
             <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e5e7eb;">Base</th>
             <th style="padding: 12px; text-align: center; border-bottom: 2px solid #e5e7eb;">CSS</th>
             <th style="padding: 12px; text-align: center; border-bottom: 2px solid #e5e7eb;">Multi</th>
+            <th style="padding: 12px; text-align: center; border-bottom: 2px solid #e5e7eb;">Conf</th>
             <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e5e7eb;">Final</th>
           </tr>
         </thead>
@@ -287,6 +568,9 @@ export class EmailService {
             <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center; color: #6366f1; font-weight: 500;">
               ${allocation.multiplier}×
             </td>
+            <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: center; ${this.getConfidenceStyle(allocation.confidence)}">
+              ${Math.round(allocation.confidence * 100)}%
+            </td>
             <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right; font-weight: 700; color: #1f2937;">
               $${allocation.amount}
             </td>
@@ -303,6 +587,7 @@ export class EmailService {
             <td style="padding: 12px;" colspan="2">TOTAL</td>
             <td style="padding: 12px; text-align: center;"></td>
             <td style="padding: 12px; text-align: center; color: #6366f1;">${totalMultiplier.toFixed(2)}×</td>
+            <td style="padding: 12px; text-align: center;"></td>
             <td style="padding: 12px; text-align: right; color: #1f2937;">$${totalAmount.toFixed(0)}</td>
           </tr>
         </tbody>
@@ -324,6 +609,75 @@ export class EmailService {
     return '#8b5cf6'; // Purple - Extreme Fear
   }
 
+  /**
+   * Generate annual rebalancing section (January only)
+   */
+  private generateRebalancingSection(plan: RebalancePlan): string {
+    const statusHtml = plan.needsRebalance
+      ? `<div style="padding: 12px 16px; margin-bottom: 16px; background-color: #fef2f2; border-left: 4px solid #ef4444; border-radius: 4px; font-size: 14px; color: #991b1b;">
+                <strong>Rebalance needed:</strong> ${plan.breaches.join(', ')} above target × 1.5
+              </div>`
+      : `<div style="padding: 12px 16px; margin-bottom: 16px; background-color: #f0fdf4; border-left: 4px solid #10b981; border-radius: 4px; font-size: 14px; color: #065f46;">
+                All positions within rebalancing thresholds. No trades needed.
+              </div>`;
+
+    const positionRows = plan.positions.map((position, index) => {
+      const bgColor = index % 2 === 0 ? '#ffffff' : '#f9fafb';
+      const weightStyle = position.breached ? 'color: #ef4444; font-weight: 700;' : 'color: #1f2937;';
+
+      return `
+          <tr style="background-color: ${bgColor};">
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; font-weight: 600;">${position.symbol}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">$${position.marketValue.toFixed(2)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; ${weightStyle}">${position.currentPercent.toFixed(1)}%</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #6b7280;">${position.targetPercent}%</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #6b7280;">${position.thresholdPercent}%</td>
+          </tr>
+      `;
+    }).join('');
+
+    const tradesHtml = plan.trades.length === 0 ? '' : `
+              <h3 style="margin: 20px 0 12px; color: #1f2937; font-size: 16px; font-weight: 600;">Proposed Trades</h3>
+              <ul style="margin: 0; padding: 0; list-style: none;">
+                ${plan.trades.map(trade => `
+                <li style="padding: 8px 12px; margin-bottom: 6px; background-color: ${trade.action === 'SELL' ? '#fef2f2' : '#f0fdf4'}; border-radius: 4px; font-size: 14px; color: #1f2937;">
+                  <strong>${trade.action}</strong> ${trade.symbol}: $${trade.amount.toFixed(2)}${trade.units !== null ? ` (${trade.units} units @ $${trade.price?.toFixed(2)})` : ''}
+                </li>`).join('')}
+              </ul>
+    `;
+
+    const estimatedHtml = plan.estimatedPrices.length === 0 ? '' : `
+              <p style="margin: 12px 0 0; color: #b45309; font-size: 12px;">
+                ⚠️ No live quote for ${plan.estimatedPrices.join(', ')} - valued at average cost.
+              </p>
+    `;
+
+    return `
+          <tr>
+            <td style="padding: 0 40px 30px;">
+              <h2 style="margin: 0 0 20px; color: #1f2937; font-size: 20px; font-weight: 600;">⚖️ Annual Rebalancing</h2>
+              ${statusHtml}
+              <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+                <thead>
+                  <tr style="background-color: #f3f4f6;">
+                    <th style="padding: 8px; text-align: left; border-bottom: 2px solid #e5e7eb;">Asset</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Value</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Weight</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Target</th>
+                    <th style="padding: 8px; text-align: right; border-bottom: 2px solid #e5e7eb;">Rebalance If &gt;</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${positionRows}
+                </tbody>
+              </table>
+              ${tradesHtml}
+              ${estimatedHtml}
+            </td>
+          </tr>
+    `;
+  }
+
   /**
    * Generate technical data section
    */
@@ -370,7 +724,9 @@ export class EmailService {
       html += `
           <tr style="background-color: ${bgColor};">
             <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; font-weight: 600;">${row.symbol}</td>
-            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">$${row.price.toFixed(2)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">
+              $${row.price.toFixed(2)}${this.getPriceAsOfLabel(row)}
+            </td>
             <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; ${this.getRSIStyle(row.rsi)}">${row.rsi.toFixed(1)}</td>
             <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">$${row.ma50.toFixed(2)}</td>
             <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: ${ma50Color}; font-weight: 500;">${row.ma50Deviation > 0 ? '+' : ''}${row.ma50Deviation.toFixed(1)}%</td>
@@ -392,6 +748,17 @@ export class EmailService {
     return html;
   }
 
+  /**
+   * "as of" line under a price: exchange time, flagged when intraday
+   */
+  private getPriceAsOfLabel(row: TechnicalDataRow): string {
+    if (!row.priceAsOf) {
+      return '';
+    }
+    const basis = row.priceBasis === 'intraday' ? ' (live)' : row.priceBasis === 'close' ? ' (close)' : '';
+    return `<br><span style="color: #9ca3af; font-size: 10px;">${formatMarketTime(new Date(row.priceAsOf))}${basis}</span>`;
+  }
+
   /**
    * Generate recommendations section
    */
@@ -451,7 +818,7 @@ export class EmailService {
   /**
    * Generate footer section
    */
-  private generateFooter(): string {
+  private generateFooter(strategyLabel?: string): string {
     return `
           <tr>
             <td style="padding: 30px 40px; background-color: #f9fafb; border-radius: 0 0 8px 8px; text-align: center;">
@@ -460,7 +827,7 @@ export class EmailService {
                 Always conduct your own research and consult with a financial advisor before making investment decisions.
               </p>
               <p style="margin: 16px 0 0; color: #9ca3af; font-size: 12px;">
-                Generated by SIP Portfolio Advisor • CSS Strategy v4.3
+                Generated by SIP Portfolio Advisor${strategyLabel ? ` • Strategy ${strategyLabel}` : ''}
               </p>
             </td>
           </tr>
@@ -481,6 +848,15 @@ export class EmailService {
     }
   }
 
+  /**
+   * Get data confidence styling (grey when full, amber/red as it drops)
+   */
+  private getConfidenceStyle(confidence: number): string {
+    if (confidence >= 1) return 'color: #6b7280;';
+    if (confidence >= 0.7) return 'color: #d97706; font-weight: 600;';
+    return 'color: #dc2626; font-weight: 600;';
+  }
+
   /**
    * Get RSI styling based on value
    */
@@ -490,6 +866,13 @@ export class EmailService {
     return 'color: #6b7280;'; // Normal
   }
 
+  /**
+   * Strategy id and version used for the report (e.g. "CSS v4.3")
+   */
+  private getStrategyLabel(report: AllocationReport): string {
+    return formatStrategyLabel({ id: report.strategyId, version: report.strategyVersion });
+  }
+
   /**
    * Format date for display
    */
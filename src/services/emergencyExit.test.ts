@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EmergencyExitService } from './emergencyExit';
+import { MarketDataService } from './marketData';
+import { MarketDataProvider, NewHoldingTransaction, PriceBar, PricePoint } from '../types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+// Daily series from a list of closes, ending 2025-03-31
+const createSeries = (closes: number[]): PricePoint[] =>
+  closes.map((close, i) => ({
+    date: new Date(Date.UTC(2025, 2, 31 - (closes.length - 1 - i))).toISOString().split('T')[0],
+    close,
+  }));
+
+const FLAT = createSeries([100, 100, 100, 100]);
+const CRASHED = createSeries([100, 90, 70, 55]);     // -45%
+const MARKET_CRASH = createSeries([100, 90, 80, 75]); // -25%
+
+describe('EmergencyExitService', () => {
+  let service: EmergencyExitService;
+
+  beforeEach(() => {
+    service = new EmergencyExitService();
+  });
+
+  // ===========================================================================
+  // calculateDropFromHigh() Tests
+  // ===========================================================================
+  describe('calculateDropFromHigh', () => {
+    it('should measure the drop from the highest close, not the first', () => {
+      expect(service.calculateDropFromHigh(createSeries([80, 200, 150, 110]))).toBe(45);
+    });
+
+    it('should return 0 when the latest close is the high', () => {
+      expect(service.calculateDropFromHigh(createSeries([80, 90, 100]))).toBe(0);
+    });
+
+    it('should return null for too little history', () => {
+      expect(service.calculateDropFromHigh([])).toBeNull();
+      expect(service.calculateDropFromHigh(createSeries([100]))).toBeNull();
+    });
+  });
+
+  // ===========================================================================
+  // evaluate() Tests
+  // ===========================================================================
+  describe('evaluate', () => {
+    it('should not trigger on normal conditions', () => {
+      const result = service.evaluate('2025-03-31', { GOOG: FLAT, TSLA: FLAT }, FLAT, { GOOG: 17, TSLA: 8 });
+
+      expect(result.triggers).toEqual([]);
+      expect(result.holdingsChecked).toBe(true);
+      expect(result.marketCrash).toBe(false);
+    });
+
+    it('should trigger MONTHLY_DROP when a stock falls > 40% without a market crash', () => {
+      const result = service.evaluate('2025-03-31', { GOOG: FLAT, TSLA: CRASHED }, FLAT, null);
+
+      expect(result.triggers).toHaveLength(1);
+      expect(result.triggers[0].symbol).toBe('TSLA');
+      expect(result.triggers[0].rule).toBe('MONTHLY_DROP');
+      expect(result.triggers[0].value).toBe(45);
+      expect(result.triggers[0].reason).toContain('45%');
+    });
+
+    it('should suspend MONTHLY_DROP during a market crash', () => {
+      const result = service.evaluate('2025-03-31', { GOOG: FLAT, TSLA: CRASHED }, MARKET_CRASH, null);
+
+      expect(result.marketCrash).toBe(true);
+      expect(result.marketDropPercent).toBe(25);
+      expect(result.triggers).toEqual([]);
+    });
+
+    it('should still trigger when the benchmark is unavailable', () => {
+      const result = service.evaluate('2025-03-31', { GOOG: FLAT, TSLA: CRASHED }, [], null);
+
+      expect(result.triggers[0].rule).toBe('MONTHLY_DROP');
+      expect(result.triggers[0].reason).toContain('could not be ruled out');
+    });
+
+    it('should trigger CONCENTRATION above 25% of the portfolio', () => {
+      const result = service.evaluate(
+        '2025-03-31',
+        { GOOG: FLAT, TSLA: FLAT },
+        FLAT,
+        { GOOG: 26.5, TSLA: 8 },
+        { GOOG: 10 }
+      );
+
+      expect(result.triggers).toHaveLength(1);
+      expect(result.triggers[0].rule).toBe('CONCENTRATION');
+      expect(result.triggers[0].symbol).toBe('GOOG');
+      expect(result.triggers[0].suggestedUnits).toBe(5);
+    });
+
+    it('should skip the concentration rule without holdings', () => {
+      const result = service.evaluate('2025-03-31', { GOOG: FLAT, TSLA: FLAT }, FLAT, null);
+
+      expect(result.holdingsChecked).toBe(false);
+      expect(result.checks.every(c => c.weightPercent === null)).toBe(true);
+    });
+
+    it('should report missing history as null', () => {
+      const result = service.evaluate('2025-03-31', {}, FLAT, null);
+
+      expect(result.checks.map(c => c.monthlyDropPercent)).toEqual([null, null]);
+      expect(result.triggers).toEqual([]);
+    });
+  });
+
+  // ===========================================================================
+  // check() Tests
+  // ===========================================================================
+  describe('check', () => {
+    it('should fetch one month of history and value holdings', async () => {
+      const marketDataService = {
+        fetchPriceSeries: vi.fn().mockImplementation(async (symbol: string) =>
+          symbol === 'TSLA' ? CRASHED : FLAT
+        ),
+        fetchStockData: vi.fn().mockImplementation(async (symbol: string) => ({
+          symbol,
+          price: 100,
+          dataSource: 'yahoo-finance2',
+        })),
+      } as unknown as MarketDataService;
+
+      const transactions: NewHoldingTransaction[] = [
+        { symbol: 'GOOG', date: '2025-01-10', side: 'BUY', units: 3, price: 100, fees: 0 },
+        { symbol: 'QQQ', date: '2025-01-10', side: 'BUY', units: 7, price: 100, fees: 0 },
+      ];
+
+      const result = await new EmergencyExitService(marketDataService)
+        .check(transactions, new Date('2025-03-31T06:00:00Z'));
+
+      expect(marketDataService.fetchPriceSeries).toHaveBeenCalledWith('TSLA', '2025-02-28', '2025-03-31');
+      expect(result.triggers.map(t => `${t.symbol}:${t.rule}`)).toEqual([
+        'GOOG:CONCENTRATION',
+        'TSLA:MONTHLY_DROP',
+      ]);
+    });
+
+    it('should not read a split inside the month as a drop', async () => {
+      // TSLA 3:1 split mid-month in a csv file without adjusted closes
+      const bars: PriceBar[] = Array.from({ length: 21 }, (_, i) => ({
+        date: `2025-03-${String(i + 3).padStart(2, '0')}`,
+        open: null, high: null, low: null,
+        close: i < 10 ? 300 : 100,
+        volume: i < 10 ? 1000 : 3000,
+      }));
+      const provider: MarketDataProvider = {
+        source: 'csv',
+        fetchQuote: vi.fn(),
+        fetchDailyHistory: vi.fn(async (symbol: string) => (symbol === 'TSLA' ? bars : bars.map(bar => ({ ...bar, close: 100 })))),
+        fetchVIX: vi.fn(),
+      };
+
+      const result = await new EmergencyExitService(new MarketDataService([provider]))
+        .check(null, new Date('2025-03-31T06:00:00Z'));
+
+      expect(result.checks.find(c => c.symbol === 'TSLA')?.monthlyDropPercent).toBe(0);
+      expect(result.triggers).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { HoldingsService } from './holdings';
+import { MarketDataService } from './marketData';
+import { RebalancingService } from './rebalancing';
+import {
+  EmergencyExitCheck,
+  EmergencyExitResult,
+  EmergencyExitTrigger,
+  NewHoldingTransaction,
+  PricePoint
+} from '../types';
+import { EMERGENCY_EXIT_CONFIG } from '../utils/multiplierThresholds';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Emergency Exit Service
+ *
+ * Daily check of the automatable emergency exit rules for individual stocks:
+ * - MONTHLY_DROP: close fell more than 40% from its high over the last month,
+ *   unless the market benchmark fell 20%+ over the same window (market crash)
+ * - CONCENTRATION: the stock is more than 25% of the total portfolio
+ *
+ * Portfolio weights use the same valuation as the rebalancing plan
+ * (live quotes, average cost when no live quote is available).
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * Missing price history skips the drop rule for that symbol and missing
+ * holdings skip the concentration rule; both show up as null in `checks`.
+ */
+export class EmergencyExitService {
+  private marketDataService: MarketDataService;
+  private holdingsService: HoldingsService;
+  private rebalancingService: RebalancingService;
+
+  constructor(marketDataService?: MarketDataService, holdingsService?: HoldingsService) {
+    this.marketDataService = marketDataService ?? new MarketDataService();
+    this.holdingsService = holdingsService ?? new HoldingsService();
+    this.rebalancingService = new RebalancingService(this.marketDataService, this.holdingsService);
+  }
+
+  /**
+   * Run the daily check
+   *
+   * @param transactions - Holdings ledger, or null when the database is disabled
+   * @param date - Check date (defaults to now)
+   */
+  async check(transactions: NewHoldingTransaction[] | null, date: Date = new Date()): Promise<EmergencyExitResult> {
+    const endDate = date.toISOString().split('T')[0];
+    const startDate = new Date(date.getTime() - EMERGENCY_EXIT_CONFIG.LOOKBACK_DAYS * MS_PER_DAY)
+      .toISOString().split('T')[0];
+
+    const symbols = [...EMERGENCY_EXIT_CONFIG.SYMBOLS];
+    const [benchmark, ...series] = await Promise.all([
+      this.marketDataService.fetchPriceSeries(EMERGENCY_EXIT_CONFIG.MARKET_BENCHMARK, startDate, endDate),
+      ...symbols.map(symbol => this.marketDataService.fetchPriceSeries(symbol, startDate, endDate))
+    ]);
+
+    let weights: Record<string, number> | null = null;
+    let units: Record<string, number> = {};
+
+    if (transactions && transactions.length > 0) {
+      const plan = await this.rebalancingService.generatePlan(transactions, date);
+      weights = Object.fromEntries(plan.positions.map(p => [p.symbol, p.currentPercent]));
+      units = Object.fromEntries(
+        this.holdingsService.calculatePositions(transactions).map(p => [p.symbol, p.units])
+      );
+    }
+
+    return this.evaluate(
+      endDate,
+      Object.fromEntries(symbols.map((symbol, i) => [symbol, series[i]])),
+      benchmark,
+      weights,
+      units
+    );
+  }
+
+  /**
+   * Evaluate the triggers against already-fetched data
+   *
+   * @param date - Check date ("YYYY-MM-DD")
+   * @param series - Last month of closes per monitored symbol
+   * @param benchmark - Last month of benchmark closes
+   * @param weights - Portfolio weight % per symbol, or null if holdings are unavailable
+   * @param units - Held units per symbol (for the suggested sale size)
+   */
+  evaluate(
+    date: string,
+    series: Record<string, PricePoint[]>,
+    benchmark: PricePoint[],
+    weights: Record<string, number> | null,
+    units: Record<string, number> = {}
+  ): EmergencyExitResult {
+    const marketDropPercent = this.calculateDropFromHigh(benchmark);
+    const marketCrash = marketDropPercent !== null && marketDropPercent >= EMERGENCY_EXIT_CONFIG.MARKET_CRASH_DROP;
+
+    const checks: EmergencyExitCheck[] = [];
+    const triggers: EmergencyExitTrigger[] = [];
+
+    for (const symbol of EMERGENCY_EXIT_CONFIG.SYMBOLS) {
+      const monthlyDropPercent = this.calculateDropFromHigh(series[symbol] ?? []);
+      const weightPercent = weights ? (weights[symbol] ?? 0) : null;
+      const suggestedUnits = units[symbol] > 0
+        ? Math.round(units[symbol] * EMERGENCY_EXIT_CONFIG.SELL_FRACTION * 1e6) / 1e6
+        : null;
+
+      checks.push({ symbol, monthlyDropPercent, weightPercent });
+
+      if (monthlyDropPercent !== null && monthlyDropPercent > EMERGENCY_EXIT_CONFIG.MAX_MONTHLY_DROP && !marketCrash) {
+        const marketNote = marketDropPercent === null
+          ? 'market benchmark unavailable, crash could not be ruled out'
+          : `market (${EMERGENCY_EXIT_CONFIG.MARKET_BENCHMARK}) only down ${marketDropPercent}%`;
+
+        triggers.push({
+          symbol,
+          rule: 'MONTHLY_DROP',
+          value: monthlyDropPercent,
+          threshold: EMERGENCY_EXIT_CONFIG.MAX_MONTHLY_DROP,
+          reason: `${symbol} fell ${monthlyDropPercent}% from its ${EMERGENCY_EXIT_CONFIG.LOOKBACK_DAYS}-day high ` +
+            `(limit ${EMERGENCY_EXIT_CONFIG.MAX_MONTHLY_DROP}%) without a market crash; ${marketNote}`,
+          suggestedUnits
+        });
+      }
+
+      if (weightPercent !== null && weightPercent > EMERGENCY_EXIT_CONFIG.MAX_POSITION_PERCENT) {
+        triggers.push({
+          symbol,
+          rule: 'CONCENTRATION',
+          value: weightPercent,
+          threshold: EMERGENCY_EXIT_CONFIG.MAX_POSITION_PERCENT,
+          reason: `${symbol} is ${weightPercent}% of the total portfolio ` +
+            `(limit ${EMERGENCY_EXIT_CONFIG.MAX_POSITION_PERCENT}%)`,
+          suggestedUnits
+        });
+      }
+    }
+
+    return {
+      date,
+      marketDropPercent,
+      marketCrash,
+      holdingsChecked: weights !== null,
+      checks,
+      triggers
+    };
+  }
+
+  /**
+   * Percentage drop of the latest close from the highest close in the series
+   * Returns null when the series is too short to measure
+   */
+  calculateDropFromHigh(series: PricePoint[]): number | null {
+    if (series.length < 2) return null;
+
+    const high = Math.max(...series.map(p => p.close));
+    const latest = series[series.length - 1].close;
+    if (high <= 0) return null;
+
+    return Math.round(((high - latest) / high) * 10000) / 100;
+  }
+}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { FearGreedResponse } from '../types';
+import { FearGreedResponse, PricePoint } from '../types';
 
 /**
  * Fear & Greed Index Service
@@ -73,6 +73,48 @@ export class FearGreedService {
     }
   }
 
+  /**
+   * Fetch daily Fear & Greed history from CNN starting at a given date.
+   *
+   * @param startDate - First date to include ("YYYY-MM-DD")
+   * @returns Dated index values, oldest first - empty array on failure, NEVER throws
+   */
+  async fetchFearGreedHistory(startDate: string): Promise<PricePoint[]> {
+    try {
+      console.log(`📊 Fetching Fear & Greed history from CNN (since ${startDate})...`);
+
+      const response = await axios.get(`${FearGreedService.CNN_API_URL}/${startDate}`, {
+        timeout: FearGreedService.TIMEOUT_MS,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': 'application/json',
+          'Referer': 'https://edition.cnn.com/markets/fear-and-greed'
+        }
+      });
+
+      const historical = (response.data as { fear_and_greed_historical?: { data?: Array<{ x: number; y: number }> } })
+        ?.fear_and_greed_historical?.data;
+
+      if (!Array.isArray(historical)) {
+        throw new Error('Fear & Greed history missing from response');
+      }
+
+      const series = historical
+        .filter(point => typeof point.x === 'number' && typeof point.y === 'number')
+        .map(point => ({
+          date: new Date(point.x).toISOString().split('T')[0],
+          close: point.y
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      console.log(`✅ Fear & Greed history: ${series.length} points`);
+      return series;
+    } catch (error) {
+      console.error('❌ Failed to fetch Fear & Greed history:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
   /**
    * Get the API URL
    */
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HoldingsService } from './holdings';
+import { NewHoldingTransaction } from '../types';
+
+describe('HoldingsService', () => {
+  let service: HoldingsService;
+
+  beforeEach(() => {
+    service = new HoldingsService();
+  });
+
+  const buy = (symbol: string, date: string, units: number, price: number, fees = 0): NewHoldingTransaction =>
+    ({ symbol, date, side: 'BUY', units, price, fees });
+  const sell = (symbol: string, date: string, units: number, price: number, fees = 0): NewHoldingTransaction =>
+    ({ symbol, date, side: 'SELL', units, price, fees });
+
+  // ===========================================================================
+  // calculatePositions() Tests
+  // ===========================================================================
+  describe('calculatePositions', () => {
+    it('should accumulate units and cost basis across buys', () => {
+      const [qqq] = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        buy('QQQ', '2024-01-10', 1, 200, 1),
+      ]);
+
+      expect(qqq.units).toBe(2);
+      expect(qqq.costBasis).toBe(301);
+      expect(qqq.averageCost).toBe(150.5);
+      expect(qqq.totalFees).toBe(1);
+      expect(qqq.transactionCount).toBe(2);
+    });
+
+    it('should realize gain on sells at average cost', () => {
+      const [qqq] = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        buy('QQQ', '2024-01-10', 1, 200),
+        sell('QQQ', '2024-02-01', 1, 180, 2),
+      ]);
+
+      // Average cost 150 → proceeds 180 - 2 fees - 150 cost
+      expect(qqq.units).toBe(1);
+      expect(qqq.costBasis).toBe(150);
+      expect(qqq.averageCost).toBe(150);
+      expect(qqq.realizedGain).toBe(28);
+    });
+
+    it('should cap sells at the units held', () => {
+      const [qqq] = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        sell('QQQ', '2024-01-10', 5, 120),
+      ]);
+
+      expect(qqq.units).toBe(0);
+      expect(qqq.costBasis).toBe(0);
+      expect(qqq.realizedGain).toBe(20);
+    });
+
+    it('should process transactions in trade date order', () => {
+      const [qqq] = service.calculatePositions([
+        sell('QQQ', '2024-02-01', 1, 180),
+        buy('QQQ', '2024-01-03', 2, 100),
+      ]);
+
+      expect(qqq.units).toBe(1);
+      expect(qqq.realizedGain).toBe(80);
+      expect(qqq.firstTradeDate).toBe('2024-01-03');
+      expect(qqq.lastTradeDate).toBe('2024-02-01');
+    });
+
+    it('should keep symbols separate', () => {
+      const positions = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        buy('TSLA', '2024-01-03', 2, 250),
+      ]);
+
+      expect(positions).toHaveLength(2);
+      expect(service.getHeldUnits([buy('TSLA', '2024-01-03', 2, 250)], 'TSLA')).toBe(2);
+      expect(service.getHeldUnits([], 'TSLA')).toBe(0);
+    });
+  });
+
+  // ===========================================================================
+  // valuePositions() Tests
+  // ===========================================================================
+  describe('valuePositions', () => {
+    it('should compute market value, unrealized gain and weights', () => {
+      const positions = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        buy('TSLA', '2024-01-03', 1, 100),
+      ]);
+
+      const valued = service.valuePositions(positions, { QQQ: 300, TSLA: 100 });
+      const qqq = valued.find(p => p.symbol === 'QQQ')!;
+
+      expect(qqq.marketValue).toBe(300);
+      expect(qqq.unrealizedGain).toBe(200);
+      expect(qqq.weightPercent).toBe(75);
+      expect(qqq.targetPercent).toBe(25);
+    });
+
+    it('should exclude closed positions', () => {
+      const positions = service.calculatePositions([
+        buy('QQQ', '2024-01-03', 1, 100),
+        sell('QQQ', '2024-01-10', 1, 100),
+      ]);
+
+      expect(service.valuePositions(positions, { QQQ: 100 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  HoldingPosition,
+  NewHoldingTransaction,
+  ValuedHoldingPosition
+} from '../types';
+import { getBaseAllocationPercentage } from '../utils/multiplierThresholds';
+
+/**
+ * Units below this are treated as a closed position (float noise)
+ */
+const UNIT_EPSILON = 1e-9;
+
+/**
+ * Holdings Service
+ *
+ * Derives positions from the transactions ledger using the
+ * average cost method:
+ * - BUY adds units and cost (price × units + fees)
+ * - SELL removes units at the current average cost; the difference
+ *   to the sale proceeds (net of fees) is realized gain
+ *
+ * All methods are pure calculations and never throw.
+ */
+export class HoldingsService {
+  /**
+   * Derive per-symbol positions from a ledger
+   * Transactions are processed in trade date order regardless of input order
+   */
+  calculatePositions(transactions: NewHoldingTransaction[]): HoldingPosition[] {
+    const ordered = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const positions = new Map<string, HoldingPosition>();
+
+    for (const tx of ordered) {
+      const position = positions.get(tx.symbol) ?? {
+        symbol: tx.symbol,
+        units: 0,
+        costBasis: 0,
+        averageCost: 0,
+        realizedGain: 0,
+        totalFees: 0,
+        transactionCount: 0,
+        firstTradeDate: tx.date,
+        lastTradeDate: tx.date
+      };
+
+      if (tx.side === 'BUY') {
+        position.units += tx.units;
+        position.costBasis += tx.units * tx.price + tx.fees;
+      } else {
+        const soldUnits = Math.min(tx.units, position.units);
+        const averageCost = position.units > 0 ? position.costBasis / position.units : 0;
+        const costOfSold = averageCost * soldUnits;
+
+        position.realizedGain += soldUnits * tx.price - tx.fees - costOfSold;
+        position.costBasis -= costOfSold;
+        position.units -= soldUnits;
+      }
+
+      if (position.units < UNIT_EPSILON) {
+        position.units = 0;
+        position.costBasis = 0;
+      }
+
+      position.averageCost = position.units > 0 ? position.costBasis / position.units : 0;
+      position.totalFees += tx.fees;
+      position.transactionCount += 1;
+      position.lastTradeDate = tx.date;
+      positions.set(tx.symbol, position);
+    }
+
+    return [...positions.values()].map(p => ({
+      ...p,
+      units: this.roundUnits(p.units),
+      costBasis: this.round(p.costBasis),
+      averageCost: this.round(p.averageCost),
+      realizedGain: this.round(p.realizedGain),
+      totalFees: this.round(p.totalFees)
+    }));
+  }
+
+  /**
+   * Units currently held for a symbol
+   */
+  getHeldUnits(transactions: NewHoldingTransaction[], symbol: string): number {
+    return this.calculatePositions(transactions.filter(t => t.symbol === symbol))[0]?.units ?? 0;
+  }
+
+  /**
+   * Value open positions at market prices and compute real portfolio weights
+   * Positions without a price are valued at zero
+   */
+  valuePositions(positions: HoldingPosition[], prices: Record<string, number>): ValuedHoldingPosition[] {
+    const open = positions.filter(p => p.units > 0);
+    const values = open.map(p => p.units * (prices[p.symbol] ?? 0));
+    const totalValue = values.reduce((sum, v) => sum + v, 0);
+
+    return open.map((position, i) => ({
+      ...position,
+      price: prices[position.symbol] ?? 0,
+      marketValue: this.round(values[i]),
+      unrealizedGain: this.round(values[i] - position.costBasis),
+      weightPercent: totalValue > 0 ? this.round((values[i] / totalValue) * 100) : 0,
+      targetPercent: getBaseAllocationPercentage(position.symbol)
+    }));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundUnits(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JobRunTracker } from './jobRuns';
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import { MarketInputs } from '../types';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createStockInput = (symbol: string, price: number, historySource: 'yahoo-finance2' | 'stooq') => ({
+  symbol,
+  marketData: {
+    symbol, price, previousClose: price + 1, change: -1, changePercent: -1,
+    volume: 1000, timestamp: new Date('2025-03-05T06:59:00Z'), dataSource: 'yahoo-finance2' as const,
+  },
+  prices: Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 6) * 4 + i * 0.05),
+  historySource,
+});
+
+const INPUTS: MarketInputs = {
+  date: new Date('2025-03-05T07:00:00Z'),
+  vix: 27.4,
+  vixSource: 'yahoo-finance2',
+  fearGreed: { value: 0, rating: '', timestamp: new Date('2025-03-05T06:00:00Z'), success: false },
+  stocks: [createStockInput('QQQ', 95.5, 'yahoo-finance2'), createStockInput('TLT', 104.2, 'stooq')],
+};
+
+describe('JobRunTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-05T07:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start as a running record', () => {
+    const job = new JobRunTracker('cron', 'run-1');
+
+    expect(job.toRecord()).toEqual({
+      runId: 'run-1',
+      trigger: 'cron',
+      status: 'running',
+      startedAt: '2025-03-05T07:00:00.000Z',
+      finishedAt: null,
+      durationMs: null,
+      stages: [],
+      errors: [],
+      dataSources: null,
+      snapshotId: null,
+    });
+  });
+
+  it('should time each stage and succeed when none fail', async () => {
+    const job = new JobRunTracker('manual');
+
+    const count = await job.stage('fetch', async () => {
+      vi.advanceTimersByTime(1500);
+      return 7;
+    }, (n) => `${n}/7 stocks`);
+    job.skip('email', 'No recipients configured');
+    vi.advanceTimersByTime(500);
+    const run = job.finish();
+
+    expect(count).toBe(7);
+    expect(run.stages).toEqual([
+      { stage: 'fetch', status: 'ok', startedAt: '2025-03-05T07:00:00.000Z', durationMs: 1500, detail: '7/7 stocks', error: null },
+      { stage: 'email', status: 'skipped', startedAt: null, durationMs: null, detail: 'No recipients configured', error: null },
+    ]);
+    expect(run).toMatchObject({ status: 'success', finishedAt: '2025-03-05T07:00:02.000Z', durationMs: 2000, errors: [] });
+  });
+
+  it('should record a failed stage and rethrow its error', async () => {
+    const job = new JobRunTracker('cron');
+
+    await expect(job.stage('fetch', () => {
+      throw new Error('VIX unavailable');
+    })).rejects.toThrow('VIX unavailable');
+
+    const run = job.finish();
+    expect(run.stages[0]).toMatchObject({ stage: 'fetch', status: 'failed', error: 'VIX unavailable' });
+    expect(run).toMatchObject({ status: 'failed', errors: ['fetch: VIX unavailable'] });
+  });
+
+  it('should be partial when only saving or emailing failed', async () => {
+    const job = new JobRunTracker('cron');
+
+    await job.stage('fetch', () => 1);
+    await job.stage('scoring', () => 1);
+    await job.stage('email', () => Promise.reject(new Error('SMTP connection failed'))).catch(() => {});
+
+    expect(job.finish()).toMatchObject({ status: 'partial', errors: ['email: SMTP connection failed'] });
+  });
+
+  it('should record the data sources behind the report', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const job = new JobRunTracker('cron');
+    const report = new PortfolioAllocationEngine().buildReport(INPUTS, createMockConfig());
+
+    job.setDataSources(INPUTS, report);
+    job.setSnapshotId('12');
+
+    expect(job.toRecord()).toMatchObject({
+      snapshotId: '12',
+      dataSources: {
+        marketData: 'yahoo-finance2',
+        vix: 'yahoo-finance2',
+        fearGreedAvailable: false,
+        indicators: report.dataSourceStatus?.indicatorSource,
+        stocks: [
+          { symbol: 'QQQ', quote: 'yahoo-finance2', history: 'yahoo-finance2' },
+          { symbol: 'TLT', quote: 'yahoo-finance2', history: 'stooq' },
+        ],
+      },
+    });
+  });
+
+  it('should hand out copies of the record', () => {
+    const job = new JobRunTracker('api');
+    job.toRecord().errors.push('changed');
+
+    expect(job.toRecord().errors).toEqual([]);
+  });
+});
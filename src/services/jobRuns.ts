@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import {
+  AllocationReport,
+  JobRunRecord,
+  JobStage,
+  JobStageOutcome,
+  MarketInputs,
+  RunTrigger
+} from '../types';
+
+/**
+ * Stages that must succeed for a run to produce a recommendation
+ */
+const CRITICAL_STAGES: JobStage[] = ['fetch', 'scoring'];
+
+/**
+ * Job Run Tracker
+ *
+ * Records one run of the analysis job: when it started and finished,
+ * what triggered it, how each stage went (with timings and error
+ * messages) and which data sources it used. Callers save `toRecord()`
+ * through DatabaseService when the run starts (status 'running') and
+ * again after `finish()`, so a run that dies midway stays visible.
+ *
+ * ## Error Handling Strategy: RECORDS AND RETHROWS
+ *
+ * `stage()` records a failed stage with its error message and rethrows,
+ * leaving the caller's own error handling to decide whether the run
+ * goes on. Nothing else throws.
+ */
+export class JobRunTracker {
+  private record: JobRunRecord;
+  private startedAtMs: number;
+
+  constructor(trigger: RunTrigger, runId: string = randomUUID()) {
+    this.startedAtMs = Date.now();
+    this.record = {
+      runId,
+      trigger,
+      status: 'running',
+      startedAt: new Date(this.startedAtMs).toISOString(),
+      finishedAt: null,
+      durationMs: null,
+      stages: [],
+      errors: [],
+      dataSources: null,
+      snapshotId: null,
+    };
+  }
+
+  get runId(): string {
+    return this.record.runId;
+  }
+
+  /**
+   * Run and time one stage
+   *
+   * @param fn - Stage work; a throw marks the stage failed and is rethrown
+   * @param describe - Optional detail for a successful result, e.g. "7/7 stocks"
+   */
+  async stage<T>(stage: JobStage, fn: () => Promise<T> | T, describe?: (result: T) => string): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      this.addStage(stage, 'ok', startedAt, describe ? describe(result) : null, null);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.addStage(stage, 'failed', startedAt, null, message);
+      this.record.errors.push(`${stage}: ${message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a stage that did not run
+   */
+  skip(stage: JobStage, reason: string): void {
+    this.record.stages.push({ stage, status: 'skipped', startedAt: null, durationMs: null, detail: reason, error: null });
+  }
+
+  /**
+   * Record the data sources behind the run's report
+   */
+  setDataSources(inputs: MarketInputs, report: AllocationReport): void {
+    this.record.dataSources = {
+      marketData: report.dataSourceStatus?.marketDataSource ?? 'axios-fallback',
+      vix: inputs.vixSource,
+      fearGreedAvailable: inputs.fearGreed.success,
+      indicators: report.dataSourceStatus?.indicatorSource ?? 'custom-fallback',
+      stocks: report.stockAnalyses.map(a => ({
+        symbol: a.symbol,
+        quote: a.marketData.dataSource,
+        history: a.historySource,
+      })),
+    };
+  }
+
+  /**
+   * Link the snapshot the run saved
+   */
+  setSnapshotId(snapshotId: string): void {
+    this.record.snapshotId = snapshotId;
+  }
+
+  /**
+   * Stamp the end time and derive the overall status
+   * A failed fetch or scoring stage fails the run; any other failed
+   * stage makes it partial.
+   */
+  finish(): JobRunRecord {
+    const finishedAt = Date.now();
+    const failed = this.record.stages.filter(s => s.status === 'failed').map(s => s.stage);
+
+    this.record.finishedAt = new Date(finishedAt).toISOString();
+    this.record.durationMs = finishedAt - this.startedAtMs;
+    this.record.status = failed.some(stage => CRITICAL_STAGES.includes(stage))
+      ? 'failed'
+      : failed.length > 0 ? 'partial' : 'success';
+
+    return this.toRecord();
+  }
+
+  /**
+   * Copy of the record as it stands
+   */
+  toRecord(): JobRunRecord {
+    return structuredClone(this.record);
+  }
+
+  private addStage(
+    stage: JobStage,
+    status: JobStageOutcome['status'],
+    startedAt: number,
+    detail: string | null,
+    error: string | null
+  ): void {
+    this.record.stages.push({
+      stage,
+      status,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      detail,
+      error,
+    });
+  }
+}
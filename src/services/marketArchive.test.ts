@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { gzipSync } from 'zlib';
+import { MarketArchiveService, ARCHIVE_FORMAT_VERSION } from './marketArchive';
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import { Config, MarketInputs } from '../types';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createStockInput = (symbol: string, price: number) => ({
+  symbol,
+  marketData: {
+    symbol, price, previousClose: price + 1, change: -1, changePercent: -1,
+    volume: 1000, timestamp: new Date('2025-03-05T06:59:00Z'), dataSource: 'yahoo-finance2' as const,
+  },
+  prices: Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 6) * 4 + i * 0.05),
+  historySource: 'yahoo-finance2' as const,
+});
+
+// Helper to create a mock config on an aggressive $100-$375 budget
+const createConfig = (): Config => createMockConfig({ riskTolerance: 'aggressive', minBudget: 100, maxBudget: 375 });
+
+const INPUTS: MarketInputs = {
+  date: new Date('2025-03-05T07:00:00Z'),
+  vix: 27.4,
+  vixSource: 'yahoo-finance2',
+  fearGreed: { value: 31, rating: 'Fear', timestamp: new Date('2025-03-05T06:00:00Z'), success: true },
+  stocks: [createStockInput('QQQ', 95.5), createStockInput('TLT', 104.2)],
+};
+
+describe('MarketArchiveService', () => {
+  let service: MarketArchiveService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    service = new MarketArchiveService();
+  });
+
+  // ===========================================================================
+  // build() Tests
+  // ===========================================================================
+  describe('build', () => {
+    it('should capture the strategy, profile and budget used for the run', () => {
+      const archive = service.build(INPUTS, createConfig());
+
+      expect(archive.formatVersion).toBe(ARCHIVE_FORMAT_VERSION);
+      expect(archive.strategy).toBe(DEFAULT_STRATEGY);
+      expect(archive.riskTolerance).toBe('aggressive');
+      expect(archive.baseBudget).toBe(250);
+    });
+
+    it('should capture the data quality limits and confidence blending', () => {
+      const config = createConfig();
+
+      expect(service.build(INPUTS, config).dataQuality).toEqual(config.dataQuality);
+      expect(service.build(INPUTS, config).blendConfidence).toBe(true);
+      expect(service.build(INPUTS, config, { blendConfidence: false }).blendConfidence).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // encode() / decode() Tests
+  // ===========================================================================
+  describe('encode/decode', () => {
+    it('should round-trip inputs including dates and open-ended score rows', () => {
+      const archive = service.build(INPUTS, createConfig());
+      const decoded = service.decode(service.encode(archive));
+
+      expect(decoded).toEqual(archive);
+      expect(decoded.inputs.date).toBeInstanceOf(Date);
+      expect(decoded.inputs.stocks[0].marketData.timestamp).toBeInstanceOf(Date);
+      expect(decoded.strategy.scoreTables.vix.at(-1)!.max).toBe(Infinity);
+    });
+
+    it('should compress the payload', () => {
+      const archive = service.build(INPUTS, createConfig());
+      expect(service.encode(archive).byteLength).toBeLessThan(JSON.stringify(archive).length / 2);
+    });
+
+    it('should reproduce the original report exactly', () => {
+      const config = createConfig();
+      const engine = new PortfolioAllocationEngine();
+      const original = engine.buildReport(INPUTS, config);
+
+      const decoded = service.decode(service.encode(service.build(INPUTS, config)));
+      const recomputed = engine.buildReport(decoded.inputs, { ...config, strategy: decoded.strategy });
+
+      expect(recomputed).toEqual(original);
+    });
+
+    it('should reproduce the original report with the archived settings when the live ones change', () => {
+      const config = createConfig();
+      const engine = new PortfolioAllocationEngine();
+      const inputs: MarketInputs = {
+        ...INPUTS,
+        stocks: [{ ...INPUTS.stocks[0], historyCacheAgeHours: 30 }, INPUTS.stocks[1]],
+      };
+      const original = engine.buildReport(inputs, config, { blendConfidence: false });
+
+      const decoded = service.decode(service.encode(service.build(inputs, config, { blendConfidence: false })));
+      const liveConfig = { ...config, dataQuality: { maxSimulatedFraction: 0.5, maxCacheAgeHours: 12 } };
+      const recomputed = engine.buildReport(
+        decoded.inputs,
+        { ...liveConfig, strategy: decoded.strategy, dataQuality: decoded.dataQuality! },
+        { blendConfidence: decoded.blendConfidence }
+      );
+
+      expect(recomputed).toEqual(original);
+      expect(engine.buildReport(decoded.inputs, liveConfig).dataQualityGate.staleSymbols).toEqual(['QQQ']);
+    });
+
+    it('should still decode a format 1 archive without the settings', () => {
+      const archive = { ...service.build(INPUTS, createConfig()), formatVersion: 1 };
+      delete archive.dataQuality;
+      delete archive.blendConfidence;
+      const decoded = service.decode(service.encode(archive));
+
+      expect(decoded.formatVersion).toBe(1);
+      expect(decoded.dataQuality).toBeUndefined();
+      expect(decoded.blendConfidence).toBeUndefined();
+      expect(decoded.inputs).toEqual(INPUTS);
+    });
+
+    it('should reject an unknown format version', () => {
+      const data = gzipSync(Buffer.from(JSON.stringify({ formatVersion: 99 })));
+      expect(() => service.decode(data)).toThrow('Unsupported market input archive format: 99');
+    });
+
+    it('should reject a corrupt payload', () => {
+      expect(() => service.decode(Buffer.from('not gzip'))).toThrow();
+    });
+  });
+});
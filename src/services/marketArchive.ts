@@ -0,0 +1,88 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import { Config, MarketInputArchive, MarketInputs, ReportBuildOptions, StockMarketInput } from '../types';
+import { parseStrategyDefinition, serializeStrategy } from '../utils/strategy';
+
+/**
+ * Bump when the archived payload shape changes
+ * 2: data quality limits and confidence blending (format 1 still decodes)
+ */
+export const ARCHIVE_FORMAT_VERSION = 2;
+
+const SUPPORTED_FORMAT_VERSIONS = [1, ARCHIVE_FORMAT_VERSION];
+
+/**
+ * Market Input Archive Service
+ *
+ * Packs the raw inputs of a run (quotes, price series, VIX, Fear & Greed)
+ * together with the strategy definition, risk tolerance, base budget,
+ * data quality limits and confidence blending into gzipped JSON, so a
+ * stored snapshot can be recomputed exactly with
+ * `PortfolioAllocationEngine.buildReport` - or re-scored with a different
+ * strategy definition.
+ *
+ * ## Error Handling Strategy: THROWS ON CORRUPT ARCHIVE
+ *
+ * `decode()` throws if the payload cannot be decompressed, parsed or has an
+ * unknown format version. DatabaseService catches this and returns null.
+ */
+export class MarketArchiveService {
+  /**
+   * Archive for a run scored with `config` and `options`
+   */
+  build(inputs: MarketInputs, config: Config, options: ReportBuildOptions = {}): MarketInputArchive {
+    return {
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      inputs,
+      strategy: config.strategy,
+      riskTolerance: config.riskTolerance,
+      baseBudget: config.weeklyInvestmentAmount,
+      dataQuality: config.dataQuality,
+      blendConfidence: options.blendConfidence ?? true
+    };
+  }
+
+  /**
+   * Gzipped JSON (Dates as ISO strings, open-ended score rows as null)
+   */
+  encode(archive: MarketInputArchive): Buffer {
+    const payload = { ...archive, strategy: serializeStrategy(archive.strategy) };
+    return gzipSync(Buffer.from(JSON.stringify(payload), 'utf-8'));
+  }
+
+  /**
+   * Restore an archive written by `encode()`
+   *
+   * @throws Error if the payload is corrupt or from an unknown format version
+   */
+  decode(data: Buffer): MarketInputArchive {
+    const payload = JSON.parse(gunzipSync(data).toString('utf-8'));
+
+    if (!SUPPORTED_FORMAT_VERSIONS.includes(payload?.formatVersion)) {
+      throw new Error(`Unsupported market input archive format: ${payload?.formatVersion}`);
+    }
+
+    const inputs = payload.inputs;
+
+    return {
+      formatVersion: payload.formatVersion,
+      riskTolerance: payload.riskTolerance,
+      baseBudget: payload.baseBudget,
+      ...(payload.dataQuality ? { dataQuality: payload.dataQuality } : {}),
+      ...(payload.blendConfidence !== undefined ? { blendConfidence: payload.blendConfidence } : {}),
+      strategy: parseStrategyDefinition(payload.strategy, 'market input archive'),
+      inputs: {
+        ...inputs,
+        date: new Date(inputs.date),
+        fearGreed: { ...inputs.fearGreed, timestamp: new Date(inputs.fearGreed.timestamp) },
+        stocks: inputs.stocks.map((stock: StockMarketInput) => ({
+          ...stock,
+          marketData: {
+            ...stock.marketData,
+            timestamp: new Date(stock.marketData.timestamp),
+            marketTime: stock.marketData.marketTime ? new Date(stock.marketData.marketTime) : undefined
+          }
+        }))
+      }
+    };
+  }
+}
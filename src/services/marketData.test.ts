@@ -0,0 +1,463 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MarketDataService, createMarketDataProviders } from './marketData';
+import { BarCacheService } from './barCache';
+import { SymbolCacheService } from './symbolCache';
+import { RequestScheduler } from './requestScheduler';
+import { CsvDirectoryProvider } from './providers/csv';
+import { StooqProvider } from './providers/stooq';
+import { YahooFinanceProvider, YahooHttpProvider } from './providers/yahoo';
+import { CachedBarSeries, MarketDataProvider, PriceBar, ProviderDataSource, SymbolMetadata } from '../types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily bars ending today
+const createSeries = (days: number, close = 100): PriceBar[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(Date.now() - (days - 1 - i) * DAY_MS).toISOString().split('T')[0],
+    open: null, high: null, low: null,
+    close: close + i,
+    volume: 0,
+  }));
+
+const createProvider = (
+  source: ProviderDataSource,
+  overrides: Partial<Omit<MarketDataProvider, 'source'>> = {}
+): MarketDataProvider => ({
+  source,
+  fetchQuote: vi.fn(async (symbol: string) => ({
+    symbol, price: 101, previousClose: 100, change: 1, changePercent: 1,
+    volume: 1000, timestamp: new Date(), dataSource: source,
+  })),
+  fetchDailyHistory: vi.fn(async () => createSeries(30)),
+  fetchVIX: vi.fn(async () => 21.5),
+  ...overrides,
+});
+
+const failing = () => vi.fn(async () => {
+  throw new Error('offline');
+});
+
+const quoteFor = (symbol: string, source: ProviderDataSource) => ({
+  symbol, price: 101, previousClose: 100, change: 1, changePercent: 1,
+  volume: 1000, timestamp: new Date(), dataSource: source,
+});
+
+// Scheduler that retries without waiting
+const createScheduler = () => new RequestScheduler({}, async () => {}, () => 0);
+
+describe('MarketDataService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  // ===========================================================================
+  // Provider chain Tests
+  // ===========================================================================
+  describe('provider chain', () => {
+    it('should use the first provider that succeeds', async () => {
+      const first = createProvider('csv');
+      const second = createProvider('stooq');
+      const service = new MarketDataService([first, second]);
+
+      const quote = await service.fetchStockData('QQQ');
+
+      expect(quote.dataSource).toBe('csv');
+      expect(second.fetchQuote).not.toHaveBeenCalled();
+      expect(service.getLastDataSource()).toBe('csv');
+    });
+
+    it('should fall through failing providers in order', async () => {
+      const first = createProvider('yahoo-finance2', { fetchQuote: failing() });
+      const second = createProvider('axios-fallback', { fetchQuote: failing() });
+      const third = createProvider('csv');
+      const service = new MarketDataService([first, second, third]);
+
+      const quote = await service.fetchStockData('QQQ');
+
+      expect(quote.dataSource).toBe('csv');
+      expect(first.fetchQuote).toHaveBeenCalledWith('QQQ');
+      expect(second.fetchQuote).toHaveBeenCalledWith('QQQ');
+    });
+
+    it('should return simulated quotes when every provider fails', async () => {
+      const service = new MarketDataService([createProvider('csv', { fetchQuote: failing() })]);
+
+      const quote = await service.fetchStockData('QQQ');
+
+      expect(quote.dataSource).toBe('simulated');
+      expect(quote.price).toBeGreaterThan(0);
+      expect(service.getLastDataSource()).toBe('simulated');
+    });
+  });
+
+  // ===========================================================================
+  // fetchHistoricalData() Tests
+  // ===========================================================================
+  describe('fetchHistoricalData', () => {
+    it('should return closes with the provider source', async () => {
+      const provider = createProvider('stooq');
+      const service = new MarketDataService([provider]);
+
+      const result = await service.fetchHistoricalData('QQQ', 150);
+
+      expect(result.source).toBe('stooq');
+      expect(result.prices).toHaveLength(30);
+      expect(result.prices[0]).toBe(100);
+      expect(result.bars.map(bar => bar.close)).toEqual(result.prices);
+
+      const [, startDate, endDate] = vi.mocked(provider.fetchDailyHistory).mock.calls[0];
+      expect(startDate < endDate).toBe(true);
+    });
+
+    it('should skip a provider with too little history', async () => {
+      const short = createProvider('csv', { fetchDailyHistory: vi.fn(async () => createSeries(5)) });
+      const service = new MarketDataService([short, createProvider('stooq')]);
+
+      const result = await service.fetchHistoricalData('QQQ');
+
+      expect(result.source).toBe('stooq');
+    });
+
+    it('should fall back to simulated history', async () => {
+      const service = new MarketDataService([createProvider('csv', { fetchDailyHistory: failing() })]);
+
+      const result = await service.fetchHistoricalData('QQQ', 40);
+
+      expect(result.source).toBe('simulated');
+      expect(result.prices).toHaveLength(40);
+      expect(result.bars).toEqual([]);
+    });
+  });
+
+  // ===========================================================================
+  // Bar cache Tests
+  // ===========================================================================
+  describe('bar cache', () => {
+    const createCached = (overrides: Partial<CachedBarSeries> = {}): CachedBarSeries => ({
+      symbol: 'QQQ',
+      source: 'yahoo-finance2',
+      from: '2000-01-01',
+      updatedAt: new Date(Date.now() - 30 * 60 * 60 * 1000).toISOString(),
+      bars: createSeries(30, 200),
+      ...overrides,
+    });
+
+    const createCache = (cached: CachedBarSeries | null) => {
+      const cache = new BarCacheService('/unused');
+      vi.spyOn(cache, 'read').mockResolvedValue(cached);
+      vi.spyOn(cache, 'write').mockResolvedValue(true);
+      return cache;
+    };
+
+    it('should fetch the full window and cache it on a miss', async () => {
+      const provider = createProvider('yahoo-finance2');
+      const cache = createCache(null);
+
+      const result = await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      expect(result).toMatchObject({ source: 'yahoo-finance2' });
+      expect(result.prices).toHaveLength(30);
+      expect(result.cacheAgeHours).toBeUndefined();
+      expect(vi.mocked(cache.write).mock.calls[0][0]).toMatchObject({ symbol: 'QQQ', source: 'yahoo-finance2' });
+    });
+
+    it('should serve a fresh cache without calling providers', async () => {
+      const provider = createProvider('yahoo-finance2');
+      const cache = createCache(createCached({ updatedAt: new Date().toISOString(), source: 'stooq' }));
+
+      const result = await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      expect(result).toMatchObject({ source: 'stooq' });
+      expect(result.prices[0]).toBe(200);
+      expect(provider.fetchDailyHistory).not.toHaveBeenCalled();
+    });
+
+    it('should fetch only the tail since the last cached bar', async () => {
+      const cached = createCached({ bars: createSeries(30, 200).slice(0, 28) });
+      const lastCached = cached.bars[27].date;
+      const provider = createProvider('yahoo-finance2', {
+        fetchDailyHistory: vi.fn(async () => createSeries(3, 300)),
+      });
+      const cache = createCache(cached);
+
+      const result = await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      expect(vi.mocked(provider.fetchDailyHistory).mock.calls[0][1]).toBe(lastCached);
+      expect(result.prices).toHaveLength(30);
+      expect(result.prices.slice(-3)).toEqual([300, 301, 302]);
+      expect(vi.mocked(cache.write).mock.calls[0][0].bars).toHaveLength(30);
+    });
+
+    it('should refetch the whole window when the cache starts too late', async () => {
+      const provider = createProvider('yahoo-finance2');
+      const cache = createCache(createCached({ from: new Date().toISOString().split('T')[0] }));
+
+      await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      const [, startDate] = vi.mocked(provider.fetchDailyHistory).mock.calls[0];
+      expect(startDate < new Date().toISOString().split('T')[0]).toBe(true);
+    });
+
+    it('should use stale cached bars with their age when every provider fails', async () => {
+      const provider = createProvider('yahoo-finance2', { fetchDailyHistory: failing() });
+      const cache = createCache(createCached());
+
+      const result = await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      expect(result.source).toBe('yahoo-finance2');
+      expect(result.cacheAgeHours).toBe(30);
+      expect(result.prices).toHaveLength(30);
+    });
+
+    it('should still simulate when the cache is too short', async () => {
+      const provider = createProvider('yahoo-finance2', { fetchDailyHistory: failing() });
+      const cache = createCache(createCached({ bars: createSeries(3) }));
+
+      const result = await new MarketDataService([provider], cache).fetchHistoricalData('QQQ', 150);
+
+      expect(result.source).toBe('simulated');
+    });
+  });
+
+  // ===========================================================================
+  // fetchPriceSeries() Tests
+  // ===========================================================================
+  describe('fetchPriceSeries', () => {
+    it('should pass the date range through', async () => {
+      const provider = createProvider('csv');
+      const service = new MarketDataService([provider]);
+
+      const series = await service.fetchPriceSeries('^VIX', '2025-01-01', '2025-01-30');
+
+      expect(series).toHaveLength(30);
+      expect(provider.fetchDailyHistory).toHaveBeenCalledWith('^VIX', '2025-01-01', '2025-01-30');
+    });
+
+    it('should back-adjust a split in closes without adjClose', async () => {
+      // csv file with a 3:1 split on day 15: closes drop to a third, share volume triples
+      const bars = createSeries(30).map((bar, i) => (i < 15
+        ? { ...bar, close: 300, volume: 1000 }
+        : { ...bar, close: 100, volume: 3000 }));
+      const service = new MarketDataService([createProvider('csv', { fetchDailyHistory: vi.fn(async () => bars) })]);
+
+      const series = await service.fetchPriceSeries('TSLA', '2025-01-01', '2025-01-30');
+
+      expect(series.every(point => point.close === 100)).toBe(true);
+    });
+
+    it('should use provider adjusted closes', async () => {
+      const bars = createSeries(30).map(bar => ({ ...bar, adjClose: bar.close / 2 }));
+      const service = new MarketDataService([createProvider('yahoo-finance2', { fetchDailyHistory: vi.fn(async () => bars) })]);
+
+      const series = await service.fetchPriceSeries('QQQ', '2025-01-01', '2025-01-30');
+
+      expect(series[0]).toEqual({ date: bars[0].date, close: 50 });
+    });
+
+    it('should skip empty series and return [] when nothing has data', async () => {
+      const empty = createProvider('csv', { fetchDailyHistory: vi.fn(async () => []) });
+
+      expect(await new MarketDataService([empty]).fetchPriceSeries('QQQ', '2025-01-01', '2025-01-30')).toEqual([]);
+      expect(await new MarketDataService([empty, createProvider('stooq')]).fetchPriceSeries('QQQ', '2025-01-01', '2025-01-30'))
+        .toHaveLength(30);
+    });
+  });
+
+  // ===========================================================================
+  // fetchVIX() Tests
+  // ===========================================================================
+  describe('fetchVIX', () => {
+    it('should return VIX with the provider source', async () => {
+      const service = new MarketDataService([createProvider('yahoo-finance2', { fetchVIX: failing() }), createProvider('csv')]);
+
+      expect(await service.fetchVIX()).toEqual({ vix: 21.5, source: 'csv' });
+    });
+
+    it('should default to 18.5 when every provider fails', async () => {
+      const service = new MarketDataService([createProvider('csv', { fetchVIX: failing() })]);
+
+      expect(await service.fetchVIX()).toEqual({ vix: 18.5, source: 'axios-fallback' });
+    });
+  });
+
+  // ===========================================================================
+  // Batching and retry Tests
+  // ===========================================================================
+  describe('request scheduling', () => {
+    it('should batch quotes requested in the same tick', async () => {
+      const first = createProvider('yahoo-finance2', {
+        fetchQuotes: vi.fn(async (symbols: string[]) => symbols.map(symbol => quoteFor(symbol, 'yahoo-finance2'))),
+      });
+      const service = new MarketDataService([first]);
+
+      const quotes = await Promise.all(['QQQ', 'VOO', 'QQQ'].map(symbol => service.fetchStockData(symbol)));
+
+      expect(first.fetchQuotes).toHaveBeenCalledTimes(1);
+      expect(first.fetchQuotes).toHaveBeenCalledWith(['QQQ', 'VOO']);
+      expect(first.fetchQuote).not.toHaveBeenCalled();
+      expect(quotes.map(q => q.symbol)).toEqual(['QQQ', 'VOO', 'QQQ']);
+    });
+
+    it('should send symbols left out of the batch down the rest of the chain', async () => {
+      const first = createProvider('yahoo-finance2', {
+        fetchQuotes: vi.fn(async () => [quoteFor('QQQ', 'yahoo-finance2')]),
+      });
+      const second = createProvider('csv');
+      const service = new MarketDataService([first, second]);
+
+      const [qqq, voo] = await Promise.all([service.fetchStockData('QQQ'), service.fetchStockData('VOO')]);
+
+      expect(qqq.dataSource).toBe('yahoo-finance2');
+      expect(voo.dataSource).toBe('csv');
+      expect(first.fetchQuote).not.toHaveBeenCalled();
+      expect(second.fetchQuote).toHaveBeenCalledWith('VOO');
+    });
+
+    it('should retry a rate-limited provider instead of falling back', async () => {
+      const rateLimited = Object.assign(new Error('Too Many Requests'), { response: { status: 429 } });
+      const fetchDailyHistory = vi.fn()
+        .mockRejectedValueOnce(rateLimited)
+        .mockResolvedValueOnce(createSeries(30));
+      const first = createProvider('yahoo-finance2', { fetchDailyHistory });
+      const second = createProvider('csv');
+      const service = new MarketDataService([first, second], null, createScheduler());
+
+      const result = await service.fetchHistoricalData('QQQ', 30);
+
+      expect(result.source).toBe('yahoo-finance2');
+      expect(second.fetchDailyHistory).not.toHaveBeenCalled();
+      expect(service.getRequestStats()).toEqual([
+        expect.objectContaining({ provider: 'yahoo-finance2', requests: 1, retries: 1, failures: 0 }),
+      ]);
+    });
+  });
+
+  // ===========================================================================
+  // Quote policy Tests
+  // ===========================================================================
+  describe('quote policy', () => {
+    // Friday 1:30 PM ET, market open
+    const intraday = (symbol: string) => ({
+      ...quoteFor(symbol, 'csv'),
+      marketTime: new Date('2026-10-16T17:30:00Z'),
+      marketSession: 'regular' as const,
+      priceBasis: 'intraday' as const,
+    });
+
+    it('should keep live prices under the latest policy', async () => {
+      const service = new MarketDataService([createProvider('csv', { fetchQuote: vi.fn(async (symbol: string) => intraday(symbol)) })]);
+
+      const quote = await service.fetchStockData('QQQ');
+
+      expect(quote).toMatchObject({ price: 101, priceBasis: 'intraday', marketSession: 'regular' });
+    });
+
+    it('should score the previous official close under last-close', async () => {
+      const provider = createProvider('csv', { fetchQuote: vi.fn(async (symbol: string) => intraday(symbol)) });
+      const service = new MarketDataService([provider], null, undefined, 'last-close');
+
+      const quote = await service.fetchStockData('QQQ');
+
+      expect(quote).toMatchObject({ price: 100, change: 0, changePercent: 0, priceBasis: 'close', marketSession: 'regular' });
+      // Thursday 4:00 PM EDT
+      expect(quote.marketTime).toEqual(new Date('2026-10-15T20:00:00Z'));
+    });
+
+    it('should leave official closes alone under last-close', async () => {
+      const close = { ...quoteFor('QQQ', 'csv'), marketTime: new Date('2026-10-16T20:00:00Z'), priceBasis: 'close' as const };
+      const service = new MarketDataService([createProvider('csv', { fetchQuote: vi.fn(async () => close) })], null, undefined, 'last-close');
+
+      expect(await service.fetchStockData('QQQ')).toEqual(close);
+    });
+  });
+
+  // ===========================================================================
+  // lookupSymbols() Tests
+  // ===========================================================================
+  describe('lookupSymbols', () => {
+    const metadataFor = (symbol: string, source: ProviderDataSource): SymbolMetadata => ({
+      symbol, name: `${symbol} Inc`, exchange: 'NMS', currency: 'USD', quoteType: 'EQUITY', source,
+    });
+
+    const knowing = (source: ProviderDataSource, known: string[]) =>
+      vi.fn(async (symbol: string) => (known.includes(symbol) ? metadataFor(symbol, source) : null));
+
+    it('should return metadata from the first provider that knows the symbol', async () => {
+      const first = createProvider('csv', { lookupSymbol: knowing('csv', []) });
+      const second = createProvider('yahoo-finance2', { lookupSymbol: knowing('yahoo-finance2', ['BRK.B']) });
+      const service = new MarketDataService([first, second]);
+
+      const [lookup] = await service.lookupSymbols(['BRK.B']);
+
+      expect(lookup).toMatchObject({ symbol: 'BRK.B', status: 'recognized', metadata: { source: 'yahoo-finance2' } });
+    });
+
+    it('should mark symbols unknown to every provider as unrecognized', async () => {
+      const provider = createProvider('yahoo-finance2', { lookupSymbol: knowing('yahoo-finance2', ['QQQ']) });
+
+      const lookups = await new MarketDataService([provider]).lookupSymbols(['QQQ', 'QQQQ']);
+
+      expect(lookups.map(l => l.status)).toEqual(['recognized', 'unrecognized']);
+      expect(lookups[1].metadata).toBeNull();
+    });
+
+    it('should leave a symbol unverified when a provider could not answer', async () => {
+      const first = createProvider('yahoo-finance2', { lookupSymbol: failing() });
+      const second = createProvider('csv', { lookupSymbol: knowing('csv', []) });
+      const service = new MarketDataService([first, second], null, createScheduler());
+
+      const [lookup] = await service.lookupSymbols(['FNZ.NZ']);
+
+      expect(lookup.status).toBe('unverified');
+    });
+
+    it('should leave symbols unverified when no provider supports lookups', async () => {
+      const [lookup] = await new MarketDataService([createProvider('csv')]).lookupSymbols(['QQQ']);
+
+      expect(lookup.status).toBe('unverified');
+    });
+
+    it('should serve cached metadata and cache new lookups', async () => {
+      const cache = new SymbolCacheService('/unused');
+      vi.spyOn(cache, 'read').mockImplementation(async symbol => (symbol === 'QQQ' ? metadataFor('QQQ', 'stooq') : null));
+      vi.spyOn(cache, 'write').mockResolvedValue(true);
+      const lookupSymbol = knowing('yahoo-finance2', ['QQQ', 'TLT']);
+      const service = new MarketDataService([createProvider('yahoo-finance2', { lookupSymbol })], null, undefined, 'latest', cache);
+
+      const lookups = await service.lookupSymbols(['QQQ', 'TLT']);
+
+      expect(lookups.map(l => l.metadata?.source)).toEqual(['stooq', 'yahoo-finance2']);
+      expect(lookupSymbol).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(cache.write).mock.calls[0][0]).toMatchObject({ symbol: 'TLT' });
+    });
+  });
+
+  // ===========================================================================
+  // createMarketDataProviders() Tests
+  // ===========================================================================
+  describe('createMarketDataProviders', () => {
+    it('should build the configured chain in order', () => {
+      const providers = createMarketDataProviders({
+        providers: ['csv', 'yahoo', 'stooq', 'yahoo-http'],
+        csvDir: '/data/csv',
+        stooqDir: '/data/stooq',
+        cacheDir: '',
+        concurrency: 4,
+        maxRetries: 3,
+        quotePolicy: 'latest',
+      });
+
+      expect(providers[0]).toBeInstanceOf(CsvDirectoryProvider);
+      expect(providers[1]).toBeInstanceOf(YahooFinanceProvider);
+      expect(providers[2]).toBeInstanceOf(StooqProvider);
+      expect(providers[3]).toBeInstanceOf(YahooHttpProvider);
+      expect(providers.map(p => p.source)).toEqual(['csv', 'yahoo-finance2', 'stooq', 'axios-fallback']);
+    });
+  });
+});
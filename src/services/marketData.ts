@@ -1,77 +1,86 @@
-import axios, { AxiosRequestConfig } from 'axios';
-import YahooFinance from 'yahoo-finance2';
-import { MarketDataWithSource } from '../types';
-import { HISTORY_DAYS } from '../utils/multiplierThresholds';
-
-// Initialize yahoo-finance2 client
-const yahooFinance = new YahooFinance({
-  suppressNotices: ['yahooSurvey']  // Suppress non-critical survey notices
-});
+import * as path from 'path';
+import {
+  Config,
+  MarketDataConfig,
+  MarketDataProvider,
+  MarketDataSource,
+  MarketDataWithSource,
+  PriceBar,
+  PricePoint,
+  ProviderDataSource,
+  ProviderRequestStats,
+  QuotePolicy,
+  SymbolLookup
+} from '../types';
+import { lastOfficialClose, subtractTradingDays } from '../utils/tradingCalendar';
+import { HISTORY_TRADING_DAYS } from '../utils/multiplierThresholds';
+import { adjustPrices } from '../utils/priceAdjustment';
+import { BarCacheService } from './barCache';
+import { RequestScheduler } from './requestScheduler';
+import { SymbolCacheService } from './symbolCache';
+import { CsvDirectoryProvider } from './providers/csv';
+import { StooqProvider } from './providers/stooq';
+import { YahooFinanceProvider, YahooHttpProvider } from './providers/yahoo';
 
 /**
- * Type definition for yahoo-finance2 quote result
+ * Fewer closes than this is treated as a failed history fetch
  */
-interface YahooQuoteResult {
-  regularMarketPrice?: number;
-  regularMarketPreviousClose?: number;
-  regularMarketChangePercent?: number;
-  regularMarketVolume?: number;
-  symbol?: string;
-  [key: string]: unknown;
-}
+const MIN_HISTORY_POINTS = 10;
 
 /**
- * Type definition for yahoo-finance2 chart result
+ * Build the provider chain selected by MARKET_DATA_PROVIDERS
  */
-interface YahooChartQuote {
-  date: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  adjclose?: number;
-}
-
-interface YahooChartResult {
-  meta: {
-    regularMarketPrice: number;
-    previousClose?: number;
-    chartPreviousClose?: number;
-  };
-  quotes: YahooChartQuote[];
-}
-
-interface YahooChartResponse {
-  chart: {
-    result: Array<{
-      meta: {
-        regularMarketPrice: number;
-        previousClose?: number;
-        chartPreviousClose?: number;
-      };
-      indicators: {
-        quote: Array<{
-          close: (number | null)[];
-          volume: (number | null)[];
-        }>;
-      };
-    }>;
-  };
+export function createMarketDataProviders(config: MarketDataConfig): MarketDataProvider[] {
+  return config.providers.map(name => {
+    switch (name) {
+      case 'yahoo':
+        return new YahooFinanceProvider();
+      case 'yahoo-http':
+        return new YahooHttpProvider();
+      case 'csv':
+        return new CsvDirectoryProvider(config.csvDir);
+      case 'stooq':
+        return new StooqProvider(config.stooqDir);
+    }
+  });
 }
 
 /**
  * Market Data Service
  *
- * Uses yahoo-finance2 library as primary data source with
- * direct axios API calls as fallback for resilience.
+ * Fetches quotes, price history and VIX through an ordered chain of
+ * MarketDataProviders (default: yahoo-finance2, then direct axios calls).
+ * The chain comes from `Config.marketData`; pass providers to the
+ * constructor to run offline or in tests.
+ *
+ * Every provider call goes through a RequestScheduler, which caps requests
+ * in flight per provider and retries 429/5xx/network errors with jittered
+ * backoff before the chain moves on. Quotes requested in the same tick
+ * (e.g. `Promise.all` over symbols) are sent as one batch when the first
+ * provider supports `fetchQuotes`. `getRequestStats()` reports retries and
+ * latencies per provider.
+ *
+ * Quotes carry the provider's market time and session. With the
+ * 'last-close' quote policy, a live intraday price is replaced by the
+ * previous official close so weekly runs always score closing prices.
+ *
+ * `lookupSymbols` asks each provider whether it knows a symbol and returns
+ * its name, exchange, currency and quote type, cached for a week by a
+ * SymbolCacheService. A symbol is 'unrecognized' only when every provider
+ * answered and none knew it; if any provider errored (or none supports
+ * lookups) it is 'unverified' rather than rejected.
+ *
+ * With a BarCacheService, `fetchHistoricalData` keeps daily bars on disk:
+ * a fresh cache is served as-is, otherwise only the tail since the last
+ * cached bar is fetched, and if every provider fails the cached bars are
+ * used (with their age) before falling back to simulated data.
  *
  * ## Error Handling Strategy: NEVER THROWS
  *
  * This service uses a graceful degradation pattern:
- * 1. Try primary source (yahoo-finance2)
- * 2. On failure, try fallback source (direct axios API)
- * 3. On complete failure, return simulated/default data
+ * 1. Try each provider in order
+ * 2. On failure, log and move on to the next provider
+ * 3. On complete failure, return cached history or simulated/default data
  *
  * **Rationale:** Market data failures should never prevent the
  * investment analysis from completing. It's better to use slightly
@@ -80,22 +89,60 @@ interface YahooChartResponse {
  * All methods track their data source via `getLastDataSource()`.
  */
 export class MarketDataService {
-  private static readonly VIX_SYMBOL = '^VIX';
-  private static readonly BASE_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
-  private static readonly DEFAULT_HEADERS = {
-    'User-Agent': 'Mozilla/5.0'
-  };
+  private providers: MarketDataProvider[];
+  private barCache: BarCacheService | null;
+  private scheduler: RequestScheduler;
+  private quotePolicy: QuotePolicy;
+  private symbolCache: SymbolCacheService | null;
+
+  // Symbols waiting for the next batched quote request
+  private quoteBatch: { symbols: string[]; quotes: Promise<Map<string, MarketDataWithSource>> } | null = null;
 
   // Track which source was used
-  private lastDataSource: 'yahoo-finance2' | 'axios-fallback' | 'simulated' = 'yahoo-finance2';
+  private lastDataSource: MarketDataSource = 'yahoo-finance2';
+
+  constructor(
+    providers?: MarketDataProvider[],
+    barCache?: BarCacheService | null,
+    scheduler?: RequestScheduler,
+    quotePolicy: QuotePolicy = 'latest',
+    symbolCache?: SymbolCacheService | null
+  ) {
+    this.providers = providers ?? [new YahooFinanceProvider(), new YahooHttpProvider()];
+    this.barCache = barCache ?? null;
+    this.scheduler = scheduler ?? new RequestScheduler();
+    this.quotePolicy = quotePolicy;
+    this.symbolCache = symbolCache ?? null;
+  }
+
+  /**
+   * Service using the provider chain, bar/symbol caches and request limits from config
+   */
+  static fromConfig(config: Config): MarketDataService {
+    const { cacheDir, concurrency, maxRetries, quotePolicy } = config.marketData;
+    return new MarketDataService(
+      createMarketDataProviders(config.marketData),
+      cacheDir ? new BarCacheService(cacheDir) : null,
+      new RequestScheduler({ concurrency, maxRetries }),
+      quotePolicy,
+      cacheDir ? new SymbolCacheService(path.join(cacheDir, 'symbols')) : null
+    );
+  }
 
   /**
    * Get the last used data source
    */
-  getLastDataSource(): 'yahoo-finance2' | 'axios-fallback' | 'simulated' {
+  getLastDataSource(): MarketDataSource {
     return this.lastDataSource;
   }
 
+  /**
+   * Requests, retries and latencies per provider since this service was created
+   */
+  getRequestStats(): ProviderRequestStats[] {
+    return this.scheduler.getStats();
+  }
+
   /**
    * Fetches real-time market data for a given stock symbol.
    *
@@ -103,156 +150,155 @@ export class MarketDataService {
    * @returns Market data with source indicator - NEVER throws
    *
    * @remarks
-   * Fallback chain: yahoo-finance2 → axios API → simulated data
+   * Fallback chain: configured providers → simulated data.
+   * If the first provider batches quotes, the symbol joins the batch for
+   * this tick; when the batch fails or omits it, the rest of the chain is
+   * tried for this symbol alone. The quote policy is applied last.
    */
   async fetchStockData(symbol: string): Promise<MarketDataWithSource> {
-    // Try yahoo-finance2 first
-    try {
-      const quote = await yahooFinance.quote(symbol) as YahooQuoteResult;
-      
-      if (!quote || typeof quote.regularMarketPrice !== 'number') {
-        throw new Error('Invalid quote response from yahoo-finance2');
+    const [first, ...rest] = this.providers;
+
+    if (first?.fetchQuotes) {
+      const quote = await this.batchQuote(first, symbol);
+      if (quote) {
+        this.lastDataSource = first.source;
+        console.log(`✅ ${symbol}: Fetched via ${first.source} (batched)`);
+        return this.applyQuotePolicy(quote);
       }
+      if (rest.length > 0) {
+        console.log(`   Falling back to ${rest[0].source}...`);
+      }
+    }
 
-      const currentPrice = quote.regularMarketPrice;
-      const previousClose = quote.regularMarketPreviousClose || currentPrice;
-
-      this.lastDataSource = 'yahoo-finance2';
-      console.log(`✅ ${symbol}: Fetched via yahoo-finance2`);
-
-      return {
-        symbol,
-        price: currentPrice,
-        previousClose,
-        change: currentPrice - previousClose,
-        changePercent: quote.regularMarketChangePercent || ((currentPrice - previousClose) / previousClose) * 100,
-        volume: quote.regularMarketVolume || 0,
-        timestamp: new Date(),
-        dataSource: 'yahoo-finance2'
-      };
-    } catch (libraryError) {
-      console.warn(`⚠️ yahoo-finance2 failed for ${symbol}:`, libraryError instanceof Error ? libraryError.message : libraryError);
-      console.log(`   Falling back to axios API...`);
-      
-      // Fallback to direct axios call
-      return this.fetchStockDataAxios(symbol);
+    const result = await this.tryProviders(
+      symbol,
+      provider => provider.fetchQuote(symbol),
+      first?.fetchQuotes ? rest : this.providers
+    );
+
+    if (!result) {
+      return this.getSimulatedData(symbol);
     }
+
+    console.log(`✅ ${symbol}: Fetched via ${result.source}`);
+    return this.applyQuotePolicy(result.value);
   }
 
   /**
-   * Fallback: Direct axios API call to Yahoo Finance
+   * Under 'last-close', swap a live intraday price for the previous official close
+   * The close before that is not in the quote, so change is reported as 0
    */
-  private async fetchStockDataAxios(symbol: string): Promise<MarketDataWithSource> {
-    try {
-      const data = await this.fetchFromYahooAxios<YahooChartResponse>(symbol, {
-        interval: '1d',
-        range: '5d'
-      });
-
-      if (!this.validateChartResponse(data)) {
-        throw new Error('Invalid response structure from API');
-      }
-
-      const result = data.chart.result[0];
-      const quote = result.meta;
-      const currentPrice = quote.regularMarketPrice;
-      const previousClose = quote.previousClose || quote.chartPreviousClose || currentPrice;
-
-      this.lastDataSource = 'axios-fallback';
-      console.log(`✅ ${symbol}: Fetched via axios fallback`);
-
-      return {
-        symbol,
-        price: currentPrice,
-        previousClose,
-        change: currentPrice - previousClose,
-        changePercent: ((currentPrice - previousClose) / previousClose) * 100,
-        volume: result.indicators.quote[0].volume.slice(-1)[0] || 0,
-        timestamp: new Date(),
-        dataSource: 'axios-fallback'
-      };
-    } catch (error) {
-      console.error(`❌ Both sources failed for ${symbol}:`, error);
-      return this.getSimulatedData(symbol);
+  private applyQuotePolicy(quote: MarketDataWithSource): MarketDataWithSource {
+    if (this.quotePolicy !== 'last-close' || quote.priceBasis !== 'intraday') {
+      return quote;
     }
+
+    return {
+      ...quote,
+      price: quote.previousClose,
+      change: 0,
+      changePercent: 0,
+      marketTime: lastOfficialClose(quote.marketTime ?? quote.timestamp),
+      priceBasis: 'close'
+    };
   }
 
   /**
    * Fetches historical price data for technical analysis.
    *
    * @param symbol - Stock ticker symbol
-   * @param days - Number of days of history (default: 150 for MA50 slope)
-   * @returns Array of closing prices with source indicator - NEVER throws
+   * @param tradingDays - NYSE sessions of history (default: HISTORY_TRADING_DAYS for MA50 slope)
+   * @returns Closing prices and the OHLCV bars behind them, with source indicator - NEVER throws
    *
    * @remarks
-   * Fallback chain: yahoo-finance2 chart() → axios API → simulated data
+   * Fallback chain: bar cache (if fresh) → configured providers →
+   * bar cache (any age, `cacheAgeHours` set) → simulated data (closes only, no bars)
    */
-  async fetchHistoricalData(symbol: string, days: number = HISTORY_DAYS): Promise<{ prices: number[]; source: 'yahoo-finance2' | 'axios-fallback' | 'simulated' }> {
-    // Try yahoo-finance2 chart() method (replaces deprecated historical())
-    try {
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - days);
-
-      const result = await yahooFinance.chart(symbol, {
-        period1: startDate,
-        period2: endDate,
-        interval: '1d'
-      }) as YahooChartResult;
-
-      if (!result || !result.quotes || result.quotes.length === 0) {
-        throw new Error('No chart data returned from yahoo-finance2');
-      }
+  async fetchHistoricalData(
+    symbol: string,
+    tradingDays: number = HISTORY_TRADING_DAYS
+  ): Promise<{ prices: number[]; bars: PriceBar[]; source: MarketDataSource; cacheAgeHours?: number }> {
+    const endDate = toISODate(new Date());
+    const startDate = subtractTradingDays(endDate, tradingDays);
+
+    const cached = this.barCache ? await this.barCache.read(symbol) : null;
+    const cacheCovers = cached !== null && cached.from <= startDate && cached.bars.length > 0;
+    const barsSince = (bars: PriceBar[]) => bars.filter(bar => bar.date >= startDate);
+
+    if (this.barCache && cached && cacheCovers && this.barCache.isFresh(cached)) {
+      const bars = barsSince(cached.bars);
+      console.log(`✅ ${symbol}: Historical data from cache (${bars.length} days)`);
+      this.lastDataSource = cached.source;
+      return { prices: bars.map(bar => bar.close), bars, source: cached.source };
+    }
 
-      const prices = result.quotes
-        .map((quote: YahooChartQuote) => quote.close)
-        .filter((p): p is number => p !== null && p !== undefined);
+    // Refetch from the last cached bar (it may have been intraday), or the whole window
+    const fetchFrom = cacheCovers ? cached.bars[cached.bars.length - 1].date : startDate;
 
-      if (prices.length < 10) {
-        throw new Error(`Insufficient historical data: only ${prices.length} points`);
+    const result = await this.tryProviders(symbol, async provider => {
+      const bars = await provider.fetchDailyHistory(symbol, fetchFrom, endDate);
+      if (!cacheCovers && bars.length < MIN_HISTORY_POINTS) {
+        throw new Error(`Insufficient historical data: only ${bars.length} points`);
+      }
+      return bars;
+    });
+
+    if (result) {
+      let bars = result.value;
+      if (this.barCache) {
+        const series = this.barCache.merge(cached, symbol, result.value, result.source, fetchFrom);
+        await this.barCache.write(series);
+        bars = series.bars;
       }
 
-      this.lastDataSource = 'yahoo-finance2';
-      console.log(`✅ ${symbol}: Historical data via yahoo-finance2 chart() (${prices.length} days)`);
-
-      return { prices, source: 'yahoo-finance2' };
-    } catch (libraryError) {
-      console.warn(`⚠️ yahoo-finance2 chart() failed for ${symbol}:`, libraryError instanceof Error ? libraryError.message : libraryError);
-      console.log(`   Falling back to axios API...`);
+      bars = barsSince(bars);
+      console.log(`✅ ${symbol}: Historical data via ${result.source} (${bars.length} days${cacheCovers ? `, ${result.value.length} new` : ''})`);
+      return { prices: bars.map(bar => bar.close), bars, source: result.source };
+    }
 
-      // Fallback to direct axios call
-      return this.fetchHistoricalDataAxios(symbol, days);
+    const cachedBars = this.barCache && cached ? barsSince(cached.bars) : [];
+    if (this.barCache && cached && cachedBars.length >= MIN_HISTORY_POINTS) {
+      const cacheAgeHours = this.barCache.getAgeHours(cached);
+      console.warn(`⚠️ ${symbol}: Using cached historical data (${cacheAgeHours}h old)`);
+      this.lastDataSource = cached.source;
+      return { prices: cachedBars.map(bar => bar.close), bars: cachedBars, source: cached.source, cacheAgeHours };
     }
+
+    console.warn(`🚨 ${symbol}: Using SIMULATED historical data - DO NOT USE FOR REAL INVESTMENTS`);
+    this.lastDataSource = 'simulated';
+    return { prices: this.getSimulatedHistoricalData(tradingDays), bars: [], source: 'simulated' };
   }
 
   /**
-   * Fallback: Direct axios API call for historical data
+   * Fetches dated daily closes between two dates (used for backtesting).
+   *
+   * @param symbol - Ticker symbol (e.g., "QQQ", "^VIX")
+   * @param startDate - First date to include ("YYYY-MM-DD")
+   * @param endDate - Last date to include ("YYYY-MM-DD")
+   * @returns Dated closes, oldest first - empty array on failure, NEVER throws
+   *
+   * @remarks
+   * Fallback chain: configured providers → empty series.
+   * No simulated data: a backtest on invented prices is meaningless.
+   * Closes are adjusted for splits and dividends (see utils/priceAdjustment),
+   * so a split inside the range is not read as a crash.
    */
-  private async fetchHistoricalDataAxios(symbol: string, days: number): Promise<{ prices: number[]; source: 'yahoo-finance2' | 'axios-fallback' | 'simulated' }> {
-    try {
-      const data = await this.fetchFromYahooAxios<YahooChartResponse>(symbol, {
-        interval: '1d',
-        range: `${days}d`
-      });
-
-      if (!data?.chart?.result?.[0]?.indicators?.quote?.[0]?.close) {
-        throw new Error('Invalid response structure from API');
+  async fetchPriceSeries(symbol: string, startDate: string, endDate: string): Promise<PricePoint[]> {
+    const result = await this.tryProviders(symbol, async provider => {
+      const series = await provider.fetchDailyHistory(symbol, startDate, endDate);
+      if (series.length === 0) {
+        throw new Error('No price data in range');
       }
+      const { prices } = adjustPrices([], series);
+      return series.map((bar, i) => ({ date: bar.date, close: prices[i] }));
+    });
 
-      const result = data.chart.result[0];
-      const prices = result.indicators.quote[0].close
-        .filter((p): p is number => p !== null);
-
-      this.lastDataSource = 'axios-fallback';
-      console.log(`✅ ${symbol}: Historical data via axios fallback (${prices.length} days)`);
-
-      return { prices, source: 'axios-fallback' };
-    } catch (error) {
-      console.error(`❌ Both sources failed for ${symbol} historical:`, error);
-      console.warn(`🚨 ${symbol}: Using SIMULATED historical data - DO NOT USE FOR REAL INVESTMENTS`);
-      this.lastDataSource = 'simulated';
-      return { prices: this.getSimulatedHistoricalData(days), source: 'simulated' };
+    if (!result) {
+      return [];
     }
+
+    console.log(`✅ ${symbol}: Price series via ${result.source} (${result.value.length} days)`);
+    return result.value;
   }
 
   /**
@@ -261,74 +307,139 @@ export class MarketDataService {
    * @returns VIX value with source indicator - NEVER throws
    *
    * @remarks
-   * Fallback chain: yahoo-finance2 → axios API → default value (18.5)
-   * Default 18.5 represents moderate/neutral volatility.
+   * Fallback chain: configured providers → default value (18.5)
+   * Default 18.5 represents moderate/neutral volatility and is reported
+   * as 'axios-fallback' so the run is flagged as degraded.
    */
-  async fetchVIX(): Promise<{ vix: number; source: 'yahoo-finance2' | 'axios-fallback' }> {
-    // Try yahoo-finance2 first
-    try {
-      const quote = await yahooFinance.quote(MarketDataService.VIX_SYMBOL) as YahooQuoteResult;
-      
-      if (!quote || typeof quote.regularMarketPrice !== 'number') {
-        throw new Error('Invalid VIX quote from yahoo-finance2');
-      }
+  async fetchVIX(): Promise<{ vix: number; source: ProviderDataSource }> {
+    const result = await this.tryProviders('VIX', provider => provider.fetchVIX());
 
-      this.lastDataSource = 'yahoo-finance2';
-      console.log(`✅ VIX: ${quote.regularMarketPrice.toFixed(2)} via yahoo-finance2`);
+    if (!result) {
+      // Return moderate volatility as default
+      return { vix: 18.5, source: 'axios-fallback' };
+    }
 
-      return { vix: quote.regularMarketPrice, source: 'yahoo-finance2' };
-    } catch (libraryError) {
-      console.warn(`⚠️ yahoo-finance2 failed for VIX:`, libraryError instanceof Error ? libraryError.message : libraryError);
-      console.log(`   Falling back to axios API...`);
+    console.log(`✅ VIX: ${result.value.toFixed(2)} via ${result.source}`);
+    return { vix: result.value, source: result.source };
+  }
 
-      // Fallback to direct axios call
-      return this.fetchVIXAxios();
-    }
+  /**
+   * Check symbols against the providers and return their metadata
+   *
+   * @returns One lookup per symbol, in order - NEVER throws
+   */
+  async lookupSymbols(symbols: string[]): Promise<SymbolLookup[]> {
+    return Promise.all(symbols.map(symbol => this.lookupSymbol(symbol)));
   }
 
   /**
-   * Fallback: Direct axios API call for VIX
+   * Cached metadata, else the first provider that recognises the symbol
    */
-  private async fetchVIXAxios(): Promise<{ vix: number; source: 'yahoo-finance2' | 'axios-fallback' }> {
-    try {
-      const data = await this.fetchStockDataAxios(MarketDataService.VIX_SYMBOL);
-      this.lastDataSource = 'axios-fallback';
-      console.log(`✅ VIX: ${data.price.toFixed(2)} via axios fallback`);
-      return { vix: data.price, source: 'axios-fallback' };
-    } catch (error) {
-      console.error('❌ Both sources failed for VIX:', error);
-      // Return moderate volatility as default
-      return { vix: 18.5, source: 'axios-fallback' };
+  private async lookupSymbol(symbol: string): Promise<SymbolLookup> {
+    const cached = this.symbolCache ? await this.symbolCache.read(symbol) : null;
+    if (cached) {
+      return { symbol, status: 'recognized', metadata: cached };
+    }
+
+    // Unrecognized only if at least one provider answered and none failed
+    let answered = false;
+    let failed = false;
+    for (const provider of this.providers) {
+      if (!provider.lookupSymbol) continue;
+      const lookup = provider.lookupSymbol.bind(provider);
+
+      try {
+        const metadata = await this.scheduler.run(provider.source, () => lookup(symbol));
+        answered = true;
+        if (metadata) {
+          if (this.symbolCache) {
+            await this.symbolCache.write(metadata);
+          }
+          return { symbol, status: 'recognized', metadata };
+        }
+      } catch (error) {
+        failed = true;
+        console.warn(`⚠️ ${provider.source} symbol lookup failed for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
     }
+
+    return { symbol, status: answered && !failed ? 'unrecognized' : 'unverified', metadata: null };
   }
 
   /**
-   * Make a request to Yahoo Finance API via axios
-   * Kept as fallback method
+   * Add a symbol to this tick's batched quote request
+   *
+   * @returns The symbol's quote, or null if the batch failed or left it out
    */
-  private async fetchFromYahooAxios<T>(
-    symbol: string,
-    params: Record<string, string>
-  ): Promise<T> {
-    const config: AxiosRequestConfig = {
-      params,
-      headers: MarketDataService.DEFAULT_HEADERS,
-      timeout: 15000  // 15 second timeout
-    };
+  private async batchQuote(provider: MarketDataProvider, symbol: string): Promise<MarketDataWithSource | null> {
+    if (!this.quoteBatch) {
+      const symbols: string[] = [];
+      // Wait one macrotask so every fetchStockData call made in this tick joins
+      const quotes = new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+        this.quoteBatch = null;
+        return this.fetchQuoteBatch(provider, symbols);
+      });
+      this.quoteBatch = { symbols, quotes };
+    }
 
-    const response = await axios.get<T>(
-      `${MarketDataService.BASE_URL}/${symbol}`,
-      config
-    );
+    if (!this.quoteBatch.symbols.includes(symbol)) {
+      this.quoteBatch.symbols.push(symbol);
+    }
+    const quotes = await this.quoteBatch.quotes;
+    return quotes.get(symbol) ?? null;
+  }
+
+  /**
+   * One scheduled fetchQuotes call - failures are logged and return no quotes
+   */
+  private async fetchQuoteBatch(
+    provider: MarketDataProvider,
+    symbols: string[]
+  ): Promise<Map<string, MarketDataWithSource>> {
+    if (!provider.fetchQuotes) return new Map();
+    const fetchQuotes = provider.fetchQuotes.bind(provider);
 
-    return response.data;
+    try {
+      const quotes = await this.scheduler.run(provider.source, () => fetchQuotes(symbols));
+      const missing = symbols.filter(symbol => !quotes.some(q => q.symbol === symbol));
+      if (missing.length > 0) {
+        console.warn(`⚠️ ${provider.source} batch returned no quote for ${missing.join(', ')}`);
+      }
+      return new Map(quotes.map(quote => [quote.symbol, quote]));
+    } catch (error) {
+      console.warn(`⚠️ ${provider.source} batch quote failed for ${symbols.join(', ')}:`, error instanceof Error ? error.message : error);
+      return new Map();
+    }
   }
 
   /**
-   * Validate Yahoo Finance response structure
+   * Run a fetch against each provider in turn until one succeeds
+   * Each call goes through the request scheduler (concurrency cap, retries)
+   *
+   * @param providers - Chain to try (default: all configured providers)
+   * @returns The first successful value and its source, or null if all failed
    */
-  private validateChartResponse(data: YahooChartResponse): boolean {
-    return !!(data?.chart?.result?.[0]);
+  private async tryProviders<T>(
+    label: string,
+    fetch: (provider: MarketDataProvider) => Promise<T>,
+    providers: MarketDataProvider[] = this.providers
+  ): Promise<{ value: T; source: ProviderDataSource } | null> {
+    for (const [i, provider] of providers.entries()) {
+      try {
+        const value = await this.scheduler.run(provider.source, () => fetch(provider));
+        this.lastDataSource = provider.source;
+        return { value, source: provider.source };
+      } catch (error) {
+        console.warn(`⚠️ ${provider.source} failed for ${label}:`, error instanceof Error ? error.message : error);
+        const next = providers[i + 1];
+        if (next) {
+          console.log(`   Falling back to ${next.source}...`);
+        }
+      }
+    }
+
+    console.error(`❌ All market data sources failed for ${label}`);
+    return null;
   }
 
   /**
@@ -358,17 +469,17 @@ export class MarketDataService {
   }
 
   /**
-   * Generate simulated historical data
+   * Generate simulated historical data (one close per session)
    */
   private getSimulatedHistoricalData(days: number): number[] {
     const prices: number[] = [];
     let price = 100 + Math.random() * 400;
-    
+
     for (let i = 0; i < days; i++) {
       price = price * (0.97 + Math.random() * 0.06);
       prices.push(price);
     }
-    
+
     return prices;
   }
 
@@ -384,3 +495,10 @@ export class MarketDataService {
     return Math.abs(hash);
   }
 }
+
+/**
+ * UTC date as "YYYY-MM-DD"
+ */
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
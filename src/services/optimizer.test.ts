@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OptimizerService } from './optimizer';
+import { BacktestService } from './backtest';
+import { BacktestMarketData, PricePoint } from '../types';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+// Generate daily (weekday) closes from start date using a price function
+const generateSeries = (start: string, days: number, priceAt: (i: number) => number): PricePoint[] => {
+  const series: PricePoint[] = [];
+  const date = new Date(`${start}T00:00:00Z`);
+  let i = 0;
+  while (series.length < days) {
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      series.push({ date: date.toISOString().split('T')[0], close: priceAt(i) });
+      i++;
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return series;
+};
+
+// Oscillating prices so CSS (and therefore the multiplier) varies week to week
+const DATA: BacktestMarketData = {
+  prices: { QQQ: generateSeries('2023-01-02', 300, i => 100 + Math.sin(i / 8) * 15) },
+  vix: generateSeries('2023-01-02', 300, i => 20 + Math.sin(i / 8) * 8),
+};
+
+const OPTIONS = {
+  startDate: '2023-06-07',
+  endDate: '2023-12-27',
+  symbols: ['QQQ'],
+  weeklyInvestmentAmount: 250,
+};
+
+describe('OptimizerService', () => {
+  let service: OptimizerService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    service = new OptimizerService();
+  });
+
+  // ===========================================================================
+  // parseRange() Tests
+  // ===========================================================================
+  describe('parseRange', () => {
+    it('should expand min:max:step inclusively without float drift', () => {
+      expect(service.parseRange('0.1:0.3:0.05')).toEqual([0.1, 0.15, 0.2, 0.25, 0.3]);
+    });
+
+    it('should accept a single value', () => {
+      expect(service.parseRange('50')).toEqual([50]);
+    });
+
+    it('should reject malformed ranges', () => {
+      expect(() => service.parseRange('0.1:0.3')).toThrow('Invalid range');
+      expect(() => service.parseRange('abc')).toThrow('Invalid range');
+      expect(() => service.parseRange('0.3:0.1:0.05')).toThrow('max >= min');
+    });
+  });
+
+  // ===========================================================================
+  // buildCandidates() Tests
+  // ===========================================================================
+  describe('buildCandidates', () => {
+    it('should keep only weight sets that sum to 1', () => {
+      const candidates = service.buildCandidates({
+        weights: { vix: [0.1, 0.2, 0.3], rsi: [0.2, 0.3, 0.4] },
+        breakpoints: null,
+      }, createMockConfig());
+
+      // vix + rsi must equal 0.5 with the other weights at 0.15/0.20/0.15
+      expect(candidates.map(c => [c.weights.vix, c.weights.rsi])).toEqual([[0.1, 0.4], [0.2, 0.3], [0.3, 0.2]]);
+      expect(candidates[0].breakpoints).toEqual([20, 35, 50, 60, 75]);
+    });
+
+    it('should skip breakpoints that do not ascend', () => {
+      const candidates = service.buildCandidates({
+        weights: {},
+        breakpoints: [[20, 40], [35], [50], [60], [75]],
+      }, createMockConfig());
+
+      expect(candidates.map(c => c.breakpoints)).toEqual([[20, 35, 50, 60, 75]]);
+    });
+
+    it('should require one breakpoint range per row except the last', () => {
+      expect(() => service.buildCandidates({ weights: {}, breakpoints: [[20]] }, createMockConfig()))
+        .toThrow('Expected 5 breakpoint ranges');
+    });
+  });
+
+  // ===========================================================================
+  // applyCandidate() Tests
+  // ===========================================================================
+  describe('applyCandidate', () => {
+    it('should derive fallback weights and replace only the active profile curve', () => {
+      const strategy = service.applyCandidate(createMockConfig(), {
+        id: 3,
+        weights: { vix: 0.2, rsi: 0.3, bbWidth: 0.1, ma50: 0.2, fearGreed: 0.2 },
+        breakpoints: [25, 40, 50, 65, 80],
+      });
+
+      expect(strategy.version).toBe('4.3-opt3');
+      expect(strategy.fallbackWeights).toEqual({ vix: 0.3, rsi: 0.4, bbWidth: 0.1, ma50: 0.2, fearGreed: 0 });
+      expect(strategy.riskProfiles.moderate.cssToMultiplier.map(r => r.maxCSS)).toEqual([25, 40, 50, 65, 80, 100]);
+      expect(strategy.riskProfiles.aggressive).toBe(DEFAULT_STRATEGY.riskProfiles.aggressive);
+    });
+
+    it('should reproduce the default fallback weights for the default weights', () => {
+      const strategy = service.applyCandidate(createMockConfig(), {
+        id: 1,
+        weights: DEFAULT_STRATEGY.weights,
+        breakpoints: [20, 35, 50, 60, 75],
+      });
+
+      for (const [key, value] of Object.entries(DEFAULT_STRATEGY.fallbackWeights)) {
+        expect(strategy.fallbackWeights[key as keyof typeof strategy.fallbackWeights]).toBeCloseTo(value, 10);
+      }
+    });
+  });
+
+  // ===========================================================================
+  // splitWalkForward() Tests
+  // ===========================================================================
+  describe('splitWalkForward', () => {
+    it('should train on everything before each test window', () => {
+      const windows = service.splitWalkForward('2023-01-01', '2023-12-31', 2);
+
+      expect(windows).toHaveLength(2);
+      expect(windows[0]).toEqual({
+        trainStart: '2023-01-01', trainEnd: '2023-05-01', testStart: '2023-05-02', testEnd: '2023-08-30',
+      });
+      expect(windows[1].trainStart).toBe('2023-01-01');
+      expect(windows[1].trainEnd).toBe('2023-08-30');
+      expect(windows[1].testEnd).toBe('2023-12-31');
+    });
+
+    it('should reject windows that are too short', () => {
+      expect(() => service.splitWalkForward('2023-01-01', '2023-03-01', 3)).toThrow('too short');
+    });
+  });
+
+  // ===========================================================================
+  // optimize() Tests
+  // ===========================================================================
+  describe('optimize', () => {
+    const space = { weights: { vix: [0.1, 0.3], rsi: [0.2, 0.4] }, breakpoints: null };
+
+    it('should rank candidates best first and include the baseline', () => {
+      const result = service.optimize(DATA, OPTIONS, createMockConfig(), space, 'excess-units');
+
+      expect(result.candidatesTested).toBe(2);
+      expect(result.baseStrategy).toBe('CSS v4.3');
+      expect(result.ranked.map(c => c.rank)).toEqual([1, 2]);
+      expect(result.ranked[0].score!).toBeGreaterThanOrEqual(result.ranked[1].score!);
+      expect(result.baseline.weeks).toBe(result.ranked[0].weeks);
+      expect(result.walkForward).toBeNull();
+    });
+
+    it('should rank by IRR when requested', () => {
+      const result = service.optimize(DATA, OPTIONS, createMockConfig(), space, 'irr');
+
+      // The baseline's own contributions are the fixed total
+      expect(result.baseline.score).toBe(result.baseline.irr);
+      expect(result.ranked[0].score!).toBeGreaterThanOrEqual(result.ranked[1].score!);
+    });
+
+    it('should score IRR at the same total contribution when candidates invest different totals', () => {
+      const config = createMockConfig();
+      const baseline = new BacktestService().run(DATA, OPTIONS, config);
+      // Same weekly timing and growth, but half the money invested
+      const half = {
+        ...baseline,
+        totalInvested: baseline.totalInvested / 2,
+        endingValue: baseline.endingValue / 2,
+        weekly: baseline.weekly.map(w => ({ ...w, totalAmount: w.totalAmount / 2 })),
+      };
+
+      const ownIrr = new BacktestService().calculateIRR([
+        ...half.weekly.map(w => ({ date: w.date, amount: -w.totalAmount })),
+        { date: half.endDate, amount: half.endingValue },
+      ]);
+
+      // Its own IRR matches the baseline, but half the contribution sat in cash
+      expect(ownIrr).toBeCloseTo(baseline.irr!, 1);
+      expect(service.calculateFixedContributionIRR(baseline, baseline)).toBe(baseline.irr);
+      expect(service.calculateFixedContributionIRR(half, baseline)!).toBeLessThan(baseline.irr!);
+    });
+
+    it('should score the train winner out of sample for each fold', () => {
+      const result = service.optimize(DATA, OPTIONS, createMockConfig(), space, 'excess-units', 2);
+
+      expect(result.walkForward!.folds).toHaveLength(2);
+      for (const fold of result.walkForward!.folds) {
+        expect(fold.testStart > fold.trainEnd).toBe(true);
+        expect([1, 2]).toContain(fold.bestCandidateId);
+        expect(fold.testScore).not.toBeNull();
+        expect(fold.baselineTestScore).not.toBeNull();
+      }
+    });
+
+    it('should throw when no candidate is valid', () => {
+      expect(() => service.optimize(DATA, OPTIONS, createMockConfig(), {
+        weights: { vix: [0.9] },
+        breakpoints: null,
+      }, 'irr')).toThrow('No valid candidates');
+    });
+  });
+
+  // ===========================================================================
+  // toCSV() Tests
+  // ===========================================================================
+  describe('toCSV', () => {
+    it('should write a header and one row per candidate', () => {
+      const result = service.optimize(DATA, OPTIONS, createMockConfig(), {
+        weights: { vix: [0.1, 0.3], rsi: [0.2, 0.4] },
+        breakpoints: null,
+      }, 'excess-units');
+      const lines = service.toCSV(result).trim().split('\n');
+
+      expect(lines[0]).toBe(
+        'rank,id,w_vix,w_rsi,w_bbWidth,w_ma50,w_fearGreed,bp_1,bp_2,bp_3,bp_4,bp_5,' +
+        'score,irr,excessUnitsPercent,totalInvested,endingValue,weeks'
+      );
+      expect(lines).toHaveLength(3);
+      expect(lines[1].startsWith('1,')).toBe(true);
+    });
+  });
+});
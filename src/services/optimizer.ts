@@ -0,0 +1,364 @@
+import { BacktestService } from './backtest';
+import {
+  BacktestMarketData,
+  BacktestOptions,
+  BacktestResult,
+  Config,
+  CSSWeightSet,
+  OptimizationCandidate,
+  OptimizationObjective,
+  OptimizationResult,
+  OptimizationScore,
+  OptimizationSpace,
+  ParameterRange,
+  RankedCandidate,
+  StrategyDefinition,
+  WalkForwardFold,
+  WalkForwardWindow
+} from '../types';
+import { formatStrategyLabel } from '../utils/strategy';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Smallest walk-forward window; shorter windows hold too few weeks to score
+ */
+const MIN_FOLD_DAYS = 28;
+
+export const CSS_WEIGHT_KEYS: Array<keyof CSSWeightSet> = ['vix', 'rsi', 'bbWidth', 'ma50', 'fearGreed'];
+
+/**
+ * Strategy Optimizer Service
+ *
+ * Grid search over CSS weights and CSS → multiplier breakpoints, scoring
+ * every combination with the backtest engine. Weight combinations that do
+ * not sum to 1.0 and breakpoints that are not strictly ascending are
+ * skipped. Fallback weights follow the v4.3 rule: the F&G weight is split
+ * equally between VIX and RSI.
+ *
+ * Walk-forward mode guards against fitting noise: the range is cut into
+ * `folds + 1` equal windows, and for each fold the best candidate on all
+ * earlier windows (train) is scored on the next window (test) alongside
+ * the base strategy.
+ *
+ * ## Error Handling Strategy: THROWS ON INVALID INPUT
+ *
+ * Same as BacktestService: an empty grid, unparseable range or windows too
+ * short to backtest throw immediately.
+ */
+export class OptimizerService {
+  private backtestService: BacktestService;
+
+  constructor(backtestService?: BacktestService) {
+    this.backtestService = backtestService ?? new BacktestService();
+  }
+
+  /**
+   * Run the grid search
+   *
+   * @param data - Backtest history covering the full range (with warm-up)
+   * @param options - Full date range, symbols and weekly budget
+   * @param config - Base config; its strategy and risk tolerance are the starting point
+   * @param space - Parameter ranges to sweep
+   * @param objective - Metric to rank by
+   * @param folds - Number of walk-forward folds (0 = in-sample ranking only)
+   * @throws Error if the grid is empty or the range is too short for the folds
+   */
+  optimize(
+    data: BacktestMarketData,
+    options: BacktestOptions,
+    config: Config,
+    space: OptimizationSpace,
+    objective: OptimizationObjective,
+    folds: number = 0
+  ): OptimizationResult {
+    const candidates = this.buildCandidates(space, config);
+    if (candidates.length === 0) {
+      throw new Error('No valid candidates: weights must sum to 1.0 and breakpoints must ascend');
+    }
+
+    const windows = folds > 0 ? this.splitWalkForward(options.startDate, options.endDate, folds) : [];
+    const strategies = new Map(candidates.map(c => [c.id, this.applyCandidate(config, c)]));
+
+    // Base strategy per range: its contributions are the fixed total for 'irr'
+    const baselines = new Map<string, BacktestResult>();
+    const baselineFor = (range: BacktestOptions): BacktestResult => {
+      const key = `${range.startDate}:${range.endDate}`;
+      if (!baselines.has(key)) {
+        baselines.set(key, this.backtestService.run(data, range, config));
+      }
+      return baselines.get(key)!;
+    };
+    const score = (range: BacktestOptions, strategy: StrategyDefinition) =>
+      this.evaluate(data, range, config, strategy, objective, baselineFor(range));
+
+    const ranked: RankedCandidate[] = candidates
+      .map(candidate => ({
+        ...candidate,
+        ...score(options, strategies.get(candidate.id)!),
+        rank: 0
+      }))
+      .sort((a, b) => this.compareScores(a.score, b.score) || a.id - b.id)
+      .map((candidate, i) => ({ ...candidate, rank: i + 1 }));
+
+    let walkForward: OptimizationResult['walkForward'] = null;
+    if (windows.length > 0) {
+      const foldResults: WalkForwardFold[] = windows.map(window => {
+        const trainOptions = { ...options, startDate: window.trainStart, endDate: window.trainEnd };
+        const testOptions = { ...options, startDate: window.testStart, endDate: window.testEnd };
+
+        const best = candidates
+          .map(c => ({ id: c.id, score: score(trainOptions, strategies.get(c.id)!).score }))
+          .sort((a, b) => this.compareScores(a.score, b.score) || a.id - b.id)[0];
+
+        return {
+          ...window,
+          bestCandidateId: best.id,
+          trainScore: best.score,
+          testScore: score(testOptions, strategies.get(best.id)!).score,
+          baselineTestScore: score(testOptions, config.strategy).score
+        };
+      });
+
+      walkForward = {
+        folds: foldResults,
+        meanTestScore: this.mean(foldResults.map(f => f.testScore)),
+        meanBaselineTestScore: this.mean(foldResults.map(f => f.baselineTestScore))
+      };
+    }
+
+    return {
+      objective,
+      startDate: options.startDate,
+      endDate: options.endDate,
+      symbols: options.symbols,
+      riskTolerance: config.riskTolerance,
+      baseStrategy: formatStrategyLabel(config.strategy),
+      candidatesTested: candidates.length,
+      baseline: score(options, config.strategy),
+      ranked,
+      walkForward
+    };
+  }
+
+  /**
+   * Expand the parameter grid into candidates
+   * Unswept parameters keep the base strategy's values
+   */
+  buildCandidates(space: OptimizationSpace, config: Config): OptimizationCandidate[] {
+    const base = config.strategy;
+    const rows = base.riskProfiles[config.riskTolerance].cssToMultiplier;
+    const lastMaxCSS = rows[rows.length - 1].maxCSS;
+
+    if (space.breakpoints && space.breakpoints.length !== rows.length - 1) {
+      throw new Error(
+        `Expected ${rows.length - 1} breakpoint ranges (one per multiplier row except the last), ` +
+        `got ${space.breakpoints.length}`
+      );
+    }
+
+    const weightSets = this.product(CSS_WEIGHT_KEYS.map(key => space.weights[key] ?? [base.weights[key]]))
+      .map(values => Object.fromEntries(CSS_WEIGHT_KEYS.map((key, i) => [key, values[i]])) as unknown as CSSWeightSet)
+      .filter(w => Math.abs(CSS_WEIGHT_KEYS.reduce((sum, key) => sum + w[key], 0) - 1) < 1e-6);
+
+    const breakpointSets = this.product(space.breakpoints ?? rows.slice(0, -1).map(r => [r.maxCSS]))
+      .filter(set => set.every((value, i) => (i === 0 || value > set[i - 1]) && value < lastMaxCSS));
+
+    const candidates: OptimizationCandidate[] = [];
+    for (const weights of weightSets) {
+      for (const breakpoints of breakpointSets) {
+        candidates.push({ id: candidates.length + 1, weights, breakpoints });
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Strategy definition for a candidate: base strategy with the candidate's
+   * weights and the active profile's breakpoints replaced
+   */
+  applyCandidate(config: Config, candidate: OptimizationCandidate): StrategyDefinition {
+    const base = config.strategy;
+    const profile = base.riskProfiles[config.riskTolerance];
+    const { weights } = candidate;
+
+    return {
+      ...base,
+      version: `${base.version}-opt${candidate.id}`,
+      weights,
+      fallbackWeights: {
+        vix: this.round(weights.vix + weights.fearGreed / 2, 6),
+        rsi: this.round(weights.rsi + weights.fearGreed / 2, 6),
+        bbWidth: weights.bbWidth,
+        ma50: weights.ma50,
+        fearGreed: 0
+      },
+      riskProfiles: {
+        ...base.riskProfiles,
+        [config.riskTolerance]: {
+          ...profile,
+          cssToMultiplier: profile.cssToMultiplier.map((row, i) =>
+            i < candidate.breakpoints.length ? { ...row, maxCSS: candidate.breakpoints[i] } : row
+          )
+        }
+      }
+    };
+  }
+
+  /**
+   * Backtest one strategy over one range and compute the objective
+   *
+   * @param baseline - Base strategy's backtest over the same range; the 'irr'
+   *   objective is scored at its total contribution (defaults to the strategy's own)
+   */
+  evaluate(
+    data: BacktestMarketData,
+    options: BacktestOptions,
+    config: Config,
+    strategy: StrategyDefinition,
+    objective: OptimizationObjective,
+    baseline?: BacktestResult
+  ): OptimizationScore {
+    const result = this.backtestService.run(data, options, { ...config, strategy });
+    const excessUnitsPercent = this.calculateExcessUnits(result);
+
+    return {
+      score: objective === 'irr' ? this.calculateFixedContributionIRR(result, baseline ?? result) : excessUnitsPercent,
+      irr: result.irr,
+      excessUnitsPercent,
+      totalInvested: result.totalInvested,
+      endingValue: result.endingValue,
+      weeks: result.weeks
+    };
+  }
+
+  /**
+   * IRR at the baseline's total contribution
+   * The investor pays in the baseline's weekly amounts; what the strategy
+   * invests less is held as cash (more is borrowed from it) at 0% until the
+   * end date. Scaling the weekly amount instead would not change the IRR,
+   * since every cash flow scales with it.
+   */
+  calculateFixedContributionIRR(result: BacktestResult, baseline: BacktestResult): number | null {
+    const cashflows = baseline.weekly.map(w => ({ date: w.date, amount: -w.totalAmount }));
+    cashflows.push({
+      date: result.endDate,
+      amount: result.endingValue + baseline.totalInvested - result.totalInvested
+    });
+    return this.backtestService.calculateIRR(cashflows);
+  }
+
+  /**
+   * Average % more units than flat DCA per dollar invested, across symbols
+   * Equals the average-cost advantage: flatAverageCost / strategyAverageCost - 1
+   */
+  calculateExcessUnits(result: BacktestResult): number {
+    const symbols = result.benchmark.symbols.filter(s => s.strategy.averageCost > 0 && s.flatDCA.averageCost > 0);
+    if (symbols.length === 0) return 0;
+
+    const total = symbols.reduce((sum, s) => sum + (s.flatDCA.averageCost / s.strategy.averageCost - 1), 0);
+    return this.round((total / symbols.length) * 100, 4);
+  }
+
+  /**
+   * Anchored walk-forward windows: train on everything before each test window
+   *
+   * @throws Error if a window would be shorter than MIN_FOLD_DAYS
+   */
+  splitWalkForward(startDate: string, endDate: string, folds: number): WalkForwardWindow[] {
+    const start = Date.parse(startDate);
+    const totalDays = Math.floor((Date.parse(endDate) - start) / MS_PER_DAY);
+    const windowDays = Math.floor(totalDays / (folds + 1));
+
+    if (windowDays < MIN_FOLD_DAYS) {
+      throw new Error(
+        `Range ${startDate} to ${endDate} is too short for ${folds} folds ` +
+        `(each window needs at least ${MIN_FOLD_DAYS} days)`
+      );
+    }
+
+    const boundary = (k: number) => this.toDateString(start + k * windowDays * MS_PER_DAY);
+
+    return Array.from({ length: folds }, (_, i) => ({
+      trainStart: startDate,
+      trainEnd: this.toDateString(start + ((i + 1) * windowDays - 1) * MS_PER_DAY),
+      testStart: boundary(i + 1),
+      testEnd: i === folds - 1 ? endDate : this.toDateString(start + ((i + 2) * windowDays - 1) * MS_PER_DAY)
+    }));
+  }
+
+  /**
+   * Parse a range spec: "0.1:0.3:0.05" (min:max:step, inclusive) or a single value
+   *
+   * @throws Error on malformed specs
+   */
+  parseRange(spec: string): ParameterRange {
+    const parts = spec.split(':').map(p => Number(p.trim()));
+    if (parts.some(p => !isFinite(p)) || (parts.length !== 1 && parts.length !== 3)) {
+      throw new Error(`Invalid range "${spec}": expected a number or min:max:step`);
+    }
+    if (parts.length === 1) return parts;
+
+    const [min, max, step] = parts;
+    if (step <= 0 || max < min) {
+      throw new Error(`Invalid range "${spec}": step must be positive and max >= min`);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; min + i * step <= max + 1e-9; i++) {
+      values.push(this.round(min + i * step, 6));
+    }
+    return values;
+  }
+
+  /**
+   * Ranked candidates as CSV (one row per candidate)
+   */
+  toCSV(result: OptimizationResult): string {
+    const breakpointCount = result.ranked[0]?.breakpoints.length ?? 0;
+    const header = [
+      'rank', 'id', ...CSS_WEIGHT_KEYS.map(k => `w_${k}`),
+      ...Array.from({ length: breakpointCount }, (_, i) => `bp_${i + 1}`),
+      'score', 'irr', 'excessUnitsPercent', 'totalInvested', 'endingValue', 'weeks'
+    ];
+
+    const rows = result.ranked.map(c => [
+      c.rank, c.id, ...CSS_WEIGHT_KEYS.map(k => c.weights[k]), ...c.breakpoints,
+      c.score ?? '', c.irr ?? '', c.excessUnitsPercent, c.totalInvested, c.endingValue, c.weeks
+    ]);
+
+    return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Descending order with null (undefined objective) last
+   */
+  private compareScores(a: number | null, b: number | null): number {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return b - a;
+  }
+
+  private product(ranges: number[][]): number[][] {
+    return ranges.reduce<number[][]>(
+      (combos, range) => combos.flatMap(combo => range.map(value => [...combo, value])),
+      [[]]
+    );
+  }
+
+  private mean(values: Array<number | null>): number | null {
+    const defined = values.filter((v): v is number => v !== null);
+    if (defined.length === 0) return null;
+    return this.round(defined.reduce((sum, v) => sum + v, 0) / defined.length, 4);
+  }
+
+  private toDateString(time: number): string {
+    return new Date(time).toISOString().split('T')[0];
+  }
+
+  private round(value: number, decimals: number = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -5,6 +5,9 @@ import { TechnicalAnalysisService } from './technicalAnalysis';
 import { CSSService } from './cssScoring';
 import { FearGreedService } from './fearGreedIndex';
 import { Config, TechnicalIndicators, CSSBreakdown } from '../types';
+import { RISK_PROFILES } from '../utils/multiplierThresholds';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
+import { createMockConfig } from '../test/fixtures';
 
 // ===========================================================================
 // Mock Setup
@@ -28,6 +31,8 @@ const createMockCSSService = () => ({
   calculateMarketCSS: vi.fn(),
   calculateCSSBreakdown: vi.fn(),
   getCSSInterpretation: vi.fn(),
+  getProfile: vi.fn().mockReturnValue(RISK_PROFILES.moderate),
+  getStrategy: vi.fn().mockReturnValue(DEFAULT_STRATEGY),
 });
 
 const createMockFearGreedService = () => ({
@@ -69,24 +74,12 @@ const createMockCSSBreakdown = (overrides: Partial<CSSBreakdown> = {}): CSSBreak
   ...overrides,
 });
 
-// Helper to create a mock config
-const createMockConfig = (overrides: Partial<Config> = {}): Config => ({
-  smtp: {
-    host: 'smtp.test.com',
-    port: 587,
-    user: 'test@test.com',
-    pass: 'testpassword',
-  },
-  emailTo: ['test@test.com'],
+// Helper to create a mock config on a $1,750/week three-ETF budget
+const createConfig = (overrides: Partial<Config> = {}): Config => createMockConfig({
   weeklyInvestmentAmount: 1750,
   defaultStocks: ['VOO', 'QQQ', 'SCHD'],
-  riskTolerance: 'moderate',
-  port: 3000,
-  cronSchedule: '0 9 * * 1',
-  timezone: 'Pacific/Auckland',
   minBudget: 875,
   maxBudget: 2100,
-  convexUrl: '',
   ...overrides,
 });
 
@@ -151,7 +144,7 @@ describe('PortfolioAllocationEngine', () => {
     });
 
     it('should generate allocation report with all required fields', async () => {
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report).toHaveProperty('date');
@@ -168,7 +161,7 @@ describe('PortfolioAllocationEngine', () => {
     });
 
     it('should fetch VIX and Fear & Greed data', async () => {
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       await engine.generateAllocation(config);
 
       expect(mockMarketData.fetchVIX).toHaveBeenCalled();
@@ -176,7 +169,7 @@ describe('PortfolioAllocationEngine', () => {
     });
 
     it('should analyze all configured stocks', async () => {
-      const config = createMockConfig({ defaultStocks: ['VOO', 'QQQ', 'SCHD'] });
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ', 'SCHD'] });
       await engine.generateAllocation(config);
 
       expect(mockMarketData.fetchStockData).toHaveBeenCalledTimes(3);
@@ -191,7 +184,7 @@ describe('PortfolioAllocationEngine', () => {
         rating: 'Error',
       });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.fearGreedFailed).toBe(true);
@@ -199,7 +192,7 @@ describe('PortfolioAllocationEngine', () => {
     });
 
     it('should set correct market condition based on VIX', async () => {
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
 
       // Bullish (VIX < 15)
       mockMarketData.fetchVIX.mockResolvedValue({ vix: 12, source: 'yahoo-finance2' });
@@ -233,12 +226,25 @@ describe('PortfolioAllocationEngine', () => {
         dataSource: 'custom-fallback',
       });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.dataSourceStatus).toBeDefined();
       expect(report.dataSourceStatus!.marketDataSource).toBe('axios-fallback');
       expect(report.dataSourceStatus!.indicatorSource).toBe('custom-fallback');
+      expect(report.dataSourceStatus!.historyCacheAgeHours).toBeNull();
+    });
+
+    it('should report the oldest cached history used after provider failures', async () => {
+      mockMarketData.fetchHistoricalData
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'yahoo-finance2', cacheAgeHours: 30 })
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'yahoo-finance2', cacheAgeHours: 6.5 });
+
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ'] });
+      const report = await engine.generateAllocation(config);
+
+      expect(report.dataSourceStatus!.historyCacheAgeHours).toBe(30);
+      expect(report.recommendations.some(r => r.includes('cached bars (up to 30h old)'))).toBe(true);
     });
 
     it('should continue when a stock analysis fails', async () => {
@@ -247,7 +253,7 @@ describe('PortfolioAllocationEngine', () => {
         .mockRejectedValueOnce(new Error('Network error'))
         .mockResolvedValueOnce({ symbol: 'SCHD', price: 75, change: 0.5, changePercent: 0.67, volume: 500000 });
 
-      const config = createMockConfig({ defaultStocks: ['VOO', 'QQQ', 'SCHD'] });
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ', 'SCHD'] });
       const report = await engine.generateAllocation(config);
 
       // Should only have 2 allocations (QQQ failed)
@@ -286,7 +292,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ totalCSS: 80, multiplier: 1.2 })
       );
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       const vooAllocation = report.allocations.find(a => a.symbol === 'VOO');
@@ -307,7 +313,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ totalCSS: 20, multiplier: 0.5 })
       );
 
-      const config = createMockConfig({
+      const config = createConfig({
         defaultStocks: ['VOO'],
         weeklyInvestmentAmount: 1750,
         minBudget: 875,
@@ -334,7 +340,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ totalCSS: 100, multiplier: 1.2 })
       );
 
-      const config = createMockConfig({
+      const config = createConfig({
         defaultStocks: ['VOO'],
         weeklyInvestmentAmount: 1750,
         maxBudget: 2100,
@@ -356,7 +362,7 @@ describe('PortfolioAllocationEngine', () => {
         .mockReturnValueOnce(createMockCSSBreakdown({ totalCSS: 60, multiplier: 1.0 }))
         .mockReturnValueOnce(createMockCSSBreakdown({ totalCSS: 80, multiplier: 1.2 }));
 
-      const config = createMockConfig({ defaultStocks: ['VOO', 'QQQ'] });
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ'] });
       const report = await engine.generateAllocation(config);
 
       // Verify sorted descending
@@ -372,7 +378,7 @@ describe('PortfolioAllocationEngine', () => {
 
       mockCSS.calculateCSSBreakdown.mockReturnValue(createMockCSSBreakdown({ totalCSS: 50, multiplier: 1.0 }));
 
-      const config = createMockConfig({ defaultStocks: ['VOO', 'QQQ'] });
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ'] });
       const report = await engine.generateAllocation(config);
 
       const calculatedTotal = report.allocations.reduce((sum, a) => sum + a.amount, 0);
@@ -380,6 +386,153 @@ describe('PortfolioAllocationEngine', () => {
     });
   });
 
+  // ===========================================================================
+  // Data Quality Gate Tests
+  // ===========================================================================
+  describe('data quality gate', () => {
+    const quote = (symbol: string, dataSource: string) => ({
+      symbol, price: 100, previousClose: 99, change: 1, changePercent: 1, volume: 1000, dataSource,
+    });
+
+    beforeEach(() => {
+      mockMarketData.fetchVIX.mockResolvedValue({ vix: 20, source: 'yahoo-finance2' });
+      mockFearGreed.fetchFearGreedIndex.mockResolvedValue({ success: true, value: 50, rating: 'Neutral' });
+      mockCSS.calculateMarketCSS.mockReturnValue(50);
+      mockCSS.getCSSInterpretation.mockReturnValue('Strong buy');
+      mockMarketData.fetchHistoricalData.mockResolvedValue({ prices: Array(100).fill(100), source: 'yahoo-finance2' });
+      mockTechnical.calculateIndicators.mockReturnValue(createMockIndicators());
+      mockTechnical.analyzeSignal.mockReturnValue({ signal: 'BUY', strength: 80 });
+      mockCSS.calculateCSSBreakdown.mockReturnValue(createMockCSSBreakdown({ totalCSS: 80, multiplier: 1.2 }));
+    });
+
+    it('should pass when every symbol has provider data', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) => quote(symbol, 'yahoo-finance2'));
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ', 'GOOG'] }));
+
+      expect(report.dataQualityGate).toEqual({
+        status: 'ok', simulatedSymbols: [], staleSymbols: [], simulatedFraction: 0, maxSimulatedFraction: 0.5,
+      });
+      expect(report.allocations.every(a => a.multiplier === 1.2)).toBe(true);
+    });
+
+    it('should hold simulated symbols at a neutral 1.0x', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) =>
+        quote(symbol, symbol === 'TSLA' ? 'simulated' : 'yahoo-finance2'));
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ', 'GOOG', 'TSLA'] }));
+      const tsla = report.allocations.find(a => a.symbol === 'TSLA');
+
+      expect(report.dataQualityGate).toMatchObject({ status: 'neutralized', simulatedSymbols: ['TSLA'], simulatedFraction: 0.33 });
+      expect(tsla).toMatchObject({ multiplier: 1.0, amount: tsla!.baseAmount, reasoning: 'Neutral 1.0x: simulated market data' });
+      expect(report.allocations.find(a => a.symbol === 'QQQ')!.multiplier).toBe(1.2);
+      expect(report.recommendations[0]).toBe('⚠️ Simulated data: TSLA held at neutral 1.0x');
+      expect(report.technicalData!.find(t => t.symbol === 'TSLA')).toMatchObject({ cssMultiplier: 1.2, multiplier: 1.0 });
+    });
+
+    it('should treat simulated history like a simulated quote', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) => quote(symbol, 'yahoo-finance2'));
+      mockMarketData.fetchHistoricalData
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'yahoo-finance2' })
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'simulated' });
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ', 'GOOG'] }));
+
+      expect(report.dataQualityGate.simulatedSymbols).toEqual(['GOOG']);
+    });
+
+    it('should hold symbols on stale cached history at 1.0x', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) => quote(symbol, 'yahoo-finance2'));
+      mockMarketData.fetchHistoricalData
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'yahoo-finance2', cacheAgeHours: 100 })
+        .mockResolvedValueOnce({ prices: Array(100).fill(100), source: 'yahoo-finance2', cacheAgeHours: 30 });
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ', 'GOOG'] }));
+
+      expect(report.dataQualityGate).toMatchObject({ status: 'neutralized', simulatedSymbols: [], staleSymbols: ['QQQ'] });
+      expect(report.allocations.find(a => a.symbol === 'QQQ')!.reasoning).toBe('Neutral 1.0x: stale cached price history');
+      // Recent cache is still CSS-scored, at 90% confidence
+      expect(report.allocations.find(a => a.symbol === 'GOOG')!.multiplier).toBe(1.18);
+      expect(report.technicalData!.find(t => t.symbol === 'GOOG')).toMatchObject({ cssMultiplier: 1.2, multiplier: 1.18 });
+    });
+
+    it('should block CSS adjustments when too many symbols are simulated', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) =>
+        quote(symbol, symbol === 'QQQ' ? 'yahoo-finance2' : 'simulated'));
+
+      const config = createConfig({ defaultStocks: ['QQQ', 'GOOG', 'TSLA'] });
+      const report = await engine.generateAllocation(config);
+
+      expect(report.dataQualityGate).toMatchObject({ status: 'blocked', simulatedSymbols: ['GOOG', 'TSLA'], simulatedFraction: 0.67 });
+      expect(report.allocations.every(a => a.multiplier === 1.0 && a.amount === a.baseAmount)).toBe(true);
+      expect(report.allocations.every(a => a.reasoning === 'Neutral 1.0x: market data unavailable')).toBe(true);
+      expect(report.recommendations[0]).toBe('🛑 Data unavailable: 2 of 3 symbols on simulated prices - invest base amounts (1.0x)');
+    });
+
+    it('should use the configured fraction', async () => {
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) =>
+        quote(symbol, symbol === 'TSLA' ? 'simulated' : 'yahoo-finance2'));
+
+      const config = createConfig({
+        defaultStocks: ['QQQ', 'GOOG', 'TSLA'],
+        dataQuality: { maxSimulatedFraction: 0.25, maxCacheAgeHours: 72 },
+        alerts: { adminEmail: [], webhookUrl: '', deadManGraceHours: 3 },
+      });
+      const report = await engine.generateAllocation(config);
+
+      expect(report.dataQualityGate.status).toBe('blocked');
+    });
+  });
+
+  // ===========================================================================
+  // Data Confidence Tests
+  // ===========================================================================
+  describe('data confidence', () => {
+    beforeEach(() => {
+      mockMarketData.fetchVIX.mockResolvedValue({ vix: 20, source: 'yahoo-finance2' });
+      mockFearGreed.fetchFearGreedIndex.mockResolvedValue({ success: true, value: 50, rating: 'Neutral' });
+      mockCSS.calculateMarketCSS.mockReturnValue(50);
+      mockCSS.getCSSInterpretation.mockReturnValue('Buy');
+      mockMarketData.fetchStockData.mockResolvedValue({
+        symbol: 'QQQ', price: 100, change: 1, changePercent: 1, volume: 1000, dataSource: 'yahoo-finance2',
+      });
+      mockMarketData.fetchHistoricalData.mockResolvedValue({ prices: Array(150).fill(100), source: 'yahoo-finance2' });
+      mockTechnical.calculateIndicators.mockReturnValue({ ...createMockIndicators(), dataSource: 'technicalindicators' });
+      mockTechnical.analyzeSignal.mockReturnValue({ signal: 'BUY', strength: 70 });
+      mockCSS.calculateCSSBreakdown.mockReturnValue(createMockCSSBreakdown({ totalCSS: 80, multiplier: 1.2 }));
+    });
+
+    it('should keep the full multiplier at full confidence', async () => {
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ'] }));
+
+      expect(report.allocations[0]).toMatchObject({ multiplier: 1.2, confidence: 1 });
+      expect(report.allocations[0].reasoning).not.toContain('Confidence');
+    });
+
+    it('should shrink the multiplier toward 1.0x for degraded inputs', async () => {
+      mockMarketData.fetchStockData.mockResolvedValue({
+        symbol: 'QQQ', price: 100, change: 1, changePercent: 1, volume: 1000, dataSource: 'axios-fallback',
+      });
+      mockMarketData.fetchHistoricalData.mockResolvedValue({ prices: Array(80).fill(100), source: 'yahoo-finance2' });
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ'] }));
+
+      // 1 - 0.1 (axios) - 0.2 (no MA50 slope) = 0.7 -> 1 + 0.2 × 0.7
+      expect(report.allocations[0]).toMatchObject({ multiplier: 1.14, confidence: 0.7 });
+      expect(report.allocations[0].reasoning).toContain('Confidence 70% (axios fallback, no MA50 slope)');
+    });
+
+    it('should shrink reductions as well as boosts', async () => {
+      mockCSS.calculateCSSBreakdown.mockReturnValue(
+        createMockCSSBreakdown({ totalCSS: 20, multiplier: 0.5, weightsAdjusted: true })
+      );
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['QQQ'] }));
+
+      expect(report.allocations[0]).toMatchObject({ multiplier: 0.55, confidence: 0.9 });
+    });
+  });
+
   // ===========================================================================
   // Recommendations Tests
   // ===========================================================================
@@ -426,7 +579,7 @@ describe('PortfolioAllocationEngine', () => {
         dataSource: 'custom-fallback',
       });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('axios fallback'))).toBe(true);
@@ -440,7 +593,7 @@ describe('PortfolioAllocationEngine', () => {
         rating: 'Error',
       });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('Fear & Greed Index fetch FAILED'))).toBe(true);
@@ -449,7 +602,7 @@ describe('PortfolioAllocationEngine', () => {
     it('should note bearish market when VIX > 25', async () => {
       mockMarketData.fetchVIX.mockResolvedValue({ vix: 30, source: 'yahoo-finance2' });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('High volatility'))).toBe(true);
@@ -458,7 +611,7 @@ describe('PortfolioAllocationEngine', () => {
     it('should note bullish market when VIX < 15', async () => {
       mockMarketData.fetchVIX.mockResolvedValue({ vix: 12, source: 'yahoo-finance2' });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('Low volatility'))).toBe(true);
@@ -469,7 +622,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ totalCSS: 75, multiplier: 1.15 })
       );
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('High CSS opportunities'))).toBe(true);
@@ -480,7 +633,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockIndicators({ rsi: 25 })
       );
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('Oversold'))).toBe(true);
@@ -491,14 +644,14 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ ma50DeviationPercent: -8, totalCSS: 60, multiplier: 1.0 })
       );
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('Discounted'))).toBe(true);
     });
 
     it('should always include budget reminder', async () => {
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.recommendations.some(r => r.includes('Budget range'))).toBe(true);
@@ -538,7 +691,7 @@ describe('PortfolioAllocationEngine', () => {
         createMockCSSBreakdown({ ma50DeviationPercent: 2.5, totalCSS: 55, multiplier: 1.0 })
       );
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.technicalData).toBeDefined();
@@ -554,6 +707,26 @@ describe('PortfolioAllocationEngine', () => {
       expect(tech.ma50Deviation).toBe(2.5);
       expect(tech.cssScore).toBe(55);
       expect(tech.multiplier).toBe(1.0);
+      expect(tech.priceAsOf).toBeNull();
+    });
+
+    it('should carry each price\'s market time and flag intraday prices', async () => {
+      const marketTime = new Date('2026-10-16T17:30:00Z');
+      mockMarketData.fetchStockData.mockImplementation(async (symbol: string) => ({
+        symbol, price: 400, previousClose: 398, change: 2, changePercent: 0.5, volume: 1000, dataSource: 'yahoo-finance2',
+        marketTime, marketSession: 'regular', priceBasis: symbol === 'VOO' ? 'intraday' : 'close',
+      }));
+      mockMarketData.fetchHistoricalData.mockResolvedValue({ prices: Array(100).fill(400), source: 'yahoo-finance2' });
+      mockTechnical.calculateIndicators.mockReturnValue(createMockIndicators());
+      mockCSS.calculateCSSBreakdown.mockReturnValue(createMockCSSBreakdown());
+
+      const report = await engine.generateAllocation(createConfig({ defaultStocks: ['VOO', 'QQQ'] }));
+
+      expect(report.technicalData![0]).toMatchObject({ priceAsOf: '2026-10-16T17:30:00.000Z', priceBasis: 'intraday' });
+      expect(report.dataSourceStatus).toMatchObject({ quotePolicy: 'latest', intradaySymbols: ['VOO'] });
+      expect(report.recommendations).toContain(
+        '⏱️ Intraday prices (market open): VOO - set MARKET_DATA_QUOTE_POLICY=last-close to score official closes'
+      );
     });
   });
 
@@ -587,7 +760,7 @@ describe('PortfolioAllocationEngine', () => {
       );
       mockCSS.getCSSInterpretation.mockReturnValue('Opportunity');
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations[0].reasoning).toContain('CSS 75');
@@ -603,7 +776,7 @@ describe('PortfolioAllocationEngine', () => {
       );
       mockCSS.getCSSInterpretation.mockReturnValue('Opportunity');
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations[0].reasoning).toContain('Oversold');
@@ -618,7 +791,7 @@ describe('PortfolioAllocationEngine', () => {
       );
       mockCSS.getCSSInterpretation.mockReturnValue('Cautious');
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations[0].reasoning).toContain('Overbought');
@@ -635,7 +808,7 @@ describe('PortfolioAllocationEngine', () => {
       );
       mockCSS.getCSSInterpretation.mockReturnValue('Opportunity');
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations[0].reasoning).toContain('below MA50');
@@ -649,7 +822,7 @@ describe('PortfolioAllocationEngine', () => {
       );
       mockCSS.getCSSInterpretation.mockReturnValue('Neutral');
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations[0].reasoning).toContain('F&G fallback');
@@ -684,7 +857,7 @@ describe('PortfolioAllocationEngine', () => {
         source: 'yahoo-finance2',
       });
 
-      const config = createMockConfig({ defaultStocks: ['UNKNOWN'] });
+      const config = createConfig({ defaultStocks: ['UNKNOWN'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations).toHaveLength(1);
@@ -695,7 +868,7 @@ describe('PortfolioAllocationEngine', () => {
     it('should handle all stocks failing analysis', async () => {
       mockMarketData.fetchStockData.mockRejectedValue(new Error('Network error'));
 
-      const config = createMockConfig({ defaultStocks: ['VOO', 'QQQ'] });
+      const config = createConfig({ defaultStocks: ['VOO', 'QQQ'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.allocations).toHaveLength(0);
@@ -719,11 +892,97 @@ describe('PortfolioAllocationEngine', () => {
       // Panic-level VIX
       mockMarketData.fetchVIX.mockResolvedValue({ vix: 50, source: 'yahoo-finance2' });
 
-      const config = createMockConfig({ defaultStocks: ['VOO'] });
+      const config = createConfig({ defaultStocks: ['VOO'] });
       const report = await engine.generateAllocation(config);
 
       expect(report.vix).toBe(50);
       expect(report.marketCondition).toBe('BEARISH');
     });
   });
+
+  // ===========================================================================
+  // Risk Profiles
+  // ===========================================================================
+  describe('risk profiles', () => {
+    // Real CSSService so the profile is built from config.riskTolerance
+    const buildReport = (riskTolerance: Config['riskTolerance']) => {
+      const profileEngine = new PortfolioAllocationEngine(
+        mockMarketData as unknown as MarketDataService,
+        mockTechnical as unknown as TechnicalAnalysisService,
+        undefined,
+        mockFearGreed as unknown as FearGreedService
+      );
+      mockTechnical.calculateIndicators.mockReturnValue(createMockIndicators({ rsi: 20, ma50: 100 }));
+      mockTechnical.analyzeSignal.mockReturnValue({ signal: 'BUY', strength: 80 });
+
+      return profileEngine.buildReport({
+        date: new Date('2025-03-05'),
+        vix: 45,
+        vixSource: 'yahoo-finance2',
+        fearGreed: { value: 10, rating: 'Extreme Fear', timestamp: new Date(), success: true },
+        stocks: [{
+          symbol: 'QQQ',
+          marketData: {
+            symbol: 'QQQ', price: 85, previousClose: 90, change: -5, changePercent: -5.5,
+            volume: 0, timestamp: new Date(), dataSource: 'yahoo-finance2',
+          },
+          prices: Array(100).fill(100),
+          historySource: 'yahoo-finance2',
+        }],
+      }, createConfig({ defaultStocks: ['QQQ'], riskTolerance }));
+    };
+
+    it('should record the profile on the report', () => {
+      expect(buildReport('conservative').riskTolerance).toBe('conservative');
+    });
+
+    it('should apply the profile multiplier curve', () => {
+      expect(buildReport('moderate').allocations[0].multiplier).toBe(1.2);
+      expect(buildReport('conservative').allocations[0].multiplier).toBe(1.1);
+      expect(buildReport('aggressive').allocations[0].multiplier).toBe(1.5);
+    });
+  });
+
+  // ===========================================================================
+  // Market Calendar
+  // ===========================================================================
+  describe('market calendar', () => {
+    const buildReport = (date: Date) => {
+      mockTechnical.calculateIndicators.mockReturnValue(createMockIndicators());
+      mockTechnical.analyzeSignal.mockReturnValue({ signal: 'HOLD', strength: 50 });
+      mockCSS.calculateMarketCSS.mockReturnValue(50);
+      mockCSS.calculateCSSBreakdown.mockReturnValue(createMockCSSBreakdown());
+
+      return engine.buildReport({
+        date,
+        vix: 20,
+        vixSource: 'yahoo-finance2',
+        fearGreed: { value: 50, rating: 'Neutral', timestamp: date, success: true },
+        stocks: [{
+          symbol: 'QQQ',
+          marketData: {
+            symbol: 'QQQ', price: 100, previousClose: 100, change: 0, changePercent: 0,
+            volume: 0, timestamp: date, dataSource: 'yahoo-finance2',
+          },
+          prices: Array(100).fill(100),
+          historySource: 'yahoo-finance2',
+        }],
+      }, createConfig({ defaultStocks: ['QQQ'] }));
+    };
+
+    it('should flag prices from before a holiday', () => {
+      // Wednesday 8pm Auckland after July 4, 2023 (a Tuesday)
+      const report = buildReport(new Date('2023-07-05T08:00:00Z'));
+
+      expect(report.marketCalendar).toMatchObject({ lastSessionDate: '2023-07-03', missedSessions: [{ date: '2023-07-04' }] });
+      expect(report.recommendations).toContain('🗓️ NYSE closed 2023-07-04 (Independence Day) - prices are from the 2023-07-03 close');
+    });
+
+    it('should stay quiet after an ordinary session', () => {
+      const report = buildReport(new Date('2023-07-12T08:00:00Z'));
+
+      expect(report.marketCalendar).toMatchObject({ lastSessionDate: '2023-07-11', missedSessions: [] });
+      expect(report.recommendations.some(r => r.startsWith('🗓️'))).toBe(false);
+    });
+  });
 });
@@ -9,22 +9,35 @@ import {
   Config,
   TechnicalDataRow,
   FearGreedResponse,
-  DataSourceStatus
+  DataSourceStatus,
+  DataQualityGate,
+  MarketCalendarStatus,
+  MarketInputs,
+  StockMarketInput,
+  ReportBuildOptions,
+  RiskProfile
 } from '../types';
-import { BASE_ALLOCATIONS, BUDGET_CONSTRAINTS } from '../utils/multiplierThresholds';
+import { getBaseAllocationPercentage } from '../utils/multiplierThresholds';
+import { blendMultiplier, calculateDataConfidence } from '../utils/dataConfidence';
+import { formatStrategyLabel } from '../utils/strategy';
+import { getMarketCalendarStatus } from '../utils/tradingCalendar';
 
 /**
- * Portfolio Allocation Engine (CSS v4.2)
+ * Portfolio Allocation Engine (CSS v4.3)
  * 
  * Uses Composite Signal Score (CSS) to adjust investment amounts:
  * - Never fully stops investing (min 0.5x = $125)
  * - Maximum investment capped at 1.2x ($300)
  * - 5 weighted indicators: VIX, RSI, BB Width, MA50, Fear & Greed
+ * - Data quality gate: symbols on simulated or stale data are held at a
+ *   neutral 1.0x; when too many are simulated, every symbol gets its base amount
+ * - Data confidence: each multiplier is blended toward 1.0x by how far the
+ *   asset's inputs can be trusted (fallback sources, short history, F&G fallback)
  */
 export class PortfolioAllocationEngine {
   private marketDataService: MarketDataService;
   private technicalAnalysisService: TechnicalAnalysisService;
-  private cssService: CSSService;
+  private cssService: CSSService | undefined;
   private fearGreedService: FearGreedService;
 
   constructor(
@@ -35,7 +48,8 @@ export class PortfolioAllocationEngine {
   ) {
     this.marketDataService = marketDataService ?? new MarketDataService();
     this.technicalAnalysisService = technicalAnalysisService ?? new TechnicalAnalysisService();
-    this.cssService = cssService ?? new CSSService();
+    // Without an injected service, one is built per run from config.strategy/riskTolerance
+    this.cssService = cssService;
     this.fearGreedService = fearGreedService ?? new FearGreedService();
   }
 
@@ -43,54 +57,122 @@ export class PortfolioAllocationEngine {
    * Main method to generate portfolio allocation recommendations
    */
   async generateAllocation(config: Config): Promise<AllocationReport> {
-    console.log('🔍 Fetching market data and analyzing (CSS v4.3)...');
+    const inputs = await this.fetchMarketInputs(config);
+    return this.buildReport(inputs, config);
+  }
 
-    // Track data sources
-    let marketDataSource: DataSourceStatus['marketDataSource'] = 'yahoo-finance2';
-    let indicatorSource: DataSourceStatus['indicatorSource'] = 'technicalindicators';
+  /**
+   * Fetch all market inputs needed for one allocation run
+   * Stocks whose fetch fails are skipped (logged), never thrown
+   */
+  async fetchMarketInputs(config: Config): Promise<MarketInputs> {
+    console.log('🔍 Fetching market data and analyzing (CSS v4.3)...');
 
     // Fetch market-wide indicators
     const vixResult = await this.marketDataService.fetchVIX();
-    const vix = vixResult.vix;
-    marketDataSource = vixResult.source;
+    const fearGreed = await this.fearGreedService.fetchFearGreedIndex();
+
+    const stockPromises = config.defaultStocks.map(symbol =>
+      this.fetchStockInput(symbol).catch(error => {
+        console.error(`✗ Failed to fetch ${symbol}:`, error);
+        return null;
+      })
+    );
+    const stocks = (await Promise.all(stockPromises))
+      .filter((s): s is StockMarketInput => s !== null);
 
-    const fearGreedResponse = await this.fearGreedService.fetchFearGreedIndex();
+    return {
+      date: new Date(),
+      vix: vixResult.vix,
+      vixSource: vixResult.source,
+      fearGreed,
+      stocks
+    };
+  }
+
+  /**
+   * Build the allocation report from already-fetched market inputs
+   * Pure with respect to I/O - used by live runs and backtests alike
+   *
+   * @param options - Scoring options (backtests turn confidence blending off)
+   */
+  buildReport(inputs: MarketInputs, config: Config, options: ReportBuildOptions = {}): AllocationReport {
+    const { vix, fearGreed: fearGreedResponse } = inputs;
     const fearGreedIndex = fearGreedResponse.success ? fearGreedResponse.value : null;
+    const cssService = this.getCSSService(config);
+    const profile = cssService.getProfile();
+    const strategy = cssService.getStrategy();
+
+    // Track data sources
+    let marketDataSource: DataSourceStatus['marketDataSource'] = inputs.vixSource;
+    let indicatorSource: DataSourceStatus['indicatorSource'] = 'technicalindicators';
 
     // Calculate market-wide CSS component
-    const marketCSS = this.cssService.calculateMarketCSS(vix, fearGreedIndex);
+    const marketCSS = cssService.calculateMarketCSS(vix, fearGreedIndex);
     const marketCondition = this.determineMarketCondition(vix);
 
-    console.log(`📊 VIX: ${vix.toFixed(2)} | F&G: ${fearGreedIndex ?? 'FAILED'} | Market CSS: ${marketCSS.toFixed(1)}`);
-    
-    if (!fearGreedResponse.success) {
-      console.warn('⚠️  Fear & Greed fetch failed - VIX weight doubled to 40%');
+    const quiet = options.quiet ?? false;
+    if (!quiet) {
+      console.log(`📊 VIX: ${vix.toFixed(2)} | F&G: ${fearGreedIndex ?? 'FAILED'} | Market CSS: ${marketCSS.toFixed(1)}`);
+    }
+
+    if (!fearGreedResponse.success && !quiet) {
+      const { vix: vixWeight, rsi: rsiWeight } = strategy.fallbackWeights;
+      console.warn(`⚠️  Fear & Greed fetch failed - using fallback weights (VIX: ${(vixWeight * 100).toFixed(1)}%, RSI: ${(rsiWeight * 100).toFixed(1)}%)`);
     }
 
     // Analyze each stock
-    const analyses = await this.analyzeStocks(config.defaultStocks, vix, fearGreedIndex);
+    const analyses = this.analyzeStocks(inputs.stocks, vix, fearGreedIndex, cssService, quiet);
 
     // Derive data sources from analyses (avoids race conditions from shared state)
     // Report fallback/simulated if ANY stock used fallback
     indicatorSource = analyses.some(a => a.technicalIndicators.dataSource === 'custom-fallback')
       ? 'custom-fallback'
       : 'technicalindicators';
-    marketDataSource = analyses.some(a => a.marketData.dataSource === 'simulated')
-      ? 'simulated'
-      : analyses.some(a => a.marketData.dataSource === 'axios-fallback')
-        ? 'axios-fallback'
-        : 'yahoo-finance2';
+    // Least trustworthy source wins: simulated > axios fallback > local files > yahoo-finance2
+    const quoteSources = analyses.map(a => a.marketData.dataSource);
+    marketDataSource = (['simulated', 'axios-fallback', 'stooq', 'csv'] as const)
+      .find(source => quoteSources.includes(source)) ?? 'yahoo-finance2';
+    const atrSource: DataSourceStatus['atrSource'] = analyses.some(a => a.technicalIndicators.atrSource === 'close-only')
+      ? 'close-only'
+      : 'ohlc';
+    const cacheAges = inputs.stocks
+      .map(s => s.historyCacheAgeHours)
+      .filter((age): age is number => age !== undefined);
+    const historyCacheAgeHours = cacheAges.length > 0 ? Math.max(...cacheAges) : null;
+    const dataSourceStatus: DataSourceStatus = {
+      marketDataSource,
+      historyCacheAgeHours,
+      indicatorSource,
+      atrSource,
+      quotePolicy: config.marketData.quotePolicy,
+      intradaySymbols: analyses.filter(a => a.marketData.priceBasis === 'intraday').map(a => a.symbol)
+    };
+
+    // Never act on random prices: neutralize unreliable symbols, or all of them
+    const dataQualityGate = this.evaluateDataQuality(inputs.stocks, config);
+    if (dataQualityGate.status === 'blocked' && !quiet) {
+      console.warn(`🛑 Data quality gate: ${dataQualityGate.simulatedSymbols.length}/${inputs.stocks.length} symbols simulated - base amounts only`);
+    } else if (dataQualityGate.status === 'neutralized' && !quiet) {
+      console.warn(`⚠️  Data quality gate: ${[...dataQualityGate.simulatedSymbols, ...dataQualityGate.staleSymbols].join(', ')} held at 1.0x`);
+    }
+
+    // Sessions lost to NYSE holidays make the latest prices older than usual
+    const marketCalendar = getMarketCalendarStatus(inputs.date);
 
     // Calculate allocations using CSS
     const allocations = this.calculateAllocations(
       analyses,
       config.weeklyInvestmentAmount,
       config.minBudget,
-      config.maxBudget
+      config.maxBudget,
+      cssService,
+      dataQualityGate,
+      options.blendConfidence ?? true
     );
 
     // Generate technical data for report
-    const technicalData = this.generateTechnicalData(analyses);
+    const technicalData = this.generateTechnicalData(analyses, allocations);
 
     // Generate recommendations including data source warnings
     const recommendations = this.generateRecommendations(
@@ -99,14 +181,18 @@ export class PortfolioAllocationEngine {
       fearGreedIndex,
       marketCondition,
       fearGreedResponse,
-      { marketDataSource, indicatorSource }
+      dataSourceStatus,
+      dataQualityGate,
+      marketCalendar,
+      config,
+      profile
     );
 
     // Calculate actual total after CSS adjustments
     const totalAmount = allocations.reduce((sum, a) => sum + a.amount, 0);
 
     return {
-      date: new Date(),
+      date: inputs.date,
       totalAmount,
       baseBudget: config.weeklyInvestmentAmount,
       minBudget: config.minBudget,
@@ -116,54 +202,85 @@ export class PortfolioAllocationEngine {
       fearGreedFailed: !fearGreedResponse.success,
       marketCSS,
       marketCondition,
+      riskTolerance: profile.name,
+      strategyId: strategy.id,
+      strategyVersion: strategy.version,
       allocations,
+      stockAnalyses: analyses,
       recommendations,
       technicalData,
-      dataSourceStatus: { marketDataSource, indicatorSource }
+      dataSourceStatus,
+      dataQualityGate,
+      marketCalendar
     };
   }
 
   /**
-   * Analyze multiple stocks with CSS scoring
+   * CSS service for this run: the injected one, or one built from the strategy and risk profile
    */
-  private async analyzeStocks(
-    symbols: string[],
-    vix: number,
-    fearGreedIndex: number | null
-  ): Promise<StockAnalysis[]> {
-    const analysisPromises = symbols.map(symbol =>
-      this.analyzeStock(symbol, vix, fearGreedIndex)
-        .then(analysis => {
-          console.log(`✓ ${symbol}: CSS=${analysis.cssBreakdown.totalCSS.toFixed(1)} (${analysis.cssBreakdown.multiplier}x) RSI=${analysis.technicalIndicators.rsi.toFixed(1)}`);
-          return analysis;
-        })
-        .catch(error => {
-          console.error(`✗ Failed to analyze ${symbol}:`, error);
-          return null;
-        })
-    );
-
-    const results = await Promise.all(analysisPromises);
-    return results.filter((a): a is StockAnalysis => a !== null);
+  private getCSSService(config: Config): CSSService {
+    return this.cssService ?? new CSSService(config.strategy, config.riskTolerance);
   }
 
   /**
-   * Analyze a single stock with technical indicators and CSS
+   * Fetch quote and price history for a single stock
    */
-  private async analyzeStock(
-    symbol: string,
-    vix: number,
-    fearGreedIndex: number | null
-  ): Promise<StockAnalysis> {
+  private async fetchStockInput(symbol: string): Promise<StockMarketInput> {
     // Fetch market data and historical data in parallel for better performance
     const [marketData, historicalResult] = await Promise.all([
       this.marketDataService.fetchStockData(symbol),
       this.marketDataService.fetchHistoricalData(symbol)
     ]);
-    const technicalIndicators = this.technicalAnalysisService.calculateIndicators(historicalResult.prices);
+
+    return {
+      symbol,
+      marketData,
+      prices: historicalResult.prices,
+      bars: historicalResult.bars,
+      historySource: historicalResult.source,
+      historyCacheAgeHours: historicalResult.cacheAgeHours
+    };
+  }
+
+  /**
+   * Analyze multiple stocks with CSS scoring
+   */
+  private analyzeStocks(
+    stocks: StockMarketInput[],
+    vix: number,
+    fearGreedIndex: number | null,
+    cssService: CSSService,
+    quiet: boolean
+  ): StockAnalysis[] {
+    const analyses: StockAnalysis[] = [];
+
+    for (const stock of stocks) {
+      try {
+        const analysis = this.analyzeStock(stock, vix, fearGreedIndex, cssService);
+        if (!quiet) console.log(`✓ ${stock.symbol}: CSS=${analysis.cssBreakdown.totalCSS.toFixed(1)} (${analysis.cssBreakdown.multiplier}x) RSI=${analysis.technicalIndicators.rsi.toFixed(1)}`);
+        analyses.push(analysis);
+      } catch (error) {
+        console.error(`✗ Failed to analyze ${stock.symbol}:`, error);
+      }
+    }
+
+    return analyses;
+  }
+
+  /**
+   * Analyze a single stock with technical indicators and CSS
+   */
+  private analyzeStock(
+    stock: StockMarketInput,
+    vix: number,
+    fearGreedIndex: number | null,
+    cssService: CSSService
+  ): StockAnalysis {
+    const { symbol, marketData } = stock;
+    const technicalIndicators = this.technicalAnalysisService.calculateIndicators(stock.prices, stock.bars);
     
     // Calculate CSS breakdown for this asset
-    const cssBreakdown = this.cssService.calculateCSSBreakdown(
+    const cssBreakdown = cssService.calculateCSSBreakdown(
       vix,
       fearGreedIndex,
       technicalIndicators,
@@ -175,16 +292,56 @@ export class PortfolioAllocationEngine {
       marketData.price
     );
 
+    const confidence = calculateDataConfidence({
+      marketData,
+      technicalIndicators,
+      historySource: stock.historySource,
+      historyPoints: stock.prices.length,
+      historyCacheAgeHours: stock.historyCacheAgeHours,
+      fearGreedFallback: cssBreakdown.weightsAdjusted
+    });
+
     return {
       symbol,
       marketData,
       technicalIndicators,
       cssBreakdown,
+      historySource: stock.historySource,
       signal,
-      strength
+      strength,
+      confidence
     };
   }
 
+  /**
+   * Decide which symbols are too unreliable to CSS-score
+   * Simulated = quote or history from getSimulatedData; stale = cached history
+   * older than maxCacheAgeHours. Only simulated symbols count toward blocking.
+   */
+  private evaluateDataQuality(stocks: StockMarketInput[], config: Config): DataQualityGate {
+    const { maxSimulatedFraction, maxCacheAgeHours } = config.dataQuality;
+
+    const simulatedSymbols = stocks
+      .filter(s => s.marketData.dataSource === 'simulated' || s.historySource === 'simulated')
+      .map(s => s.symbol);
+    const staleSymbols = stocks
+      .filter(s => !simulatedSymbols.includes(s.symbol))
+      .filter(s => s.historyCacheAgeHours !== undefined && s.historyCacheAgeHours > maxCacheAgeHours)
+      .map(s => s.symbol);
+    const simulatedFraction = stocks.length > 0
+      ? Math.round((simulatedSymbols.length / stocks.length) * 100) / 100
+      : 0;
+
+    let status: DataQualityGate['status'] = 'ok';
+    if (simulatedFraction > maxSimulatedFraction) {
+      status = 'blocked';
+    } else if (simulatedSymbols.length > 0 || staleSymbols.length > 0) {
+      status = 'neutralized';
+    }
+
+    return { status, simulatedSymbols, staleSymbols, simulatedFraction, maxSimulatedFraction };
+  }
+
   /**
    * Determine market condition based on VIX
    */
@@ -201,7 +358,10 @@ export class PortfolioAllocationEngine {
     analyses: StockAnalysis[],
     baseBudget: number,
     minBudget: number,
-    maxBudget: number
+    maxBudget: number,
+    cssService: CSSService,
+    dataQualityGate: DataQualityGate,
+    blendConfidence: boolean
   ): PortfolioAllocation[] {
     const allocations: PortfolioAllocation[] = [];
 
@@ -210,7 +370,10 @@ export class PortfolioAllocationEngine {
         analysis,
         baseBudget,
         minBudget,
-        maxBudget
+        maxBudget,
+        cssService,
+        dataQualityGate,
+        blendConfidence
       );
       allocations.push(allocation);
     }
@@ -226,16 +389,26 @@ export class PortfolioAllocationEngine {
     analysis: StockAnalysis,
     baseBudget: number,
     minBudget: number,
-    maxBudget: number
+    maxBudget: number,
+    cssService: CSSService,
+    dataQualityGate: DataQualityGate,
+    blendConfidence: boolean
   ): PortfolioAllocation {
     const { symbol, cssBreakdown } = analysis;
 
     // Get base allocation percentage
-    const basePercentage = this.getBaseAllocationPercentage(symbol);
+    const basePercentage = getBaseAllocationPercentage(symbol);
     const baseAmount = (baseBudget * basePercentage) / 100;
 
-    // Apply CSS multiplier (guard against NaN from failed calculations)
-    const multiplier = isNaN(cssBreakdown.multiplier) ? 1.0 : cssBreakdown.multiplier;
+    // Neutral 1.0x when the gate distrusts this symbol's data
+    const dataIssue = this.getDataIssue(symbol, dataQualityGate);
+
+    // Apply CSS multiplier (guard against NaN from failed calculations),
+    // shrunk toward 1.0x when the inputs behind it are less trustworthy
+    const cssMultiplier = dataIssue || isNaN(cssBreakdown.multiplier) ? 1.0 : cssBreakdown.multiplier;
+    const multiplier = blendConfidence
+      ? blendMultiplier(cssMultiplier, analysis.confidence.score)
+      : cssMultiplier;
     let finalAmount = baseAmount * multiplier;
 
     // Apply min/max constraints proportionally
@@ -250,33 +423,35 @@ export class PortfolioAllocationEngine {
       symbol,
       amount: finalAmount,
       percentage: Math.round(finalPercentage * 100) / 100,
-      reasoning: this.generateReasoning(analysis),
+      reasoning: dataIssue
+        ? `Neutral 1.0x: ${dataIssue}`
+        : this.generateReasoning(analysis, cssService),
       baseAmount: Math.round(baseAmount),
       cssScore: cssBreakdown.totalCSS,
-      multiplier
+      multiplier,
+      confidence: analysis.confidence.score
     };
   }
 
   /**
-   * Get base allocation percentage for a symbol
+   * Why a symbol is held at 1.0x by the data quality gate (null = CSS applies)
    */
-  private getBaseAllocationPercentage(symbol: string): number {
-    if (BASE_ALLOCATIONS[symbol]) {
-      return BASE_ALLOCATIONS[symbol];
-    }
-    // For unknown assets, use equal distribution
-    return 100 / Object.keys(BASE_ALLOCATIONS).length;
+  private getDataIssue(symbol: string, dataQualityGate: DataQualityGate): string | null {
+    if (dataQualityGate.status === 'blocked') return 'market data unavailable';
+    if (dataQualityGate.simulatedSymbols.includes(symbol)) return 'simulated market data';
+    if (dataQualityGate.staleSymbols.includes(symbol)) return 'stale cached price history';
+    return null;
   }
 
   /**
    * Generate reasoning for allocation (v4.3)
    */
-  private generateReasoning(analysis: StockAnalysis): string {
+  private generateReasoning(analysis: StockAnalysis, cssService: CSSService): string {
     const { cssBreakdown, technicalIndicators } = analysis;
     const reasons: string[] = [];
 
     // CSS interpretation
-    const cssInterpretation = this.cssService.getCSSInterpretation(cssBreakdown.totalCSS);
+    const cssInterpretation = cssService.getCSSInterpretation(cssBreakdown.totalCSS);
     reasons.push(`CSS ${cssBreakdown.totalCSS.toFixed(0)}: ${cssInterpretation}`);
 
     // RSI insight
@@ -304,19 +479,30 @@ export class PortfolioAllocationEngine {
       reasons.push('(F&G fallback active)');
     }
 
+    // Confidence note when the multiplier was shrunk toward 1.0x
+    if (analysis.confidence.score < 1) {
+      reasons.push(`Confidence ${Math.round(analysis.confidence.score * 100)}% (${analysis.confidence.reasons.join(', ')})`);
+    }
+
     return reasons.join('; ');
   }
 
   /**
    * Generate technical data for report
+   * The multiplier is the applied one from the allocation, so a symbol held
+   * at 1.0x by the gate or shrunk by confidence matches the rest of the report
    */
-  private generateTechnicalData(analyses: StockAnalysis[]): TechnicalDataRow[] {
+  private generateTechnicalData(analyses: StockAnalysis[], allocations: PortfolioAllocation[]): TechnicalDataRow[] {
+    const applied = new Map(allocations.map(a => [a.symbol, a.multiplier]));
+
     return analyses.map(analysis => {
       const { symbol, marketData, technicalIndicators, cssBreakdown } = analysis;
       
       return {
         symbol,
         price: Math.round(marketData.price * 100) / 100,
+        priceAsOf: marketData.marketTime?.toISOString() ?? null,
+        priceBasis: marketData.priceBasis ?? null,
         rsi: Math.round(technicalIndicators.rsi * 100) / 100,
         ma20: Math.round(technicalIndicators.ma20 * 100) / 100,
         ma50: Math.round(technicalIndicators.ma50 * 100) / 100,
@@ -324,7 +510,8 @@ export class PortfolioAllocationEngine {
         bbWidth: Math.round(technicalIndicators.bbWidth * 100) / 100,
         ma50Deviation: cssBreakdown.ma50DeviationPercent,
         cssScore: cssBreakdown.totalCSS,
-        multiplier: cssBreakdown.multiplier
+        cssMultiplier: cssBreakdown.multiplier,
+        multiplier: applied.get(symbol) ?? cssBreakdown.multiplier
       };
     });
   }
@@ -338,14 +525,46 @@ export class PortfolioAllocationEngine {
     fearGreedIndex: number | null,
     marketCondition: string,
     fearGreedResponse: FearGreedResponse,
-    dataSourceStatus: DataSourceStatus
+    dataSourceStatus: DataSourceStatus,
+    dataQualityGate: DataQualityGate,
+    marketCalendar: MarketCalendarStatus,
+    config: Config,
+    profile: RiskProfile
   ): string[] {
     const recommendations: string[] = [];
 
+    // Data quality gate comes first - it overrides everything below
+    if (dataQualityGate.status === 'blocked') {
+      recommendations.push(`🛑 Data unavailable: ${dataQualityGate.simulatedSymbols.length} of ${analyses.length} symbols on simulated prices - invest base amounts (1.0x)`);
+    } else {
+      if (dataQualityGate.simulatedSymbols.length > 0) {
+        recommendations.push(`⚠️ Simulated data: ${dataQualityGate.simulatedSymbols.join(', ')} held at neutral 1.0x`);
+      }
+      if (dataQualityGate.staleSymbols.length > 0) {
+        recommendations.push(`⚠️ Stale price history: ${dataQualityGate.staleSymbols.join(', ')} held at neutral 1.0x`);
+      }
+    }
+
     // Data source warnings
     if (dataSourceStatus.marketDataSource === 'axios-fallback') {
       recommendations.push('⚠️ Market data: Using axios fallback (yahoo-finance2 failed)');
     }
+    if (dataSourceStatus.historyCacheAgeHours !== null) {
+      recommendations.push(`⚠️ Price history: All providers failed - using cached bars (up to ${dataSourceStatus.historyCacheAgeHours}h old)`);
+    }
+    if (dataSourceStatus.marketDataSource === 'csv' || dataSourceStatus.marketDataSource === 'stooq') {
+      recommendations.push(`📁 Market data: Using local ${dataSourceStatus.marketDataSource} files - check they are up to date`);
+    }
+    if (marketCalendar.missedSessions.length > 0) {
+      const closed = marketCalendar.missedSessions.map(h => `${h.date} (${h.name})`).join(', ');
+      recommendations.push(`🗓️ NYSE closed ${closed} - prices are from the ${marketCalendar.lastSessionDate} close`);
+    }
+    if (dataSourceStatus.intradaySymbols.length > 0) {
+      recommendations.push(`⏱️ Intraday prices (market open): ${dataSourceStatus.intradaySymbols.join(', ')} - set MARKET_DATA_QUOTE_POLICY=last-close to score official closes`);
+    }
+    if (dataSourceStatus.atrSource === 'close-only') {
+      recommendations.push('⚠️ ATR: No high/low bars for some stocks - using close-to-close ranges');
+    }
     if (dataSourceStatus.indicatorSource === 'custom-fallback') {
       recommendations.push('⚠️ Technical indicators: Using custom fallback (technicalindicators library failed)');
     }
@@ -397,8 +616,8 @@ export class PortfolioAllocationEngine {
     }
 
     // Budget reminder
-    recommendations.push(`💰 Budget range: $${BUDGET_CONSTRAINTS.MIN_BUDGET} - $${BUDGET_CONSTRAINTS.MAX_BUDGET} (never $0)`);
-    recommendations.push('📊 CSS v4.3: Always invest at least 0.5x, maximum 1.2x');
+    recommendations.push(`💰 Budget range: $${config.minBudget} - $${config.maxBudget} (never $0)`);
+    recommendations.push(`📊 ${formatStrategyLabel(config.strategy)} (${profile.name}): Always invest at least ${profile.minMultiplier}x, maximum ${profile.maxMultiplier}x`);
 
     return recommendations;
   }
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CsvDirectoryProvider, parseDailyCsv } from './csv';
+import { StooqProvider } from './stooq';
+
+// ===========================================================================
+// Fixtures
+// ===========================================================================
+
+const YAHOO_CSV = [
+  'Date,Open,High,Low,Close,Adj Close,Volume',
+  '2025-01-03,510,515,508,512.5,512.5,3000',
+  '2025-01-02,505,511,503,508,508,2500',
+  '2025-01-06,512,520,511,null,null,0',
+  '2025-01-07,514,518,512,516,516,3200',
+].join('\n');
+
+const STOOQ_TXT = [
+  '<TICKER>,<PER>,<DATE>,<TIME>,<OPEN>,<HIGH>,<LOW>,<CLOSE>,<VOL>,<OPENINT>',
+  'QQQ.US,D,20250102,000000,505,511,503,508,2500,0',
+  'QQQ.US,D,20250103,000000,510,515,508,512.5,3000,0',
+].join('\r\n');
+
+const VIX_CSV = 'Date,Open,High,Low,Close\n2025-01-02,17,18,16,17.9\n2025-01-03,17.9,19,17,16.13\n';
+
+describe('parseDailyCsv', () => {
+  it('should parse Yahoo downloads oldest first, skipping null rows', () => {
+    expect(parseDailyCsv(YAHOO_CSV)).toEqual([
+      { date: '2025-01-02', open: 505, high: 511, low: 503, close: 508, adjClose: 508, volume: 2500 },
+      { date: '2025-01-03', open: 510, high: 515, low: 508, close: 512.5, adjClose: 512.5, volume: 3000 },
+      { date: '2025-01-07', open: 514, high: 518, low: 512, close: 516, adjClose: 516, volume: 3200 },
+    ]);
+  });
+
+  it('should leave open/high/low null for close-only files', () => {
+    expect(parseDailyCsv('Date,Close\n2025-01-02,508\n')).toEqual([
+      { date: '2025-01-02', open: null, high: null, low: null, close: 508, volume: 0 },
+    ]);
+  });
+
+  it('should parse Stooq rows with YYYYMMDD dates', () => {
+    expect(parseDailyCsv(STOOQ_TXT).map(bar => bar.date)).toEqual(['2025-01-02', '2025-01-03']);
+  });
+
+  it('should throw without date and close columns', () => {
+    expect(() => parseDailyCsv('Day,Price\n2025-01-02,1')).toThrow('Date and Close');
+  });
+});
+
+describe('file providers', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-'));
+    fs.writeFileSync(path.join(dir, 'QQQ.csv'), YAHOO_CSV);
+    fs.writeFileSync(path.join(dir, 'VIX.csv'), VIX_CSV);
+    fs.writeFileSync(path.join(dir, 'EMPTY.csv'), 'Date,Close\n');
+    fs.writeFileSync(path.join(dir, 'BRK-B.csv'), YAHOO_CSV);
+
+    const stooqDir = path.join(dir, 'stooq', 'data', 'daily', 'us', 'nasdaq etfs');
+    fs.mkdirSync(stooqDir, { recursive: true });
+    fs.writeFileSync(path.join(stooqDir, 'qqq.us.txt'), STOOQ_TXT);
+    fs.writeFileSync(path.join(stooqDir, 'brk-b.us.txt'), STOOQ_TXT);
+    fs.writeFileSync(path.join(dir, 'stooq', '^vix.csv'), VIX_CSV);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // ===========================================================================
+  // CsvDirectoryProvider Tests
+  // ===========================================================================
+  describe('CsvDirectoryProvider', () => {
+    it('should quote the last row against the one before', async () => {
+      const quote = await new CsvDirectoryProvider(dir).fetchQuote('QQQ');
+
+      expect(quote).toMatchObject({
+        symbol: 'QQQ', price: 516, previousClose: 512.5, change: 3.5, volume: 3200, dataSource: 'csv',
+      });
+      expect(quote.timestamp.toISOString()).toBe('2025-01-07T00:00:00.000Z');
+    });
+
+    it('should return history within the inclusive range', async () => {
+      const series = await new CsvDirectoryProvider(dir).fetchDailyHistory('qqq', '2025-01-03', '2025-01-07');
+
+      expect(series.map(bar => [bar.date, bar.close])).toEqual([
+        ['2025-01-03', 512.5],
+        ['2025-01-07', 516],
+      ]);
+    });
+
+    it('should read VIX from VIX.csv', async () => {
+      expect(await new CsvDirectoryProvider(dir).fetchVIX()).toBe(16.13);
+    });
+
+    it('should find share classes under the Yahoo file name', async () => {
+      expect(await new CsvDirectoryProvider(dir).fetchQuote('BRK.B')).toMatchObject({ symbol: 'BRK.B', price: 516 });
+    });
+
+    it('should recognise symbols that have a file', async () => {
+      const provider = new CsvDirectoryProvider(dir);
+
+      expect(await provider.lookupSymbol('QQQ')).toMatchObject({ symbol: 'QQQ', name: null, source: 'csv' });
+      expect(await provider.lookupSymbol('TSLA')).toBeNull();
+    });
+
+    it('should throw for missing files, empty files and empty ranges', async () => {
+      const provider = new CsvDirectoryProvider(dir);
+
+      await expect(provider.fetchQuote('TSLA')).rejects.toThrow('No csv file for TSLA');
+      await expect(provider.fetchQuote('EMPTY')).rejects.toThrow('no price rows');
+      await expect(provider.fetchDailyHistory('QQQ', '2024-01-01', '2024-12-31')).rejects.toThrow('No QQQ rows');
+    });
+  });
+
+  // ===========================================================================
+  // StooqProvider Tests
+  // ===========================================================================
+  describe('StooqProvider', () => {
+    it('should find <ticker>.us files anywhere under the directory', async () => {
+      const provider = new StooqProvider(path.join(dir, 'stooq'));
+      const quote = await provider.fetchQuote('QQQ');
+
+      expect(quote).toMatchObject({ symbol: 'QQQ', price: 512.5, previousClose: 508, dataSource: 'stooq' });
+      expect(await provider.fetchDailyHistory('QQQ', '2025-01-01', '2025-01-31')).toHaveLength(2);
+    });
+
+    it('should map share classes to <base>-<class>.us', async () => {
+      expect(await new StooqProvider(path.join(dir, 'stooq')).fetchQuote('BRK.B')).toMatchObject({ symbol: 'BRK.B', price: 512.5 });
+    });
+
+    it('should keep the caret for indices', async () => {
+      expect(await new StooqProvider(path.join(dir, 'stooq')).fetchVIX()).toBe(16.13);
+    });
+
+    it('should throw when the directory is missing', async () => {
+      await expect(new StooqProvider(path.join(dir, 'missing')).fetchQuote('QQQ')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { readdir, readFile } from 'fs/promises';
+import * as path from 'path';
+import { MarketDataProvider, MarketDataWithSource, PriceBar, ProviderDataSource, SymbolMetadata } from '../../types';
+import { toYahooSymbol } from '../../utils/symbols';
+import { marketCloseOn } from '../../utils/tradingCalendar';
+
+/**
+ * Parse a daily price CSV, oldest row first
+ *
+ * Columns are matched by header name, case-insensitively and ignoring
+ * spaces, underscores and angle brackets, so Yahoo downloads
+ * ("Date,Open,High,Low,Close,Adj Close,Volume") and Stooq files
+ * ("<TICKER>,<PER>,<DATE>,...,<CLOSE>,<VOL>,...") both parse. Dates may be
+ * YYYY-MM-DD or YYYYMMDD. Rows without a positive close are skipped;
+ * missing open/high/low columns or cells come back as null. An "Adj Close"
+ * column is kept as adjClose where the cell is valid.
+ *
+ * @throws Error if the header has no date or close column
+ */
+export function parseDailyCsv(text: string): PriceBar[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[<>\s_]/g, ''));
+  const dateCol = header.indexOf('date');
+  const closeCol = header.indexOf('close');
+  const openCol = header.indexOf('open');
+  const highCol = header.indexOf('high');
+  const lowCol = header.indexOf('low');
+  const adjCloseCol = header.indexOf('adjclose');
+  const volumeCol = header.findIndex(h => h === 'volume' || h === 'vol');
+
+  if (dateCol === -1 || closeCol === -1) {
+    throw new Error('CSV header must include Date and Close columns');
+  }
+
+  const bars: PriceBar[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(c => c.trim());
+    const date = parseDate(cells[dateCol] ?? '');
+    const close = parsePrice(cells[closeCol]);
+    if (!date || close === null) continue;
+
+    const bar: PriceBar = {
+      date,
+      open: parsePrice(cells[openCol]),
+      high: parsePrice(cells[highCol]),
+      low: parsePrice(cells[lowCol]),
+      close,
+      volume: Number(cells[volumeCol]) || 0,
+    };
+
+    const adjClose = parsePrice(cells[adjCloseCol]);
+    if (adjClose !== null) bar.adjClose = adjClose;
+
+    bars.push(bar);
+  }
+
+  return bars.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Positive number or null (missing column, "null", "N/A", ...)
+ */
+function parsePrice(value: string | undefined): number | null {
+  const price = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Normalize "YYYY-MM-DD..." or "YYYYMMDD" to "YYYY-MM-DD"
+ */
+function parseDate(value: string): string | null {
+  if (/^\d{8}$/.test(value)) {
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value.slice(0, 10);
+  }
+  return null;
+}
+
+/**
+ * Base for providers that read daily price files from a local directory
+ *
+ * The quote is the last row (previous close from the row before), history
+ * is the rows in range, and VIX is the last close of the ^VIX file.
+ * Subclasses map a symbol to candidate file names.
+ */
+export abstract class FileMarketDataProvider implements MarketDataProvider {
+  abstract readonly source: ProviderDataSource;
+
+  // Lowercased file name -> path, built on first use
+  private files: Promise<Map<string, string>> | null = null;
+
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Lowercased file names that may hold this symbol, most specific first
+   */
+  protected abstract fileNames(symbol: string): string[];
+
+  async fetchQuote(symbol: string): Promise<MarketDataWithSource> {
+    const bars = await this.readBars(symbol);
+    const last = bars[bars.length - 1];
+    const previousClose = bars.length > 1 ? bars[bars.length - 2].close : last.close;
+
+    return {
+      symbol,
+      price: last.close,
+      previousClose,
+      change: last.close - previousClose,
+      changePercent: ((last.close - previousClose) / previousClose) * 100,
+      volume: last.volume,
+      timestamp: new Date(`${last.date}T00:00:00Z`),
+      marketTime: marketCloseOn(last.date),
+      priceBasis: 'close',
+      dataSource: this.source
+    };
+  }
+
+  async fetchDailyHistory(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    const series = (await this.readBars(symbol))
+      .filter(bar => bar.date >= startDate && bar.date <= endDate);
+
+    if (series.length === 0) {
+      throw new Error(`No ${symbol} rows between ${startDate} and ${endDate}`);
+    }
+
+    return series;
+  }
+
+  async fetchVIX(): Promise<number> {
+    const quote = await this.fetchQuote('^VIX');
+    return quote.price;
+  }
+
+  /**
+   * A file for the symbol is all a local provider can confirm
+   */
+  async lookupSymbol(symbol: string): Promise<SymbolMetadata | null> {
+    if (!(await this.findFile(symbol))) {
+      return null;
+    }
+    return { symbol, name: null, exchange: null, currency: null, quoteType: null, source: this.source };
+  }
+
+  /**
+   * Path of the file holding a symbol, or undefined
+   */
+  private async findFile(symbol: string): Promise<string | undefined> {
+    const files = await this.listFiles();
+    return this.fileNames(symbol).map(name => files.get(name)).find(f => f !== undefined);
+  }
+
+  /**
+   * Read and parse the file for a symbol
+   */
+  private async readBars(symbol: string): Promise<PriceBar[]> {
+    const file = await this.findFile(symbol);
+
+    if (!file) {
+      throw new Error(`No ${this.source} file for ${symbol} in ${this.dir}`);
+    }
+
+    const bars = parseDailyCsv(await readFile(file, 'utf-8'));
+    if (bars.length === 0) {
+      throw new Error(`${path.basename(file)} has no price rows`);
+    }
+
+    return bars;
+  }
+
+  /**
+   * Index every file under the directory by lowercased name
+   */
+  private listFiles(): Promise<Map<string, string>> {
+    if (!this.files) {
+      this.files = readdir(this.dir, { recursive: true }).then(entries => {
+        const files = new Map<string, string>();
+        for (const entry of entries) {
+          const name = path.basename(entry).toLowerCase();
+          if (!files.has(name)) {
+            files.set(name, path.join(this.dir, entry));
+          }
+        }
+        return files;
+      });
+      // Retry the listing next time rather than caching a failure
+      this.files.catch(() => { this.files = null; });
+    }
+    return this.files;
+  }
+}
+
+/**
+ * Local directory of <SYMBOL>.csv files (provider "csv")
+ *
+ * Any CSV with Date and Close columns works - e.g. Yahoo "Download" exports.
+ * VIX is read from ^VIX.csv or VIX.csv.
+ */
+export class CsvDirectoryProvider extends FileMarketDataProvider {
+  readonly source = 'csv' as const;
+
+  protected fileNames(symbol: string): string[] {
+    const name = symbol.toLowerCase();
+    // Yahoo downloads of share classes are saved as BRK-B.csv
+    const yahooName = toYahooSymbol(symbol).toLowerCase();
+    return [...new Set([`${name}.csv`, `${yahooName}.csv`, `${name.replace(/^\^/, '')}.csv`])];
+  }
+}
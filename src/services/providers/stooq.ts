@@ -0,0 +1,38 @@
+import { parseShareClass } from '../../utils/symbols';
+import { FileMarketDataProvider } from './csv';
+
+/**
+ * Stooq daily data files (provider "stooq")
+ *
+ * Reads the Stooq bulk download layout ("data/daily/us/nasdaq etfs/qqq.us.txt",
+ * "<TICKER>,<PER>,<DATE>,..." rows) or per-symbol CSV downloads saved as
+ * "qqq.us.csv". The directory is searched recursively.
+ *
+ * Symbols map to Stooq tickers: plain tickers get the ".us" suffix
+ * (QQQ → qqq.us), share classes use a dash (BRK.B → brk-b.us), tickers with
+ * an exchange suffix are kept (VOD.UK → vod.uk) and indices keep their
+ * caret (^VIX → ^vix).
+ */
+export class StooqProvider extends FileMarketDataProvider {
+  readonly source = 'stooq' as const;
+
+  protected fileNames(symbol: string): string[] {
+    const ticker = this.toStooqTicker(symbol);
+    return [`${ticker}.txt`, `${ticker}.csv`];
+  }
+
+  /**
+   * Map a Yahoo-style symbol to a lowercased Stooq ticker
+   */
+  private toStooqTicker(symbol: string): string {
+    const shareClass = parseShareClass(symbol);
+    if (shareClass) {
+      return `${shareClass[0]}-${shareClass[1]}.us`.toLowerCase();
+    }
+    const name = symbol.toLowerCase();
+    if (name.startsWith('^') || name.includes('.')) {
+      return name;
+    }
+    return `${name}.us`;
+  }
+}
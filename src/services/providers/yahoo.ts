@@ -0,0 +1,393 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import YahooFinance from 'yahoo-finance2';
+import { MarketDataProvider, MarketDataWithSource, MarketSession, PriceBar, SymbolMetadata } from '../../types';
+import { toYahooSymbol } from '../../utils/symbols';
+
+// Initialize yahoo-finance2 client
+const yahooFinance = new YahooFinance({
+  suppressNotices: ['yahooSurvey']  // Suppress non-critical survey notices
+});
+
+const VIX_SYMBOL = '^VIX';
+
+/**
+ * Type definition for yahoo-finance2 quote result
+ */
+interface YahooQuoteResult {
+  regularMarketPrice?: number;
+  regularMarketPreviousClose?: number;
+  regularMarketChangePercent?: number;
+  regularMarketVolume?: number;
+  regularMarketTime?: Date;
+  marketState?: string;           // "PREPRE" | "PRE" | "REGULAR" | "POST" | "POSTPOST" | "CLOSED"
+  symbol?: string;
+  longName?: string;
+  shortName?: string;
+  fullExchangeName?: string;
+  exchange?: string;
+  currency?: string;
+  quoteType?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Type definition for yahoo-finance2 chart result
+ */
+interface YahooChartQuote {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  adjclose?: number;
+}
+
+interface YahooChartResult {
+  meta: {
+    regularMarketPrice: number;
+    previousClose?: number;
+    chartPreviousClose?: number;
+  };
+  quotes: YahooChartQuote[];
+}
+
+/**
+ * Chart API trading period, in unix seconds
+ */
+interface YahooTradingPeriod {
+  start: number;
+  end: number;
+}
+
+interface YahooChartResponse {
+  chart: {
+    result: Array<{
+      timestamp?: number[];
+      meta: {
+        regularMarketPrice: number;
+        regularMarketTime?: number;
+        previousClose?: number;
+        chartPreviousClose?: number;
+        longName?: string;
+        shortName?: string;
+        fullExchangeName?: string;
+        exchangeName?: string;
+        currency?: string;
+        instrumentType?: string;
+        currentTradingPeriod?: {
+          pre?: YahooTradingPeriod;
+          regular: YahooTradingPeriod;
+          post?: YahooTradingPeriod;
+        };
+      };
+      indicators: {
+        quote: Array<{
+          open?: (number | null)[];
+          high?: (number | null)[];
+          low?: (number | null)[];
+          close: (number | null)[];
+          volume: (number | null)[];
+        }>;
+        adjclose?: Array<{
+          adjclose?: (number | null)[];
+        }>;
+      };
+    }>;
+  };
+}
+
+/**
+ * Chart period bounds for an inclusive "YYYY-MM-DD" range
+ * period2 is exclusive, so it is extended by one day to include endDate
+ */
+function toPeriod(startDate: string, endDate: string): { period1: Date; period2: Date } {
+  const period1 = new Date(`${startDate}T00:00:00Z`);
+  const period2 = new Date(`${endDate}T00:00:00Z`);
+  period2.setUTCDate(period2.getUTCDate() + 1);
+  return { period1, period2 };
+}
+
+/**
+ * Attach Yahoo's split- and dividend-adjusted close when it is usable
+ */
+function withAdjClose(bar: PriceBar, adjclose: number | null | undefined): PriceBar {
+  if (adjclose !== null && adjclose !== undefined && Number.isFinite(adjclose) && adjclose > 0) {
+    bar.adjClose = adjclose;
+  }
+  return bar;
+}
+
+/**
+ * Session from the quote API's marketState
+ * Yahoo's overnight PREPRE/POSTPOST states count as closed
+ */
+function toMarketSession(state: string | undefined): MarketSession | undefined {
+  switch (state) {
+    case 'PRE':
+      return 'pre';
+    case 'REGULAR':
+      return 'regular';
+    case 'POST':
+      return 'post';
+    case 'PREPRE':
+    case 'POSTPOST':
+    case 'CLOSED':
+      return 'closed';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Session at `now` from the chart API's current trading periods
+ */
+function sessionAt(
+  now: Date,
+  periods: { pre?: YahooTradingPeriod; regular: YahooTradingPeriod; post?: YahooTradingPeriod }
+): MarketSession {
+  const seconds = now.getTime() / 1000;
+  const within = (period?: YahooTradingPeriod) => period !== undefined && seconds >= period.start && seconds < period.end;
+
+  if (within(periods.regular)) return 'regular';
+  if (within(periods.pre)) return 'pre';
+  if (within(periods.post)) return 'post';
+  return 'closed';
+}
+
+/**
+ * Yahoo Finance via the yahoo-finance2 library (provider "yahoo")
+ */
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly source = 'yahoo-finance2' as const;
+
+  async fetchQuote(symbol: string): Promise<MarketDataWithSource> {
+    const quote = await yahooFinance.quote(toYahooSymbol(symbol)) as YahooQuoteResult;
+
+    if (!quote || typeof quote.regularMarketPrice !== 'number') {
+      throw new Error('Invalid quote response from yahoo-finance2');
+    }
+
+    return this.toMarketData(symbol, quote, quote.regularMarketPrice);
+  }
+
+  /**
+   * One quote() call for all symbols - Yahoo accepts an array
+   * Symbols missing from the response or without a price are left out
+   */
+  async fetchQuotes(symbols: string[]): Promise<MarketDataWithSource[]> {
+    const quotes = await yahooFinance.quote(symbols.map(toYahooSymbol)) as YahooQuoteResult[];
+
+    if (!Array.isArray(quotes)) {
+      throw new Error('Invalid batch quote response from yahoo-finance2');
+    }
+
+    const results: MarketDataWithSource[] = [];
+    for (const symbol of symbols) {
+      const quote = quotes.find(q => q.symbol?.toUpperCase() === toYahooSymbol(symbol));
+      if (quote && typeof quote.regularMarketPrice === 'number') {
+        results.push(this.toMarketData(symbol, quote, quote.regularMarketPrice));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Quote as MarketDataWithSource, under the symbol as requested
+   */
+  private toMarketData(symbol: string, quote: YahooQuoteResult, currentPrice: number): MarketDataWithSource {
+    const previousClose = quote.regularMarketPreviousClose || currentPrice;
+    const marketSession = toMarketSession(quote.marketState);
+
+    return {
+      symbol,
+      price: currentPrice,
+      previousClose,
+      change: currentPrice - previousClose,
+      changePercent: quote.regularMarketChangePercent || ((currentPrice - previousClose) / previousClose) * 100,
+      volume: quote.regularMarketVolume || 0,
+      timestamp: new Date(),
+      marketTime: quote.regularMarketTime ? new Date(quote.regularMarketTime) : undefined,
+      marketSession,
+      priceBasis: marketSession && (marketSession === 'regular' ? 'intraday' : 'close'),
+      dataSource: this.source
+    };
+  }
+
+  async fetchDailyHistory(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    // chart() replaces the deprecated historical()
+    const result = await yahooFinance.chart(toYahooSymbol(symbol), {
+      ...toPeriod(startDate, endDate),
+      interval: '1d'
+    }) as YahooChartResult;
+
+    if (!result || !result.quotes || result.quotes.length === 0) {
+      throw new Error('No chart data returned from yahoo-finance2');
+    }
+
+    return result.quotes
+      .filter(quote => quote.close !== null && quote.close !== undefined)
+      .map(quote => withAdjClose({
+        date: new Date(quote.date).toISOString().split('T')[0],
+        open: quote.open ?? null,
+        high: quote.high ?? null,
+        low: quote.low ?? null,
+        close: quote.close,
+        volume: quote.volume ?? 0
+      }, quote.adjclose));
+  }
+
+  async fetchVIX(): Promise<number> {
+    const quote = await this.fetchQuote(VIX_SYMBOL);
+    return quote.price;
+  }
+
+  /**
+   * Name, exchange, currency and type from quote() - null if Yahoo has no such symbol
+   */
+  async lookupSymbol(symbol: string): Promise<SymbolMetadata | null> {
+    const quote = await yahooFinance.quote(toYahooSymbol(symbol)) as YahooQuoteResult | undefined;
+
+    if (!quote) {
+      return null;
+    }
+
+    return {
+      symbol,
+      name: quote.longName ?? quote.shortName ?? null,
+      exchange: quote.fullExchangeName ?? quote.exchange ?? null,
+      currency: quote.currency ?? null,
+      quoteType: quote.quoteType ?? null,
+      source: this.source
+    };
+  }
+}
+
+/**
+ * Yahoo Finance via direct axios calls to the chart API (provider "yahoo-http")
+ * Kept as a fallback for when the library breaks on an API change
+ */
+export class YahooHttpProvider implements MarketDataProvider {
+  private static readonly BASE_URL = 'https://query1.finance.yahoo.com/v8/finance/chart';
+  private static readonly DEFAULT_HEADERS = {
+    'User-Agent': 'Mozilla/5.0'
+  };
+
+  readonly source = 'axios-fallback' as const;
+
+  async fetchQuote(symbol: string): Promise<MarketDataWithSource> {
+    const data = await this.fetchChart(symbol, {
+      interval: '1d',
+      range: '5d'
+    });
+
+    if (!data?.chart?.result?.[0]) {
+      throw new Error('Invalid response structure from API');
+    }
+
+    const result = data.chart.result[0];
+    const quote = result.meta;
+    const currentPrice = quote.regularMarketPrice;
+    const previousClose = quote.previousClose || quote.chartPreviousClose || currentPrice;
+    const marketSession = quote.currentTradingPeriod ? sessionAt(new Date(), quote.currentTradingPeriod) : undefined;
+
+    return {
+      symbol,
+      price: currentPrice,
+      previousClose,
+      change: currentPrice - previousClose,
+      changePercent: ((currentPrice - previousClose) / previousClose) * 100,
+      volume: result.indicators.quote[0].volume.slice(-1)[0] || 0,
+      timestamp: new Date(),
+      marketTime: quote.regularMarketTime ? new Date(quote.regularMarketTime * 1000) : undefined,
+      marketSession,
+      priceBasis: marketSession && (marketSession === 'regular' ? 'intraday' : 'close'),
+      dataSource: this.source
+    };
+  }
+
+  async fetchDailyHistory(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    const { period1, period2 } = toPeriod(startDate, endDate);
+    const data = await this.fetchChart(symbol, {
+      interval: '1d',
+      period1: String(Math.floor(period1.getTime() / 1000)),
+      period2: String(Math.floor(period2.getTime() / 1000))
+    });
+
+    const result = data?.chart?.result?.[0];
+    const quote = result?.indicators?.quote?.[0];
+    if (!result?.timestamp || !quote?.close) {
+      throw new Error('Invalid response structure from API');
+    }
+
+    const adjclose = result.indicators.adjclose?.[0]?.adjclose;
+    const series: PriceBar[] = [];
+    result.timestamp.forEach((ts, i) => {
+      const close = quote.close[i];
+      if (close !== null && close !== undefined) {
+        series.push(withAdjClose({
+          date: new Date(ts * 1000).toISOString().split('T')[0],
+          open: quote.open?.[i] ?? null,
+          high: quote.high?.[i] ?? null,
+          low: quote.low?.[i] ?? null,
+          close,
+          volume: quote.volume[i] ?? 0
+        }, adjclose?.[i]));
+      }
+    });
+
+    return series;
+  }
+
+  async fetchVIX(): Promise<number> {
+    const quote = await this.fetchQuote(VIX_SYMBOL);
+    return quote.price;
+  }
+
+  /**
+   * Symbol details from the chart API meta - null on a 404 (unknown symbol)
+   */
+  async lookupSymbol(symbol: string): Promise<SymbolMetadata | null> {
+    let data: YahooChartResponse;
+    try {
+      data = await this.fetchChart(symbol, { interval: '1d', range: '1d' });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const meta = data?.chart?.result?.[0]?.meta;
+    if (!meta) {
+      return null;
+    }
+
+    return {
+      symbol,
+      name: meta.longName ?? meta.shortName ?? null,
+      exchange: meta.fullExchangeName ?? meta.exchangeName ?? null,
+      currency: meta.currency ?? null,
+      quoteType: meta.instrumentType ?? null,
+      source: this.source
+    };
+  }
+
+  /**
+   * Make a request to the Yahoo Finance chart API
+   */
+  private async fetchChart(symbol: string, params: Record<string, string>): Promise<YahooChartResponse> {
+    const config: AxiosRequestConfig = {
+      params,
+      headers: YahooHttpProvider.DEFAULT_HEADERS,
+      timeout: 15000  // 15 second timeout
+    };
+
+    const response = await axios.get<YahooChartResponse>(
+      `${YahooHttpProvider.BASE_URL}/${encodeURIComponent(toYahooSymbol(symbol))}`,
+      config
+    );
+
+    return response.data;
+  }
+}
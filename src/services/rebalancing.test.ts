@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RebalancingService } from './rebalancing';
+import { MarketDataService } from './marketData';
+import { HoldingPosition, NewHoldingTransaction } from '../types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createPosition = (symbol: string, units: number, averageCost = 100): HoldingPosition => ({
+  symbol,
+  units,
+  costBasis: units * averageCost,
+  averageCost,
+  realizedGain: 0,
+  totalFees: 0,
+  transactionCount: 1,
+  firstTradeDate: '2024-01-03',
+  lastTradeDate: '2024-01-03',
+});
+
+// Values at $1/unit so units equal dollar value
+const ON_TARGET: HoldingPosition[] = [
+  createPosition('QQQ', 2500),
+  createPosition('GOOG', 1750),
+  createPosition('AIQ', 1500),
+  createPosition('TSLA', 750),
+  createPosition('XLV', 1000),
+  createPosition('VXUS', 1000),
+  createPosition('TLT', 1500),
+];
+
+const UNIT_PRICES = { QQQ: 1, GOOG: 1, AIQ: 1, TSLA: 1, XLV: 1, VXUS: 1, TLT: 1 };
+
+describe('RebalancingService', () => {
+  let service: RebalancingService;
+
+  beforeEach(() => {
+    service = new RebalancingService();
+  });
+
+  // ===========================================================================
+  // createPlan() Tests
+  // ===========================================================================
+  describe('createPlan', () => {
+    it('should not rebalance a portfolio on target', () => {
+      const plan = service.createPlan(ON_TARGET, UNIT_PRICES, '2025-01-07');
+
+      expect(plan.totalValue).toBe(10000);
+      expect(plan.needsRebalance).toBe(false);
+      expect(plan.trades).toEqual([]);
+      expect(plan.positions.find(p => p.symbol === 'QQQ')!.thresholdPercent).toBe(37.5);
+    });
+
+    it('should not flag a position exactly at its threshold', () => {
+      // TSLA at 11.25% of 10000 with everything else scaled down
+      const positions = ON_TARGET.map(p =>
+        p.symbol === 'TSLA' ? createPosition('TSLA', 1125) : createPosition(p.symbol, p.units * (8875 / 9250))
+      );
+      const plan = service.createPlan(positions, UNIT_PRICES, '2025-01-07');
+
+      expect(plan.positions.find(p => p.symbol === 'TSLA')!.currentPercent).toBe(11.25);
+      expect(plan.needsRebalance).toBe(false);
+    });
+
+    it('should sell a breached position back to target', () => {
+      // TSLA grows to 2000 → 2000 / 11250 = 17.8% > 11.25%
+      const positions = ON_TARGET.map(p => p.symbol === 'TSLA' ? createPosition('TSLA', 2000) : p);
+      const plan = service.createPlan(positions, UNIT_PRICES, '2025-01-07');
+
+      expect(plan.needsRebalance).toBe(true);
+      expect(plan.breaches).toEqual(['TSLA']);
+
+      const sell = plan.trades.find(t => t.action === 'SELL')!;
+      expect(sell.symbol).toBe('TSLA');
+      expect(sell.amount).toBeCloseTo(2000 - 11250 * 0.075, 2);
+      expect(sell.units).toBeCloseTo(sell.amount, 2);
+    });
+
+    it('should redistribute proceeds to underweight positions by shortfall', () => {
+      const positions = ON_TARGET.map(p => p.symbol === 'TSLA' ? createPosition('TSLA', 2000) : p);
+      const plan = service.createPlan(positions, UNIT_PRICES, '2025-01-07');
+
+      const sold = plan.trades.filter(t => t.action === 'SELL').reduce((sum, t) => sum + t.amount, 0);
+      const bought = plan.trades.filter(t => t.action === 'BUY').reduce((sum, t) => sum + t.amount, 0);
+      expect(bought).toBeCloseTo(sold, 1);
+
+      // QQQ has the largest target, so the largest shortfall
+      const buys = plan.trades.filter(t => t.action === 'BUY');
+      expect(buys[0].symbol).toBe('QQQ');
+      expect(buys.every(t => t.symbol !== 'TSLA')).toBe(true);
+    });
+
+    it('should include unheld target assets as underweight', () => {
+      const plan = service.createPlan(
+        [createPosition('QQQ', 10), createPosition('TLT', 1)],
+        { QQQ: 100, TLT: 100 },
+        '2025-01-07'
+      );
+
+      expect(plan.breaches).toContain('QQQ');
+      const goog = plan.trades.find(t => t.symbol === 'GOOG')!;
+      expect(goog.action).toBe('BUY');
+      expect(goog.price).toBeNull();
+      expect(goog.units).toBeNull();
+    });
+
+    it('should value positions without a price at average cost', () => {
+      const plan = service.createPlan([createPosition('QQQ', 10, 50)], {}, '2025-01-07');
+
+      expect(plan.estimatedPrices).toEqual(['QQQ']);
+      expect(plan.totalValue).toBe(500);
+    });
+
+    it('should count untracked assets in total but never trade them', () => {
+      const plan = service.createPlan(
+        [...ON_TARGET, createPosition('NVDA', 10000)],
+        { ...UNIT_PRICES, NVDA: 1 },
+        '2025-01-07'
+      );
+
+      const nvda = plan.positions.find(p => p.symbol === 'NVDA')!;
+      expect(nvda.targetPercent).toBe(0);
+      expect(nvda.breached).toBe(false);
+      expect(plan.trades.some(t => t.symbol === 'NVDA')).toBe(false);
+    });
+
+    it('should handle an empty portfolio', () => {
+      const plan = service.createPlan([], {}, '2025-01-07');
+
+      expect(plan.totalValue).toBe(0);
+      expect(plan.needsRebalance).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // generatePlan() Tests
+  // ===========================================================================
+  describe('generatePlan', () => {
+    it('should ignore simulated quotes', async () => {
+      const marketDataService = {
+        fetchStockData: vi.fn().mockImplementation(async (symbol: string) => ({
+          symbol,
+          price: 999,
+          dataSource: symbol === 'QQQ' ? 'simulated' : 'yahoo-finance2',
+        })),
+      } as unknown as MarketDataService;
+
+      const transactions: NewHoldingTransaction[] = [
+        { symbol: 'QQQ', date: '2024-06-01', side: 'BUY', units: 1, price: 400, fees: 0 },
+      ];
+
+      const plan = await new RebalancingService(marketDataService)
+        .generatePlan(transactions, new Date('2025-01-07T00:00:00Z'));
+
+      expect(plan.date).toBe('2025-01-07');
+      expect(plan.estimatedPrices).toEqual(['QQQ']);
+      expect(plan.totalValue).toBe(400);
+    });
+  });
+
+  // ===========================================================================
+  // isRebalanceWindow() Tests
+  // ===========================================================================
+  describe('isRebalanceWindow', () => {
+    it('should match the first week of January in the given timezone', () => {
+      expect(service.isRebalanceWindow(new Date('2025-01-03T12:00:00Z'), 'UTC')).toBe(true);
+      expect(service.isRebalanceWindow(new Date('2025-01-08T12:00:00Z'), 'UTC')).toBe(false);
+      expect(service.isRebalanceWindow(new Date('2025-02-03T12:00:00Z'), 'UTC')).toBe(false);
+    });
+
+    it('should use local date rather than UTC', () => {
+      // 31 Dec 20:00 UTC is already 1 Jan in Auckland
+      const date = new Date('2024-12-31T20:00:00Z');
+      expect(service.isRebalanceWindow(date, 'Pacific/Auckland')).toBe(true);
+      expect(service.isRebalanceWindow(date, 'UTC')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { HoldingsService } from './holdings';
+import { MarketDataService } from './marketData';
+import {
+  HoldingPosition,
+  NewHoldingTransaction,
+  RebalancePlan,
+  RebalancePosition,
+  RebalanceTrade
+} from '../types';
+import { BASE_ALLOCATIONS, REBALANCE_CONFIG } from '../utils/multiplierThresholds';
+
+/**
+ * Rebalancing Service
+ *
+ * Implements the annual January rebalance from the strategy document:
+ * a position breaches when its weight exceeds target × 1.5. When any
+ * position breaches, the excess of each breached position is sold back
+ * to target and the proceeds are redistributed to underweight positions
+ * in proportion to their shortfall.
+ *
+ * Assets held but not in BASE_ALLOCATIONS count toward total value but
+ * are never traded.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * Quotes come from MarketDataService (which never throws). Positions
+ * without a live quote are valued at their average cost and listed in
+ * `estimatedPrices` so the plan can be checked by hand.
+ */
+export class RebalancingService {
+  private marketDataService: MarketDataService;
+  private holdingsService: HoldingsService;
+
+  constructor(marketDataService?: MarketDataService, holdingsService?: HoldingsService) {
+    this.marketDataService = marketDataService ?? new MarketDataService();
+    this.holdingsService = holdingsService ?? new HoldingsService();
+  }
+
+  /**
+   * Build a rebalancing plan from the ledger at live prices
+   * Simulated quotes are discarded rather than used for trade sizing
+   */
+  async generatePlan(transactions: NewHoldingTransaction[], date: Date = new Date()): Promise<RebalancePlan> {
+    const positions = this.holdingsService.calculatePositions(transactions);
+    const symbols = [...new Set([
+      ...Object.keys(BASE_ALLOCATIONS),
+      ...positions.filter(p => p.units > 0).map(p => p.symbol)
+    ])];
+
+    const quotes = await Promise.all(symbols.map(s => this.marketDataService.fetchStockData(s)));
+    const prices: Record<string, number> = {};
+    for (const quote of quotes) {
+      if (quote.dataSource !== 'simulated') {
+        prices[quote.symbol] = quote.price;
+      }
+    }
+
+    return this.createPlan(positions, prices, date.toISOString().split('T')[0]);
+  }
+
+  /**
+   * Compare positions against BASE_ALLOCATIONS and propose trades
+   *
+   * @param positions - Positions derived from the ledger
+   * @param prices - Market prices by symbol (missing → average cost)
+   * @param date - Plan date ("YYYY-MM-DD")
+   */
+  createPlan(positions: HoldingPosition[], prices: Record<string, number>, date: string): RebalancePlan {
+    const open = positions.filter(p => p.units > 0);
+    const estimatedPrices = open.filter(p => !(prices[p.symbol] > 0)).map(p => p.symbol);
+
+    const effectivePrices = { ...prices };
+    for (const position of open) {
+      if (!(effectivePrices[position.symbol] > 0)) {
+        effectivePrices[position.symbol] = position.averageCost;
+      }
+    }
+
+    const valued = this.holdingsService.valuePositions(open, effectivePrices);
+    const valueBySymbol = new Map(valued.map(p => [p.symbol, p.marketValue]));
+    const totalValue = valued.reduce((sum, p) => sum + p.marketValue, 0);
+
+    const symbols = [...new Set([...Object.keys(BASE_ALLOCATIONS), ...valueBySymbol.keys()])];
+    const rebalancePositions: RebalancePosition[] = symbols.map(symbol => {
+      const marketValue = valueBySymbol.get(symbol) ?? 0;
+      const targetPercent = BASE_ALLOCATIONS[symbol] ?? 0;
+      const thresholdPercent = targetPercent * REBALANCE_CONFIG.TRIGGER_RATIO;
+      const currentPercent = totalValue > 0 ? (marketValue / totalValue) * 100 : 0;
+
+      return {
+        symbol,
+        marketValue: this.round(marketValue),
+        currentPercent: this.round(currentPercent),
+        targetPercent,
+        thresholdPercent: this.round(thresholdPercent),
+        targetValue: this.round((totalValue * targetPercent) / 100),
+        breached: targetPercent > 0 && currentPercent > thresholdPercent
+      };
+    });
+
+    const breaches = rebalancePositions.filter(p => p.breached).map(p => p.symbol);
+
+    return {
+      date,
+      totalValue: this.round(totalValue),
+      needsRebalance: breaches.length > 0,
+      breaches,
+      estimatedPrices,
+      positions: rebalancePositions,
+      trades: breaches.length > 0 ? this.proposeTrades(rebalancePositions, effectivePrices) : []
+    };
+  }
+
+  /**
+   * Whether `date` falls in the January rebalancing window (in the given timezone)
+   */
+  isRebalanceWindow(date: Date, timezone: string): boolean {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      month: 'numeric',
+      day: 'numeric'
+    }).formatToParts(date);
+
+    const month = Number(parts.find(p => p.type === 'month')?.value);
+    const day = Number(parts.find(p => p.type === 'day')?.value);
+
+    return month === REBALANCE_CONFIG.MONTH && day <= REBALANCE_CONFIG.WINDOW_DAYS;
+  }
+
+  /**
+   * Sell breached positions down to target, redistribute to underweight
+   * positions in proportion to their shortfall
+   */
+  private proposeTrades(positions: RebalancePosition[], prices: Record<string, number>): RebalanceTrade[] {
+    const sells = positions
+      .filter(p => p.breached)
+      .map(p => this.buildTrade(p.symbol, 'SELL', p.marketValue - p.targetValue, prices));
+
+    const proceeds = sells.reduce((sum, t) => sum + t.amount, 0);
+    const underweight = positions.filter(p => p.targetPercent > 0 && p.marketValue < p.targetValue);
+    const totalShortfall = underweight.reduce((sum, p) => sum + (p.targetValue - p.marketValue), 0);
+
+    const buys = totalShortfall > 0
+      ? underweight.map(p => this.buildTrade(
+          p.symbol,
+          'BUY',
+          proceeds * ((p.targetValue - p.marketValue) / totalShortfall),
+          prices
+        ))
+      : [];
+
+    return [...sells, ...buys].filter(t => t.amount > 0);
+  }
+
+  private buildTrade(
+    symbol: string,
+    action: RebalanceTrade['action'],
+    amount: number,
+    prices: Record<string, number>
+  ): RebalanceTrade {
+    const price = prices[symbol] > 0 ? prices[symbol] : null;
+
+    return {
+      symbol,
+      action,
+      amount: this.round(amount),
+      units: price ? Math.round((amount / price) * 1e6) / 1e6 : null,
+      price
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
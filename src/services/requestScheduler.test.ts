@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RequestScheduler, isRetryableError } from './requestScheduler';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+// Scheduler whose backoff resolves immediately and records the delays asked for
+const createScheduler = (options: ConstructorParameters<typeof RequestScheduler>[0] = {}) => {
+  const delays: number[] = [];
+  const scheduler = new RequestScheduler(options, async ms => {
+    delays.push(ms);
+  }, () => 0.5);
+  return { scheduler, delays };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  // ===========================================================================
+  // Concurrency Tests
+  // ===========================================================================
+  describe('concurrency', () => {
+    it('should cap requests in flight per provider', async () => {
+      const { scheduler } = createScheduler({ concurrency: 2 });
+      let inFlight = 0;
+      let peak = 0;
+      const task = async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return inFlight;
+      };
+
+      await Promise.all(Array.from({ length: 6 }, () => scheduler.run('yahoo-finance2', task)));
+
+      expect(peak).toBe(2);
+    });
+
+    it('should not share slots between providers', async () => {
+      const { scheduler } = createScheduler({ concurrency: 1 });
+      let inFlight = 0;
+      let peak = 0;
+      const task = async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+      };
+
+      await Promise.all([scheduler.run('yahoo-finance2', task), scheduler.run('axios-fallback', task)]);
+
+      expect(peak).toBe(2);
+    });
+  });
+
+  // ===========================================================================
+  // Retry Tests
+  // ===========================================================================
+  describe('retries', () => {
+    it('should retry transient failures with exponential backoff', async () => {
+      const { scheduler, delays } = createScheduler({ baseDelayMs: 100 });
+      const task = vi.fn()
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce('ok');
+
+      expect(await scheduler.run('yahoo-finance2', task)).toBe('ok');
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([75, 150]);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const { scheduler } = createScheduler();
+      const task = vi.fn().mockRejectedValue(new Error('Invalid quote response'));
+
+      await expect(scheduler.run('yahoo-finance2', task)).rejects.toThrow('Invalid quote response');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up with the last error after maxRetries', async () => {
+      const { scheduler } = createScheduler({ maxRetries: 2 });
+      const task = vi.fn().mockRejectedValue(httpError(500));
+
+      await expect(scheduler.run('axios-fallback', task)).rejects.toThrow('HTTP 500');
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cap the backoff at maxDelayMs', () => {
+      const { scheduler } = createScheduler({ baseDelayMs: 500, maxDelayMs: 2000 });
+
+      expect(scheduler.getBackoffMs(0)).toBe(375);
+      expect(scheduler.getBackoffMs(5)).toBe(1500);
+    });
+  });
+
+  // ===========================================================================
+  // getStats() Tests
+  // ===========================================================================
+  describe('getStats', () => {
+    it('should record requests, retries and failures per provider', async () => {
+      const { scheduler } = createScheduler({ maxRetries: 1 });
+
+      await scheduler.run('yahoo-finance2', vi.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(1));
+      await scheduler.run('yahoo-finance2', async () => 2);
+      await scheduler.run('csv', async () => { throw new Error('missing file'); }).catch(() => null);
+
+      expect(scheduler.getStats()).toEqual([
+        expect.objectContaining({ provider: 'yahoo-finance2', requests: 2, retries: 1, failures: 0 }),
+        expect.objectContaining({ provider: 'csv', requests: 1, retries: 0, failures: 1 }),
+      ]);
+    });
+  });
+});
+
+// ===========================================================================
+// isRetryableError() Tests
+// ===========================================================================
+describe('isRetryableError', () => {
+  it('should retry rate limits and server errors', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(502))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Too Many Requests'), { code: 429 }))).toBe(true);
+  });
+
+  it('should retry dropped connections and timeouts', () => {
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('timeout'), { code: 'ECONNABORTED' }))).toBe(true);
+  });
+
+  it('should not retry client errors or plain errors', () => {
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('no such file'), { code: 'ENOENT' }))).toBe(false);
+    expect(isRetryableError(new Error('Invalid response'))).toBe(false);
+    expect(isRetryableError('offline')).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+import { ProviderDataSource, ProviderRequestStats } from '../types';
+
+/**
+ * Scheduler defaults: 4 requests in flight per provider, 3 retries,
+ * backoff doubling from 500ms up to 8s
+ */
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+  concurrency: 4,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Network error codes worth retrying (connection dropped, timed out, DNS blip)
+ */
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ECONNREFUSED', 'EAI_AGAIN', 'ENETUNREACH'];
+
+export interface RequestSchedulerOptions {
+  concurrency: number;            // Requests in flight per provider
+  maxRetries: number;             // Retries after the first attempt (0 = no retries)
+  baseDelayMs: number;            // Backoff before the first retry (doubles each retry)
+  maxDelayMs: number;             // Backoff cap
+}
+
+interface StatsEntry {
+  requests: number;
+  retries: number;
+  failures: number;
+  totalLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+/**
+ * Whether a provider error is transient: HTTP 429/5xx or a network error
+ * Understands axios errors (`response.status`, string `code`) and
+ * yahoo-finance2 HTTPErrors (numeric `code`). Anything else - bad
+ * responses, missing files, too little data - fails straight away.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { code, status, response } = error as { code?: unknown; status?: unknown; response?: { status?: unknown } };
+  const httpStatus = [response?.status, status, code].find((value): value is number => typeof value === 'number');
+
+  if (httpStatus !== undefined) {
+    return httpStatus === 429 || httpStatus >= 500;
+  }
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Request Scheduler
+ *
+ * Runs provider calls with a per-provider concurrency cap and retries
+ * transient failures with jittered exponential backoff, so a single 429
+ * does not demote a symbol to the next provider in the chain. A request
+ * keeps its slot while backing off, which slows the whole provider down
+ * when it starts rate limiting.
+ *
+ * Retry counts and latencies (including backoff) are recorded per provider
+ * and read with `getStats()`.
+ *
+ * ## Error Handling Strategy: THROWS THE LAST ERROR
+ *
+ * When a task fails with a non-retryable error, or still fails after
+ * `maxRetries` retries, `run()` rejects with that error. The caller
+ * (MarketDataService) decides whether to fall back.
+ */
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+
+  private active = new Map<ProviderDataSource, number>();
+  private waiting = new Map<ProviderDataSource, Array<() => void>>();
+  private stats = new Map<ProviderDataSource, StatsEntry>();
+
+  /**
+   * @param options - Overrides for DEFAULT_SCHEDULER_OPTIONS
+   * @param sleep - Backoff delay (injectable for tests)
+   * @param random - Jitter source in [0, 1) (injectable for tests)
+   */
+  constructor(
+    options: Partial<RequestSchedulerOptions> = {},
+    sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+    random: () => number = Math.random
+  ) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.sleep = sleep;
+    this.random = random;
+  }
+
+  /**
+   * Run a provider call once a slot is free, retrying transient failures
+   *
+   * @throws The task's error if it is not retryable or retries run out
+   */
+  async run<T>(provider: ProviderDataSource, task: () => Promise<T>): Promise<T> {
+    await this.acquire(provider);
+
+    const entry = this.getEntry(provider);
+    const started = Date.now();
+    entry.requests++;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await task();
+        } catch (error) {
+          if (attempt >= this.options.maxRetries || !isRetryableError(error)) {
+            entry.failures++;
+            throw error;
+          }
+          entry.retries++;
+          const delay = this.getBackoffMs(attempt);
+          console.warn(`   ↻ ${provider}: transient failure, retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`);
+          await this.sleep(delay);
+        }
+      }
+    } finally {
+      const latency = Date.now() - started;
+      entry.totalLatencyMs += latency;
+      entry.maxLatencyMs = Math.max(entry.maxLatencyMs, latency);
+      this.release(provider);
+    }
+  }
+
+  /**
+   * Backoff before retry `attempt + 1`: half the capped exponential delay plus up to half again at random
+   */
+  getBackoffMs(attempt: number): number {
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(cap / 2 + this.random() * (cap / 2));
+  }
+
+  /**
+   * Per-provider request counts, retries and latencies since construction
+   */
+  getStats(): ProviderRequestStats[] {
+    return [...this.stats.entries()].map(([provider, entry]) => ({
+      provider,
+      requests: entry.requests,
+      retries: entry.retries,
+      failures: entry.failures,
+      avgLatencyMs: entry.requests > 0 ? Math.round(entry.totalLatencyMs / entry.requests) : 0,
+      maxLatencyMs: entry.maxLatencyMs,
+    }));
+  }
+
+  /**
+   * Take a slot for the provider, waiting for one if all are in use
+   */
+  private async acquire(provider: ProviderDataSource): Promise<void> {
+    const active = this.active.get(provider) ?? 0;
+    if (active < this.options.concurrency) {
+      this.active.set(provider, active + 1);
+      return;
+    }
+
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>(resolve => {
+      const queue = this.waiting.get(provider) ?? [];
+      queue.push(resolve);
+      this.waiting.set(provider, queue);
+    });
+  }
+
+  /**
+   * Give a slot back, or pass it to the next waiting request
+   */
+  private release(provider: ProviderDataSource): void {
+    const next = this.waiting.get(provider)?.shift();
+    if (next) {
+      next();
+    } else {
+      this.active.set(provider, (this.active.get(provider) ?? 1) - 1);
+    }
+  }
+
+  private getEntry(provider: ProviderDataSource): StatsEntry {
+    let entry = this.stats.get(provider);
+    if (!entry) {
+      entry = { requests: 0, retries: 0, failures: 0, totalLatencyMs: 0, maxLatencyMs: 0 };
+      this.stats.set(provider, entry);
+    }
+    return entry;
+  }
+}
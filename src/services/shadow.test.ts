@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ShadowStrategyService } from './shadow';
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import { MarketInputs, ShadowEvaluation, StrategyDefinition } from '../types';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
+import { createMockConfig } from '../test/fixtures';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const createStockInput = (symbol: string, price: number) => ({
+  symbol,
+  marketData: {
+    symbol, price, previousClose: price, change: 0, changePercent: 0,
+    volume: 0, timestamp: new Date(), dataSource: 'yahoo-finance2' as const,
+  },
+  prices: Array.from({ length: 100 }, (_, i) => 100 + Math.sin(i / 5) * 3),
+  historySource: 'yahoo-finance2' as const,
+});
+
+// Fearful market: every strategy scores high, so weight changes show in amounts
+const INPUTS: MarketInputs = {
+  date: new Date('2025-03-05T07:00:00Z'),
+  vix: 32,
+  vixSource: 'yahoo-finance2',
+  fearGreed: { value: 20, rating: 'Extreme Fear', timestamp: new Date(), success: true },
+  stocks: [createStockInput('QQQ', 92), createStockInput('TLT', 101)],
+};
+
+// Draft that ignores VIX and F&G and uses the conservative curve for moderate
+const DRAFT: StrategyDefinition = {
+  ...DEFAULT_STRATEGY,
+  version: '4.4-draft',
+  weights: { vix: 0, rsi: 0.5, bbWidth: 0.25, ma50: 0.25, fearGreed: 0 },
+  riskProfiles: {
+    ...DEFAULT_STRATEGY.riskProfiles,
+    moderate: { ...DEFAULT_STRATEGY.riskProfiles.conservative, name: 'moderate' },
+  },
+};
+
+const createEvaluation = (date: string, total: number, liveTotal: number, version = '4.4'): ShadowEvaluation => ({
+  date,
+  timestamp: `${date}T07:00:00.000Z`,
+  strategyId: 'CSS',
+  strategyVersion: version,
+  riskTolerance: 'moderate',
+  liveStrategyId: 'CSS',
+  liveStrategyVersion: '4.3',
+  totalAmount: total,
+  liveTotalAmount: liveTotal,
+  marketCSS: 50,
+  allocations: [
+    { symbol: 'QQQ', cssScore: 60, multiplier: 1.0, amount: total, liveCssScore: 55, liveAmount: liveTotal },
+  ],
+});
+
+describe('ShadowStrategyService', () => {
+  let engine: PortfolioAllocationEngine;
+  let service: ShadowStrategyService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    engine = new PortfolioAllocationEngine();
+    service = new ShadowStrategyService(engine);
+  });
+
+  // ===========================================================================
+  // evaluate() Tests
+  // ===========================================================================
+  describe('evaluate', () => {
+    it('should score each shadow on the live inputs', () => {
+      const config = createMockConfig();
+      const live = engine.buildReport(INPUTS, config);
+      const [shadow] = service.evaluate(INPUTS, live, config, [DRAFT]);
+
+      expect(shadow.date).toBe('2025-03-05');
+      expect(shadow.strategyVersion).toBe('4.4-draft');
+      expect(shadow.liveStrategyVersion).toBe('4.3');
+      expect(shadow.liveTotalAmount).toBe(live.totalAmount);
+      expect(shadow.allocations.map(a => a.symbol)).toEqual(['QQQ', 'TLT']);
+
+      const qqq = shadow.allocations[0];
+      expect(qqq.liveAmount).toBe(live.allocations[0].amount);
+      expect(qqq.cssScore).not.toBe(qqq.liveCssScore);
+    });
+
+    it('should match the live report when the shadow is the live strategy', () => {
+      const config = createMockConfig();
+      const live = engine.buildReport(INPUTS, config);
+      const [shadow] = service.evaluate(INPUTS, live, config, [{ ...DEFAULT_STRATEGY, version: 'copy' }]);
+
+      expect(shadow.totalAmount).toBe(live.totalAmount);
+      expect(shadow.allocations.every(a => a.amount === a.liveAmount)).toBe(true);
+    });
+
+    it('should use the shadow budget range from its own risk profile', () => {
+      const config = createMockConfig();
+      const live = engine.buildReport(INPUTS, config);
+      const [shadow] = service.evaluate(INPUTS, live, config, [DRAFT]);
+
+      // Conservative curve caps at 1.1x
+      expect(shadow.allocations.every(a => a.multiplier <= 1.1)).toBe(true);
+      expect(shadow.totalAmount).toBeLessThanOrEqual(275);
+    });
+
+    it('should default to the configured shadow strategies', () => {
+      const config = createMockConfig({ shadowStrategies: [DRAFT] });
+      const live = engine.buildReport(INPUTS, config);
+
+      expect(service.evaluate(INPUTS, live, config)).toHaveLength(1);
+      expect(service.evaluate(INPUTS, live, createMockConfig())).toEqual([]);
+    });
+
+    it('should skip a shadow that fails without affecting others', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const config = createMockConfig();
+      const live = engine.buildReport(INPUTS, config);
+      const broken = { ...DRAFT, version: 'broken', riskProfiles: {} } as unknown as StrategyDefinition;
+
+      const shadows = service.evaluate(INPUTS, live, config, [broken, DRAFT]);
+
+      expect(shadows.map(s => s.strategyVersion)).toEqual(['4.4-draft']);
+    });
+  });
+
+  // ===========================================================================
+  // compare() Tests
+  // ===========================================================================
+  describe('compare', () => {
+    it('should line up live vs shadow totals oldest first', () => {
+      const [comparison] = service.compare([
+        createEvaluation('2025-03-12', 260, 250),
+        createEvaluation('2025-03-05', 200, 240),
+      ]);
+
+      expect(comparison.runs).toBe(2);
+      expect(comparison.rows.map(r => r.date)).toEqual(['2025-03-05', '2025-03-12']);
+      expect(comparison.rows.map(r => r.difference)).toEqual([-40, 10]);
+      expect(comparison.liveTotal).toBe(490);
+      expect(comparison.shadowTotal).toBe(460);
+      expect(comparison.difference).toBe(-30);
+      expect(comparison.meanAbsoluteDifference).toBe(25);
+      expect(comparison.rows[0].symbols[0]).toEqual({
+        symbol: 'QQQ', liveAmount: 240, shadowAmount: 200, liveCssScore: 55, shadowCssScore: 60,
+      });
+    });
+
+    it('should group by strategy version', () => {
+      const comparisons = service.compare([
+        createEvaluation('2025-03-05', 200, 240, '4.4'),
+        createEvaluation('2025-03-05', 250, 240, '4.5'),
+      ]);
+
+      expect(comparisons.map(c => c.strategyVersion)).toEqual(['4.4', '4.5']);
+    });
+
+    it('should return nothing for no evaluations', () => {
+      expect(service.compare([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { PortfolioAllocationEngine } from './portfolioAllocation';
+import {
+  AllocationReport,
+  Config,
+  MarketInputs,
+  ShadowComparison,
+  ShadowComparisonRow,
+  ShadowEvaluation,
+  StrategyDefinition
+} from '../types';
+import { getBudgetRange } from '../utils/multiplierThresholds';
+import { formatStrategyLabel } from '../utils/strategy';
+
+/**
+ * Shadow Strategy Service
+ *
+ * Lets a draft strategy (e.g. v4.4) run for weeks without acting on it:
+ * each shadow definition is scored on the exact MarketInputs fetched for
+ * the live run, and the per-symbol CSS and amounts are recorded next to
+ * the live ones for later comparison.
+ *
+ * Shadows use the live risk tolerance and base budget; the budget floor
+ * and cap come from the shadow strategy's own risk profile.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * A shadow that fails to score is logged and left out, so a broken draft
+ * can never block the live report.
+ */
+export class ShadowStrategyService {
+  private engine: PortfolioAllocationEngine;
+
+  constructor(engine?: PortfolioAllocationEngine) {
+    this.engine = engine ?? new PortfolioAllocationEngine();
+  }
+
+  /**
+   * Score each shadow strategy on the live run's inputs
+   *
+   * @param inputs - Market inputs the live report was built from
+   * @param liveReport - The live report, for side-by-side amounts
+   * @param config - Live configuration
+   * @param strategies - Shadow definitions (defaults to config.shadowStrategies)
+   */
+  evaluate(
+    inputs: MarketInputs,
+    liveReport: AllocationReport,
+    config: Config,
+    strategies: StrategyDefinition[] = config.shadowStrategies
+  ): ShadowEvaluation[] {
+    const evaluations: ShadowEvaluation[] = [];
+    const live = new Map(liveReport.allocations.map(a => [a.symbol, a]));
+
+    for (const strategy of strategies) {
+      try {
+        const report = this.engine.buildReport(inputs, this.withStrategy(config, strategy));
+
+        evaluations.push({
+          date: liveReport.date.toISOString().split('T')[0],
+          timestamp: liveReport.date.toISOString(),
+          strategyId: strategy.id,
+          strategyVersion: strategy.version,
+          riskTolerance: report.riskTolerance,
+          liveStrategyId: liveReport.strategyId,
+          liveStrategyVersion: liveReport.strategyVersion,
+          totalAmount: report.totalAmount,
+          liveTotalAmount: liveReport.totalAmount,
+          marketCSS: report.marketCSS,
+          allocations: report.allocations.map(a => ({
+            symbol: a.symbol,
+            cssScore: a.cssScore,
+            multiplier: a.multiplier,
+            amount: a.amount,
+            liveCssScore: live.get(a.symbol)?.cssScore ?? null,
+            liveAmount: live.get(a.symbol)?.amount ?? null
+          }))
+        });
+      } catch (error) {
+        console.error(`✗ Shadow strategy ${formatStrategyLabel(strategy)} failed:`, error);
+      }
+    }
+
+    return evaluations;
+  }
+
+  /**
+   * Group stored evaluations by shadow strategy version and line up
+   * live vs shadow amounts per run date
+   */
+  compare(evaluations: ShadowEvaluation[]): ShadowComparison[] {
+    const byStrategy = new Map<string, ShadowEvaluation[]>();
+    for (const evaluation of evaluations) {
+      const key = formatStrategyLabel({ id: evaluation.strategyId, version: evaluation.strategyVersion });
+      const list = byStrategy.get(key) ?? [];
+      list.push(evaluation);
+      byStrategy.set(key, list);
+    }
+
+    return [...byStrategy.values()].map(list => {
+      const rows: ShadowComparisonRow[] = [...list]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(e => ({
+          date: e.date,
+          liveTotal: e.liveTotalAmount,
+          shadowTotal: e.totalAmount,
+          difference: this.round(e.totalAmount - e.liveTotalAmount),
+          symbols: e.allocations.map(a => ({
+            symbol: a.symbol,
+            liveAmount: a.liveAmount,
+            shadowAmount: a.amount,
+            liveCssScore: a.liveCssScore,
+            shadowCssScore: a.cssScore
+          }))
+        }));
+
+      const liveTotal = this.round(rows.reduce((sum, r) => sum + r.liveTotal, 0));
+      const shadowTotal = this.round(rows.reduce((sum, r) => sum + r.shadowTotal, 0));
+
+      return {
+        strategyId: list[0].strategyId,
+        strategyVersion: list[0].strategyVersion,
+        runs: rows.length,
+        liveTotal,
+        shadowTotal,
+        difference: this.round(shadowTotal - liveTotal),
+        meanAbsoluteDifference: this.round(
+          rows.reduce((sum, r) => sum + Math.abs(r.difference), 0) / rows.length
+        ),
+        rows
+      };
+    });
+  }
+
+  /**
+   * Live config with the shadow strategy and its budget range swapped in
+   */
+  private withStrategy(config: Config, strategy: StrategyDefinition): Config {
+    return {
+      ...config,
+      strategy,
+      ...getBudgetRange(config.weeklyInvestmentAmount, strategy.riskProfiles[config.riskTolerance])
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,180 @@
+import { ConvexHttpClient } from "convex/browser";
+import {
+  BenchmarkHistoryRow,
+  HistoryStatistics,
+  HoldingTransaction,
+  JobRunRecord,
+  MarketInputArchiveRecord,
+  NewHoldingTransaction,
+  NewSnapshotRevision,
+  NewStockAnalysis,
+  SavedSnapshotRevision,
+  ShadowEvaluation,
+  SnapshotWithStocks,
+  StockHistoryRow,
+  StorageBackend,
+  StoredJobRun,
+  StoredSnapshot
+} from "../../types";
+
+/**
+ * Hosted Convex deployment (DATABASE_URL=https://<project>.convex.cloud)
+ *
+ * Calls the queries and mutations in convex/. Their generated API is
+ * created by `pnpm exec convex dev` and loaded on first use.
+ *
+ * ## Error Handling Strategy: THROWS
+ *
+ * A missing generated API or a failed call throws; DatabaseService
+ * catches and reports it.
+ */
+export class ConvexStorage implements StorageBackend {
+  readonly name = 'convex' as const;
+
+  private client: ConvexHttpClient;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private api: Promise<any> | null = null;
+
+  constructor(convexUrl: string) {
+    this.client = new ConvexHttpClient(convexUrl);
+  }
+
+  async saveSnapshotRevision(
+    snapshot: NewSnapshotRevision,
+    analyses: NewStockAnalysis[],
+    takeOfficial: boolean
+  ): Promise<SavedSnapshotRevision> {
+    const api = await this.loadApi();
+    return await this.client.mutation(api.snapshots.saveSnapshotRevision, { snapshot, analyses, takeOfficial });
+  }
+
+  async getSnapshotRevisions(date: string): Promise<StoredSnapshot[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getSnapshotRevisions, { date });
+  }
+
+  async setOfficialRevision(snapshotId: string): Promise<StoredSnapshot | null> {
+    const api = await this.loadApi();
+    return await this.client.mutation(api.snapshots.setOfficialRevision, { snapshotId });
+  }
+
+  async getRecentSnapshots(limit: number): Promise<StoredSnapshot[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getRecentSnapshots, { limit });
+  }
+
+  async getSnapshotWithStocks(snapshotId: string): Promise<SnapshotWithStocks | null> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getSnapshotWithStocks, { snapshotId });
+  }
+
+  async getStockHistory(symbol: string, limit: number): Promise<StockHistoryRow[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getStockHistory, { symbol, limit });
+  }
+
+  async getSnapshotsByDateRange(startDate: string, endDate: string): Promise<StoredSnapshot[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getSnapshotsByDateRange, { startDate, endDate });
+  }
+
+  async getStockAnalysesByDateRange(startDate: string, endDate: string): Promise<BenchmarkHistoryRow[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getStockAnalysesByDateRange, { startDate, endDate });
+  }
+
+  async getStatistics(): Promise<HistoryStatistics> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getStatistics, {});
+  }
+
+  async getLatestSnapshot(): Promise<SnapshotWithStocks | null> {
+    const api = await this.loadApi();
+    return await this.client.query(api.snapshots.getLatestSnapshot, {});
+  }
+
+  async saveMarketInputArchive(archive: MarketInputArchiveRecord): Promise<void> {
+    const api = await this.loadApi();
+    const { data } = archive;
+    await this.client.mutation(api.archives.saveMarketInputArchive, {
+      ...archive,
+      // v.bytes() takes an ArrayBuffer of exactly the archive bytes
+      data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+    });
+  }
+
+  async getMarketInputArchive(snapshotId: string): Promise<MarketInputArchiveRecord | null> {
+    const api = await this.loadApi();
+    const row = await this.client.query(api.archives.getMarketInputArchive, { snapshotId });
+    if (!row) return null;
+    return {
+      snapshotId: row.snapshotId,
+      date: row.date,
+      timestamp: row.timestamp,
+      encoding: row.encoding,
+      formatVersion: row.formatVersion,
+      sizeBytes: row.sizeBytes,
+      data: new Uint8Array(row.data as ArrayBuffer),
+    };
+  }
+
+  async addTransaction(transaction: NewHoldingTransaction): Promise<string> {
+    const api = await this.loadApi();
+    return await this.client.mutation(api.holdings.addTransaction, transaction) as string;
+  }
+
+  async getTransactions(symbol: string | undefined, limit: number): Promise<HoldingTransaction[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.holdings.getTransactions, { symbol, limit });
+  }
+
+  async getAllTransactions(): Promise<HoldingTransaction[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.holdings.getAllTransactions, {});
+  }
+
+  async saveShadowEvaluation(evaluation: ShadowEvaluation): Promise<void> {
+    const api = await this.loadApi();
+    await this.client.mutation(api.shadows.saveShadowEvaluation, evaluation);
+  }
+
+  async getShadowEvaluationsByDateRange(startDate: string, endDate: string, strategyId?: string): Promise<ShadowEvaluation[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.shadows.getShadowEvaluationsByDateRange, { startDate, endDate, strategyId });
+  }
+
+  async saveJobRun(run: JobRunRecord): Promise<void> {
+    const api = await this.loadApi();
+    await this.client.mutation(api.jobs.saveJobRun, run);
+  }
+
+  async getJobRuns(limit: number): Promise<StoredJobRun[]> {
+    const api = await this.loadApi();
+    return await this.client.query(api.jobs.getJobRuns, { limit });
+  }
+
+  async getJobRun(runId: string): Promise<StoredJobRun | null> {
+    const api = await this.loadApi();
+    return await this.client.query(api.jobs.getJobRun, { runId });
+  }
+
+  /**
+   * Load the generated Convex API once
+   * The generated api file is created by `npx convex dev`
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private loadApi(): Promise<any> {
+    if (!this.api) {
+      // Use string concatenation to prevent TypeScript from validating the path
+      // Path is relative to the compiled output in dist/services/storage/
+      const apiPath = '../../../convex/_generated/api' + '.js';
+      this.api = import(/* webpackIgnore: true */ apiPath).then(
+        convexModule => convexModule.api,
+        () => {
+          throw new Error('Convex API not generated. Run: pnpm exec convex dev');
+        }
+      );
+    }
+    return this.api;
+  }
+}
@@ -0,0 +1,510 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import {
+  BenchmarkHistoryRow,
+  HistoryStatistics,
+  HoldingTransaction,
+  JobRunRecord,
+  MarketInputArchiveRecord,
+  NewHoldingTransaction,
+  NewSnapshotRevision,
+  NewStockAnalysis,
+  SavedSnapshotRevision,
+  ShadowEvaluation,
+  SnapshotRecord,
+  SnapshotWithStocks,
+  StockAnalysisRecord,
+  StockHistoryRow,
+  StorageBackend,
+  StoredJobRun,
+  StoredSnapshot,
+  StoredStockAnalysis
+} from "../../types";
+
+/**
+ * Schema migrations, applied in order and tracked in PRAGMA user_version
+ * Append new steps - never edit one that has shipped
+ *
+ * Documents are stored as JSON with the queried fields copied into
+ * indexed columns, mirroring the Convex tables in convex/schema.ts.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE weekly_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    doc TEXT NOT NULL
+  );
+  CREATE INDEX weekly_snapshots_by_date ON weekly_snapshots (date);
+  CREATE INDEX weekly_snapshots_by_timestamp ON weekly_snapshots (timestamp);
+
+  CREATE TABLE stock_analyses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    snapshot_id INTEGER NOT NULL REFERENCES weekly_snapshots (id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL,
+    doc TEXT NOT NULL
+  );
+  CREATE INDEX stock_analyses_by_snapshot ON stock_analyses (snapshot_id);
+  CREATE INDEX stock_analyses_by_symbol ON stock_analyses (symbol);
+
+  CREATE TABLE market_input_archives (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    snapshot_id INTEGER NOT NULL REFERENCES weekly_snapshots (id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    encoding TEXT NOT NULL,
+    format_version INTEGER NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    data BLOB NOT NULL
+  );
+  CREATE INDEX market_input_archives_by_snapshot ON market_input_archives (snapshot_id);
+
+  CREATE TABLE transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    symbol TEXT NOT NULL,
+    date TEXT NOT NULL,
+    doc TEXT NOT NULL
+  );
+  CREATE INDEX transactions_by_symbol ON transactions (symbol);
+  CREATE INDEX transactions_by_date ON transactions (date);
+
+  CREATE TABLE shadow_evaluations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    strategy_id TEXT NOT NULL,
+    strategy_version TEXT NOT NULL,
+    doc TEXT NOT NULL
+  );
+  CREATE INDEX shadow_evaluations_by_timestamp ON shadow_evaluations (timestamp);
+  CREATE INDEX shadow_evaluations_by_strategy_date ON shadow_evaluations (strategy_id, strategy_version, date);
+  `,
+  // Full CSS breakdown per stock: older rows get null for the new fields,
+  // and their placeholder previousClose/changePercent (price, 0) become null
+  `
+  UPDATE stock_analyses SET doc = json_set(doc,
+    '$.previousClose', json('null'),
+    '$.changePercent', json('null'),
+    '$.ma50Slope', json('null'),
+    '$.cssMultiplier', json('null'),
+    '$.ma50SlopeBonus', json('null'),
+    '$.ma50ScoreAdjusted', json('null'),
+    '$.weightsAdjusted', json('null'),
+    '$.strength', json('null'),
+    '$.quoteSource', json('null'),
+    '$.historySource', json('null'),
+    '$.indicatorSource', json('null')
+  )
+  WHERE json_type(doc, '$.ma50SlopeBonus') IS NULL;
+  `,
+  // Snapshot revisions: older rows were the only one for their date
+  `
+  ALTER TABLE weekly_snapshots ADD COLUMN is_official INTEGER NOT NULL DEFAULT 1;
+  UPDATE weekly_snapshots SET doc = json_set(doc, '$.revision', 1, '$.isOfficial', json('true'))
+  WHERE json_type(doc, '$.revision') IS NULL;
+  CREATE INDEX weekly_snapshots_by_date_official ON weekly_snapshots (date, is_official);
+  `,
+  `
+  CREATE TABLE job_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creation_time INTEGER NOT NULL,
+    run_id TEXT NOT NULL UNIQUE,
+    started_at TEXT NOT NULL,
+    doc TEXT NOT NULL
+  );
+  CREATE INDEX job_runs_by_started_at ON job_runs (started_at);
+  `,
+  // One row per date and revision: dates saved twice at once (both read
+  // the same latest revision) are renumbered in save order first
+  `
+  ALTER TABLE weekly_snapshots ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+  UPDATE weekly_snapshots SET revision = json_extract(doc, '$.revision');
+  UPDATE weekly_snapshots
+  SET revision = (SELECT COUNT(*) FROM weekly_snapshots s WHERE s.date = weekly_snapshots.date AND s.id <= weekly_snapshots.id)
+  WHERE date IN (SELECT date FROM weekly_snapshots GROUP BY date, revision HAVING COUNT(*) > 1);
+  UPDATE weekly_snapshots SET doc = json_set(doc, '$.revision', revision)
+  WHERE json_extract(doc, '$.revision') <> revision;
+  CREATE UNIQUE INDEX weekly_snapshots_by_date_revision ON weekly_snapshots (date, revision);
+  `,
+];
+
+interface DocumentRow {
+  id: number;
+  creation_time: number;
+  doc: string;
+}
+
+interface ArchiveRow {
+  snapshot_id: number;
+  date: string;
+  timestamp: string;
+  encoding: string;
+  format_version: number;
+  size_bytes: number;
+  data: Buffer;
+}
+
+/**
+ * Convex-style document: stored fields plus _id and _creationTime
+ */
+function toDocument<T>(row: DocumentRow): T & { _id: string; _creationTime: number } {
+  return { _id: String(row.id), _creationTime: row.creation_time, ...JSON.parse(row.doc) };
+}
+
+/**
+ * Row ID for a stored ID, or null if it cannot be one of ours
+ */
+function toRowId(id: string): number | null {
+  return /^\d+$/.test(id) ? Number(id) : null;
+}
+
+/**
+ * Local SQLite database file (DATABASE_URL=sqlite:./data/sip.db)
+ *
+ * Stores the same documents as the Convex tables and returns them in the
+ * same shape (string `_id`, `_creationTime`), so API responses do not
+ * depend on the backend. The file and its directory are created on first
+ * use; `sqlite::memory:` keeps everything in memory.
+ *
+ * ## Error Handling Strategy: THROWS
+ *
+ * Opening the file or any statement may throw; DatabaseService catches
+ * and reports it. Saving a revision (with its stock analyses) and changing
+ * the official revision each run in one transaction.
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly name = 'sqlite' as const;
+
+  private db: Database.Database;
+
+  constructor(file: string) {
+    if (file !== ':memory:') {
+      mkdirSync(path.dirname(file), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  async saveSnapshotRevision(
+    snapshot: NewSnapshotRevision,
+    analyses: NewStockAnalysis[],
+    takeOfficial: boolean
+  ): Promise<SavedSnapshotRevision> {
+    const latest = this.db.prepare(
+      'SELECT MAX(revision) AS revision, MAX(is_official) AS official FROM weekly_snapshots WHERE date = ?'
+    );
+    const unmark = this.db.prepare(`
+      UPDATE weekly_snapshots SET is_official = 0, doc = json_set(doc, '$.isOfficial', json('false'))
+      WHERE date = ? AND is_official = 1
+    `);
+    const insertSnapshot = this.db.prepare(
+      'INSERT INTO weekly_snapshots (creation_time, date, timestamp, revision, is_official, doc) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertAnalysis = this.db.prepare(
+      'INSERT INTO stock_analyses (creation_time, snapshot_id, symbol, doc) VALUES (?, ?, ?, ?)'
+    );
+
+    // IMMEDIATE takes the write lock before reading the latest revision
+    return this.db.transaction(() => {
+      const row = latest.get(snapshot.date) as { revision: number | null; official: number | null };
+      const revision = (row.revision ?? 0) + 1;
+      const isOfficial = takeOfficial || row.official !== 1;
+      if (isOfficial) {
+        unmark.run(snapshot.date);
+      }
+
+      const record: SnapshotRecord = { ...snapshot, revision, isOfficial };
+      const { lastInsertRowid } = insertSnapshot.run(
+        Date.now(), record.date, record.timestamp, revision, isOfficial ? 1 : 0, JSON.stringify(record)
+      );
+      const snapshotId = String(lastInsertRowid);
+      for (const analysis of analyses) {
+        insertAnalysis.run(Date.now(), lastInsertRowid, analysis.symbol, JSON.stringify({ snapshotId, ...analysis }));
+      }
+
+      return { snapshotId, revision, isOfficial };
+    }).immediate();
+  }
+
+  async getSnapshotRevisions(date: string): Promise<StoredSnapshot[]> {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE date = ? ORDER BY id')
+      .all(date) as DocumentRow[];
+    return rows.map(row => toDocument<SnapshotRecord>(row));
+  }
+
+  async setOfficialRevision(snapshotId: string): Promise<StoredSnapshot | null> {
+    const id = toRowId(snapshotId);
+    if (id === null) return null;
+
+    const select = this.db.prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE id = ?');
+    return this.db.transaction(() => {
+      const row = select.get(id) as DocumentRow | undefined;
+      if (!row) return null;
+
+      this.db.prepare(`
+        UPDATE weekly_snapshots
+        SET is_official = (id = @id), doc = json_set(doc, '$.isOfficial', json(CASE WHEN id = @id THEN 'true' ELSE 'false' END))
+        WHERE date = @date
+      `).run({ id, date: (JSON.parse(row.doc) as SnapshotRecord).date });
+
+      return toDocument<SnapshotRecord>(select.get(id) as DocumentRow);
+    })();
+  }
+
+  async getRecentSnapshots(limit: number): Promise<StoredSnapshot[]> {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE is_official = 1 ORDER BY id DESC LIMIT ?')
+      .all(limit) as DocumentRow[];
+    return rows.map(row => toDocument<SnapshotRecord>(row));
+  }
+
+  async getSnapshotWithStocks(snapshotId: string): Promise<SnapshotWithStocks | null> {
+    const id = toRowId(snapshotId);
+    if (id === null) return null;
+
+    const row = this.db
+      .prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE id = ?')
+      .get(id) as DocumentRow | undefined;
+    return row ? this.withStocks(toDocument<SnapshotRecord>(row)) : null;
+  }
+
+  async getStockHistory(symbol: string, limit: number): Promise<StockHistoryRow[]> {
+    const rows = this.db.prepare(`
+      SELECT a.id, a.creation_time, a.doc, s.doc AS snapshot_doc
+      FROM stock_analyses a
+      JOIN weekly_snapshots s ON s.id = a.snapshot_id
+      WHERE a.symbol = ? AND s.is_official = 1
+      ORDER BY a.id DESC
+      LIMIT ?
+    `).all(symbol, limit) as (DocumentRow & { snapshot_doc: string })[];
+
+    return rows.map(row => {
+      const snapshot = JSON.parse(row.snapshot_doc) as SnapshotRecord;
+      return {
+        ...toDocument<StockAnalysisRecord>(row),
+        snapshotTimestamp: snapshot.timestamp,
+        snapshotVix: snapshot.vix,
+        snapshotMarketCondition: snapshot.marketCondition,
+      };
+    });
+  }
+
+  async getSnapshotsByDateRange(startDate: string, endDate: string): Promise<StoredSnapshot[]> {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE timestamp >= ? AND timestamp <= ? AND is_official = 1 ORDER BY timestamp, id')
+      .all(startDate, endDate) as DocumentRow[];
+    return rows.map(row => toDocument<SnapshotRecord>(row));
+  }
+
+  async getStockAnalysesByDateRange(startDate: string, endDate: string): Promise<BenchmarkHistoryRow[]> {
+    const rows = this.db.prepare(`
+      SELECT a.doc, s.date AS snapshot_date, s.doc AS snapshot_doc
+      FROM weekly_snapshots s
+      JOIN stock_analyses a ON a.snapshot_id = s.id
+      WHERE s.timestamp >= ? AND s.timestamp <= ? AND s.is_official = 1
+      ORDER BY s.timestamp, s.id, a.id
+    `).all(startDate, endDate) as { doc: string; snapshot_date: string; snapshot_doc: string }[];
+
+    return rows.map(row => {
+      const stock = JSON.parse(row.doc) as StockAnalysisRecord;
+      return {
+        symbol: stock.symbol,
+        price: stock.price,
+        finalAmount: stock.finalAmount,
+        snapshotDate: row.snapshot_date,
+        baseBudget: (JSON.parse(row.snapshot_doc) as SnapshotRecord).baseBudget,
+      };
+    });
+  }
+
+  async getStatistics(): Promise<HistoryStatistics> {
+    const totals = this.db.prepare(`
+      SELECT
+        COUNT(*) AS count,
+        SUM(json_extract(doc, '$.totalAmount')) AS totalInvested,
+        AVG(json_extract(doc, '$.vix')) AS averageVix,
+        AVG(json_extract(doc, '$.marketCSS')) AS averageCSS
+      FROM weekly_snapshots
+      WHERE is_official = 1
+    `).get() as { count: number; totalInvested: number | null; averageVix: number | null; averageCSS: number | null };
+
+    const conditions = this.db.prepare(`
+      SELECT json_extract(doc, '$.marketCondition') AS condition, COUNT(*) AS count
+      FROM weekly_snapshots
+      WHERE is_official = 1
+      GROUP BY condition
+    `).all() as { condition: string; count: number }[];
+
+    const round = (value: number | null) => Math.round((value ?? 0) * 100) / 100;
+    return {
+      totalSnapshots: totals.count,
+      totalInvested: round(totals.totalInvested),
+      averageVix: round(totals.averageVix),
+      averageCSS: round(totals.averageCSS),
+      marketConditionDistribution: Object.fromEntries(conditions.map(c => [c.condition, c.count])),
+    };
+  }
+
+  async getLatestSnapshot(): Promise<SnapshotWithStocks | null> {
+    const row = this.db
+      .prepare('SELECT id, creation_time, doc FROM weekly_snapshots WHERE is_official = 1 ORDER BY id DESC LIMIT 1')
+      .get() as DocumentRow | undefined;
+    return row ? this.withStocks(toDocument<SnapshotRecord>(row)) : null;
+  }
+
+  async saveMarketInputArchive(archive: MarketInputArchiveRecord): Promise<void> {
+    const snapshotId = this.requireRowId(archive.snapshotId);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM market_input_archives WHERE snapshot_id = ?').run(snapshotId);
+      this.db.prepare(`
+        INSERT INTO market_input_archives
+          (creation_time, snapshot_id, date, timestamp, encoding, format_version, size_bytes, data)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        Date.now(), snapshotId, archive.date, archive.timestamp, archive.encoding,
+        archive.formatVersion, archive.sizeBytes, Buffer.from(archive.data)
+      );
+    })();
+  }
+
+  async getMarketInputArchive(snapshotId: string): Promise<MarketInputArchiveRecord | null> {
+    const id = toRowId(snapshotId);
+    if (id === null) return null;
+
+    const row = this.db
+      .prepare('SELECT * FROM market_input_archives WHERE snapshot_id = ? ORDER BY id LIMIT 1')
+      .get(id) as ArchiveRow | undefined;
+    if (!row) return null;
+
+    return {
+      snapshotId: String(row.snapshot_id),
+      date: row.date,
+      timestamp: row.timestamp,
+      encoding: row.encoding,
+      formatVersion: row.format_version,
+      sizeBytes: row.size_bytes,
+      data: new Uint8Array(row.data),
+    };
+  }
+
+  async addTransaction(transaction: NewHoldingTransaction): Promise<string> {
+    const doc = { ...transaction, createdAt: new Date().toISOString() };
+    const result = this.db
+      .prepare('INSERT INTO transactions (creation_time, symbol, date, doc) VALUES (?, ?, ?, ?)')
+      .run(Date.now(), transaction.symbol, transaction.date, JSON.stringify(doc));
+    return String(result.lastInsertRowid);
+  }
+
+  async getTransactions(symbol: string | undefined, limit: number): Promise<HoldingTransaction[]> {
+    const rows = (symbol
+      ? this.db
+        .prepare('SELECT id, creation_time, doc FROM transactions WHERE symbol = ? ORDER BY date DESC, id DESC LIMIT ?')
+        .all(symbol, limit)
+      : this.db
+        .prepare('SELECT id, creation_time, doc FROM transactions ORDER BY date DESC, id DESC LIMIT ?')
+        .all(limit)) as DocumentRow[];
+    return rows.map(row => toDocument<Omit<HoldingTransaction, '_id'>>(row));
+  }
+
+  async getAllTransactions(): Promise<HoldingTransaction[]> {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM transactions ORDER BY date, id')
+      .all() as DocumentRow[];
+    return rows.map(row => toDocument<Omit<HoldingTransaction, '_id'>>(row));
+  }
+
+  async saveShadowEvaluation(evaluation: ShadowEvaluation): Promise<void> {
+    const { date, timestamp, strategyId, strategyVersion } = evaluation;
+    this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM shadow_evaluations WHERE strategy_id = ? AND strategy_version = ? AND date = ?')
+        .run(strategyId, strategyVersion, date);
+      this.db.prepare(`
+        INSERT INTO shadow_evaluations (creation_time, date, timestamp, strategy_id, strategy_version, doc)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(Date.now(), date, timestamp, strategyId, strategyVersion, JSON.stringify(evaluation));
+    })();
+  }
+
+  async getShadowEvaluationsByDateRange(startDate: string, endDate: string, strategyId?: string): Promise<ShadowEvaluation[]> {
+    const rows = this.db.prepare(`
+      SELECT id, creation_time, doc FROM shadow_evaluations
+      WHERE timestamp >= ? AND timestamp <= ? AND (? IS NULL OR strategy_id = ?)
+      ORDER BY timestamp, id
+    `).all(startDate, endDate, strategyId ?? null, strategyId ?? null) as DocumentRow[];
+    return rows.map(row => toDocument<ShadowEvaluation>(row));
+  }
+
+  async saveJobRun(run: JobRunRecord): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO job_runs (creation_time, run_id, started_at, doc) VALUES (?, ?, ?, ?)
+      ON CONFLICT (run_id) DO UPDATE SET started_at = excluded.started_at, doc = excluded.doc
+    `).run(Date.now(), run.runId, run.startedAt, JSON.stringify(run));
+  }
+
+  async getJobRuns(limit: number): Promise<StoredJobRun[]> {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM job_runs ORDER BY started_at DESC, id DESC LIMIT ?')
+      .all(limit) as DocumentRow[];
+    return rows.map(row => toDocument<JobRunRecord>(row));
+  }
+
+  async getJobRun(runId: string): Promise<StoredJobRun | null> {
+    const row = this.db
+      .prepare('SELECT id, creation_time, doc FROM job_runs WHERE run_id = ?')
+      .get(runId) as DocumentRow | undefined;
+    return row ? toDocument<JobRunRecord>(row) : null;
+  }
+
+  /**
+   * Close the database file
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Apply migrations newer than the file's user_version
+   */
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (const [i, sql] of MIGRATIONS.entries()) {
+      if (i < version) continue;
+      this.db.transaction(() => {
+        this.db.exec(sql);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  /**
+   * Attach a snapshot's stock analyses
+   */
+  private withStocks(snapshot: StoredSnapshot): SnapshotWithStocks {
+    const rows = this.db
+      .prepare('SELECT id, creation_time, doc FROM stock_analyses WHERE snapshot_id = ? ORDER BY id')
+      .all(Number(snapshot._id)) as DocumentRow[];
+    return { snapshot, stocks: rows.map(row => toDocument<StockAnalysisRecord>(row) as StoredStockAnalysis) };
+  }
+
+  /**
+   * Row ID for a snapshot reference, throwing like Convex's v.id() validator
+   */
+  private requireRowId(id: string): number {
+    const rowId = toRowId(id);
+    if (rowId === null) {
+      throw new Error(`Invalid snapshot ID: ${id}`);
+    }
+    return rowId;
+  }
+}
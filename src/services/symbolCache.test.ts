@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolCacheService } from './symbolCache';
+import { SymbolMetadata } from '../types';
+
+// ===========================================================================
+// Helpers
+// ===========================================================================
+
+const NOW = new Date('2026-10-16T08:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createMetadata = (overrides: Partial<SymbolMetadata> = {}): SymbolMetadata => ({
+  symbol: 'FNZ.NZ',
+  name: 'Smartshares NZ Top 50 ETF',
+  exchange: 'NZE',
+  currency: 'NZD',
+  quoteType: 'ETF',
+  source: 'yahoo-finance2',
+  ...overrides,
+});
+
+describe('SymbolCacheService', () => {
+  let dir: string;
+  let cache: SymbolCacheService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-cache-'));
+    cache = new SymbolCacheService(path.join(dir, 'symbols'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip metadata, creating the directory', async () => {
+    const metadata = createMetadata();
+
+    expect(await cache.write(metadata, NOW)).toBe(true);
+    expect(await cache.read('fnz.nz', NOW)).toEqual(metadata);
+  });
+
+  it('should store index symbols under an escaped file name', async () => {
+    await cache.write(createMetadata({ symbol: '^GSPC', quoteType: 'INDEX' }), NOW);
+
+    expect(fs.readdirSync(path.join(dir, 'symbols'))).toEqual(['%5EGSPC.json']);
+    expect(await cache.read('^GSPC', NOW)).toMatchObject({ quoteType: 'INDEX' });
+  });
+
+  it('should let concurrent writes of one symbol all succeed', async () => {
+    const writes = ['NZE', 'NZX', 'ASX'].map(exchange => cache.write(createMetadata({ exchange }), NOW));
+
+    expect(await Promise.all(writes)).toEqual([true, true, true]);
+    expect(fs.readdirSync(path.join(dir, 'symbols'))).toEqual(['FNZ.NZ.json']);
+  });
+
+  it('should miss once the entry is a week old', async () => {
+    await cache.write(createMetadata(), NOW);
+
+    expect(await cache.read('FNZ.NZ', new Date(NOW.getTime() + 6 * DAY_MS))).not.toBeNull();
+    expect(await cache.read('FNZ.NZ', new Date(NOW.getTime() + 7 * DAY_MS))).toBeNull();
+  });
+
+  it('should treat missing and corrupt files as misses', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fs.mkdirSync(path.join(dir, 'symbols'));
+    fs.writeFileSync(path.join(dir, 'symbols', 'QQQ.json'), '{not json');
+
+    expect(await cache.read('TSLA', NOW)).toBeNull();
+    expect(await cache.read('QQQ', NOW)).toBeNull();
+  });
+});
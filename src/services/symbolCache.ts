@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { CachedSymbolMetadata, SymbolMetadata } from '../types';
+
+/**
+ * Cached metadata older than this is looked up again
+ */
+export const SYMBOL_CACHE_MAX_AGE_DAYS = 7;
+
+/**
+ * Symbol Cache Service
+ *
+ * Persists recognised symbol metadata (name, exchange, currency, quote
+ * type) as one JSON file per symbol, so validating a request does not
+ * call the providers for symbols seen this week. Unknown symbols are
+ * never cached - a typo fixed upstream should not stay rejected.
+ *
+ * ## Error Handling Strategy: NEVER THROWS
+ *
+ * A missing, unreadable or expired file is a cache miss; a failed write
+ * is logged and the looked-up metadata is still returned to the caller.
+ */
+export class SymbolCacheService {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Cached metadata for a symbol if it is younger than SYMBOL_CACHE_MAX_AGE_DAYS, else null
+   */
+  async read(symbol: string, now: Date = new Date()): Promise<SymbolMetadata | null> {
+    try {
+      const cached = JSON.parse(await readFile(this.filePath(symbol), 'utf-8')) as CachedSymbolMetadata;
+      if (typeof cached?.fetchedAt !== 'string' || typeof cached.source !== 'string') {
+        throw new Error('Unexpected cache file shape');
+      }
+
+      const ageMs = now.getTime() - new Date(cached.fetchedAt).getTime();
+      if (!(ageMs < SYMBOL_CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000)) {
+        return null;
+      }
+
+      return {
+        symbol: cached.symbol,
+        name: cached.name,
+        exchange: cached.exchange,
+        currency: cached.currency,
+        quoteType: cached.quoteType,
+        source: cached.source
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`⚠️ Ignoring unreadable symbol cache for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Save metadata for a symbol (write to a temp file, then rename)
+   * Each write gets its own temp file, so overlapping lookups of one
+   * symbol cannot collide
+   *
+   * @returns True if the cache file was written
+   */
+  async write(metadata: SymbolMetadata, now: Date = new Date()): Promise<boolean> {
+    const file = this.filePath(metadata.symbol);
+    const cached: CachedSymbolMetadata = { ...metadata, fetchedAt: now.toISOString() };
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(tmp, JSON.stringify(cached));
+      await rename(tmp, file);
+      return true;
+    } catch (error) {
+      await rm(tmp, { force: true }).catch(() => {});
+      console.warn(`⚠️ Failed to write symbol cache for ${metadata.symbol}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Cache file for a symbol (^GSPC → %5EGSPC.json)
+   */
+  private filePath(symbol: string): string {
+    return path.join(this.dir, `${encodeURIComponent(symbol.toUpperCase())}.json`);
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { TechnicalAnalysisService } from './technicalAnalysis';
+import { PriceBar } from '../types';
 
 describe('TechnicalAnalysisService', () => {
   let service: TechnicalAnalysisService;
@@ -21,6 +22,17 @@ describe('TechnicalAnalysisService', () => {
     return prices;
   };
 
+  // Bars around given closes with a fixed high-low range
+  const generateBars = (closes: number[], range: number): PriceBar[] =>
+    closes.map((close, i) => ({
+      date: `2025-01-${String(i + 1).padStart(2, '0')}`,
+      open: close,
+      high: close + range / 2,
+      low: close - range / 2,
+      close,
+      volume: 1000,
+    }));
+
   beforeEach(() => {
     service = new TechnicalAnalysisService();
   });
@@ -234,6 +246,21 @@ describe('TechnicalAnalysisService', () => {
     it('should return 0 for single price', () => {
       expect(service.calculateATR([100])).toBe(0);
     });
+
+    it('should use real high/low ranges from bars', () => {
+      const closes = Array(30).fill(100);
+
+      expect(service.calculateATR(closes)).toBe(0);
+      expect(service.calculateATR(closes, 14, generateBars(closes, 4))).toBe(4);
+    });
+
+    it('should include gaps from the previous close in the true range', () => {
+      // Alternating 100/104 closes with a 1-point intraday range: each bar's
+      // far end sits 4.5 from the previous close, so TR = 4.5 (high - low is only 1)
+      const closes = Array.from({ length: 30 }, (_, i) => (i % 2 === 0 ? 100 : 104));
+
+      expect(service.calculateATR(closes, 14, generateBars(closes, 1))).toBe(4.5);
+    });
   });
 
   // ===========================================================================
@@ -516,6 +543,110 @@ describe('TechnicalAnalysisService', () => {
       // With valid data, library should succeed
       expect(result.dataSource).toBe('technicalindicators');
     });
+
+    it('should flag ATR from close-only data', () => {
+      const prices = generatePrices(50, 100, 'flat');
+
+      expect(service.calculateIndicators(prices).atrSource).toBe('close-only');
+      expect(service.calculateIndicators(prices, generateBars(prices, 2)).atrSource).toBe('ohlc');
+    });
+
+    it('should fall back to close-only when recent bars lack high/low', () => {
+      const prices = generatePrices(50, 100, 'flat');
+      const bars = generateBars(prices, 2);
+      bars[45] = { ...bars[45], high: null, low: null };
+
+      expect(service.calculateIndicators(prices, bars).atrSource).toBe('close-only');
+    });
+
+    it('should base entry points on the true-range ATR', () => {
+      const prices = Array(60).fill(100);
+      const indicators = service.calculateIndicators(prices, generateBars(prices, 6));
+
+      expect(indicators.atr).toBe(6);
+      expect(service.calculateEntryPoint(indicators.ma20, indicators.atr).strongBuyBelow).toBe(97);
+      expect(service.isGoodEntryPoint(96.5, indicators.ma20, indicators.atr)).toBe(true);
+      expect(service.isGoodEntryPoint(97.5, indicators.ma20, indicators.atr)).toBe(false);
+    });
+  });
+
+  // ===========================================================================
+  // Split / Dividend Adjustment
+  // ===========================================================================
+  describe('calculateIndicators price adjustment', () => {
+    // 4:1 split 20 days before the end, inside the MA50 window
+    // (deterministic wiggle around 100 - a random walk can drift out of the bounds below)
+    const splitPrices = (): number[] =>
+      Array.from({ length: 100 }, (_, i) => 100 + 2 * Math.sin(i)).map((price, i) => (i < 80 ? price * 4 : price));
+    // Four times the shares trade after the split
+    const splitBars = (prices: number[], range: number): PriceBar[] =>
+      generateBars(prices, range).map((bar, i) => (i < 80 ? bar : { ...bar, volume: 4000 }));
+
+    it('should back-adjust a 4:1 split before calculating MA50', () => {
+      const prices = splitPrices();
+      const adjusted = prices.map((price, i) => (i < 80 ? price / 4 : price));
+
+      const indicators = service.calculateIndicators(prices, splitBars(prices, 2));
+
+      expect(indicators.priceAdjustment).toBe('split-adjusted');
+      expect(indicators.splitsDetected).toBe(1);
+      expect(indicators.ma50).toBe(service.calculateMA50(adjusted));
+      expect(indicators.ma50).toBeGreaterThan(95);
+      expect(indicators.ma50).toBeLessThan(105);
+      expect(Math.abs(indicators.ma50Slope)).toBeLessThan(0.05);
+      expect(indicators.bbWidth).toBeLessThan(10);
+    });
+
+    it('should not read the split as a crash', () => {
+      const prices = splitPrices();
+
+      // Raw series: MA50 mixes 30 pre-split and 20 post-split closes
+      expect(service.calculateMA50(prices)).toBeGreaterThan(250);
+      expect(service.calculateMA50Slope(prices)).toBeLessThan(-0.2);
+
+      const indicators = service.calculateIndicators(prices, splitBars(prices, 2));
+      expect(service.calculateMA50Deviation(prices[99], indicators.ma50)).toBeGreaterThan(-10);
+    });
+
+    it('should keep a genuine -50% day in MA50', () => {
+      // Same jump, but share volume stays on the same basis
+      const prices = Array.from({ length: 100 }, (_, i) => 100 + 2 * Math.sin(i)).map((price, i) => (i < 80 ? price * 2 : price));
+
+      const indicators = service.calculateIndicators(prices, generateBars(prices, 2));
+
+      expect(indicators.priceAdjustment).toBe('raw');
+      expect(indicators.splitsDetected).toBe(0);
+      expect(indicators.ma50).toBe(service.calculateMA50(prices));
+    });
+
+    it('should scale high/low bars before the split for ATR', () => {
+      // Pre-split range 8 at 400 is range 2 at 100, same as after the split
+      const closes = Array(60).fill(400).map((price, i) => (i < 40 ? price : 100));
+      const bars = generateBars(closes, 8).map((bar, i) => (i < 40 ? bar : { ...bar, high: 101, low: 99, volume: 4000 }));
+
+      const indicators = service.calculateIndicators(closes, bars);
+
+      expect(indicators.atrSource).toBe('ohlc');
+      expect(indicators.atr).toBe(2);
+    });
+
+    it('should prefer provider adjusted closes', () => {
+      const prices = splitPrices();
+      const bars = generateBars(prices, 2).map((bar, i) => ({ ...bar, adjClose: i < 80 ? bar.close / 4 : bar.close }));
+
+      const indicators = service.calculateIndicators(prices, bars);
+
+      expect(indicators.priceAdjustment).toBe('adjclose');
+      expect(indicators.splitsDetected).toBe(0);
+      expect(indicators.ma50).toBeLessThan(105);
+    });
+
+    it('should report raw prices when nothing needed adjusting', () => {
+      const indicators = service.calculateIndicators(generatePrices(100, 100, 'flat'));
+
+      expect(indicators.priceAdjustment).toBe('raw');
+      expect(indicators.splitsDetected).toBe(0);
+    });
   });
 
   // ===========================================================================
@@ -1,5 +1,7 @@
 import { RSI, BollingerBands, ATR, SMA } from 'technicalindicators';
-import { TechnicalIndicators, TechnicalIndicatorsWithSource } from '../types';
+import { ATRSource, PriceBar, TechnicalIndicators, TechnicalIndicatorsWithSource } from '../types';
+import { MA50_SLOPE_CONFIG } from '../utils/multiplierThresholds';
+import { adjustPrices } from '../utils/priceAdjustment';
 
 /**
  * Result type for internal calculations with source tracking
@@ -9,6 +11,16 @@ type CalculationResult<T> = {
   source: 'technicalindicators' | 'custom-fallback';
 };
 
+/**
+ * High/low/close series for ATR and how they were obtained
+ */
+type ATRInput = {
+  high: number[];
+  low: number[];
+  close: number[];
+  source: ATRSource;
+};
+
 /**
  * Technical Analysis Service
  *
@@ -164,11 +176,15 @@ export class TechnicalAnalysisService {
    * Calculate MA50 Slope (v4.3)
    * Measures the trend direction of MA50 over a lookback period
    *
-   * @param prices - Array of historical prices (oldest to newest)
-   * @param lookbackDays - Number of days to calculate slope over (default 50)
+   * The lookback counts trading days: `prices` holds one close per NYSE
+   * session (provider daily bars, or history windows from tradingCalendar),
+   * never calendar days.
+   *
+   * @param prices - Daily closes, one per session (oldest to newest)
+   * @param lookbackDays - Trading days to calculate slope over (default MA50_SLOPE_CONFIG.LOOKBACK_DAYS)
    * @returns Slope as decimal (e.g., 0.015 = 1.5% increase)
    */
-  calculateMA50Slope(prices: number[], lookbackDays: number = 50): number {
+  calculateMA50Slope(prices: number[], lookbackDays: number = MA50_SLOPE_CONFIG.LOOKBACK_DAYS): number {
     // Need at least lookbackDays + 50 prices to calculate two MA50 values
     const minRequired = lookbackDays + 50;
     if (prices.length < minRequired) {
@@ -291,65 +307,85 @@ export class TechnicalAnalysisService {
    * Calculate Average True Range (ATR)
    * Primary: technicalindicators library
    * Fallback: Custom implementation
-   * Note: Library requires high/low/close arrays; we approximate from close prices
+   * Uses real high/low/close when bars are given, close-to-close moves otherwise
    */
-  calculateATR(prices: number[], period: number = 14): number {
-    return this.calculateATRWithSource(prices, period).value;
+  calculateATR(prices: number[], period: number = 14, bars?: PriceBar[]): number {
+    return this.calculateATRWithSource(prices, period, bars).value;
   }
 
   /**
    * Calculate ATR with source tracking (stateless)
    */
-  private calculateATRWithSource(prices: number[], period: number = 14): CalculationResult<number> {
+  private calculateATRWithSource(
+    prices: number[],
+    period: number = 14,
+    bars?: PriceBar[]
+  ): CalculationResult<number> & { atrSource: ATRSource } {
+    const input = this.toATRInput(prices, period, bars);
+
     // Try technicalindicators library first
     try {
-      // Convert close prices to high/low/close approximation
-      const high: number[] = [];
-      const low: number[] = [];
-      const close: number[] = [];
-
-      for (let i = 0; i < prices.length; i++) {
-        const price = prices[i];
-        // Approximate high/low from close (±1%)
-        high.push(price * 1.01);
-        low.push(price * 0.99);
-        close.push(price);
-      }
-
       const atrResult = ATR.calculate({
-        high,
-        low,
-        close,
+        high: input.high,
+        low: input.low,
+        close: input.close,
         period
       });
 
       if (atrResult && atrResult.length > 0) {
         const latestATR = atrResult[atrResult.length - 1];
         if (typeof latestATR === 'number' && !isNaN(latestATR)) {
-          return { value: Math.round(latestATR * 100) / 100, source: 'technicalindicators' };
+          return { value: Math.round(latestATR * 100) / 100, source: 'technicalindicators', atrSource: input.source };
         }
       }
       throw new Error('Invalid ATR result from library');
     } catch {
       console.warn(`⚠️ technicalindicators ATR failed, using custom fallback`);
-      return { value: this.calculateATRCustom(prices, period), source: 'custom-fallback' };
+      return { value: this.calculateATRCustom(input, period), source: 'custom-fallback', atrSource: input.source };
+    }
+  }
+
+  /**
+   * High/low/close series for ATR
+   * Uses the trailing run of bars that have a high and low; with fewer than
+   * period + 1 of those, falls back to closes only (high = low = close, so
+   * each true range is the close-to-close move)
+   */
+  private toATRInput(prices: number[], period: number, bars?: PriceBar[]): ATRInput {
+    const series = bars ?? [];
+    const lastGap = series.map(bar => bar.high === null || bar.low === null).lastIndexOf(true);
+    const withRange = series.slice(lastGap + 1);
+
+    if (withRange.length > period) {
+      return {
+        high: withRange.map(bar => bar.high ?? bar.close),
+        low: withRange.map(bar => bar.low ?? bar.close),
+        close: withRange.map(bar => bar.close),
+        source: 'ohlc'
+      };
     }
+
+    return { high: prices, low: prices, close: prices, source: 'close-only' };
   }
 
   /**
    * Custom ATR implementation (fallback)
+   * Simple average of the last `period` true ranges
    */
-  private calculateATRCustom(prices: number[], period: number = 14): number {
-    if (prices.length < 2) {
+  private calculateATRCustom(input: ATRInput, period: number = 14): number {
+    const { high, low, close } = input;
+    if (close.length < 2) {
       return 0;
     }
 
     const trueRanges: number[] = [];
 
-    for (let i = 1; i < prices.length; i++) {
-      const high = Math.max(prices[i], prices[i - 1]);
-      const low = Math.min(prices[i], prices[i - 1]);
-      const tr = high - low;
+    for (let i = 1; i < close.length; i++) {
+      const tr = Math.max(
+        high[i] - low[i],
+        Math.abs(high[i] - close[i - 1]),
+        Math.abs(low[i] - close[i - 1])
+      );
       trueRanges.push(tr);
     }
 
@@ -395,14 +431,21 @@ export class TechnicalAnalysisService {
   /**
    * Calculate all technical indicators for a stock
    * Returns indicators with source tracking
+   *
+   * Prices are adjusted for splits and dividends first (see utils/priceAdjustment)
+   *
+   * @param rawPrices - Daily closes, oldest to newest
+   * @param rawBars - OHLCV bars for the same days; without high/low, ATR uses closes only
    */
-  calculateIndicators(prices: number[]): TechnicalIndicatorsWithSource {
+  calculateIndicators(rawPrices: number[], rawBars?: PriceBar[]): TechnicalIndicatorsWithSource {
+    const { prices, bars, adjustment, splitsDetected } = adjustPrices(rawPrices, rawBars);
+
     // Use source-tracking methods to avoid race conditions
     const bbResult = this.calculateBollingerBandsWithSource(prices);
     const ma20Result = this.calculateSMAWithSource(prices, 20);
     const ma50Result = this.calculateSMAWithSource(prices, 50);
     const ma50Slope = this.calculateMA50Slope(prices); // v4.3 (uses SMA internally)
-    const atrResult = this.calculateATRWithSource(prices);
+    const atrResult = this.calculateATRWithSource(prices, 14, bars);
     const rsiResult = this.calculateRSIWithSource(prices);
 
     // Report 'custom-fallback' if ANY calculation used fallback
@@ -417,7 +460,10 @@ export class TechnicalAnalysisService {
       ma20: ma20Result.value,
       ma50: ma50Result.value,
       ma50Slope,
-      dataSource: usedFallback ? 'custom-fallback' : 'technicalindicators'
+      dataSource: usedFallback ? 'custom-fallback' : 'technicalindicators',
+      atrSource: atrResult.atrSource,
+      priceAdjustment: adjustment,
+      splitsDetected
     };
   }
 
@@ -0,0 +1,34 @@
+import { Config } from '../types';
+import { DEFAULT_STRATEGY } from '../utils/strategy';
+
+/**
+ * Shared test fixtures
+ *
+ * A complete, valid Config so tests only spell out the fields they are
+ * about. When Config grows a field, add its default here.
+ */
+
+/**
+ * Config for a $250/week moderate QQQ + TLT portfolio, no database or alerts
+ */
+export const createMockConfig = (overrides: Partial<Config> = {}): Config => ({
+  smtp: { host: 'smtp.test.com', port: 587, user: 'test@test.com', pass: 'test' },
+  emailTo: ['test@test.com'],
+  weeklyInvestmentAmount: 250,
+  defaultStocks: ['QQQ', 'TLT'],
+  riskTolerance: 'moderate',
+  port: 3000,
+  cronSchedule: '0 20 * * 3',
+  emergencyCronSchedule: '0 18 * * *',
+  timezone: 'Pacific/Auckland',
+  holidayRunPolicy: 'annotate',
+  minBudget: 125,
+  maxBudget: 300,
+  databaseUrl: '',
+  strategy: DEFAULT_STRATEGY,
+  shadowStrategies: [],
+  marketData: { providers: ['yahoo', 'yahoo-http'], csvDir: '', stooqDir: '', cacheDir: '', concurrency: 4, maxRetries: 3, quotePolicy: 'latest' },
+  dataQuality: { maxSimulatedFraction: 0.5, maxCacheAgeHours: 72 },
+  alerts: { adminEmail: [], webhookUrl: '', deadManGraceHours: 3 },
+  ...overrides,
+});
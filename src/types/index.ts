@@ -5,9 +5,57 @@ export interface MarketData {
   change: number;
   changePercent: number;
   volume: number;
-  timestamp: Date;
+  timestamp: Date;                // When the quote was fetched
+  marketTime?: Date;              // When the price was set on the exchange (absent on simulated data)
+  marketSession?: MarketSession;  // Exchange session at fetch time (absent for local files)
+  priceBasis?: PriceBasis;        // Whether price is an official close or intraday
+}
+
+/**
+ * US exchange session a quote was fetched in
+ * 'pre'/'post' = extended hours, 'closed' = overnight, weekend or holiday
+ */
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+/**
+ * 'close' = an official closing price, 'intraday' = a live price during regular hours
+ */
+export type PriceBasis = 'close' | 'intraday';
+
+/**
+ * Which price a run scores
+ * - 'latest': the provider's regular-market price (intraday while the market is open)
+ * - 'last-close': always the last official close (previous close while the market is open)
+ */
+export type QuotePolicy = 'latest' | 'last-close';
+
+/**
+ * NYSE full-day closure
+ */
+export interface MarketHoliday {
+  date: string;                   // YYYY-MM-DD (observed date)
+  name: string;
 }
 
+/**
+ * Where a run falls on the NYSE calendar
+ */
+export interface MarketCalendarStatus {
+  marketDate: string;             // Exchange date (New York) at run time
+  lastSessionDate: string;        // Session whose close is the latest official price
+  lastSessionClose: string;       // ISO time of that close
+  missedSessions: MarketHoliday[]; // Weekday sessions since then lost to holidays (prices older than usual)
+  holidayToday: string | null;    // Holiday name when NYSE is closed on marketDate
+  earlyCloseToday: boolean;       // 1:00 PM ET close on marketDate
+}
+
+/**
+ * What the cron job does when the latest session was lost to a holiday
+ * - 'annotate': run on schedule, flag the older prices in the report
+ * - 'shift': wait (in whole days) until a fresh session has closed
+ */
+export type HolidayRunPolicy = 'annotate' | 'shift';
+
 export interface TechnicalIndicators {
   rsi: number;
   bollingerBands: {
@@ -58,8 +106,19 @@ export interface StockAnalysis {
   marketData: MarketDataWithSource;
   technicalIndicators: TechnicalIndicatorsWithSource;
   cssBreakdown: CSSBreakdown;     // CSS scoring for this asset
+  historySource: MarketDataSource; // Where the price history came from
   signal: 'BUY' | 'HOLD';         // No SELL - we never fully stop
   strength: number;               // 0-100
+  confidence: DataConfidence;     // Trust in this asset's inputs
+}
+
+/**
+ * How far one asset's inputs can be trusted
+ * The CSS multiplier is blended toward 1.0x by this score
+ */
+export interface DataConfidence {
+  score: number;                  // 0 (no trust, 1.0x) to 1 (full CSS multiplier)
+  reasons: string[];              // Why points were taken off, e.g. "axios fallback"
 }
 
 export interface PortfolioAllocation {
@@ -69,7 +128,8 @@ export interface PortfolioAllocation {
   reasoning: string;
   baseAmount: number;             // Base allocation before CSS adjustment
   cssScore: number;               // Asset's CSS score
-  multiplier: number;             // CSS-derived multiplier
+  multiplier: number;             // CSS-derived multiplier, after confidence blending
+  confidence: number;             // Data confidence score (0-1)
 }
 
 export interface AllocationReport {
@@ -89,16 +149,36 @@ export interface AllocationReport {
   
   marketCondition: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
   allocations: PortfolioAllocation[];
+  stockAnalyses: StockAnalysis[]; // Per-asset scoring behind the allocations (stored per stock)
   recommendations: string[];
   technicalData?: TechnicalDataRow[];
   
   // Data source tracking
   dataSourceStatus?: DataSourceStatus;
+
+  // Simulated/stale data handling (neutral 1.0x or base amounts only)
+  dataQualityGate: DataQualityGate;
+  marketCalendar: MarketCalendarStatus; // NYSE sessions/holidays relative to the run date
+
+  // Risk profile used for multipliers and budget range
+  riskTolerance: RiskTolerance;
+
+  // Strategy definition used for scoring
+  strategyId: string;
+  strategyVersion: string;
+
+  // Annual rebalancing plan (January runs only)
+  rebalancing?: RebalancePlan;
+
+  // Provider request counts, retries and latencies for live runs
+  requestStats?: ProviderRequestStats[];
 }
 
 export interface TechnicalDataRow {
   symbol: string;
   price: number;
+  priceAsOf: string | null;       // Market time of the price (ISO), null if unknown
+  priceBasis: PriceBasis | null;  // Official close or intraday, null if unknown
   rsi: number;
   ma20: number;
   ma50: number;
@@ -106,7 +186,79 @@ export interface TechnicalDataRow {
   bbWidth: number;
   ma50Deviation: number;          // Price vs MA50 deviation %
   cssScore: number;               // Asset's CSS score
-  multiplier: number;             // CSS-derived multiplier
+  cssMultiplier: number;          // CSS-mapped multiplier before the gate and confidence blending
+  multiplier: number;             // Applied multiplier (as in the allocation)
+}
+
+/**
+ * Risk tolerance level (RISK_TOLERANCE)
+ */
+export type RiskTolerance = 'conservative' | 'moderate' | 'aggressive';
+
+/**
+ * Strategy profile selected by risk tolerance
+ */
+export interface RiskProfile {
+  name: RiskTolerance;
+  minMultiplier: number;          // Budget floor as multiple of base
+  maxMultiplier: number;          // Budget cap as multiple of base
+  cssToMultiplier: Array<{ maxCSS: number; multiplier: number }>;
+  ma50SlopeBonus: {
+    strongUp: number;
+    moderateUp: number;
+    flat: number;
+    moderateDown: number;
+    strongDown: number;
+  };
+}
+
+/**
+ * CSS indicator weights (sum to 1.0)
+ */
+export interface CSSWeightSet {
+  vix: number;
+  rsi: number;
+  bbWidth: number;
+  ma50: number;
+  fearGreed: number;
+}
+
+/**
+ * Score lookup table row: first row whose `max` is >= the value wins
+ * (`max: Infinity` for the open-ended last row)
+ */
+export interface ScoreThreshold {
+  max: number;
+  score: number;
+}
+
+/**
+ * Versioned set of CSS weights and thresholds
+ * Loaded from STRATEGY_FILE (JSON/YAML), or the built-in v4.3 default
+ */
+export interface StrategyDefinition {
+  id: string;                     // e.g. "css"
+  version: string;                // e.g. "4.3"
+  description?: string;
+  weights: CSSWeightSet;
+  fallbackWeights: CSSWeightSet;  // Used when Fear & Greed is unavailable
+  scoreTables: {
+    vix: ScoreThreshold[];
+    rsi: ScoreThreshold[];
+    bbWidth: ScoreThreshold[];
+    ma50: ScoreThreshold[];       // By price vs MA50 deviation %
+    fearGreed: ScoreThreshold[];
+  };
+  ma50Slope: {
+    strongUptrend: number;        // Slope thresholds (decimal)
+    moderateUptrend: number;
+    flatThreshold: number;
+    moderateDowntrend: number;
+    applyWhenDiscountBelow: number; // Only adjust when price is this % below MA50
+    minScore: number;
+    maxScore: number;
+  };
+  riskProfiles: Record<RiskTolerance, RiskProfile>;
 }
 
 export interface Config {
@@ -119,13 +271,55 @@ export interface Config {
   emailTo: string[];
   weeklyInvestmentAmount: number;
   defaultStocks: string[];
-  riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  riskTolerance: RiskTolerance;
   port: number;
   cronSchedule: string;
+  emergencyCronSchedule: string;  // Daily emergency exit check
   timezone: string;               // Timezone for cron scheduling (e.g., 'Pacific/Auckland')
+  holidayRunPolicy: HolidayRunPolicy; // Scheduled runs after an NYSE holiday (HOLIDAY_RUN_POLICY)
   minBudget: number;              // Minimum weekly budget ($125)
   maxBudget: number;              // Maximum weekly budget ($300)
-  convexUrl: string;              // Convex database URL (optional)
+  databaseUrl: string;            // sqlite:<path> or a Convex deployment URL ('' = no database)
+  strategy: StrategyDefinition;   // Weights and thresholds (STRATEGY_FILE or built-in)
+  shadowStrategies: StrategyDefinition[]; // Scored alongside the live strategy, never acted on
+  marketData: MarketDataConfig;   // Ordered provider chain (MARKET_DATA_PROVIDERS)
+  dataQuality: DataQualityConfig; // Limits for simulated/stale data before allocating
+  alerts: AlertConfig;            // Admin failure alerts and dead-man's switch
+}
+
+/**
+ * Admin alerting configuration
+ */
+export interface AlertConfig {
+  adminEmail: string[];           // ADMIN_EMAIL recipients ([] = no email alerts)
+  webhookUrl: string;             // ADMIN_WEBHOOK_URL ('' = no webhook)
+  deadManGraceHours: number;      // Alert if no successful run this long after schedule (0 = off)
+}
+
+/**
+ * Market data provider selectable in MARKET_DATA_PROVIDERS
+ */
+export type MarketDataProviderName = 'yahoo' | 'yahoo-http' | 'csv' | 'stooq';
+
+/**
+ * Market data provider chain configuration
+ */
+export interface MarketDataConfig {
+  providers: MarketDataProviderName[]; // Tried in order, simulated data last
+  csvDir: string;                      // Directory of <SYMBOL>.csv files (csv provider)
+  stooqDir: string;                    // Stooq daily download directory (stooq provider)
+  cacheDir: string;                    // Daily bar cache directory ('' = no cache)
+  concurrency: number;                 // Requests in flight per provider
+  maxRetries: number;                  // Retries for 429/5xx/network errors
+  quotePolicy: QuotePolicy;            // Live or last-close prices (MARKET_DATA_QUOTE_POLICY)
+}
+
+/**
+ * Data quality gate configuration
+ */
+export interface DataQualityConfig {
+  maxSimulatedFraction: number;        // Above this share of simulated symbols, only base amounts go out (0-1)
+  maxCacheAgeHours: number;            // Cached history older than this counts as stale
 }
 
 /**
@@ -147,20 +341,49 @@ export interface FearGreedResponse {
   success: boolean;
 }
 
+/**
+ * Where a quote or price series came from
+ * 'simulated' is the last resort when every provider fails
+ */
+export type MarketDataSource = 'yahoo-finance2' | 'axios-fallback' | 'csv' | 'stooq' | 'simulated';
+
 /**
  * Data source status tracking
  * Shows which data sources were used (primary library or fallback)
  */
 export interface DataSourceStatus {
-  marketDataSource: 'yahoo-finance2' | 'axios-fallback' | 'simulated';
+  marketDataSource: MarketDataSource;
+  historyCacheAgeHours: number | null; // Oldest cached history used after provider failures (null = none)
   indicatorSource: 'technicalindicators' | 'custom-fallback';
+  atrSource: ATRSource;            // 'close-only' if ANY stock lacked high/low bars
+  quotePolicy: QuotePolicy;        // MARKET_DATA_QUOTE_POLICY the run used
+  intradaySymbols: string[];       // Scored on live prices (market open, 'latest' policy)
+}
+
+/**
+ * Data quality gate outcome
+ * - 'ok': every symbol on provider data
+ * - 'neutralized': simulated/stale symbols held at 1.0x, the rest CSS-scored
+ * - 'blocked': too many simulated symbols - every symbol at 1.0x (base amounts)
+ */
+export type DataQualityStatus = 'ok' | 'neutralized' | 'blocked';
+
+/**
+ * Data quality gate decision for one allocation run
+ */
+export interface DataQualityGate {
+  status: DataQualityStatus;
+  simulatedSymbols: string[];     // Quote or history was simulated
+  staleSymbols: string[];         // History from a bar cache older than maxCacheAgeHours
+  simulatedFraction: number;      // simulatedSymbols / symbols fetched (0-1)
+  maxSimulatedFraction: number;   // Configured limit the fraction was checked against
 }
 
 /**
  * Extended market data with source tracking
  */
 export interface MarketDataWithSource extends MarketData {
-  dataSource: 'yahoo-finance2' | 'axios-fallback' | 'simulated';
+  dataSource: MarketDataSource;
 }
 
 /**
@@ -168,6 +391,38 @@ export interface MarketDataWithSource extends MarketData {
  */
 export interface TechnicalIndicatorsWithSource extends TechnicalIndicators {
   dataSource: 'technicalindicators' | 'custom-fallback';
+  atrSource: ATRSource;
+  priceAdjustment: PriceAdjustment;
+  splitsDetected: number;         // Volume-confirmed split jumps back-adjusted out of the series
+}
+
+/**
+ * Which price series the indicators were calculated on
+ * 'adjclose' = provider's adjusted closes, 'split-adjusted' = raw closes with
+ * detected split jumps back-adjusted, 'raw' = closes as fetched
+ */
+export type PriceAdjustment = 'adjclose' | 'split-adjusted' | 'raw';
+
+/**
+ * How ATR true ranges were measured
+ * 'ohlc' = real high/low/close bars, 'close-only' = close-to-close moves
+ */
+export type ATRSource = 'ohlc' | 'close-only';
+
+/**
+ * What started an analysis run
+ * - cron: the scheduled weekly job
+ * - manual: a one-off POST /api/analyze made by hand
+ * - api: any other POST /api/analyze (scripts, integrations)
+ */
+export type RunTrigger = 'cron' | 'manual' | 'api';
+
+/**
+ * Run a saved snapshot belongs to
+ */
+export interface SnapshotRunInfo {
+  trigger: RunTrigger;
+  runId?: string;              // Generated if not given
 }
 
 /**
@@ -178,8 +433,10 @@ export interface DatabaseSaveResult {
   snapshotId?: string;
   stockAnalysesCount?: number;
   error?: string;
-  replaced?: boolean;          // True if an existing record was replaced
-  replacedSnapshotId?: string; // ID of the replaced record
+  runId?: string;
+  revision?: number;           // 1 for the first run of the date, then 2, 3, ...
+  isOfficial?: boolean;        // True if this revision is now the one acted on for the date
+  archived?: boolean;          // True if the raw market inputs were archived
 }
 
 /**
@@ -189,3 +446,924 @@ export interface AllocationReportWithDb extends AllocationReport {
   snapshotId?: string;
   savedToDatabase?: boolean;
 }
+
+/**
+ * Storage backend selected by DATABASE_URL
+ */
+export type StorageBackendName = 'convex' | 'sqlite';
+
+/**
+ * Weekly snapshot as written to storage
+ * Every run is kept as an immutable revision; one revision per date is
+ * official (the one acted on) and only official revisions feed history,
+ * statistics and the benchmark
+ */
+export interface SnapshotRecord {
+  date: string;                   // "YYYY-MM-DD" run date
+  timestamp: string;              // Full ISO string
+  runId?: string;                 // Unique per run (absent on older rows)
+  trigger?: RunTrigger;           // What started the run (absent on older rows)
+  revision: number;               // 1, 2, ... per date in save order
+  isOfficial: boolean;            // The revision acted on for its date
+  vix: number;
+  fearGreedIndex?: number;
+  fearGreedLabel?: string;
+  fearGreedFailed: boolean;
+  marketCSS: number;
+  totalAmount: number;
+  baseBudget: number;
+  minBudget: number;
+  maxBudget: number;
+  riskTolerance?: string;
+  strategyId?: string;
+  strategyVersion?: string;
+  marketCondition: string;
+  marketDataSource: string;
+  indicatorSource: string;
+  dataQualityStatus?: string;
+  simulatedSymbols?: string[];
+  staleSymbols?: string[];
+  simulatedFraction?: number;
+  lastSessionDate?: string;
+  missedSessions?: string[];
+  requestStats?: ProviderRequestStats[];
+  recommendations: string[];
+}
+
+/**
+ * Snapshot to save as a new revision; storage assigns the revision and
+ * the official flag when it inserts it
+ */
+export type NewSnapshotRevision = Omit<SnapshotRecord, 'revision' | 'isOfficial'>;
+
+/**
+ * Revision assigned to a saved snapshot
+ */
+export interface SavedSnapshotRevision {
+  snapshotId: string;
+  revision: number;
+  isOfficial: boolean;
+}
+
+/**
+ * Stored snapshot (Convex document shape on every backend)
+ */
+export interface StoredSnapshot extends SnapshotRecord {
+  _id: string;
+  _creationTime: number;          // Epoch ms
+}
+
+/**
+ * Per-stock analysis row as written to storage
+ * The CSS breakdown, signal and sources are those the report was built
+ * from; rows saved before they were stored hold null
+ */
+export interface StockAnalysisRecord {
+  snapshotId: string;
+  symbol: string;
+  price: number;
+  priceAsOf?: string;
+  previousClose: number | null;   // Quote's previous close
+  changePercent: number | null;   // Quote's change vs previous close
+  rsi: number;
+  ma20: number;
+  ma50: number;
+  bbWidth: number;
+  atr: number;
+  ma50Deviation: number;
+  ma50Slope: number | null;
+  cssScore: number;
+  cssMultiplier: number | null;   // CSS-mapped multiplier before confidence blending
+  multiplier: number;             // Applied multiplier
+  confidence?: number;
+  vixScore: number;
+  rsiScore: number;
+  bbWidthScore: number;
+  ma50Score: number;              // Before slope bonus
+  ma50SlopeBonus: number | null;
+  ma50ScoreAdjusted: number | null; // After slope bonus
+  fearGreedScore?: number;
+  weightsAdjusted: boolean | null; // F&G weight redistributed
+  baseAllocationPercent: number;
+  baseAmount: number;
+  finalAmount: number;
+  signal: string;                 // "BUY" | "HOLD"
+  strength: number | null;        // Signal strength (0-100)
+  quoteSource: string | null;     // MarketDataSource of the quote
+  historySource: string | null;   // MarketDataSource of the price history
+  indicatorSource: string | null; // "technicalindicators" | "custom-fallback"
+  reasoning: string;
+}
+
+/**
+ * Per-stock analysis saved with a new snapshot revision (linked on insert)
+ */
+export type NewStockAnalysis = Omit<StockAnalysisRecord, 'snapshotId'>;
+
+/**
+ * Stored per-stock analysis
+ */
+export interface StoredStockAnalysis extends StockAnalysisRecord {
+  _id: string;
+  _creationTime: number;
+}
+
+/**
+ * Per-stock analysis with context from its snapshot
+ */
+export interface StockHistoryRow extends StoredStockAnalysis {
+  snapshotTimestamp?: string;
+  snapshotVix?: number;
+  snapshotMarketCondition?: string;
+}
+
+/**
+ * Snapshot with its per-stock analyses
+ */
+export interface SnapshotWithStocks {
+  snapshot: StoredSnapshot;
+  stocks: StoredStockAnalysis[];
+}
+
+/**
+ * Summary over all stored snapshots
+ */
+export interface HistoryStatistics {
+  totalSnapshots: number;
+  totalInvested: number;
+  averageVix: number;
+  averageCSS: number;
+  marketConditionDistribution: Record<string, number>;
+}
+
+/**
+ * Stored raw market inputs for a snapshot
+ */
+export interface MarketInputArchiveRecord {
+  snapshotId: string;
+  date: string;                   // "YYYY-MM-DD"
+  timestamp: string;              // Full ISO string of the run
+  encoding: string;               // "gzip+json"
+  formatVersion: number;
+  sizeBytes: number;              // Compressed size
+  data: Uint8Array;
+}
+
+/**
+ * Stages of an analysis job run, in order
+ * - fetch: quotes, history, VIX and F&G
+ * - scoring: CSS scoring and allocation
+ * - save: snapshot, stock analyses and archive
+ * - email: the weekly report
+ */
+export type JobStage = 'fetch' | 'scoring' | 'save' | 'email';
+
+export type JobStageStatus = 'ok' | 'failed' | 'skipped';
+
+/**
+ * Outcome of one job stage
+ */
+export interface JobStageOutcome {
+  stage: JobStage;
+  status: JobStageStatus;
+  startedAt: string | null;       // Full ISO string (null if skipped)
+  durationMs: number | null;      // null if skipped
+  detail: string | null;          // e.g. "7/7 stocks", "revision 2 (official)", skip reason
+  error: string | null;           // Error message if failed
+}
+
+/**
+ * Overall job run status
+ * - running: started, not finished (or the process died mid-run)
+ * - success: every stage ok or skipped
+ * - partial: a recommendation was produced but saving or emailing failed
+ * - failed: fetch or scoring failed, so there is no recommendation
+ */
+export type JobRunStatus = 'running' | 'success' | 'partial' | 'failed';
+
+/**
+ * Data sources a job run used
+ */
+export interface JobRunDataSources {
+  marketData: MarketDataSource;   // Least trustworthy quote source across stocks
+  vix: ProviderDataSource;
+  fearGreedAvailable: boolean;    // false = F&G fallback weights
+  indicators: DataSourceStatus['indicatorSource'];
+  stocks: { symbol: string; quote: MarketDataSource; history: MarketDataSource }[];
+}
+
+/**
+ * One run of the analysis job, as written to storage
+ */
+export interface JobRunRecord {
+  runId: string;                  // Also the runId of the snapshot it saved
+  trigger: RunTrigger;
+  status: JobRunStatus;
+  startedAt: string;              // Full ISO string
+  finishedAt: string | null;
+  durationMs: number | null;
+  stages: JobStageOutcome[];
+  errors: string[];               // "<stage>: <message>" per failed stage
+  dataSources: JobRunDataSources | null; // null if the fetch failed
+  snapshotId: string | null;      // null if not saved
+}
+
+/**
+ * Stored job run (Convex document shape on every backend)
+ */
+export interface StoredJobRun extends JobRunRecord {
+  _id: string;
+  _creationTime: number;          // Epoch ms
+}
+
+/**
+ * Admin alert about the weekly job
+ * - job-failed: a scheduled run finished with a failed stage
+ * - missed-run: no successful run was recorded within the grace period
+ */
+export interface AdminAlert {
+  kind: 'job-failed' | 'missed-run';
+  subject: string;
+  stage: JobStage | null;         // First failed stage (null for a missed run)
+  error: string;
+  hints: string[];                // What to check and how to retry
+  runId: string | null;           // Run the alert is about, if any
+  occurredAt: string;             // Full ISO string
+}
+
+/**
+ * Channels an admin alert reached
+ */
+export interface AdminAlertResult {
+  email: boolean;
+  webhook: boolean;
+}
+
+/**
+ * Persistence for snapshots, holdings, shadow evaluations and job runs
+ * Implementations throw on failure; DatabaseService catches and degrades
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  /**
+   * Insert a snapshot as the next revision of its date, with its stock analyses
+   * In one transaction: the revision is the date's latest + 1, and the new
+   * revision is official (unmarking the others) if `takeOfficial` is set or
+   * the date has no official revision yet
+   */
+  saveSnapshotRevision(
+    snapshot: NewSnapshotRevision,
+    analyses: NewStockAnalysis[],
+    takeOfficial: boolean
+  ): Promise<SavedSnapshotRevision>;
+
+  /** Every revision for a "YYYY-MM-DD" run date, oldest first */
+  getSnapshotRevisions(date: string): Promise<StoredSnapshot[]>;
+
+  /**
+   * Make a revision the official one for its date (all others are unmarked)
+   * Returns the updated snapshot, or null if the ID is unknown
+   */
+  setOfficialRevision(snapshotId: string): Promise<StoredSnapshot | null>;
+
+  /** Newest official snapshots first */
+  getRecentSnapshots(limit: number): Promise<StoredSnapshot[]>;
+
+  /** Snapshot and its stocks, or null if the ID is unknown */
+  getSnapshotWithStocks(snapshotId: string): Promise<SnapshotWithStocks | null>;
+
+  /** Newest analyses of one symbol first (official revisions) */
+  getStockHistory(symbol: string, limit: number): Promise<StockHistoryRow[]>;
+
+  /** Official snapshots with timestamps in [startDate, endDate] (ISO), oldest first */
+  getSnapshotsByDateRange(startDate: string, endDate: string): Promise<StoredSnapshot[]>;
+
+  /** Stock analyses of official snapshots joined with their snapshot date and budget */
+  getStockAnalysesByDateRange(startDate: string, endDate: string): Promise<BenchmarkHistoryRow[]>;
+
+  /** Summary over official snapshots */
+  getStatistics(): Promise<HistoryStatistics>;
+
+  /** Most recent official snapshot with its stocks, or null if none */
+  getLatestSnapshot(): Promise<SnapshotWithStocks | null>;
+
+  /** Replace the archive for a snapshot */
+  saveMarketInputArchive(archive: MarketInputArchiveRecord): Promise<void>;
+
+  getMarketInputArchive(snapshotId: string): Promise<MarketInputArchiveRecord | null>;
+
+  /** Insert a ledger transaction and return its ID */
+  addTransaction(transaction: NewHoldingTransaction): Promise<string>;
+
+  /** Newest trade date first, optionally for one symbol */
+  getTransactions(symbol: string | undefined, limit: number): Promise<HoldingTransaction[]>;
+
+  /** Full ledger, oldest trade date first */
+  getAllTransactions(): Promise<HoldingTransaction[]>;
+
+  /** Replace the evaluation for the same date and strategy version */
+  saveShadowEvaluation(evaluation: ShadowEvaluation): Promise<void>;
+
+  /** Evaluations with timestamps in [startDate, endDate] (ISO), oldest first */
+  getShadowEvaluationsByDateRange(startDate: string, endDate: string, strategyId?: string): Promise<ShadowEvaluation[]>;
+
+  /** Insert a job run, or replace the stored one with the same runId */
+  saveJobRun(run: JobRunRecord): Promise<void>;
+
+  /** Newest job runs first (by start time) */
+  getJobRuns(limit: number): Promise<StoredJobRun[]>;
+
+  /** Job run by runId, or null */
+  getJobRun(runId: string): Promise<StoredJobRun | null>;
+}
+
+/**
+ * Per-stock raw inputs for one allocation run
+ */
+export interface StockMarketInput {
+  symbol: string;
+  marketData: MarketDataWithSource;
+  prices: number[];               // Daily closes, oldest to newest
+  bars?: PriceBar[];              // OHLCV bars behind prices (absent in backtests/older archives)
+  historySource: MarketDataSource;
+  historyCacheAgeHours?: number;  // Set when every provider failed and cached bars were used
+}
+
+/**
+ * Scoring options for building a report from market inputs
+ */
+export interface ReportBuildOptions {
+  blendConfidence?: boolean;      // Shrink multipliers toward 1.0x by data confidence (default true)
+  quiet?: boolean;                // Skip progress logging; failures are still logged (default false)
+}
+
+/**
+ * Raw market inputs gathered for one allocation run
+ * Separates fetching from scoring so the same inputs can be re-scored
+ */
+export interface MarketInputs {
+  date: Date;
+  vix: number;
+  vixSource: ProviderDataSource;
+  fearGreed: FearGreedResponse;
+  stocks: StockMarketInput[];
+}
+
+/**
+ * Everything needed to recompute a report exactly: the raw inputs plus
+ * the strategy, risk tolerance, base budget, data quality limits and
+ * confidence blending they were scored with
+ */
+export interface MarketInputArchive {
+  formatVersion: number;
+  inputs: MarketInputs;
+  strategy: StrategyDefinition;
+  riskTolerance: RiskTolerance;
+  baseBudget: number;
+  dataQuality?: DataQualityConfig; // Absent in format 1 archives
+  blendConfidence?: boolean;       // Absent in format 1 archives (live runs blended)
+}
+
+/**
+ * Dated price point (daily close or index value)
+ */
+export interface PricePoint {
+  date: string;                   // "YYYY-MM-DD"
+  close: number;
+}
+
+/**
+ * Daily OHLCV bar
+ * open/high/low are null when the source only has closes
+ */
+export interface PriceBar extends PricePoint {
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  volume: number;
+  adjClose?: number;              // Split- and dividend-adjusted close, when the source has one
+}
+
+/**
+ * Cached daily bars for one symbol (one JSON file per symbol)
+ */
+export interface CachedBarSeries {
+  symbol: string;
+  source: ProviderDataSource;     // Provider of the most recent refresh
+  from: string;                   // History is complete from this date ("YYYY-MM-DD")
+  updatedAt: string;              // ISO timestamp of the last successful refresh
+  bars: PriceBar[];               // Oldest first, one per date
+}
+
+/**
+ * Data source label of a real provider
+ */
+export type ProviderDataSource = Exclude<MarketDataSource, 'simulated'>;
+
+/**
+ * One link in the market data provider chain
+ *
+ * Providers THROW on any failure (missing symbol, bad response, empty
+ * range); MarketDataService catches and moves on to the next provider.
+ */
+export interface MarketDataProvider {
+  readonly source: ProviderDataSource;
+
+  /** Latest quote for a symbol */
+  fetchQuote(symbol: string): Promise<MarketDataWithSource>;
+
+  /** Latest quotes for several symbols in one request (optional); symbols without a quote are left out */
+  fetchQuotes?(symbols: string[]): Promise<MarketDataWithSource[]>;
+
+  /** Daily bars between two "YYYY-MM-DD" dates (inclusive), oldest first */
+  fetchDailyHistory(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]>;
+
+  /** Latest VIX level */
+  fetchVIX(): Promise<number>;
+
+  /** Symbol details, or null if the provider does not know the symbol (optional) */
+  lookupSymbol?(symbol: string): Promise<SymbolMetadata | null>;
+}
+
+/**
+ * What a provider knows about a symbol
+ * Local file providers only confirm a file exists, so their fields are null
+ */
+export interface SymbolMetadata {
+  symbol: string;                 // As requested (e.g. BRK.B)
+  name: string | null;            // Long or short name
+  exchange: string | null;        // e.g. "NasdaqGS", "NZX"
+  currency: string | null;        // e.g. "USD", "NZD"
+  quoteType: string | null;       // e.g. "EQUITY", "ETF", "INDEX"
+  source: ProviderDataSource;
+}
+
+/**
+ * Symbol check across the provider chain
+ * - 'recognized': a provider returned metadata
+ * - 'unrecognized': every provider that can look symbols up said it does not exist
+ * - 'unverified': no provider could answer (errors, or no lookup support)
+ */
+export interface SymbolLookup {
+  symbol: string;
+  status: 'recognized' | 'unrecognized' | 'unverified';
+  metadata: SymbolMetadata | null;
+}
+
+/**
+ * Symbol metadata as cached on disk
+ */
+export interface CachedSymbolMetadata extends SymbolMetadata {
+  fetchedAt: string;              // ISO time of the lookup
+}
+
+/**
+ * Requests made to one market data provider during a run
+ */
+export interface ProviderRequestStats {
+  provider: ProviderDataSource;
+  requests: number;               // Calls made (retries not counted)
+  retries: number;                // Retries after 429/5xx/network errors
+  failures: number;               // Calls that failed after any retries
+  avgLatencyMs: number;           // Per call, including retries and backoff
+  maxLatencyMs: number;
+}
+
+/**
+ * Historical series used to replay the strategy
+ * All series are ordered oldest to newest
+ */
+export interface BacktestMarketData {
+  prices: Record<string, PricePoint[]>;
+  vix: PricePoint[];
+  fearGreed?: PricePoint[];       // Missing/stale values trigger F&G fallback weights
+}
+
+/**
+ * Backtest run parameters
+ */
+export interface BacktestOptions {
+  startDate: string;              // "YYYY-MM-DD" (first decision week)
+  endDate: string;                // "YYYY-MM-DD" (valuation date)
+  symbols: string[];
+  weeklyInvestmentAmount: number;
+  blendConfidence?: boolean;      // Blend multipliers by data confidence like live runs (default false)
+  verbose?: boolean;              // Keep the engine's per-week progress logging (default false)
+}
+
+/**
+ * Single purchase made during a backtest week
+ */
+export interface BacktestPurchase {
+  symbol: string;
+  price: number;
+  amount: number;
+  baseAmount: number;             // Amount a flat 1.0x DCA would have invested
+  units: number;
+  cssScore: number;
+  multiplier: number;
+}
+
+/**
+ * One replayed week of the backtest
+ */
+export interface BacktestWeek {
+  date: string;
+  vix: number;
+  fearGreedIndex: number | null;
+  marketCSS: number;
+  totalAmount: number;
+  purchases: BacktestPurchase[];
+  totalInvested: number;          // Cumulative contributions after this week
+  portfolioValue: number;         // Value after this week's purchases
+}
+
+/**
+ * Accumulated position per symbol at the end of a backtest
+ */
+export interface BacktestPosition {
+  symbol: string;
+  units: number;
+  invested: number;
+  averageCost: number;
+  endingPrice: number;
+  endingValue: number;
+}
+
+/**
+ * Backtest result summary
+ */
+export interface BacktestResult {
+  startDate: string;
+  endDate: string;
+  weeks: number;
+  totalInvested: number;
+  endingValue: number;
+  totalReturnPercent: number;
+  irr: number | null;             // Annualized money-weighted return (%), null if unsolvable
+  maxDrawdownPercent: number;     // Time-weighted (contributions excluded)
+  confidenceBlended: boolean;     // Whether multipliers were shrunk by data confidence
+  averageConfidence: number;      // Mean data confidence over all purchases (0-1)
+  positions: BacktestPosition[];
+  weekly: BacktestWeek[];
+  benchmark: BenchmarkComparison; // CSS vs flat 1.0x DCA over the same weeks
+}
+
+/**
+ * One week's purchase of a symbol, as seen by the flat-DCA benchmark
+ */
+export interface BenchmarkPurchase {
+  date: string;
+  symbol: string;
+  price: number;
+  strategyAmount: number;         // What the CSS strategy invested
+  flatAmount: number;             // What flat 1.0x DCA would have invested
+}
+
+/**
+ * Stored stock analysis row joined with its snapshot (live history)
+ */
+export interface BenchmarkHistoryRow {
+  symbol: string;
+  price: number;
+  finalAmount: number;
+  snapshotDate: string;           // "YYYY-MM-DD"
+  baseBudget: number;
+}
+
+/**
+ * Accumulated result of one investing approach for one symbol
+ */
+export interface BenchmarkLeg {
+  units: number;
+  invested: number;
+  averageCost: number;
+  endingValue: number;
+}
+
+/**
+ * CSS vs flat DCA comparison for a single symbol
+ */
+export interface SymbolBenchmark {
+  symbol: string;
+  endingPrice: number;
+  strategy: BenchmarkLeg;
+  flatDCA: BenchmarkLeg;
+  unitsDifference: number;        // strategy - flat (positive = CSS accumulated more)
+  averageCostDifference: number;  // strategy - flat (negative = CSS bought cheaper)
+  endingValueDifference: number;  // strategy - flat
+}
+
+/**
+ * Full CSS vs flat DCA comparison
+ */
+export interface BenchmarkComparison {
+  startDate: string;
+  endDate: string;
+  weeks: number;
+  strategyInvested: number;
+  strategyEndingValue: number;
+  flatInvested: number;
+  flatEndingValue: number;
+  endingValueDifference: number;
+  symbols: SymbolBenchmark[];
+}
+
+/**
+ * Trade direction in the holdings ledger
+ */
+export type TransactionSide = 'BUY' | 'SELL';
+
+/**
+ * New holdings transaction (as submitted)
+ */
+export interface NewHoldingTransaction {
+  symbol: string;
+  date: string;                   // "YYYY-MM-DD" trade date
+  side: TransactionSide;
+  units: number;                  // Always positive
+  price: number;                  // Price per unit
+  fees: number;
+  snapshotId?: string;            // weeklySnapshots ID this trade executed
+  note?: string;
+}
+
+/**
+ * Stored holdings transaction
+ */
+export interface HoldingTransaction extends NewHoldingTransaction {
+  _id: string;
+  createdAt: string;
+}
+
+/**
+ * Position derived from the ledger (average cost method)
+ */
+export interface HoldingPosition {
+  symbol: string;
+  units: number;
+  costBasis: number;              // Remaining cost of held units, fees included
+  averageCost: number;            // costBasis / units
+  realizedGain: number;           // From sells, net of fees
+  totalFees: number;
+  transactionCount: number;
+  firstTradeDate: string;
+  lastTradeDate: string;
+}
+
+/**
+ * Position valued at a market price
+ */
+export interface ValuedHoldingPosition extends HoldingPosition {
+  price: number;
+  marketValue: number;
+  unrealizedGain: number;
+  weightPercent: number;          // Share of total portfolio market value
+  targetPercent: number;          // Base allocation target
+}
+
+/**
+ * Transaction save result
+ */
+export interface TransactionSaveResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+}
+
+/**
+ * Current vs target weight for one asset in a rebalancing check
+ */
+export interface RebalancePosition {
+  symbol: string;
+  marketValue: number;
+  currentPercent: number;
+  targetPercent: number;
+  thresholdPercent: number;       // Target × 1.5 (0 for untracked assets)
+  targetValue: number;
+  breached: boolean;
+}
+
+/**
+ * Proposed trade to restore target weights
+ */
+export interface RebalanceTrade {
+  symbol: string;
+  action: TransactionSide;
+  amount: number;                 // Dollar value to sell or buy
+  units: number | null;           // null when no price is available
+  price: number | null;
+}
+
+/**
+ * Annual rebalancing plan
+ */
+export interface RebalancePlan {
+  date: string;                   // "YYYY-MM-DD"
+  totalValue: number;
+  needsRebalance: boolean;
+  breaches: string[];             // Symbols above their threshold
+  estimatedPrices: string[];      // Symbols valued at average cost (no live quote)
+  positions: RebalancePosition[];
+  trades: RebalanceTrade[];
+}
+
+/**
+ * Emergency exit rule that can trip automatically
+ */
+export type EmergencyExitRule = 'MONTHLY_DROP' | 'CONCENTRATION';
+
+/**
+ * A tripped emergency exit rule
+ */
+export interface EmergencyExitTrigger {
+  symbol: string;
+  rule: EmergencyExitRule;
+  value: number;                  // Observed drop % or portfolio weight %
+  threshold: number;
+  reason: string;                 // Human-readable explanation
+  suggestedUnits: number | null;  // Units to sell (50% of holding), if held
+}
+
+/**
+ * Per-symbol inputs evaluated by the emergency monitor
+ */
+export interface EmergencyExitCheck {
+  symbol: string;
+  monthlyDropPercent: number | null;  // null when history is unavailable
+  weightPercent: number | null;       // null when holdings are unavailable
+}
+
+/**
+ * Result of a daily emergency exit check
+ */
+export interface EmergencyExitResult {
+  date: string;                   // "YYYY-MM-DD"
+  marketDropPercent: number | null;
+  marketCrash: boolean;
+  holdingsChecked: boolean;
+  checks: EmergencyExitCheck[];
+  triggers: EmergencyExitTrigger[];
+}
+
+/**
+ * One symbol's shadow allocation next to the live one from the same run
+ */
+export interface ShadowAllocation {
+  symbol: string;
+  cssScore: number;
+  multiplier: number;
+  amount: number;
+  liveCssScore: number | null;    // null if the live run skipped the symbol
+  liveAmount: number | null;
+}
+
+/**
+ * A shadow strategy scored on the same market inputs as a live run
+ * Recorded for comparison only; never emailed or acted on
+ */
+export interface ShadowEvaluation {
+  date: string;                   // "YYYY-MM-DD"
+  timestamp: string;              // Full ISO string of the live run
+  strategyId: string;
+  strategyVersion: string;
+  riskTolerance: RiskTolerance;
+  liveStrategyId: string;
+  liveStrategyVersion: string;
+  totalAmount: number;
+  liveTotalAmount: number;
+  marketCSS: number;
+  allocations: ShadowAllocation[];
+}
+
+/**
+ * Live vs shadow amounts for one run date
+ */
+export interface ShadowComparisonRow {
+  date: string;
+  liveTotal: number;
+  shadowTotal: number;
+  difference: number;             // shadow - live
+  symbols: {
+    symbol: string;
+    liveAmount: number | null;
+    shadowAmount: number;
+    liveCssScore: number | null;
+    shadowCssScore: number;
+  }[];
+}
+
+/**
+ * Live vs shadow amounts over time for one shadow strategy version
+ */
+export interface ShadowComparison {
+  strategyId: string;
+  strategyVersion: string;
+  runs: number;
+  liveTotal: number;
+  shadowTotal: number;
+  difference: number;             // shadow - live, summed over all runs
+  meanAbsoluteDifference: number; // Average |shadow - live| per run
+  rows: ShadowComparisonRow[];    // Oldest first
+}
+
+/**
+ * Result of saving shadow evaluations
+ */
+export interface ShadowSaveResult {
+  success: boolean;
+  saved: number;
+  error?: string;
+}
+
+/**
+ * What the optimiser ranks configurations by
+ * - excess-units: average % more units than flat DCA per dollar invested
+ *   (i.e. at the same total contribution)
+ * - irr: money-weighted annual return at the base strategy's total
+ *   contribution (a candidate's under- or over-investment is held as cash)
+ */
+export type OptimizationObjective = 'excess-units' | 'irr';
+
+/**
+ * Swept values for one parameter, smallest first
+ */
+export type ParameterRange = number[];
+
+/**
+ * Parameter grid for the optimiser
+ * Unswept weights/breakpoints keep the base strategy's values
+ */
+export interface OptimizationSpace {
+  weights: Partial<Record<keyof CSSWeightSet, ParameterRange>>;
+  breakpoints: ParameterRange[] | null; // One range per CSS → multiplier row except the last
+}
+
+/**
+ * One point in the parameter grid
+ */
+export interface OptimizationCandidate {
+  id: number;
+  weights: CSSWeightSet;
+  breakpoints: number[];          // maxCSS of each multiplier row except the last
+}
+
+/**
+ * Backtest metrics for one candidate over one date range
+ */
+export interface OptimizationScore {
+  score: number | null;           // Objective value (null if undefined, e.g. no IRR)
+  irr: number | null;
+  excessUnitsPercent: number;
+  totalInvested: number;
+  endingValue: number;
+  weeks: number;
+}
+
+/**
+ * A candidate with its full-range score and rank
+ */
+export interface RankedCandidate extends OptimizationCandidate, OptimizationScore {
+  rank: number;
+}
+
+/**
+ * One walk-forward split: pick the best candidate on `train`, score it on `test`
+ */
+export interface WalkForwardWindow {
+  trainStart: string;
+  trainEnd: string;
+  testStart: string;
+  testEnd: string;
+}
+
+/**
+ * A walk-forward window with its out-of-sample result
+ */
+export interface WalkForwardFold extends WalkForwardWindow {
+  bestCandidateId: number;
+  trainScore: number | null;
+  testScore: number | null;
+  baselineTestScore: number | null; // Base strategy on the same test window
+}
+
+/**
+ * Result of a grid search
+ */
+export interface OptimizationResult {
+  objective: OptimizationObjective;
+  startDate: string;
+  endDate: string;
+  symbols: string[];
+  riskTolerance: RiskTolerance;
+  baseStrategy: string;           // e.g. "CSS v4.3"
+  candidatesTested: number;
+  baseline: OptimizationScore;    // Base strategy over the full range
+  ranked: RankedCandidate[];      // Best first
+  walkForward: {
+    folds: WalkForwardFold[];
+    meanTestScore: number | null;
+    meanBaselineTestScore: number | null;
+  } | null;
+}
@@ -1,7 +1,10 @@
 import * as dotenv from 'dotenv';
+import * as fs from 'fs';
 import { z } from 'zod';
 import { Config } from '../types';
-import { BUDGET_CONSTRAINTS } from './multiplierThresholds';
+import { BUDGET_CONSTRAINTS, getBudgetRange } from './multiplierThresholds';
+import { DEFAULT_STRATEGY, formatStrategyLabel, loadStrategyFile } from './strategy';
+import { isValidSymbol, normalizeSymbol } from './symbols';
 
 // Load .env file once at module initialization
 dotenv.config();
@@ -33,7 +36,15 @@ dotenv.config();
 const DEFAULT_STOCKS = ['QQQ', 'GOOG', 'AIQ', 'TSLA', 'XLV', 'VXUS', 'TLT'];
 const DEFAULT_PORT = 3003;
 const DEFAULT_CRON_SCHEDULE = '0 20 * * 3'; // Wednesday at 8pm
+const DEFAULT_EMERGENCY_CRON_SCHEDULE = '0 18 * * *'; // Every day at 6pm
 const DEFAULT_TIMEZONE = 'Pacific/Auckland'; // NZST timezone
+const DEFAULT_MARKET_DATA_PROVIDERS = 'yahoo,yahoo-http'; // yahoo-finance2, then direct API calls
+const DEFAULT_MARKET_DATA_CACHE_DIR = './data/cache';
+const DEFAULT_MARKET_DATA_CONCURRENCY = 4;  // Requests in flight per provider
+const DEFAULT_MARKET_DATA_MAX_RETRIES = 3;  // Retries for 429/5xx/network errors
+const DEFAULT_MAX_SIMULATED_FRACTION = 0.5; // More than half simulated = base amounts only
+const DEFAULT_MAX_CACHE_AGE_HOURS = 72;     // Older cached history is stale
+const DEFAULT_DEAD_MAN_GRACE_HOURS = 3;     // Alert if the weekly run has not succeeded by then
 
 // ============================================================================
 // Zod Schema for Environment Variables
@@ -61,7 +72,8 @@ const envSchema = z.object({
     .string()
     .optional()
     .default(DEFAULT_STOCKS.join(','))
-    .transform(val => val.split(',').map(s => s.trim().toUpperCase()).filter(s => s.length > 0)),
+    .transform(val => val.split(',').map(normalizeSymbol).filter(s => s.length > 0))
+    .pipe(z.array(z.string().refine(isValidSymbol, 'DEFAULT_STOCKS contains an invalid symbol'))),
   RISK_TOLERANCE: z
     .enum(['conservative', 'moderate', 'aggressive'])
     .optional()
@@ -74,10 +86,99 @@ const envSchema = z.object({
     .default(String(DEFAULT_PORT))
     .transform(Number),
   CRON_SCHEDULE: z.string().optional().default(DEFAULT_CRON_SCHEDULE),
+  EMERGENCY_CRON_SCHEDULE: z.string().optional().default(DEFAULT_EMERGENCY_CRON_SCHEDULE),
   TIMEZONE: z.string().optional().default(DEFAULT_TIMEZONE),
+  // 'annotate' runs on schedule after an NYSE holiday, 'shift' waits for the next session's close
+  HOLIDAY_RUN_POLICY: z
+    .enum(['annotate', 'shift'])
+    .optional()
+    .default('annotate'),
 
   // Database Configuration (optional)
+  // sqlite:<path> for a local file, or a Convex deployment URL
+  DATABASE_URL: z
+    .string()
+    .optional()
+    .default('')
+    .refine(
+      val => val === '' || val.startsWith('sqlite:') || /^https?:\/\//.test(val),
+      'DATABASE_URL must be sqlite:<path> or a Convex deployment URL'
+    ),
+  // Legacy name for a Convex DATABASE_URL
   CONVEX_URL: z.string().optional().default(''),
+
+  // Strategy definition file (optional - JSON or YAML, built-in v4.3 if unset)
+  STRATEGY_FILE: z.string().optional().default(''),
+
+  // Shadow strategy files (optional - comma-separated, scored but never acted on)
+  SHADOW_STRATEGY_FILES: z
+    .string()
+    .optional()
+    .default('')
+    .transform(val => val.split(',').map(f => f.trim()).filter(f => f.length > 0)),
+
+  // Market data provider chain (optional - tried in order, simulated data last)
+  MARKET_DATA_PROVIDERS: z
+    .string()
+    .optional()
+    .default(DEFAULT_MARKET_DATA_PROVIDERS)
+    .transform(val => val.split(',').map(p => p.trim().toLowerCase()).filter(p => p.length > 0))
+    .pipe(z.array(z.enum(['yahoo', 'yahoo-http', 'csv', 'stooq'])).min(1, 'At least one market data provider is required')),
+  MARKET_DATA_CSV_DIR: z.string().optional().default(''),
+  MARKET_DATA_STOOQ_DIR: z.string().optional().default(''),
+  // Daily bar cache directory (set to empty to disable)
+  MARKET_DATA_CACHE_DIR: z.string().optional().default(DEFAULT_MARKET_DATA_CACHE_DIR),
+  // Request scheduling (per provider)
+  MARKET_DATA_CONCURRENCY: z
+    .string()
+    .optional()
+    .default(String(DEFAULT_MARKET_DATA_CONCURRENCY))
+    .transform(Number)
+    .pipe(z.number().int().min(1, 'MARKET_DATA_CONCURRENCY must be at least 1')),
+  MARKET_DATA_MAX_RETRIES: z
+    .string()
+    .optional()
+    .default(String(DEFAULT_MARKET_DATA_MAX_RETRIES))
+    .transform(Number)
+    .pipe(z.number().int().min(0, 'MARKET_DATA_MAX_RETRIES must be 0 or more')),
+  // 'latest' scores live prices while the market is open, 'last-close' only official closes
+  MARKET_DATA_QUOTE_POLICY: z
+    .enum(['latest', 'last-close'])
+    .optional()
+    .default('latest'),
+
+  // Data quality gate (optional with defaults)
+  DATA_QUALITY_MAX_SIMULATED_FRACTION: z
+    .string()
+    .optional()
+    .default(String(DEFAULT_MAX_SIMULATED_FRACTION))
+    .transform(Number)
+    .pipe(z.number().min(0, 'DATA_QUALITY_MAX_SIMULATED_FRACTION must be between 0 and 1').max(1, 'DATA_QUALITY_MAX_SIMULATED_FRACTION must be between 0 and 1')),
+  DATA_QUALITY_MAX_CACHE_AGE_HOURS: z
+    .string()
+    .optional()
+    .default(String(DEFAULT_MAX_CACHE_AGE_HOURS))
+    .transform(Number)
+    .pipe(z.number().positive('DATA_QUALITY_MAX_CACHE_AGE_HOURS must be positive')),
+
+  // Admin alerts (optional) - weekly job failures and missed runs
+  ADMIN_EMAIL: z
+    .string()
+    .optional()
+    .default('')
+    .transform(val => val.split(',').map(e => e.trim()).filter(e => e.includes('@'))),
+  ADMIN_WEBHOOK_URL: z
+    .string()
+    .optional()
+    .default('')
+    .refine(val => val === '' || /^https?:\/\//.test(val), 'ADMIN_WEBHOOK_URL must be an http(s) URL'),
+  // Hours after the scheduled time to wait for a successful run (0 = off)
+  DEAD_MAN_GRACE_HOURS: z
+    .string()
+    .optional()
+    .default(String(DEFAULT_DEAD_MAN_GRACE_HOURS))
+    .transform(Number)
+    .pipe(z.number().min(0, 'DEAD_MAN_GRACE_HOURS must be 0 or more')),
 });
 
 // ============================================================================
@@ -110,6 +211,38 @@ function loadAndValidateConfig(): Config {
 
   const env = result.data;
 
+  // Strategy file errors are fatal too: never score with a half-loaded definition
+  const strategy = env.STRATEGY_FILE ? loadStrategyFile(env.STRATEGY_FILE) : DEFAULT_STRATEGY;
+  const shadowStrategies = env.SHADOW_STRATEGY_FILES.map(file => loadStrategyFile(file));
+
+  // Shadow results are keyed by id/version, so each must be distinct from live and each other
+  const labels = [strategy, ...shadowStrategies].map(formatStrategyLabel);
+  const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+  if (duplicate) {
+    throw new Error(`Shadow strategy ${duplicate} has the same id and version as another configured strategy`);
+  }
+
+  // File-based providers need a readable directory up front, not a fallback on every fetch
+  const providerDirs = [
+    { provider: 'csv', name: 'MARKET_DATA_CSV_DIR', dir: env.MARKET_DATA_CSV_DIR },
+    { provider: 'stooq', name: 'MARKET_DATA_STOOQ_DIR', dir: env.MARKET_DATA_STOOQ_DIR },
+  ] as const;
+  for (const { provider, name, dir } of providerDirs) {
+    if (!env.MARKET_DATA_PROVIDERS.includes(provider)) continue;
+    if (!dir) {
+      throw new Error(`${name} is required when MARKET_DATA_PROVIDERS includes ${provider}`);
+    }
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`${name} is not a directory: ${dir}`);
+    }
+  }
+
+  // Budget floor/cap follow the selected risk profile
+  const { minBudget, maxBudget } = getBudgetRange(
+    env.WEEKLY_INVESTMENT_AMOUNT,
+    strategy.riskProfiles[env.RISK_TOLERANCE]
+  );
+
   // Build config object
   const config: Config = {
     smtp: {
@@ -124,16 +257,46 @@ function loadAndValidateConfig(): Config {
     riskTolerance: env.RISK_TOLERANCE,
     port: env.PORT,
     cronSchedule: env.CRON_SCHEDULE,
+    emergencyCronSchedule: env.EMERGENCY_CRON_SCHEDULE,
     timezone: env.TIMEZONE,
-    minBudget: BUDGET_CONSTRAINTS.MIN_BUDGET,
-    maxBudget: BUDGET_CONSTRAINTS.MAX_BUDGET,
-    convexUrl: env.CONVEX_URL,
+    holidayRunPolicy: env.HOLIDAY_RUN_POLICY,
+    minBudget,
+    maxBudget,
+    databaseUrl: env.DATABASE_URL || env.CONVEX_URL,
+    strategy,
+    shadowStrategies,
+    marketData: {
+      providers: env.MARKET_DATA_PROVIDERS,
+      csvDir: env.MARKET_DATA_CSV_DIR,
+      stooqDir: env.MARKET_DATA_STOOQ_DIR,
+      cacheDir: env.MARKET_DATA_CACHE_DIR,
+      concurrency: env.MARKET_DATA_CONCURRENCY,
+      maxRetries: env.MARKET_DATA_MAX_RETRIES,
+      quotePolicy: env.MARKET_DATA_QUOTE_POLICY,
+    },
+    dataQuality: {
+      maxSimulatedFraction: env.DATA_QUALITY_MAX_SIMULATED_FRACTION,
+      maxCacheAgeHours: env.DATA_QUALITY_MAX_CACHE_AGE_HOURS,
+    },
+    alerts: {
+      adminEmail: env.ADMIN_EMAIL,
+      webhookUrl: env.ADMIN_WEBHOOK_URL,
+      deadManGraceHours: env.DEAD_MAN_GRACE_HOURS,
+    },
   };
 
   // Log configuration summary (once)
   console.log('✅ Configuration loaded and validated');
-  if (!config.convexUrl) {
-    console.log('   ℹ️  Database features disabled (CONVEX_URL not set)');
+  console.log(`   📐 Strategy: ${formatStrategyLabel(strategy)}${env.STRATEGY_FILE ? ` (${env.STRATEGY_FILE})` : ' (built-in)'}`);
+  console.log(`   📡 Market data: ${env.MARKET_DATA_PROVIDERS.join(' → ')}${env.MARKET_DATA_CACHE_DIR ? ` (bar cache: ${env.MARKET_DATA_CACHE_DIR})` : ''}`);
+  if (shadowStrategies.length > 0) {
+    console.log(`   👥 Shadow strategies: ${shadowStrategies.map(formatStrategyLabel).join(', ')}`);
+  }
+  if (!config.databaseUrl) {
+    console.log('   ℹ️  Database features disabled (DATABASE_URL not set)');
+  }
+  if (config.alerts.adminEmail.length === 0 && !config.alerts.webhookUrl) {
+    console.log('   ℹ️  Admin alerts disabled (ADMIN_EMAIL / ADMIN_WEBHOOK_URL not set)');
   }
 
   return config;
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronTime, previousCronTime } from './cronSchedule';
+
+const WEEKLY = '0 20 * * 3';             // Wednesdays 8pm
+const AUCKLAND = 'Pacific/Auckland';
+
+describe('nextCronTime', () => {
+  it('should find the next weekly run in the schedule timezone', () => {
+    // Wed 5 Mar 2025 8pm NZDT (+13) = 07:00Z
+    expect(nextCronTime(WEEKLY, AUCKLAND, new Date('2025-03-04T12:00:00Z'))?.toISOString())
+      .toBe('2025-03-05T07:00:00.000Z');
+    // Strictly after: a run due now is the one a week later
+    expect(nextCronTime(WEEKLY, AUCKLAND, new Date('2025-03-05T07:00:00Z'))?.toISOString())
+      .toBe('2025-03-12T07:00:00.000Z');
+  });
+
+  it('should follow daylight saving changes', () => {
+    // NZDT ends Sun 6 Apr 2025: Wednesday 8pm is 08:00Z afterwards
+    expect(nextCronTime(WEEKLY, AUCKLAND, new Date('2025-04-03T00:00:00Z'))?.toISOString())
+      .toBe('2025-04-09T08:00:00.000Z');
+  });
+
+  it('should skip a wall-clock time the clocks jump over', () => {
+    // NZ clocks go 2:00 -> 3:00 on Sun 28 Sep 2025, so 2:30 only happens the next day
+    expect(nextCronTime('30 2 * * *', AUCKLAND, new Date('2025-09-27T12:00:00Z'))?.toISOString())
+      .toBe('2025-09-28T13:30:00.000Z');
+  });
+
+  it('should read lists, ranges, steps, names and seconds like node-cron', () => {
+    const after = new Date('2025-03-05T12:00:00Z');   // Wed, UTC
+
+    expect(nextCronTime('*/15 9-17 * * mon-fri', 'UTC', after)?.toISOString()).toBe('2025-03-05T12:15:00.000Z');
+    expect(nextCronTime('0 18 * * 1,5', 'UTC', after)?.toISOString()).toBe('2025-03-07T18:00:00.000Z');
+    expect(nextCronTime('0 0 1 jan *', 'UTC', after)?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(nextCronTime('30 0 0 * * 7', 'UTC', after)?.toISOString()).toBe('2025-03-09T00:00:30.000Z');
+    // Day of month and day of week must both match: the next Friday the 13th
+    expect(nextCronTime('0 9 13 * 5', 'UTC', after)?.toISOString()).toBe('2025-06-13T09:00:00.000Z');
+  });
+
+  it('should return null for schedules it cannot read or that never match', () => {
+    expect(nextCronTime('every wednesday', 'UTC', new Date())).toBeNull();
+    expect(nextCronTime('0 25 * * *', 'UTC', new Date())).toBeNull();
+    expect(nextCronTime('0 0 31 2 *', 'UTC', new Date())).toBeNull();
+  });
+});
+
+describe('previousCronTime', () => {
+  it('should find the latest run at or before a time', () => {
+    expect(previousCronTime(WEEKLY, AUCKLAND, new Date('2025-03-10T00:00:00Z'))?.toISOString())
+      .toBe('2025-03-05T07:00:00.000Z');
+    expect(previousCronTime(WEEKLY, AUCKLAND, new Date('2025-03-05T07:00:00Z'))?.toISOString())
+      .toBe('2025-03-05T07:00:00.000Z');
+    expect(previousCronTime(WEEKLY, AUCKLAND, new Date('2025-03-05T06:59:59Z'))?.toISOString())
+      .toBe('2025-02-26T07:00:00.000Z');
+  });
+
+  it('should pick the latest time on the same day', () => {
+    expect(previousCronTime('0 9,17 * * *', 'UTC', new Date('2025-03-05T18:00:00Z'))?.toISOString())
+      .toBe('2025-03-05T17:00:00.000Z');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Cron schedule times
+ *
+ * node-cron fires jobs but cannot say when a schedule is next (or was last)
+ * due. These helpers work that out for CRON_SCHEDULE in TIMEZONE, matching
+ * node-cron: 5 or 6 fields (optional seconds first), `*`, lists, ranges,
+ * steps, month and weekday names, 7 = Sunday, and day of month AND day of
+ * week must both match. A wall-clock time skipped by a DST change has no
+ * occurrence.
+ */
+
+/**
+ * Days searched for an occurrence before giving up (covers Feb 29 schedules)
+ */
+const SEARCH_DAYS = 4 * 366 + 1;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// One formatter per timezone (building one is slow next to using it)
+const formats = new Map<string, Intl.DateTimeFormat>();
+
+interface CronFields {
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+}
+
+/**
+ * First occurrence of a schedule strictly after `after`
+ *
+ * @returns The instant, or null if the schedule cannot be parsed or never matches
+ */
+export function nextCronTime(schedule: string, timezone: string, after: Date): Date | null {
+  return findCronTime(schedule, timezone, after, 1);
+}
+
+/**
+ * Latest occurrence of a schedule at or before `at`
+ *
+ * @returns The instant, or null if the schedule cannot be parsed or never matches
+ */
+export function previousCronTime(schedule: string, timezone: string, at: Date): Date | null {
+  return findCronTime(schedule, timezone, at, -1);
+}
+
+/**
+ * Walk calendar days in `timezone` from `from`'s date, checking each
+ * matching day's times in order
+ */
+function findCronTime(schedule: string, timezone: string, from: Date, direction: 1 | -1): Date | null {
+  const fields = parseSchedule(schedule);
+  if (!fields) return null;
+
+  const start = zonedParts(from, timezone);
+  const times = fields.hours.flatMap(hour => fields.minutes.flatMap(minute =>
+    fields.seconds.map(second => ({ hour, minute, second }))));
+  if (direction === -1) times.reverse();
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset * direction));
+    if (!fields.days.has(day.getUTCDate()) || !fields.months.has(day.getUTCMonth() + 1) ||
+        !fields.weekdays.has(day.getUTCDay())) {
+      continue;
+    }
+
+    for (const time of times) {
+      const instant = zonedTime(day, time.hour, time.minute, time.second, timezone);
+      if (!instant) continue;
+      if (direction === 1 ? instant.getTime() > from.getTime() : instant.getTime() <= from.getTime()) {
+        return instant;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a node-cron expression, or null if it is not one
+ */
+function parseSchedule(schedule: string): CronFields | null {
+  const parts = schedule.trim().split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) return null;
+  if (parts.length === 5) parts.unshift('0');
+
+  const [second, minute, hour, day, month, weekday] = parts;
+  const seconds = parseField(second, 0, 59);
+  const minutes = parseField(minute, 0, 59);
+  const hours = parseField(hour, 0, 23);
+  const days = parseField(day, 1, 31);
+  const months = parseField(replaceNames(month, MONTH_NAMES, 1), 1, 12);
+  const weekdays = parseField(replaceNames(weekday, WEEKDAY_NAMES, 0), 0, 7);
+  if (!seconds || !minutes || !hours || !days || !months || !weekdays) return null;
+
+  return {
+    seconds,
+    minutes,
+    hours,
+    days: new Set(days),
+    months: new Set(months),
+    weekdays: new Set(weekdays.map(d => d % 7)),
+  };
+}
+
+/**
+ * Values of one field ("*", "1,3", "1-5", "*\/15", "0-30/10"), sorted,
+ * or null if any part is invalid or out of range
+ */
+function parseField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const from = match[1] === '*' ? min : Number(match[2]);
+    const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (from < min || to > max || from > to || step < 1) return null;
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Replace month or weekday names ("jan", "Monday") with their numbers
+ */
+function replaceNames(field: string, names: string[], first: number): string {
+  return field.toLowerCase().replace(/[a-z]+/g, name => {
+    const index = names.indexOf(name.slice(0, 3));
+    return index === -1 ? name : String(index + first);
+  });
+}
+
+/**
+ * Wall-clock fields of `time` in a timezone
+ */
+function zonedParts(time: Date, timezone: string): {
+  year: number; month: number; day: number; hour: number; minute: number; second: number;
+} {
+  let format = formats.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    });
+    formats.set(timezone, format);
+  }
+
+  const parts = format.formatToParts(time);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: get('year'), month: get('month'), day: get('day'),
+    hour: get('hour'), minute: get('minute'), second: get('second'),
+  };
+}
+
+/**
+ * Instant of a wall-clock time on a day (UTC midnight of its date) in a
+ * timezone, or null if the clocks skip it
+ */
+function zonedTime(day: Date, hour: number, minute: number, second: number, timezone: string): Date | null {
+  const wallClock = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, minute, second);
+  const offsetAt = (time: number) => {
+    const local = zonedParts(new Date(time), timezone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - time;
+  };
+
+  // The offset at the wall-clock reading, then at the resulting instant (differs across a DST change)
+  const first = wallClock - offsetAt(wallClock);
+  for (const instant of [first, wallClock - offsetAt(first)]) {
+    if (instant + offsetAt(instant) === wallClock) {
+      return new Date(instant);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { blendMultiplier, calculateDataConfidence, DataConfidenceInput } from './dataConfidence';
+import { MarketDataWithSource, TechnicalIndicatorsWithSource } from '../types';
+
+const createInput = (overrides: Partial<DataConfidenceInput> = {}): DataConfidenceInput => ({
+  marketData: { dataSource: 'yahoo-finance2' } as MarketDataWithSource,
+  technicalIndicators: { dataSource: 'technicalindicators' } as TechnicalIndicatorsWithSource,
+  historySource: 'yahoo-finance2',
+  historyPoints: 150,
+  fearGreedFallback: false,
+  ...overrides,
+});
+
+describe('calculateDataConfidence', () => {
+  it('should fully trust primary sources with a full history', () => {
+    expect(calculateDataConfidence(createInput())).toEqual({ score: 1, reasons: [] });
+  });
+
+  it('should take a penalty off per degraded input', () => {
+    const confidence = calculateDataConfidence(createInput({
+      marketData: { dataSource: 'stooq' } as MarketDataWithSource,
+      technicalIndicators: { dataSource: 'custom-fallback' } as TechnicalIndicatorsWithSource,
+      historyCacheAgeHours: 12,
+      fearGreedFallback: true,
+    }));
+
+    expect(confidence).toEqual({
+      score: 0.55,
+      reasons: ['stooq files', 'custom indicators', 'cached history', 'F&G fallback'],
+    });
+  });
+
+  it('should penalise history too short for MA50 more than one too short for its slope', () => {
+    expect(calculateDataConfidence(createInput({ historyPoints: 99 })).score).toBe(0.8);
+    expect(calculateDataConfidence(createInput({ historyPoints: 30 }))).toEqual({
+      score: 0.6, reasons: ['30 days of history'],
+    });
+  });
+
+  it('should give simulated data no confidence', () => {
+    expect(calculateDataConfidence(createInput({ historySource: 'simulated' })).score).toBe(0);
+    expect(calculateDataConfidence(createInput({
+      marketData: { dataSource: 'simulated' } as MarketDataWithSource,
+    })).score).toBe(0);
+  });
+});
+
+describe('blendMultiplier', () => {
+  it('should interpolate between 1.0x and the CSS multiplier', () => {
+    expect(blendMultiplier(1.2, 1)).toBe(1.2);
+    expect(blendMultiplier(1.2, 0.5)).toBe(1.1);
+    expect(blendMultiplier(0.5, 0.8)).toBe(0.6);
+    expect(blendMultiplier(1.2, 0)).toBe(1);
+  });
+});
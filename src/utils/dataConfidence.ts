@@ -0,0 +1,90 @@
+/**
+ * Data Confidence
+ *
+ * Scores how far one asset's inputs can be trusted, from 1 (primary sources,
+ * full history) down to 0 (simulated), and blends its CSS multiplier toward
+ * a neutral 1.0x by that score:
+ *
+ *   blended = 1 + (multiplier - 1) × confidence
+ *
+ * Each degraded input takes a fixed penalty off 1.0 (CONFIDENCE_PENALTIES),
+ * so an axios-fallback quote on a full history still gets 90% of its tilt.
+ */
+
+import { DataConfidence, MarketDataSource, MarketDataWithSource, TechnicalIndicatorsWithSource } from '../types';
+
+/**
+ * Score taken off 1.0 per degraded input
+ */
+export const CONFIDENCE_PENALTIES = {
+  axiosFallback: 0.1,       // Quote via direct API after yahoo-finance2 failed
+  localFiles: 0.1,          // Quote from csv/stooq files, which may lag
+  customIndicators: 0.15,   // technicalindicators library failed
+  noMA50Slope: 0.2,         // < MA50_SLOPE_MIN_POINTS: slope is 0, no trend bonus
+  shortHistory: 0.4,        // < MA50_MIN_POINTS: MA50 itself is incomplete (instead of noMA50Slope)
+  cachedHistory: 0.1,       // Providers failed, history from the bar cache
+  fearGreedFallback: 0.1,   // F&G failed, weights redistributed
+} as const;
+
+/**
+ * History needed for a full MA50, and for an MA50 plus its 50-day slope
+ */
+export const MA50_MIN_POINTS = 50;
+export const MA50_SLOPE_MIN_POINTS = 100;
+
+/**
+ * Inputs behind one asset's CSS score
+ */
+export interface DataConfidenceInput {
+  marketData: MarketDataWithSource;
+  technicalIndicators: TechnicalIndicatorsWithSource;
+  historySource: MarketDataSource;
+  historyPoints: number;
+  historyCacheAgeHours?: number;
+  fearGreedFallback: boolean;
+}
+
+/**
+ * Score an asset's inputs (0-1, two decimals)
+ */
+export function calculateDataConfidence(input: DataConfidenceInput): DataConfidence {
+  if (input.marketData.dataSource === 'simulated' || input.historySource === 'simulated') {
+    return { score: 0, reasons: ['simulated data'] };
+  }
+
+  const penalties: Array<[number, string]> = [];
+
+  if (input.marketData.dataSource === 'axios-fallback') {
+    penalties.push([CONFIDENCE_PENALTIES.axiosFallback, 'axios fallback']);
+  } else if (input.marketData.dataSource === 'csv' || input.marketData.dataSource === 'stooq') {
+    penalties.push([CONFIDENCE_PENALTIES.localFiles, `${input.marketData.dataSource} files`]);
+  }
+  if (input.technicalIndicators.dataSource === 'custom-fallback') {
+    penalties.push([CONFIDENCE_PENALTIES.customIndicators, 'custom indicators']);
+  }
+  if (input.historyPoints < MA50_MIN_POINTS) {
+    penalties.push([CONFIDENCE_PENALTIES.shortHistory, `${input.historyPoints} days of history`]);
+  } else if (input.historyPoints < MA50_SLOPE_MIN_POINTS) {
+    penalties.push([CONFIDENCE_PENALTIES.noMA50Slope, 'no MA50 slope']);
+  }
+  if (input.historyCacheAgeHours !== undefined) {
+    penalties.push([CONFIDENCE_PENALTIES.cachedHistory, 'cached history']);
+  }
+  if (input.fearGreedFallback) {
+    penalties.push([CONFIDENCE_PENALTIES.fearGreedFallback, 'F&G fallback']);
+  }
+
+  const total = penalties.reduce((sum, [penalty]) => sum + penalty, 0);
+
+  return {
+    score: Math.max(0, Math.round((1 - total) * 100) / 100),
+    reasons: penalties.map(([, reason]) => reason),
+  };
+}
+
+/**
+ * Shrink a CSS multiplier toward 1.0x by a confidence score (two decimals)
+ */
+export function blendMultiplier(multiplier: number, confidence: number): number {
+  return Math.round((1 + (multiplier - 1) * confidence) * 100) / 100;
+}
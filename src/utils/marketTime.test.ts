@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { formatMarketTime, marketDate, marketTimeOn } from './marketTime';
+
+describe('marketTimeOn', () => {
+  it('should convert New York wall-clock time in summer and winter', () => {
+    expect(marketTimeOn('2026-07-15', 16).toISOString()).toBe('2026-07-15T20:00:00.000Z');
+    expect(marketTimeOn('2026-01-15', 16).toISOString()).toBe('2026-01-15T21:00:00.000Z');
+    expect(marketTimeOn('2026-01-15', 9, 30).toISOString()).toBe('2026-01-15T14:30:00.000Z');
+  });
+});
+
+describe('marketDate', () => {
+  it('should use the New York calendar date', () => {
+    // Saturday 8am in Auckland is still Friday evening in New York
+    expect(marketDate(new Date('2026-10-16T19:00:00Z'))).toBe('2026-10-16');
+    expect(marketDate(new Date('2026-10-17T03:59:00Z'))).toBe('2026-10-16');
+  });
+});
+
+describe('formatMarketTime', () => {
+  it('should label times in Eastern time', () => {
+    expect(formatMarketTime(new Date('2026-10-16T20:00:00Z'))).toBe('Fri, Oct 16, 4:00 PM ET');
+  });
+});
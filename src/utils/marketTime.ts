@@ -0,0 +1,63 @@
+/**
+ * US market time helpers
+ *
+ * Quotes are scored on NYSE/Nasdaq time regardless of where the job runs.
+ * Session and holiday rules live in utils/tradingCalendar.
+ */
+
+/**
+ * Exchange timezone for US-listed symbols
+ */
+export const MARKET_TIMEZONE = 'America/New_York';
+
+/**
+ * Wall-clock fields of `time` in the exchange timezone
+ */
+function marketParts(time: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: MARKET_TIMEZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(time);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Exchange calendar date ("YYYY-MM-DD") of an instant
+ */
+export function marketDate(time: Date): string {
+  const { year, month, day } = marketParts(time);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Instant of `hour:minute` exchange time on a "YYYY-MM-DD" date
+ */
+export function marketTimeOn(date: string, hour: number, minute = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Offset of the exchange timezone at that moment (EST -5h / EDT -4h)
+  const local = marketParts(new Date(wallClock));
+  const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - wallClock;
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Exchange-time label for reports, e.g. "Fri, Oct 16, 4:00 PM ET"
+ */
+export function formatMarketTime(time: Date): string {
+  return `${time.toLocaleString('en-US', {
+    timeZone: MARKET_TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })} ET`;
+}
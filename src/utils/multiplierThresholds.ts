@@ -1,12 +1,17 @@
 /**
- * CSS Strategy v4.2 Configuration
+ * CSS Strategy v4.3 Configuration
  * 
  * Composite Signal Score (CSS) system with 5 weighted indicators:
- * CSS = (VIX × 0.20) + (RSI × 0.25) + (BB × 0.15) + (MA50 × 0.20) + (F&G × 0.20)
+ * CSS = (VIX × 0.20) + (RSI × 0.30) + (BB × 0.15) + (MA50 × 0.20) + (F&G × 0.15)
+ *
+ * These constants form the built-in strategy definition (see utils/strategy.ts).
+ * Scoring weights and thresholds can be replaced at runtime via STRATEGY_FILE.
  */
 
+import { RiskProfile, RiskTolerance } from '../types';
+
 /**
- * Base Allocation Percentages per Asset (v4.2)
+ * Base Allocation Percentages per Asset (v4.3)
  * Total: 100%
  * 
  * Growth: 65% (QQQ + GOOG + AIQ + TSLA)
@@ -24,6 +29,43 @@ export const BASE_ALLOCATIONS: Record<string, number> = {
   'TLT': 15       // Hedge - Treasury bonds (flight-to-safety)
 } as const;
 
+/**
+ * Get base allocation percentage for a symbol
+ * Unknown assets get an equal share of the configured portfolio
+ */
+export function getBaseAllocationPercentage(symbol: string): number {
+  if (BASE_ALLOCATIONS[symbol]) {
+    return BASE_ALLOCATIONS[symbol];
+  }
+  return 100 / Object.keys(BASE_ALLOCATIONS).length;
+}
+
+/**
+ * Annual Rebalancing Rules (v4.3)
+ * Rebalance in January when any position exceeds its target by more than 50%
+ * e.g. QQQ target 25% → rebalance if > 37.5%
+ */
+export const REBALANCE_CONFIG = {
+  TRIGGER_RATIO: 1.5,     // Breach when weight > target × 1.5
+  MONTH: 1,               // January
+  WINDOW_DAYS: 7          // First weekly run of the month (days 1-7)
+} as const;
+
+/**
+ * Emergency Exit Triggers (v4.3)
+ * Sell 50% of GOOG or TSLA if a price-based or concentration-based rule trips.
+ * Event-driven triggers (CEO departure, fraud, product failure) need human judgement.
+ */
+export const EMERGENCY_EXIT_CONFIG = {
+  SYMBOLS: ['GOOG', 'TSLA'],
+  LOOKBACK_DAYS: 31,            // "Single month" window (calendar days)
+  MAX_MONTHLY_DROP: 40,         // Stock drops > 40% from its high in the window
+  MARKET_BENCHMARK: '^GSPC',    // Used to rule out a market-wide crash
+  MARKET_CRASH_DROP: 20,        // Benchmark drop >= 20% in the same window = market crash
+  MAX_POSITION_PERCENT: 25,     // Single position > 25% of total portfolio
+  SELL_FRACTION: 0.5            // Recommended sale on trigger
+} as const;
+
 /**
  * Asset Categories
  */
@@ -35,7 +77,7 @@ export const ASSET_CATEGORIES = {
 } as const;
 
 /**
- * Budget Constraints (v4.2)
+ * Budget Constraints (v4.3)
  */
 export const BUDGET_CONSTRAINTS = {
   MIN_MULTIPLIER: 0.5,    // Never invest less than 50% of base
@@ -79,7 +121,7 @@ export const CSS_WEIGHTS_FG_FALLBACK = {
  * Trend-aware scoring to prevent "catching falling knives"
  */
 export const MA50_SLOPE_CONFIG = {
-  // Lookback period for slope calculation (in days)
+  // Lookback period for slope calculation (in trading days - one close per session)
   LOOKBACK_DAYS: 50,
 
   // Slope thresholds (as decimal, e.g., 0.010 = 1.0%)
@@ -105,7 +147,7 @@ export const MA50_SLOPE_CONFIG = {
 } as const;
 
 /**
- * CSS to Multiplier Mapping (v4.2)
+ * CSS to Multiplier Mapping (v4.3)
  * Higher CSS = More fear/opportunity = Higher multiplier
  */
 export const CSS_TO_MULTIPLIER: Array<{ maxCSS: number; multiplier: number }> = [
@@ -117,6 +159,82 @@ export const CSS_TO_MULTIPLIER: Array<{ maxCSS: number; multiplier: number }> =
   { maxCSS: 100, multiplier: 1.2 }   // Extreme Fear - capped at max
 ];
 
+/**
+ * Risk Profiles (selected by RISK_TOLERANCE)
+ *
+ * Each profile is a coherent set of:
+ * - CSS → multiplier curve
+ * - Min/max multiplier (weekly budget floor and cap)
+ * - MA50 slope bonuses (how hard downtrends are penalized)
+ *
+ * Moderate is the v4.3 default and matches the constants above.
+ */
+export const RISK_PROFILES: Record<RiskTolerance, RiskProfile> = {
+  conservative: {
+    name: 'conservative',
+    minMultiplier: 0.6,
+    maxMultiplier: 1.1,
+    cssToMultiplier: [
+      { maxCSS: 20, multiplier: 0.6 },
+      { maxCSS: 35, multiplier: 0.7 },
+      { maxCSS: 50, multiplier: 0.85 },
+      { maxCSS: 60, multiplier: 1.0 },
+      { maxCSS: 75, multiplier: 1.1 },
+      { maxCSS: 100, multiplier: 1.1 }
+    ],
+    ma50SlopeBonus: {
+      strongUp: 10,
+      moderateUp: 5,
+      flat: 0,
+      moderateDown: -12,
+      strongDown: -20
+    }
+  },
+  moderate: {
+    name: 'moderate',
+    minMultiplier: BUDGET_CONSTRAINTS.MIN_MULTIPLIER,
+    maxMultiplier: BUDGET_CONSTRAINTS.MAX_MULTIPLIER,
+    cssToMultiplier: CSS_TO_MULTIPLIER,
+    ma50SlopeBonus: {
+      strongUp: MA50_SLOPE_CONFIG.BONUS_STRONG_UP,
+      moderateUp: MA50_SLOPE_CONFIG.BONUS_MODERATE_UP,
+      flat: MA50_SLOPE_CONFIG.BONUS_FLAT,
+      moderateDown: MA50_SLOPE_CONFIG.BONUS_MODERATE_DOWN,
+      strongDown: MA50_SLOPE_CONFIG.BONUS_STRONG_DOWN
+    }
+  },
+  aggressive: {
+    name: 'aggressive',
+    minMultiplier: 0.4,
+    maxMultiplier: 1.5,
+    cssToMultiplier: [
+      { maxCSS: 20, multiplier: 0.4 },
+      { maxCSS: 35, multiplier: 0.5 },
+      { maxCSS: 50, multiplier: 0.8 },
+      { maxCSS: 60, multiplier: 1.0 },
+      { maxCSS: 75, multiplier: 1.3 },
+      { maxCSS: 100, multiplier: 1.5 }
+    ],
+    ma50SlopeBonus: {
+      strongUp: 15,
+      moderateUp: 8,
+      flat: 0,
+      moderateDown: -5,
+      strongDown: -10
+    }
+  }
+};
+
+/**
+ * Weekly budget floor and cap for a base budget under a risk profile
+ */
+export function getBudgetRange(baseBudget: number, profile: RiskProfile): { minBudget: number; maxBudget: number } {
+  return {
+    minBudget: Math.round(baseBudget * profile.minMultiplier),
+    maxBudget: Math.round(baseBudget * profile.maxMultiplier)
+  };
+}
+
 /**
  * VIX Score Thresholds (0-100 scale)
  * Higher VIX = Higher score
@@ -181,8 +299,9 @@ export const FEAR_GREED_SCORE_THRESHOLDS: Array<{ maxFG: number; score: number }
 ];
 
 /**
- * History days needed for calculations
- * v4.3: Increased to 150 to ensure enough data for MA50 slope calculation
- * (need 50 days for MA50 + 50 days lookback for slope = 100 trading days minimum)
+ * Trading days of history needed for calculations
+ * Need 50 sessions for MA50 + 50 sessions lookback for slope = 100 minimum.
+ * Counted on the NYSE calendar (utils/tradingCalendar), so holiday-heavy
+ * windows are not a few sessions short as a fixed calendar span could be.
  */
-export const HISTORY_DAYS = 150; // ~100+ trading days for MA50 slope calculation
+export const HISTORY_TRADING_DAYS = 105; // 100 for MA50 slope + 5 spare
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { adjustPrices, detectSplits, matchSplitRatio } from './priceAdjustment';
+import { PriceBar } from '../types';
+
+const createBar = (close: number, adjClose?: number, volume: number = 1000): PriceBar => {
+  const bar: PriceBar = { date: '2025-01-02', open: close, high: close + 1, low: close - 1, close, volume };
+  if (adjClose !== undefined) bar.adjClose = adjClose;
+  return bar;
+};
+
+// Bars whose share volume scales with the split: `volumeAfter` from `splitIndex` on
+const createSeries = (closes: number[], splitIndex: number, volumeAfter: number): PriceBar[] =>
+  closes.map((close, i) => createBar(close, undefined, i < splitIndex ? 1000 : volumeAfter));
+
+describe('matchSplitRatio', () => {
+  it('should snap near-exact ratios to the split ratio', () => {
+    expect(matchSplitRatio(3.9)).toBe(4);
+    expect(matchSplitRatio(1 / 9.9)).toBe(0.1);
+  });
+
+  it('should ignore ordinary moves and 3:2-sized drops', () => {
+    expect(matchSplitRatio(1.1)).toBeNull();
+    expect(matchSplitRatio(1.5)).toBeNull();
+    expect(matchSplitRatio(0)).toBeNull();
+  });
+});
+
+describe('detectSplits', () => {
+  it('should find a forward split when volume scales with it', () => {
+    const closes = [...Array(10).fill(400), ...Array(10).fill(100.5)];
+    const volumes = closes.map((_, i) => (i < 10 ? 1000 : 4100));
+
+    expect(detectSplits(closes, volumes)).toEqual([{ index: 10, ratio: 4 }]);
+  });
+
+  it('should find a reverse split when volume shrinks with it', () => {
+    const closes = [...Array(10).fill(1), ...Array(10).fill(10.1)];
+    const volumes = closes.map((_, i) => (i < 10 ? 50000 : 5200));
+
+    expect(detectSplits(closes, volumes)).toEqual([{ index: 10, ratio: 0.1 }]);
+  });
+
+  it('should not treat a -50% day on the same share basis as a split', () => {
+    // Crash: one heavy day, then volume settles back near its usual level
+    const closes = [...Array(10).fill(200), ...Array(10).fill(100)];
+    const volumes = closes.map((_, i) => (i === 10 ? 6000 : i > 10 && i < 14 ? 1800 : 1100));
+
+    expect(detectSplits(closes, volumes)).toEqual([]);
+  });
+
+  it('should not adjust without volume to confirm', () => {
+    expect(detectSplits([400, 401, 100.5, 101, 100], [0, 0, 0, 0, 0])).toEqual([]);
+  });
+});
+
+describe('adjustPrices', () => {
+  it('should divide everything before a split by its ratio', () => {
+    const result = adjustPrices([], createSeries([200, 202, 202, 101, 100, 100], 3, 2000));
+
+    expect(result).toMatchObject({ prices: [100, 101, 101, 101, 100, 100], adjustment: 'split-adjusted', splitsDetected: 1 });
+    expect(result.bars?.[0]).toMatchObject({ open: 100, high: 100.5, low: 99.5, close: 100 });
+  });
+
+  it('should leave a genuine halving in the series', () => {
+    const closes = [...Array(10).fill(200), ...Array(10).fill(100)];
+    const bars = createSeries(closes, 10, 1100);
+
+    expect(adjustPrices([], bars)).toMatchObject({ prices: closes, adjustment: 'raw', splitsDetected: 0 });
+  });
+
+  it('should leave closes without bars as they are', () => {
+    expect(adjustPrices([200, 202, 101, 100])).toEqual({
+      prices: [200, 202, 101, 100], bars: undefined, adjustment: 'raw', splitsDetected: 0,
+    });
+  });
+
+  it('should scale open/high/low with adjusted closes', () => {
+    const result = adjustPrices([], [createBar(100, 50), createBar(50, 50)]);
+
+    expect(result.adjustment).toBe('adjclose');
+    expect(result.prices).toEqual([50, 50]);
+    expect(result.bars?.[0]).toMatchObject({ open: 50, high: 50.5, low: 49.5, close: 50 });
+  });
+
+  it('should ignore adjClose unless every bar has it', () => {
+    const result = adjustPrices([], [createBar(100), createBar(101, 100)]);
+
+    expect(result).toMatchObject({ prices: [100, 101], adjustment: 'raw', splitsDetected: 0 });
+  });
+
+  it('should not second-guess provider adjusted closes', () => {
+    // A -50% day in adjusted closes is a real move, even with heavy volume after it
+    const bars = [...Array(5).fill(200), ...Array(5).fill(100)]
+      .map((close, i) => createBar(close, close, i < 5 ? 1000 : 2000));
+
+    const result = adjustPrices([], bars);
+
+    expect(result).toMatchObject({ adjustment: 'adjclose', splitsDetected: 0 });
+    expect(result.prices[0]).toBe(200);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Price Adjustment
+ *
+ * Puts a daily price history on today's basis before indicators are
+ * calculated, so splits and dividends do not show up as price moves in
+ * MA50, MA50 slope, BB width or RSI.
+ *
+ * 1. If every bar has a provider-adjusted close (Yahoo `adjclose`, an
+ *    "Adj Close" CSV column), use it - bars are scaled by adjClose/close.
+ *    Nothing else is adjusted: the provider already knows its splits.
+ * 2. Otherwise look for split-like one-day jumps (close ratio within
+ *    SPLIT_TOLERANCE of a SPLIT_RATIOS value) and back-adjust everything
+ *    before the jump - but only when traded volume shifts by the same ratio
+ *    (see SPLIT_VOLUME_MIN_SHIFT). A genuine -50% day or a doubling keeps
+ *    volume on the same basis and is left in the series. Closes without
+ *    volume are never adjusted.
+ *
+ * Splits between a cached history and freshly fetched bars (cached closes
+ * on the old basis) are handled when the cache is merged, see
+ * `BarCacheService.merge`.
+ */
+
+import { PriceAdjustment, PriceBar } from '../types';
+
+/**
+ * Split ratios recognised as a one-day jump (reverse splits use the reciprocal)
+ * 3:2 is left out: a 33% one-day move is a plausible crash day
+ */
+export const SPLIT_RATIOS = [2, 3, 4, 5, 8, 10, 15, 20];
+
+/**
+ * How close a day-over-day close ratio must be to a split ratio (3%)
+ */
+export const SPLIT_TOLERANCE = 0.03;
+
+/**
+ * Sessions either side of a jump whose median volumes are compared
+ */
+export const SPLIT_VOLUME_WINDOW = 10;
+
+/**
+ * Share of the split ratio the median volume must shift by (either way)
+ * A 4:1 split needs volume to rise 3x-5.3x; a -50% crash day would need
+ * its next ten sessions to trade 1.5x-2.7x the shares throughout
+ */
+export const SPLIT_VOLUME_MIN_SHIFT = 0.75;
+
+/**
+ * Sessions with volume needed on each side of a jump to judge the shift
+ */
+const MIN_VOLUME_SESSIONS = 3;
+
+/**
+ * Split-like jump between `index - 1` and `index`
+ */
+export interface DetectedSplit {
+  index: number;
+  ratio: number;                  // Previous close / close, e.g. 4 for 4:1, 0.25 for 1:4
+}
+
+/**
+ * Price history on today's basis
+ */
+export interface AdjustedPrices {
+  prices: number[];
+  bars?: PriceBar[];              // Present when bars were given, scaled like prices
+  adjustment: PriceAdjustment;
+  splitsDetected: number;
+}
+
+/**
+ * Split ratio a price ratio matches, or null
+ *
+ * @param ratio - Old price / new price for the same shares
+ * @returns The exact ratio (e.g. 4 or 0.25), or null if not split-like
+ */
+export function matchSplitRatio(ratio: number): number | null {
+  if (!(ratio > 0)) return null;
+
+  const factor = ratio >= 1 ? ratio : 1 / ratio;
+  const match = SPLIT_RATIOS.find(r => Math.abs(factor / r - 1) <= SPLIT_TOLERANCE);
+  if (!match) return null;
+
+  return ratio >= 1 ? match : 1 / match;
+}
+
+/**
+ * Find split-like jumps in a close series that volume confirms
+ *
+ * @param closes - Daily closes, oldest to newest
+ * @param volumes - Traded volume for the same days (0 = unknown)
+ */
+export function detectSplits(closes: number[], volumes: number[]): DetectedSplit[] {
+  const splits: DetectedSplit[] = [];
+
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] <= 0 || closes[i] <= 0) continue;
+
+    const ratio = matchSplitRatio(closes[i - 1] / closes[i]);
+    if (ratio !== null && volumeConfirmsSplit(volumes, i, ratio)) {
+      splits.push({ index: i, ratio });
+    }
+  }
+
+  return splits;
+}
+
+/**
+ * Adjust a history for splits and dividends
+ *
+ * @param prices - Daily closes, oldest to newest
+ * @param bars - OHLCV bars for the same days (takes precedence over prices)
+ */
+export function adjustPrices(prices: number[], bars?: PriceBar[]): AdjustedPrices {
+  const series = bars && bars.length > 0 ? bars : undefined;
+
+  if (!series) {
+    return { prices, bars: undefined, adjustment: 'raw', splitsDetected: 0 };
+  }
+
+  if (series.every(bar => bar.adjClose !== undefined && bar.adjClose > 0)) {
+    const adjusted = series.map(bar => scaleBar(bar, (bar.adjClose ?? bar.close) / bar.close));
+    return { prices: adjusted.map(bar => bar.close), bars: adjusted, adjustment: 'adjclose', splitsDetected: 0 };
+  }
+
+  const closes = series.map(bar => bar.close);
+  const splits = detectSplits(closes, series.map(bar => bar.volume));
+
+  if (splits.length === 0) {
+    return { prices: closes, bars: series, adjustment: 'raw', splitsDetected: 0 };
+  }
+
+  // Walk back from today, dividing by each split ratio once it is passed
+  const factors = new Array<number>(closes.length).fill(1);
+  let factor = 1;
+  let next = splits.length - 1;
+  for (let i = closes.length - 1; i >= 0; i--) {
+    if (next >= 0 && splits[next].index === i + 1) {
+      factor /= splits[next].ratio;
+      next--;
+    }
+    factors[i] = factor;
+  }
+
+  return {
+    prices: closes.map((close, i) => close * factors[i]),
+    bars: series.map((bar, i) => scaleBar(bar, factors[i])),
+    adjustment: 'split-adjusted',
+    splitsDetected: splits.length,
+  };
+}
+
+/**
+ * Scale a bar's prices by a factor
+ */
+function scaleBar(bar: PriceBar, factor: number): PriceBar {
+  if (factor === 1) return bar;
+
+  return {
+    ...bar,
+    open: bar.open === null ? null : bar.open * factor,
+    high: bar.high === null ? null : bar.high * factor,
+    low: bar.low === null ? null : bar.low * factor,
+    close: bar.close * factor,
+  };
+}
+
+/**
+ * Whether median volume after a jump is `ratio` times the volume before it
+ * (more shares after a forward split, fewer after a reverse split)
+ */
+function volumeConfirmsSplit(volumes: number[], index: number, ratio: number): boolean {
+  const before = median(volumes.slice(Math.max(0, index - SPLIT_VOLUME_WINDOW), index).filter(v => v > 0));
+  const after = median(volumes.slice(index, index + SPLIT_VOLUME_WINDOW).filter(v => v > 0));
+  if (before === null || after === null) return false;
+
+  const shift = (after / before) / ratio;
+  return shift >= SPLIT_VOLUME_MIN_SHIFT && shift <= 1 / SPLIT_VOLUME_MIN_SHIFT;
+}
+
+/**
+ * Median of at least MIN_VOLUME_SESSIONS values, else null
+ */
+function median(values: number[]): number | null {
+  if (values.length < MIN_VOLUME_SESSIONS) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_STRATEGY,
+  loadStrategyFile,
+  parseStrategyDefinition,
+  serializeStrategy,
+  formatStrategyLabel
+} from './strategy';
+import { CSSService } from '../services/cssScoring';
+
+describe('Strategy definitions', () => {
+  const tempFiles: string[] = [];
+
+  const writeTemp = (name: string, content: string): string => {
+    const filePath = path.join(os.tmpdir(), `strategy-test-${process.pid}-${name}`);
+    fs.writeFileSync(filePath, content);
+    tempFiles.push(filePath);
+    return filePath;
+  };
+
+  afterEach(() => {
+    while (tempFiles.length > 0) {
+      fs.rmSync(tempFiles.pop()!, { force: true });
+    }
+  });
+
+  // ===========================================================================
+  // Built-in default
+  // ===========================================================================
+  describe('DEFAULT_STRATEGY', () => {
+    it('should be CSS v4.3 with weights summing to 1', () => {
+      const sum = Object.values(DEFAULT_STRATEGY.weights).reduce((a, b) => a + b, 0);
+      expect(formatStrategyLabel(DEFAULT_STRATEGY)).toBe('CSS v4.3');
+      expect(sum).toBeCloseTo(1, 6);
+    });
+
+    it('should match the shipped strategies/css-v4.3.yaml', () => {
+      const shipped = loadStrategyFile(path.join(__dirname, '../../strategies/css-v4.3.yaml'));
+      expect(shipped).toEqual(DEFAULT_STRATEGY);
+    });
+  });
+
+  // ===========================================================================
+  // Loading and validation
+  // ===========================================================================
+  describe('loadStrategyFile', () => {
+    it('should round-trip through JSON with open-ended rows as null', () => {
+      const json = JSON.stringify(serializeStrategy(DEFAULT_STRATEGY));
+      expect(json).toContain('"max":null');
+
+      const loaded = loadStrategyFile(writeTemp('roundtrip.json', json));
+      expect(loaded).toEqual(DEFAULT_STRATEGY);
+      expect(loaded.scoreTables.vix[loaded.scoreTables.vix.length - 1].max).toBe(Infinity);
+    });
+
+    it('should default risk profiles when omitted', () => {
+      const raw = serializeStrategy(DEFAULT_STRATEGY) as Record<string, unknown>;
+      const loaded = parseStrategyDefinition({ ...raw, riskProfiles: undefined, version: 5 });
+
+      expect(loaded.version).toBe('5');
+      expect(loaded.riskProfiles).toBe(DEFAULT_STRATEGY.riskProfiles);
+    });
+
+    it('should reject weights that do not sum to 1', () => {
+      const raw = serializeStrategy(DEFAULT_STRATEGY) as Record<string, unknown>;
+      expect(() => parseStrategyDefinition({ ...raw, weights: { ...DEFAULT_STRATEGY.weights, vix: 0.5 } }, 'bad.json'))
+        .toThrow(/bad\.json[\s\S]*weights: Weights must sum to 1\.0/);
+    });
+
+    it('should reject unordered score tables', () => {
+      const raw = serializeStrategy(DEFAULT_STRATEGY) as { scoreTables: Record<string, unknown> };
+      const invalid = {
+        ...raw,
+        scoreTables: { ...raw.scoreTables, rsi: [{ max: 50, score: 60 }, { max: 30, score: 100 }] },
+      };
+      expect(() => parseStrategyDefinition(invalid)).toThrow(/scoreTables\.rsi/);
+    });
+
+    it('should throw for a missing file', () => {
+      expect(() => loadStrategyFile('/nonexistent/strategy.yaml')).toThrow();
+    });
+  });
+
+  // ===========================================================================
+  // CSSService integration
+  // ===========================================================================
+  describe('CSSService with a custom strategy', () => {
+    it('should score with the strategy weights and tables', () => {
+      const rsiOnly = {
+        ...DEFAULT_STRATEGY,
+        version: '9.9',
+        weights: { vix: 0, rsi: 1, bbWidth: 0, ma50: 0, fearGreed: 0 },
+      };
+      const service = new CSSService(rsiOnly);
+      const indicators = {
+        rsi: 25, ma20: 100, ma50: 100, atr: 2, bbWidth: 20, ma50Slope: 0,
+        bollingerBands: { upper: 110, middle: 100, lower: 90 },
+      };
+
+      expect(service.calculateCSSBreakdown(15, 80, indicators, 100).totalCSS).toBe(100);
+      expect(service.getStrategy().version).toBe('9.9');
+    });
+  });
+});
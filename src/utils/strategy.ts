@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+import { RiskProfile, RiskTolerance, ScoreThreshold, StrategyDefinition } from '../types';
+import {
+  CSS_WEIGHTS,
+  CSS_WEIGHTS_FG_FALLBACK,
+  VIX_SCORE_THRESHOLDS,
+  RSI_SCORE_THRESHOLDS,
+  BB_WIDTH_SCORE_THRESHOLDS,
+  MA50_SCORE_THRESHOLDS,
+  FEAR_GREED_SCORE_THRESHOLDS,
+  MA50_SLOPE_CONFIG,
+  RISK_PROFILES
+} from './multiplierThresholds';
+
+/**
+ * Strategy Definitions
+ *
+ * A StrategyDefinition bundles every weight and threshold CSSService uses,
+ * tagged with an id and version that are recorded on each report/snapshot.
+ *
+ * - `DEFAULT_STRATEGY` is built from the constants in multiplierThresholds.ts
+ * - `loadStrategyFile()` reads a JSON or YAML file (STRATEGY_FILE)
+ *
+ * In files, open-ended score table rows use `max: null` (JSON has no Infinity).
+ */
+
+// ============================================================================
+// Built-in Default (CSS v4.3)
+// ============================================================================
+
+export const DEFAULT_STRATEGY: StrategyDefinition = {
+  id: 'CSS',
+  version: '4.3',
+  description: 'CSS v4.3 - 5 weighted indicators with MA50 slope filter',
+  weights: {
+    vix: CSS_WEIGHTS.VIX,
+    rsi: CSS_WEIGHTS.RSI,
+    bbWidth: CSS_WEIGHTS.BB_WIDTH,
+    ma50: CSS_WEIGHTS.MA50,
+    fearGreed: CSS_WEIGHTS.FEAR_GREED
+  },
+  fallbackWeights: {
+    vix: CSS_WEIGHTS_FG_FALLBACK.VIX,
+    rsi: CSS_WEIGHTS_FG_FALLBACK.RSI,
+    bbWidth: CSS_WEIGHTS_FG_FALLBACK.BB_WIDTH,
+    ma50: CSS_WEIGHTS_FG_FALLBACK.MA50,
+    fearGreed: CSS_WEIGHTS_FG_FALLBACK.FEAR_GREED
+  },
+  scoreTables: {
+    vix: VIX_SCORE_THRESHOLDS.map(t => ({ max: t.maxVIX, score: t.score })),
+    rsi: RSI_SCORE_THRESHOLDS.map(t => ({ max: t.maxRSI, score: t.score })),
+    bbWidth: BB_WIDTH_SCORE_THRESHOLDS.map(t => ({ max: t.maxWidth, score: t.score })),
+    ma50: MA50_SCORE_THRESHOLDS.map(t => ({ max: t.maxDeviation, score: t.score })),
+    fearGreed: FEAR_GREED_SCORE_THRESHOLDS.map(t => ({ max: t.maxFG, score: t.score }))
+  },
+  ma50Slope: {
+    strongUptrend: MA50_SLOPE_CONFIG.STRONG_UPTREND,
+    moderateUptrend: MA50_SLOPE_CONFIG.MODERATE_UPTREND,
+    flatThreshold: MA50_SLOPE_CONFIG.FLAT_THRESHOLD,
+    moderateDowntrend: MA50_SLOPE_CONFIG.MODERATE_DOWNTREND,
+    applyWhenDiscountBelow: MA50_SLOPE_CONFIG.APPLY_WHEN_DISCOUNT_BELOW,
+    minScore: MA50_SLOPE_CONFIG.MIN_SCORE,
+    maxScore: MA50_SLOPE_CONFIG.MAX_SCORE
+  },
+  riskProfiles: RISK_PROFILES
+};
+
+// ============================================================================
+// File Schema
+// ============================================================================
+
+const weightSetSchema = z.object({
+  vix: z.number().min(0).max(1),
+  rsi: z.number().min(0).max(1),
+  bbWidth: z.number().min(0).max(1),
+  ma50: z.number().min(0).max(1),
+  fearGreed: z.number().min(0).max(1),
+}).refine(
+  w => Math.abs(w.vix + w.rsi + w.bbWidth + w.ma50 + w.fearGreed - 1) < 0.001,
+  'Weights must sum to 1.0'
+);
+
+const scoreTableSchema = z
+  .array(z.object({
+    max: z.number().nullable().transform(v => v ?? Infinity),
+    score: z.number().min(0).max(100),
+  }))
+  .min(1, 'Score table must have at least one row')
+  .refine(
+    rows => rows.every((row, i) => i === 0 || row.max > rows[i - 1].max),
+    'Score table rows must be in ascending order of max'
+  );
+
+const riskProfileSchema = (name: RiskTolerance) => z.object({
+  minMultiplier: z.number().positive(),
+  maxMultiplier: z.number().positive(),
+  cssToMultiplier: z
+    .array(z.object({ maxCSS: z.number(), multiplier: z.number().positive() }))
+    .min(1, 'Multiplier curve must have at least one row'),
+  ma50SlopeBonus: z.object({
+    strongUp: z.number(),
+    moderateUp: z.number(),
+    flat: z.number(),
+    moderateDown: z.number(),
+    strongDown: z.number(),
+  }),
+})
+  .refine(p => p.minMultiplier <= p.maxMultiplier, 'minMultiplier cannot exceed maxMultiplier')
+  .transform((p): RiskProfile => ({ name, ...p }));
+
+export const strategyDefinitionSchema = z.object({
+  id: z.string().min(1, 'Strategy id is required'),
+  version: z.union([z.string(), z.number()]).transform(String),
+  description: z.string().optional(),
+  weights: weightSetSchema,
+  fallbackWeights: weightSetSchema,
+  scoreTables: z.object({
+    vix: scoreTableSchema,
+    rsi: scoreTableSchema,
+    bbWidth: scoreTableSchema,
+    ma50: scoreTableSchema,
+    fearGreed: scoreTableSchema,
+  }),
+  ma50Slope: z.object({
+    strongUptrend: z.number(),
+    moderateUptrend: z.number(),
+    flatThreshold: z.number(),
+    moderateDowntrend: z.number(),
+    applyWhenDiscountBelow: z.number(),
+    minScore: z.number().min(0).max(100),
+    maxScore: z.number().min(0).max(100),
+  }),
+  // Optional: defaults to the built-in profiles
+  riskProfiles: z.object({
+    conservative: riskProfileSchema('conservative'),
+    moderate: riskProfileSchema('moderate'),
+    aggressive: riskProfileSchema('aggressive'),
+  }).optional(),
+}).transform((s): StrategyDefinition => ({
+  ...s,
+  riskProfiles: s.riskProfiles ?? DEFAULT_STRATEGY.riskProfiles
+}));
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Validate a parsed strategy object
+ *
+ * @throws Error listing every invalid field
+ */
+export function parseStrategyDefinition(raw: unknown, source: string = 'strategy'): StrategyDefinition {
+  const result = strategyDefinitionSchema.safeParse(raw);
+
+  if (!result.success) {
+    const errors = result.error.issues
+      .map(issue => `  - ${issue.path.join('.')}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid strategy definition in ${source}:\n${errors}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load a strategy definition from a .json, .yaml or .yml file
+ *
+ * @throws Error if the file cannot be read, parsed or validated
+ */
+export function loadStrategyFile(filePath: string): StrategyDefinition {
+  const resolved = path.resolve(filePath);
+  const content = fs.readFileSync(resolved, 'utf-8');
+  const extension = path.extname(resolved).toLowerCase();
+
+  const raw = extension === '.yaml' || extension === '.yml'
+    ? yaml.load(content)
+    : JSON.parse(content);
+
+  return parseStrategyDefinition(raw, filePath);
+}
+
+/**
+ * Serialize a strategy for JSON output (Infinity → null)
+ */
+export function serializeStrategy(strategy: StrategyDefinition): unknown {
+  const serializeTable = (rows: ScoreThreshold[]) =>
+    rows.map(row => ({ max: isFinite(row.max) ? row.max : null, score: row.score }));
+
+  return {
+    ...strategy,
+    scoreTables: {
+      vix: serializeTable(strategy.scoreTables.vix),
+      rsi: serializeTable(strategy.scoreTables.rsi),
+      bbWidth: serializeTable(strategy.scoreTables.bbWidth),
+      ma50: serializeTable(strategy.scoreTables.ma50),
+      fearGreed: serializeTable(strategy.scoreTables.fearGreed),
+    },
+    riskProfiles: Object.fromEntries(
+      Object.entries(strategy.riskProfiles).map(([name, { name: _name, ...profile }]) => [name, profile])
+    )
+  };
+}
+
+/**
+ * Format strategy id and version for display (e.g. "CSS v4.3")
+ */
+export function formatStrategyLabel(strategy: Pick<StrategyDefinition, 'id' | 'version'>): string {
+  return `${strategy.id} v${strategy.version}`;
+}
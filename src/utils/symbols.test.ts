@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { isValidSymbol, normalizeSymbol, parseShareClass, toYahooSymbol } from './symbols';
+import { analyzeBodySchema } from './validation';
+
+describe('symbols', () => {
+  // ===========================================================================
+  // isValidSymbol() Tests
+  // ===========================================================================
+  describe('isValidSymbol', () => {
+    it.each(['QQQ', 'BRK.B', '^GSPC', 'FNZ.NZ', 'VAS.AX', 'BRK-B', 'NZDUSD=X', 'GC=F', '005930.KS'])(
+      'should accept %s',
+      symbol => {
+        expect(isValidSymbol(symbol)).toBe(true);
+      }
+    );
+
+    it.each(['', '.B', 'BRK.', 'BRK..B', 'GS^PC', 'QQQ QQQ', 'qqq', 'A'.repeat(21)])(
+      'should reject "%s"',
+      symbol => {
+        expect(isValidSymbol(symbol)).toBe(false);
+      }
+    );
+  });
+
+  // ===========================================================================
+  // Share class and provider spelling Tests
+  // ===========================================================================
+  describe('share classes', () => {
+    it('should parse single-letter A-C classes only', () => {
+      expect(parseShareClass('brk.b')).toEqual(['BRK', 'B']);
+      expect(parseShareClass('FNZ.NZ')).toBeNull();
+      expect(parseShareClass('VOD.L')).toBeNull();
+    });
+
+    it('should spell share classes with a dash for Yahoo', () => {
+      expect(toYahooSymbol('BRK.B')).toBe('BRK-B');
+      expect(toYahooSymbol('FNZ.NZ')).toBe('FNZ.NZ');
+      expect(toYahooSymbol('^gspc')).toBe('^GSPC');
+    });
+  });
+
+  // ===========================================================================
+  // Request schema Tests
+  // ===========================================================================
+  describe('analyzeBodySchema', () => {
+    it('should normalize dotted, suffixed and index symbols', () => {
+      const result = analyzeBodySchema.parse({ stocks: [' brk.b', 'fnz.nz', '^gspc'] });
+
+      expect(result.stocks).toEqual(['BRK.B', 'FNZ.NZ', '^GSPC']);
+    });
+
+    it('should reject malformed symbols', () => {
+      expect(analyzeBodySchema.safeParse({ stocks: ['QQQ', 'BRK..B'] }).success).toBe(false);
+      expect(analyzeBodySchema.safeParse({ stocks: [normalizeSymbol('  ')] }).success).toBe(false);
+    });
+  });
+});
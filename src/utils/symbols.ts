@@ -0,0 +1,54 @@
+/**
+ * Ticker symbol grammar and provider spellings
+ *
+ * Symbols are kept in Yahoo's style, uppercased:
+ * - plain and numeric tickers: QQQ, 005930
+ * - share classes: BRK.B (Yahoo spells it BRK-B, Stooq brk-b.us)
+ * - exchange suffixes: FNZ.NZ (NZX), VAS.AX (ASX), VOD.L (LSE)
+ * - indices: ^GSPC, ^VIX
+ * - currencies and futures: NZDUSD=X, GC=F
+ */
+
+/**
+ * Optional ^, then alphanumeric segments joined by ".", "-" or "="
+ */
+export const SYMBOL_PATTERN = /^\^?[A-Z0-9]+(?:[.\-=][A-Z0-9]+)*$/;
+
+export const MAX_SYMBOL_LENGTH = 20;
+
+/**
+ * US share class written with a dot (BRK.B, BF.A)
+ * Single-letter A-C suffixes are share classes, not exchanges (Yahoo's
+ * one-letter exchange suffixes are .L, .F, .V, .T and similar).
+ */
+const SHARE_CLASS_PATTERN = /^([A-Z0-9]+)\.([A-C])$/;
+
+/**
+ * Trimmed, uppercased symbol
+ */
+export function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+/**
+ * Whether a normalized symbol matches SYMBOL_PATTERN
+ */
+export function isValidSymbol(symbol: string): boolean {
+  return symbol.length <= MAX_SYMBOL_LENGTH && SYMBOL_PATTERN.test(symbol);
+}
+
+/**
+ * Share class as [base, class] (BRK.B → ['BRK', 'B']), or null
+ */
+export function parseShareClass(symbol: string): [string, string] | null {
+  const match = SHARE_CLASS_PATTERN.exec(symbol.toUpperCase());
+  return match ? [match[1], match[2]] : null;
+}
+
+/**
+ * Yahoo spelling of a symbol (share classes use a dash: BRK.B → BRK-B)
+ */
+export function toYahooSymbol(symbol: string): string {
+  const shareClass = parseShareClass(symbol);
+  return shareClass ? `${shareClass[0]}-${shareClass[1]}` : symbol.toUpperCase();
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHoliday,
+  getMarketCalendarStatus,
+  getMarketHolidays,
+  isEarlyClose,
+  isTradingDay,
+  lastOfficialClose,
+  marketCloseOn,
+  nextFreshRunTime,
+  subtractTradingDays,
+} from './tradingCalendar';
+
+describe('getMarketHolidays', () => {
+  it('should match the published NYSE 2025 calendar', () => {
+    expect(getMarketHolidays(2025).map(h => h.date)).toEqual([
+      '2025-01-01', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+      '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+    ]);
+  });
+
+  it('should observe weekend holidays on the nearest weekday', () => {
+    // 2026: July 4 is a Saturday; 2027: July 4 is a Sunday, June 19 and Dec 25 Saturdays
+    expect(getHoliday('2026-07-03')).toBe('Independence Day');
+    expect(getHoliday('2027-07-05')).toBe('Independence Day');
+    expect(getHoliday('2027-06-18')).toBe('Juneteenth');
+    expect(getHoliday('2027-12-24')).toBe('Christmas Day');
+  });
+
+  it('should not observe a Saturday New Year\'s Day', () => {
+    expect(getMarketHolidays(2022).some(h => h.name === "New Year's Day")).toBe(false);
+    expect(isTradingDay('2021-12-31')).toBe(true);
+  });
+
+  it('should follow Easter for Good Friday and skip Juneteenth before 2022', () => {
+    expect(getHoliday('2026-04-03')).toBe('Good Friday');
+    expect(getHoliday('2027-03-26')).toBe('Good Friday');
+    expect(getHoliday('2021-06-18')).toBeNull();
+  });
+});
+
+describe('isTradingDay', () => {
+  it('should exclude weekends and holidays', () => {
+    expect(isTradingDay('2026-01-16')).toBe(true);
+    expect(isTradingDay('2026-01-17')).toBe(false);
+    expect(isTradingDay('2026-01-19')).toBe(false);
+  });
+});
+
+describe('early closes', () => {
+  it('should close at 1:00 PM ET around Independence Day, Thanksgiving and Christmas', () => {
+    expect(isEarlyClose('2025-07-03')).toBe(true);
+    expect(isEarlyClose('2025-11-28')).toBe(true);
+    expect(isEarlyClose('2025-12-24')).toBe(true);
+    expect(marketCloseOn('2025-12-24').toISOString()).toBe('2025-12-24T18:00:00.000Z');
+  });
+
+  it('should not shorten a holiday or a Friday', () => {
+    // 2026-07-03 is the observed Independence Day, 2027-12-24 the observed Christmas
+    expect(isEarlyClose('2026-07-03')).toBe(false);
+    expect(isEarlyClose('2027-12-24')).toBe(false);
+    expect(marketCloseOn('2026-07-15').toISOString()).toBe('2026-07-15T20:00:00.000Z');
+  });
+});
+
+describe('lastOfficialClose', () => {
+  it('should return the same day close once the session has ended', () => {
+    expect(lastOfficialClose(new Date('2026-10-16T20:00:00Z'))).toEqual(new Date('2026-10-16T20:00:00Z'));
+  });
+
+  it('should return the previous close during the session', () => {
+    expect(lastOfficialClose(new Date('2026-10-16T17:30:00Z'))).toEqual(new Date('2026-10-15T20:00:00Z'));
+  });
+
+  it('should skip weekends and holidays', () => {
+    // Tuesday after MLK day, before the open
+    expect(lastOfficialClose(new Date('2026-01-20T08:00:00Z'))).toEqual(new Date('2026-01-16T21:00:00Z'));
+  });
+});
+
+describe('subtractTradingDays', () => {
+  it('should count sessions, not calendar days', () => {
+    expect(subtractTradingDays('2026-01-23', 5)).toBe('2026-01-15'); // MLK day skipped
+    expect(subtractTradingDays('2026-01-23', 0)).toBe('2026-01-23');
+  });
+});
+
+describe('getMarketCalendarStatus', () => {
+  it('should report sessions lost to a holiday since the last close', () => {
+    // Wednesday 8pm Auckland after July 4, 2023 (a Tuesday)
+    const status = getMarketCalendarStatus(new Date('2023-07-05T08:00:00Z'));
+
+    expect(status).toMatchObject({
+      marketDate: '2023-07-05',
+      lastSessionDate: '2023-07-03',
+      lastSessionClose: '2023-07-03T17:00:00.000Z',
+      missedSessions: [{ date: '2023-07-04', name: 'Independence Day' }],
+      holidayToday: null,
+      earlyCloseToday: false,
+    });
+  });
+
+  it('should not count a holiday whose session would not have closed yet', () => {
+    // Monday MLK day, 3am ET: Friday's close is the expected one
+    const status = getMarketCalendarStatus(new Date('2026-01-19T08:00:00Z'));
+
+    expect(status.missedSessions).toEqual([]);
+    expect(status.holidayToday).toBe('Martin Luther King Jr. Day');
+  });
+
+  it('should not flag an ordinary weekend', () => {
+    expect(getMarketCalendarStatus(new Date('2026-10-19T07:00:00Z')).missedSessions).toEqual([]);
+  });
+});
+
+describe('nextFreshRunTime', () => {
+  it('should shift a run by whole days until a session has closed', () => {
+    expect(nextFreshRunTime(new Date('2026-01-20T08:00:00Z'))).toEqual(new Date('2026-01-21T08:00:00Z'));
+  });
+});
@@ -0,0 +1,225 @@
+import { MarketCalendarStatus, MarketHoliday } from '../types';
+import { marketDate, marketTimeOn } from './marketTime';
+
+/**
+ * NYSE trading calendar
+ *
+ * Holidays and early closes are computed locally from the exchange's
+ * published rules - no network, no yearly table to maintain:
+ *
+ * - New Year's Day (a Saturday Jan 1 is not observed), Martin Luther King
+ *   Jr. Day, Washington's Birthday, Good Friday, Memorial Day, Juneteenth
+ *   (from 2022), Independence Day, Labor Day, Thanksgiving, Christmas
+ * - Saturday holidays close the Friday before, Sunday holidays the Monday after
+ * - 1:00 PM ET early close on July 3 and December 24 (Mon-Thu) and the day
+ *   after Thanksgiving
+ *
+ * One-off closures (national days of mourning, weather) are not covered.
+ */
+
+const CLOSE_HOUR = 16;          // 4:00 PM ET regular close
+const EARLY_CLOSE_HOUR = 13;    // 1:00 PM ET early close
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const holidayCache = new Map<number, MarketHoliday[]>();
+
+/**
+ * "YYYY-MM-DD" for a UTC year/month(1-12)/day
+ */
+function toDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date by whole days
+ */
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Day of week, 0 = Sunday
+ */
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekend(date: string): boolean {
+  const day = weekday(date);
+  return day === 0 || day === 6;
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, day: number, n: number): string {
+  if (n < 0) {
+    const last = toDate(year, month + 1, 0);
+    return addDays(last, -((weekday(last) - day + 7) % 7));
+  }
+  const first = toDate(year, month, 1);
+  return addDays(first, (day - weekday(first) + 7) % 7 + (n - 1) * 7);
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day);
+}
+
+/**
+ * Weekday a fixed-date holiday is observed on (Sat → Fri, Sun → Mon)
+ */
+function observed(date: string): string {
+  const day = weekday(date);
+  if (day === 6) return addDays(date, -1);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * NYSE full-day closures in a year, in date order
+ */
+export function getMarketHolidays(year: number): MarketHoliday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const newYear = toDate(year, 1, 1);
+  const holidays: MarketHoliday[] = [
+    // A Saturday New Year's Day would fall in the previous year - NYSE skips it
+    ...(weekday(newYear) === 6 ? [] : [{ date: observed(newYear), name: "New Year's Day" }]),
+    { date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 2, 1, 3), name: "Washington's Birthday" },
+    { date: addDays(easterSunday(year), -2), name: 'Good Friday' },
+    { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+    ...(year >= 2022 ? [{ date: observed(toDate(year, 6, 19)), name: 'Juneteenth' }] : []),
+    { date: observed(toDate(year, 7, 4)), name: 'Independence Day' },
+    { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+    { date: observed(toDate(year, 12, 25)), name: 'Christmas Day' },
+  ];
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * Holiday name if NYSE is closed on a weekday "YYYY-MM-DD", else null
+ */
+export function getHoliday(date: string): string | null {
+  return getMarketHolidays(Number(date.slice(0, 4))).find(h => h.date === date)?.name ?? null;
+}
+
+/**
+ * Whether NYSE has a regular or early-close session on a "YYYY-MM-DD" date
+ */
+export function isTradingDay(date: string): boolean {
+  return !isWeekend(date) && getHoliday(date) === null;
+}
+
+/**
+ * Whether a trading day closes at 1:00 PM ET
+ */
+export function isEarlyClose(date: string): boolean {
+  if (!isTradingDay(date)) return false;
+
+  const year = Number(date.slice(0, 4));
+  const dayAfterThanksgiving = addDays(nthWeekday(year, 11, 4, 4), 1);
+  const monthDay = date.slice(5);
+  return date === dayAfterThanksgiving ||
+    ((monthDay === '07-03' || monthDay === '12-24') && weekday(date) <= 4);
+}
+
+/**
+ * Session close on a trading day: 4:00 PM ET, or 1:00 PM ET on early closes
+ */
+export function marketCloseOn(date: string): Date {
+  return marketTimeOn(date, isEarlyClose(date) ? EARLY_CLOSE_HOUR : CLOSE_HOUR);
+}
+
+/**
+ * Most recent session close at or before `time`
+ */
+export function lastOfficialClose(time: Date): Date {
+  let date = marketDate(time);
+  for (;;) {
+    if (isTradingDay(date)) {
+      const close = marketCloseOn(date);
+      if (close.getTime() <= time.getTime()) {
+        return close;
+      }
+    }
+    date = addDays(date, -1);
+  }
+}
+
+/**
+ * The trading day `sessions` sessions before a "YYYY-MM-DD" date
+ * e.g. 50 sessions before a Wednesday is 10 weeks back plus any holidays
+ */
+export function subtractTradingDays(date: string, sessions: number): string {
+  let result = date;
+  for (let remaining = sessions; remaining > 0;) {
+    result = addDays(result, -1);
+    if (isTradingDay(result)) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Calendar position of a run: which session's close it scores and
+ * which expected sessions were lost to holidays since then
+ */
+export function getMarketCalendarStatus(time: Date): MarketCalendarStatus {
+  const today = marketDate(time);
+  const lastClose = lastOfficialClose(time);
+  const lastSessionDate = marketDate(lastClose);
+
+  // Weekday holidays after the last session whose close would already have passed
+  const missedSessions: MarketHoliday[] = [];
+  for (let date = addDays(lastSessionDate, 1); date <= today; date = addDays(date, 1)) {
+    const name = getHoliday(date);
+    if (name && marketTimeOn(date, CLOSE_HOUR).getTime() <= time.getTime()) {
+      missedSessions.push({ date, name });
+    }
+  }
+
+  return {
+    marketDate: today,
+    lastSessionDate,
+    lastSessionClose: lastClose.toISOString(),
+    missedSessions,
+    holidayToday: getHoliday(today),
+    earlyCloseToday: isEarlyClose(today)
+  };
+}
+
+/**
+ * First time after `time`, in whole days, when the latest close is not
+ * behind a holiday - where a shifted scheduled run goes
+ */
+export function nextFreshRunTime(time: Date): Date {
+  let next = new Date(time.getTime() + DAY_MS);
+  while (getMarketCalendarStatus(next).missedSessions.length > 0) {
+    next = new Date(next.getTime() + DAY_MS);
+  }
+  return next;
+}
@@ -1,16 +1,21 @@
 import { z } from 'zod';
+import { strategyDefinitionSchema } from './strategy';
+import { MAX_SYMBOL_LENGTH, normalizeSymbol, SYMBOL_PATTERN } from './symbols';
 
 /**
  * Validation schemas for API request parameters
  */
 
 // Flexible stock symbol that accepts lowercase and transforms to uppercase
+// e.g. qqq, BRK.B, ^GSPC, FNZ.NZ, NZDUSD=X (see utils/symbols)
 const flexibleStockSymbolSchema = z
   .string()
-  .min(1, 'Stock symbol cannot be empty')
-  .max(10, 'Stock symbol too long')
-  .regex(/^[A-Za-z]+$/, 'Stock symbol must be letters only')
-  .transform(val => val.toUpperCase());
+  .transform(normalizeSymbol)
+  .pipe(z
+    .string()
+    .min(1, 'Stock symbol cannot be empty')
+    .max(MAX_SYMBOL_LENGTH, 'Stock symbol too long')
+    .regex(SYMBOL_PATTERN, 'Stock symbol must be letters and digits, optionally with a ^ prefix or ./-/= suffixes (e.g. BRK.B, ^GSPC, FNZ.NZ)'));
 
 /**
  * POST /api/analyze request body schema
@@ -26,8 +31,10 @@ export const analyzeBodySchema = z.object({
     .min(1, 'At least one stock is required')
     .max(20, 'Cannot analyze more than 20 stocks')
     .optional(),
+  riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
   sendEmail: z.boolean().optional(),
   saveToDatabase: z.boolean().optional(),
+  trigger: z.enum(['manual', 'api']).optional(),
 });
 
 export type AnalyzeBody = z.infer<typeof analyzeBodySchema>;
@@ -47,6 +54,33 @@ export const historyQuerySchema = z.object({
 
 export type HistoryQuery = z.infer<typeof historyQuerySchema>;
 
+/**
+ * GET /api/jobs query params schema
+ */
+export const jobsQuerySchema = z.object({
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(Number)
+    .pipe(z.number().min(1, 'Limit must be at least 1').max(1000, 'Limit cannot exceed 1000'))
+    .optional()
+    .default(20),
+});
+
+export type JobsQuery = z.infer<typeof jobsQuerySchema>;
+
+/**
+ * GET /api/jobs/:id params schema (the run's runId)
+ */
+export const jobParamSchema = z.object({
+  id: z
+    .string()
+    .min(1, 'Run ID cannot be empty')
+    .max(100, 'Run ID too long'),
+});
+
+export type JobParam = z.infer<typeof jobParamSchema>;
+
 /**
  * GET /api/history/stock/:symbol params schema
  */
@@ -83,6 +117,22 @@ export const snapshotParamSchema = z.object({
 
 export type SnapshotParam = z.infer<typeof snapshotParamSchema>;
 
+/**
+ * POST /api/history/snapshot/:id/recompute request body schema
+ * All fields default to what the snapshot was originally scored with
+ */
+export const recomputeBodySchema = z.object({
+  strategy: strategyDefinitionSchema.optional(),
+  riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
+  investmentAmount: z
+    .number()
+    .min(50, 'Investment amount must be at least $50')
+    .max(10000, 'Investment amount cannot exceed $10,000')
+    .optional(),
+});
+
+export type RecomputeBody = z.infer<typeof recomputeBodySchema>;
+
 /**
  * Maximum years in the past for date range queries
  */
@@ -131,6 +181,141 @@ export const dateRangeQuerySchema = z.object({
 
 export type DateRangeQuery = z.infer<typeof dateRangeQuerySchema>;
 
+/**
+ * GET /api/history/shadow query params schema
+ * Date range plus an optional shadow strategy id filter
+ */
+export const shadowHistoryQuerySchema = dateRangeQuerySchema.and(z.object({
+  strategy: z.string().min(1, 'Strategy id cannot be empty').optional(),
+}));
+
+export type ShadowHistoryQuery = z.infer<typeof shadowHistoryQuerySchema>;
+
+/**
+ * Maximum span of a backtest in years
+ */
+const MAX_BACKTEST_YEARS = 20;
+
+// Calendar date in YYYY-MM-DD format
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(
+    (val) => !isNaN(Date.parse(val)),
+    'Date must be a valid calendar date'
+  );
+
+/**
+ * GET /api/history/revisions/:date params schema
+ */
+export const revisionsParamSchema = z.object({
+  date: isoDateSchema,
+});
+
+export type RevisionsParam = z.infer<typeof revisionsParamSchema>;
+
+const pricePointSchema = z.object({
+  date: isoDateSchema,
+  close: z.number().positive('Close must be positive'),
+});
+
+/**
+ * POST /api/backtest request body schema
+ * Historical data may be supplied inline; otherwise it is fetched
+ */
+export const backtestBodySchema = z.object({
+  startDate: isoDateSchema,
+  endDate: isoDateSchema.refine(
+    (val) => new Date(val) <= new Date(),
+    'End date cannot be in the future'
+  ),
+  investmentAmount: z
+    .number()
+    .min(50, 'Investment amount must be at least $50')
+    .max(10000, 'Investment amount cannot exceed $10,000')
+    .optional(),
+  stocks: z
+    .array(flexibleStockSymbolSchema)
+    .min(1, 'At least one stock is required')
+    .max(20, 'Cannot backtest more than 20 stocks')
+    .optional(),
+  data: z.object({
+    prices: z.record(z.string(), z.array(pricePointSchema)),
+    vix: z.array(pricePointSchema).min(1, 'VIX history is required'),
+    fearGreed: z
+      .array(z.object({
+        date: isoDateSchema,
+        close: z.number().min(0).max(100),
+      }))
+      .optional(),
+  }).optional(),
+  blendConfidence: z.boolean().optional(),
+}).refine(
+  (data) => new Date(data.startDate) < new Date(data.endDate),
+  { message: 'Start date must be before end date', path: ['startDate'] }
+).refine(
+  (data) => {
+    const maxStart = new Date(data.endDate);
+    maxStart.setFullYear(maxStart.getFullYear() - MAX_BACKTEST_YEARS);
+    return new Date(data.startDate) >= maxStart;
+  },
+  { message: `Backtest cannot span more than ${MAX_BACKTEST_YEARS} years`, path: ['startDate'] }
+);
+
+export type BacktestBody = z.infer<typeof backtestBodySchema>;
+
+/**
+ * POST /api/holdings/transactions request body schema
+ */
+export const transactionBodySchema = z.object({
+  symbol: flexibleStockSymbolSchema,
+  date: isoDateSchema.refine(
+    (val) => new Date(val) <= new Date(),
+    'Trade date cannot be in the future'
+  ),
+  side: z.enum(['BUY', 'SELL']).optional().default('BUY'),
+  units: z.number().positive('Units must be positive'),
+  price: z.number().positive('Price must be positive'),
+  fees: z.number().min(0, 'Fees cannot be negative').optional().default(0),
+  snapshotId: z
+    .string()
+    .min(1, 'Snapshot ID cannot be empty')
+    .max(100, 'Snapshot ID too long')
+    .optional(),
+  note: z.string().max(200, 'Note cannot exceed 200 characters').optional(),
+});
+
+export type TransactionBody = z.infer<typeof transactionBodySchema>;
+
+/**
+ * GET /api/holdings/transactions query params schema
+ */
+export const transactionsQuerySchema = z.object({
+  symbol: flexibleStockSymbolSchema.optional(),
+  limit: z
+    .string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .transform(Number)
+    .pipe(z.number().min(1, 'Limit must be at least 1').max(1000, 'Limit cannot exceed 1000'))
+    .optional()
+    .default(100),
+});
+
+export type TransactionsQuery = z.infer<typeof transactionsQuerySchema>;
+
+/**
+ * GET /api/holdings/positions query params schema
+ */
+export const positionsQuerySchema = z.object({
+  value: z
+    .enum(['true', 'false'])
+    .transform(val => val === 'true')
+    .optional()
+    .default(false),
+});
+
+export type PositionsQuery = z.infer<typeof positionsQuerySchema>;
+
 /**
  * Format Zod errors into a user-friendly object
  * Compatible with Zod v4 $ZodError